@@ -35,6 +35,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpGet("roles")]
     [Authorize(Policy = "Permission:roles.read")]
+    [ProducesResponseType<ServiceResponse<List<RoleDto>>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetRoles()
     {
         var result = await _mediator.Send(new GetRolesQuery());
@@ -46,6 +47,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpGet("roles/{id}")]
     [Authorize(Policy = "Permission:roles.read")]
+    [ProducesResponseType<ServiceResponse<RoleDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetRole(Guid id)
     {
         var result = await _mediator.Send(new GetRoleByIdQuery(id));
@@ -58,6 +60,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpGet("permissions")]
     [Authorize(Policy = "Permission:roles.read")]
+    [ProducesResponseType<ServiceResponse<Dictionary<string, List<PermissionDto>>>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetAllPermissions()
     {
         var result = await _mediator.Send(new GetAllPermissionsQuery());
@@ -69,6 +72,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpPost("roles")]
     [Authorize(Policy = "Permission:roles.create")]
+    [ProducesResponseType<ServiceResponse<RoleDto>>(StatusCodes.Status201Created)]
     public async Task<IActionResult> CreateRole([FromBody] CreateRoleDto dto)
     {
         var result = await _mediator.Send(new CreateRoleCommand(dto.Name, dto.Description, dto.Permissions));
@@ -81,6 +85,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpPut("roles/{id}")]
     [Authorize(Policy = "Permission:roles.update")]
+    [ProducesResponseType<ServiceResponse<RoleDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> UpdateRole(Guid id, [FromBody] UpdateRoleDto dto)
     {
         var result = await _mediator.Send(new UpdateRoleCommand(id, dto.Name, dto.Description, dto.Permissions));
@@ -93,6 +98,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpDelete("roles/{id}")]
     [Authorize(Policy = "Permission:roles.delete")]
+    [ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
     public async Task<IActionResult> DeleteRole(Guid id)
     {
         var result = await _mediator.Send(new DeleteRoleCommand(id));
@@ -109,6 +115,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpGet("users")]
     [Authorize(Policy = "Permission:users.read")]
+    [ProducesResponseType<ServiceResponse<List<AdminUserDto>>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetUsers()
     {
         var result = await _mediator.Send(new GetAdminUsersQuery());
@@ -120,6 +127,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpPut("users/{id}/roles")]
     [Authorize(Policy = "Permission:users.update")]
+    [ProducesResponseType<ServiceResponse<AdminUserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> AssignUserRoles(Guid id, [FromBody] AssignUserRolesDto dto)
     {
         var result = await _mediator.Send(new AssignUserRolesCommand(id, dto.Roles));
@@ -132,6 +140,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpPost("users/{id}/lock")]
     [Authorize(Policy = "Permission:users.update")]
+    [ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
     public async Task<IActionResult> LockUser(Guid id, [FromBody] LockUserDto? dto = null)
     {
         var result = await _mediator.Send(new LockUserCommand(id, true, dto?.LockUntil));
@@ -144,6 +153,7 @@ public class AdminController : ControllerBase
     /// </summary>
     [HttpPost("users/{id}/unlock")]
     [Authorize(Policy = "Permission:users.update")]
+    [ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
     public async Task<IActionResult> UnlockUser(Guid id)
     {
         var result = await _mediator.Send(new LockUserCommand(id, false));
@@ -25,6 +25,7 @@ public class AttributeDefinitionsController : ControllerBase
 	[HttpGet]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "AttributeDefinitions")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<AttributeDefinitionDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetAll([FromQuery] bool includeInactive = false)
 	{
 		var result = await _mediator.Send(new GetAllAttributeDefinitionsQuery(includeInactive));
@@ -40,6 +41,7 @@ public class AttributeDefinitionsController : ControllerBase
 	/// </summary>
 	[HttpPost]
 	[Authorize(Policy = "Permission:manage_catalog")]
+	[ProducesResponseType<ServiceResponse<Guid>>(StatusCodes.Status201Created)]
 	public async Task<IActionResult> Create([FromBody] CreateAttributeDefinitionRequest request)
 	{
 		var command = new CreateAttributeDefinitionCommand(
@@ -67,6 +69,7 @@ public class AttributeDefinitionsController : ControllerBase
 	/// </summary>
 	[HttpPut("{id:guid}")]
 	[Authorize(Policy = "Permission:manage_catalog")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Update(Guid id, [FromBody] UpdateAttributeDefinitionRequest request)
 	{
 		var command = new UpdateAttributeDefinitionCommand(
@@ -94,6 +97,7 @@ public class AttributeDefinitionsController : ControllerBase
 	/// </summary>
 	[HttpDelete("{id:guid}")]
 	[Authorize(Policy = "Permission:manage_catalog")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Delete(Guid id)
 	{
 		var result = await _mediator.Send(new DeleteAttributeDefinitionCommand(id));
@@ -47,6 +47,7 @@ public class AuthController : ControllerBase
 
 	[AllowAnonymous]
 	[HttpPost("login")]
+	[ProducesResponseType<TokenResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Login([FromBody] LoginRequest request)
 	{
 		_logger.LogInformation("Login attempt for email: {Email}", request.Email);
@@ -66,6 +67,7 @@ public class AuthController : ControllerBase
 
 	[AllowAnonymous]
 	[HttpPost("refresh")]
+	[ProducesResponseType<TokenResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Refresh([FromBody] TokenRequest request)
 	{
 		try
@@ -81,6 +83,7 @@ public class AuthController : ControllerBase
 
 	[AllowAnonymous]
 	[HttpPost("google-login")]
+	[ProducesResponseType<TokenResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GoogleLogin([FromBody] GoogleLoginRequest request)
 	{
 		_logger.LogInformation("Google login attempt");
@@ -105,6 +108,7 @@ public class AuthController : ControllerBase
 
 	[AllowAnonymous]
 	[HttpPost("register")]
+	[ProducesResponseType<TokenResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> CreateUser([FromBody] RegistrationDto request)
 	{
 		_logger.LogInformation("Creating new user with email: {Email}", request.Email);
@@ -136,6 +140,7 @@ public class AuthController : ControllerBase
 
 	[AllowAnonymous]
 	[HttpGet("check-email")]
+	[ProducesResponseType<CheckEmailResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> CheckEmail([FromQuery] string email, [FromQuery] string? turnstileToken)
 	{
 		_logger.LogInformation("Check if email exists: {Email}", email);
@@ -145,6 +150,7 @@ public class AuthController : ControllerBase
 
 	[AllowAnonymous]
 	[HttpPost("forgot-password")]
+	[ProducesResponseType<ApiResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> ForgotPassword([FromBody] ForgotPasswordRequest request)
 	{
 		_logger.LogInformation("Forgot password requested for email: {Email}", request.Email);
@@ -152,7 +158,7 @@ public class AuthController : ControllerBase
 		try
 		{
 			await _mediator.Send(new ForgotPasswordCommand(request.Email, origin, request.TurnstileToken));
-			return Ok(new { Message = "If the email exists, a password reset link will be sent." });
+			return Ok(new ApiResponse("If the email exists, a password reset link will be sent."));
 		}
 		catch (Exception ex)
 		{
@@ -183,6 +189,7 @@ public class AuthController : ControllerBase
 
 	[AllowAnonymous]
 	[HttpPost("reset-password")]
+	[ProducesResponseType<ApiResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> ResetPassword([FromBody] ResetPasswordRequest request)
 	{
 		_logger.LogInformation("Reset password attempt for email: {Email}", request.Email);
@@ -190,7 +197,7 @@ public class AuthController : ControllerBase
 		{
 			await _mediator.Send(new ResetPasswordCommand(request));
 			_logger.LogInformation("Password reset successful for {Email}", request.Email);
-			return Ok(new { Message = "Password has been reset successfully." });
+			return Ok(new ApiResponse("Password has been reset successfully."));
 		}
 		catch (InvalidOperationException ex)
 		{
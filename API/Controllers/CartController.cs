@@ -35,6 +35,7 @@ public class CartController : ControllerBase
 	/// </summary>
 	[HttpGet]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<CartDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetCart()
 	{
 		try
@@ -67,6 +68,7 @@ public class CartController : ControllerBase
 	/// </summary>
 	[HttpPost("items")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<CartDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> AddToCart([FromBody] AddToCartRequest request)
 	{
 		try
@@ -109,6 +111,7 @@ public class CartController : ControllerBase
 	/// </summary>
 	[HttpPut("items/{cartItemId:guid}")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<CartDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> UpdateQuantity(Guid cartItemId, [FromBody] UpdateQuantityRequest request)
 	{
 		try
@@ -150,6 +153,7 @@ public class CartController : ControllerBase
 	/// </summary>
 	[HttpPut("items/sku/{skuId:guid}")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<CartDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> UpdateQuantityBySku(Guid skuId, [FromBody] UpdateQuantityRequest request)
 	{
 		try
@@ -191,6 +195,7 @@ public class CartController : ControllerBase
 	/// </summary>
 	[HttpDelete("items/{cartItemId:guid}")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<CartDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> RemoveFromCart(Guid cartItemId)
 	{
 		try
@@ -223,6 +228,7 @@ public class CartController : ControllerBase
 	/// </summary>
 	[HttpDelete("items/sku/{skuId:guid}")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<CartDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> RemoveFromCartBySku(Guid skuId)
 	{
 		try
@@ -255,6 +261,7 @@ public class CartController : ControllerBase
 	/// </summary>
 	[HttpDelete]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<bool>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> ClearCart()
 	{
 		try
@@ -287,6 +294,7 @@ public class CartController : ControllerBase
 	/// </summary>
 	[HttpPost("merge")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<CartDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> MergeGuestCart([FromBody] MergeGuestCartRequest request)
 	{
 		try
@@ -1,9 +1,11 @@
 using Application.Commands.Category.CreateCategory;
 using Application.Commands.Category.DeleteCategory;
 using Application.Commands.Category.UpdateCategory;
+using Application.DTOs;
 using Application.Queries.Catalog.GetCategories;
 using Application.Queries.Catalog.GetCategoryAvailableFilters;
 using Application.Queries.Catalog.GetCategoryById;
+using Application.Queries.Catalog.GetCategoryFacets;
 using Application.Queries.Catalog.GetCategoryBySlug;
 using MediatR;
 using Microsoft.AspNetCore.Authorization;
@@ -30,6 +32,7 @@ public sealed class CategoriesController : ControllerBase
 	[HttpGet]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "Categories")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<CategoryDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetAll([FromQuery] Guid? parentCategoryId = null, [FromQuery] bool topLevelOnly = false)
 	{
 		var result = await _mediator.Send(new GetCategoriesQuery(parentCategoryId, topLevelOnly));
@@ -43,6 +46,7 @@ public sealed class CategoriesController : ControllerBase
 	[HttpGet("{id:guid}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "Categories")]
+	[ProducesResponseType<ServiceResponse<CategoryDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetById([FromRoute] Guid id)
 	{
 		var result = await _mediator.Send(new GetCategoryByIdQuery(id));
@@ -56,6 +60,7 @@ public sealed class CategoriesController : ControllerBase
 	[HttpGet("slug/{slug}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "Categories")]
+	[ProducesResponseType<ServiceResponse<CategoryDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetBySlug([FromRoute] string slug)
 	{
 		var result = await _mediator.Send(new GetCategoryBySlugQuery(slug));
@@ -70,6 +75,7 @@ public sealed class CategoriesController : ControllerBase
 	[HttpGet("{id:guid}/available-filters")]
 	[AllowAnonymous]
 	[OutputCache(Duration = 900)] // Cache for 15 minutes
+	[ProducesResponseType<ServiceResponse<CategoryAvailableFiltersDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetAvailableFilters([FromRoute] Guid id)
 	{
 		var result = await _mediator.Send(new GetCategoryAvailableFiltersQuery(id));
@@ -77,11 +83,37 @@ public sealed class CategoriesController : ControllerBase
 		return Ok(result);
 	}
 
+	/// <summary>
+	/// Отримати кількість товарів для кожного значення фільтра з урахуванням уже вибраних фільтрів.
+	/// Усередині атрибута значення поєднуються через АБО, між атрибутами — через І.
+	/// CategoryId у тілі запиту ігнорується, використовується id з маршруту.
+	/// </summary>
+	[HttpPost("{id:guid}/facets")]
+	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<CategoryFacetsDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetFacets([FromRoute] Guid id, [FromBody] ProductFilterRequest request)
+	{
+		var query = new GetCategoryFacetsQuery(
+			id,
+			request.TagIds,
+			request.MinPrice,
+			request.MaxPrice,
+			request.InStock,
+			request.Attributes,
+			request.MinRating
+		);
+
+		var result = await _mediator.Send(query);
+		if (!result.IsSuccess) return BadRequest(result);
+		return Ok(result);
+	}
+
 	/// <summary>
 	/// Створити категорію
 	/// </summary>
 	[HttpPost]
 	[Authorize(Policy = "Permission:categories.manage")]
+	[ProducesResponseType<ServiceResponse<Guid>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Create([FromBody] CreateCategoryCommand command)
 	{
 		var result = await _mediator.Send(command);
@@ -94,6 +126,7 @@ public sealed class CategoriesController : ControllerBase
 	/// </summary>
 	[HttpPut("{id:guid}")]
 	[Authorize(Policy = "Permission:categories.manage")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Update([FromRoute] Guid id, [FromBody] UpdateCategoryRequest request)
 	{
 		var command = new UpdateCategoryCommand(id, request.Name, request.Description, request.Emoji, request.ParentCategoryId);
@@ -107,6 +140,7 @@ public sealed class CategoriesController : ControllerBase
 	/// </summary>
 	[HttpDelete("{id:guid}")]
 	[Authorize(Policy = "Permission:categories.manage")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Delete([FromRoute] Guid id)
 	{
 		var result = await _mediator.Send(new DeleteCategoryCommand(id));
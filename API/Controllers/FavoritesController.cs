@@ -38,6 +38,7 @@ public class FavoritesController : ControllerBase
     /// </summary>
     [HttpGet]
     [Authorize]
+    [ProducesResponseType<ServiceResponse<IReadOnlyList<FavoriteProductDto>>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetFavorites()
     {
         try
@@ -83,6 +84,7 @@ public class FavoritesController : ControllerBase
     /// </summary>
     [HttpPost]
     [Authorize]
+    [ProducesResponseType<ServiceResponse<bool>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> AddToFavorites([FromBody] AddToFavoritesRequest request)
     {
         try
@@ -125,6 +127,7 @@ public class FavoritesController : ControllerBase
     /// </summary>
     [HttpDelete("{productId}")]
     [Authorize]
+    [ProducesResponseType<ServiceResponse<bool>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> RemoveFromFavorites(Guid productId)
     {
         try
@@ -158,6 +161,7 @@ public class FavoritesController : ControllerBase
     /// </summary>
     [HttpPost("merge-guest")]
     [Authorize]
+    [ProducesResponseType<ServiceResponse<int>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> MergeGuestFavorites([FromBody] MergeGuestFavoritesRequest request)
     {
         try
@@ -37,6 +37,7 @@ public class OrdersController : ControllerBase
 	/// </summary>
 	[HttpGet]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<PagedOrdersResult>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetOrders(
 		[FromQuery] OrderStatus? status = null,
 		[FromQuery] DateTime? fromDate = null,
@@ -85,6 +86,7 @@ public class OrdersController : ControllerBase
 	/// </summary>
 	[HttpGet("{orderId:guid}")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<OrderDetailDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetOrder(Guid orderId)
 	{
 		try
@@ -121,6 +123,7 @@ public class OrdersController : ControllerBase
 	/// </summary>
 	[HttpPost]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<OrderDto>>(StatusCodes.Status201Created)]
 	public async Task<IActionResult> CreateOrder([FromBody] CreateOrderRequest request)
 	{
 		try
@@ -187,6 +190,7 @@ public class OrdersController : ControllerBase
 	/// </summary>
 	[HttpPost("{orderId:guid}/cancel")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<bool>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> CancelOrder(Guid orderId, [FromBody] CancelOrderRequest? request)
 	{
 		try
@@ -223,6 +227,7 @@ public class OrdersController : ControllerBase
 	/// </summary>
 	[HttpGet("{orderId:guid}/status-history")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<OrderStatusHistoryResult>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetOrderStatusHistory(Guid orderId)
 	{
 		try
@@ -259,6 +264,7 @@ public class OrdersController : ControllerBase
 	/// </summary>
 	[HttpPut("{orderId:guid}/status")]
 	[Authorize(Roles = "Admin")]
+	[ProducesResponseType<ServiceResponse<OrderStatusDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> UpdateOrderStatus(Guid orderId, [FromBody] UpdateOrderStatusRequest request)
 	{
 		try
@@ -14,12 +14,14 @@ using Application.Commands.Sku.Gallery.RemoveSkuGalleryImage;
 using Application.DTOs;
 using Application.Interfaces;
 using Application.Queries.Catalog.FilterProducts;
+using Application.Queries.Catalog.GetFrequentlyBoughtTogether;
 using Application.Queries.Catalog.GetMyProducts;
 using Application.Queries.Catalog.GetProductById;
 using Application.Queries.Catalog.GetProductBySkuCode;
 using Application.Queries.Catalog.GetProductBySlug;
 using Application.Queries.Catalog.GetProducts;
 using Application.Queries.Catalog.GetProductsByCategoryId;
+using Application.Queries.Catalog.GetRelatedProducts;
 using Domain.Entities;
 using Domain.Interfaces.Repositories;
 using MediatR;
@@ -31,6 +33,11 @@ namespace API.Controllers;
 
 public sealed record SetBaseImageRequest(string? BaseImageUrl);
 
+public sealed record GalleryUploadResponse(Guid GalleryId, Guid MediaImageId, string Url, string StorageKey);
+
+// SKU gallery upload keeps its flat (non-enveloped) wire shape
+public sealed record SkuGalleryUploadResponse(bool IsSuccess, string Message, Guid GalleryId, Guid MediaImageId, string Url);
+
 [Authorize]
 [ApiController]
 [Route("api/[controller]")]
@@ -56,6 +63,7 @@ public sealed class ProductsController : ControllerBase
 	[HttpGet]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "Products")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<ProductSummaryDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetAll()
 	{
 		var result = await _mediator.Send(new GetProductsQuery());
@@ -69,6 +77,7 @@ public sealed class ProductsController : ControllerBase
 	[HttpGet("{id:guid}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "ProductDetails")]
+	[ProducesResponseType<ServiceResponse<ProductDetailsDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetById([FromRoute] Guid id)
 	{
 		var result = await _mediator.Send(new GetProductByIdQuery(id));
@@ -82,6 +91,7 @@ public sealed class ProductsController : ControllerBase
 	[HttpGet("s/{productSlug}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "ProductDetails")]
+	[ProducesResponseType<ServiceResponse<ProductDetailsDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetBySlug([FromRoute] string productSlug, [FromQuery] string? sku = null)
 	{
 		var result = await _mediator.Send(new GetProductBySlugQuery(productSlug, sku));
@@ -95,6 +105,7 @@ public sealed class ProductsController : ControllerBase
 	[HttpGet("by-sku/{skuCode}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "ProductDetails")]
+	[ProducesResponseType<ServiceResponse<ProductDetailsDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetBySkuCode([FromRoute] string skuCode)
 	{
 		var result = await _mediator.Send(new GetProductBySkuCodeQuery(skuCode));
@@ -108,6 +119,7 @@ public sealed class ProductsController : ControllerBase
 	[HttpGet("by-category/{categoryId:guid}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "ProductsByCategory")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<ProductSummaryDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetByCategory([FromRoute] Guid categoryId)
 	{
 		var result = await _mediator.Send(new GetProductsByCategoryIdQuery(categoryId));
@@ -115,12 +127,41 @@ public sealed class ProductsController : ControllerBase
 		return Ok(result);
 	}
 
+	/// <summary>
+	/// Схожі продукти: спільна категорія, теги та атрибути SKU
+	/// </summary>
+	[HttpGet("{productId:guid}/related")]
+	[AllowAnonymous]
+	[OutputCache(PolicyName = "ProductRecommendations")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<ProductSummaryDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetRelated([FromRoute] Guid productId, [FromQuery] int limit = 8)
+	{
+		var result = await _mediator.Send(new GetRelatedProductsQuery(productId, limit));
+		if (!result.IsSuccess) return NotFound(result);
+		return Ok(result);
+	}
+
+	/// <summary>
+	/// Продукти, які часто купують разом з цим (за спільними замовленнями)
+	/// </summary>
+	[HttpGet("{productId:guid}/frequently-bought-together")]
+	[AllowAnonymous]
+	[OutputCache(PolicyName = "ProductRecommendations")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<FrequentlyBoughtTogetherDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetFrequentlyBoughtTogether([FromRoute] Guid productId, [FromQuery] int limit = 3)
+	{
+		var result = await _mediator.Send(new GetFrequentlyBoughtTogetherQuery(productId, limit));
+		if (!result.IsSuccess) return BadRequest(result);
+		return Ok(result);
+	}
+
 	/// <summary>
 	/// Фільтрація продуктів з підтримкою динамічних JSONB атрибутів.
 	/// Приймає складні фільтри: категорія, теги, ціна, наявність, та атрибути (color, storage, brand тощо).
 	/// </summary>
 	[HttpPost("filter")]
 	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<PagedResponse<ProductSummaryDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> FilterProducts([FromBody] ProductFilterRequest request)
 	{
 		var query = new FilterProductsQuery(
@@ -132,7 +173,10 @@ public sealed class ProductsController : ControllerBase
 			request.Attributes,
 			request.Sort,
 			request.Page,
-			request.PageSize
+			request.PageSize,
+			request.StoreId,
+			request.Query,
+			request.MinRating
 		);
 
 		var result = await _mediator.Send(query);
@@ -145,6 +189,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpGet("my")]
 	[Authorize(Policy = "Permission:products.read.self")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<ProductSummaryDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetMyProducts()
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -175,6 +220,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPost]
 	[Authorize(Policy = "Permission:products.create")]
+	[ProducesResponseType<ServiceResponse<Guid>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Create([FromBody] CreateProductRequest request)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -231,6 +277,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPut("{productId:guid}")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Update(
 		[FromRoute] Guid productId,
 		[FromBody] UpdateProductRequest request)
@@ -270,6 +317,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPut("{productId:guid}/with-gallery")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> UpdateWithGallery(
 		[FromRoute] Guid productId,
 		[FromForm] UpdateProductWithGalleryRequest request,
@@ -320,6 +368,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPatch("{productId:guid}/active")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> ToggleActive([FromRoute] Guid productId, [FromBody] ToggleActiveRequest request)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -343,6 +392,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPost("{productId:guid}/skus")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse<string>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> AddSku([FromRoute] Guid productId, [FromBody] AddSkuRequest request)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -373,6 +423,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPut("{productId:guid}/skus/{skuId:guid}")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> UpdateSku([FromRoute] Guid productId, [FromRoute] Guid skuId, [FromBody] UpdateSkuRequest request)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -398,6 +449,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpDelete("{productId:guid}/skus/{skuId:guid}")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> DeleteSku([FromRoute] Guid productId, [FromRoute] Guid skuId)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -415,6 +467,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPost("{productId:guid}/gallery")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse<GalleryUploadResponse>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> UploadGalleryImage([FromRoute] Guid productId, IFormFile file, [FromForm] int displayOrder = 0)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -456,18 +509,11 @@ public sealed class ProductsController : ControllerBase
 		var result = await _mediator.Send(command);
 		if (!result.IsSuccess) return BadRequest(result);
 
-		return Ok(new
-		{
-			IsSuccess = true,
-			Message = "Image uploaded successfully",
-			Payload = new
-			{
-				GalleryId = result.Payload,
-				MediaImageId = mediaImage.Id,
-				Url = publicUrl,
-				StorageKey = storageKey
-			}
-		});
+		return Ok(new ServiceResponse<GalleryUploadResponse>(
+			true,
+			"Image uploaded successfully",
+			new GalleryUploadResponse(result.Payload, mediaImage.Id, publicUrl, storageKey)
+		));
 	}
 
 	/// <summary>
@@ -475,6 +521,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpDelete("{productId:guid}/gallery/{galleryId:guid}")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> DeleteGalleryImage([FromRoute] Guid productId, [FromRoute] Guid galleryId)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -492,6 +539,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPatch("{productId:guid}/base-image")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> SetBaseImage([FromRoute] Guid productId, [FromBody] SetBaseImageRequest request)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -511,6 +559,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpPost("{productId:guid}/skus/{skuId:guid}/gallery")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<SkuGalleryUploadResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> UploadSkuGalleryImage(
 		[FromRoute] Guid productId,
 		[FromRoute] Guid skuId,
@@ -551,14 +600,13 @@ public sealed class ProductsController : ControllerBase
 
 		if (!result.IsSuccess) return BadRequest(result);
 
-		return Ok(new
-		{
+		return Ok(new SkuGalleryUploadResponse(
 			result.IsSuccess,
 			result.Message,
-			GalleryId = result.Payload,
-			MediaImageId = mediaImage.Id,
-			Url = publicUrl
-		});
+			result.Payload,
+			mediaImage.Id,
+			publicUrl
+		));
 	}
 
 	/// <summary>
@@ -566,6 +614,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpDelete("{productId:guid}/skus/{skuId:guid}/gallery/{galleryItemId:guid}")]
 	[Authorize(Policy = "Permission:products.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> DeleteSkuGalleryImage(
 		[FromRoute] Guid productId,
 		[FromRoute] Guid skuId,
@@ -588,6 +637,7 @@ public sealed class ProductsController : ControllerBase
 	/// </summary>
 	[HttpDelete("{productId:guid}")]
 	[Authorize(Policy = "Permission:products.delete.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Delete([FromRoute] Guid productId)
 	{
 		var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
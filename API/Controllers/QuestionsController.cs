@@ -0,0 +1,159 @@
+using Application.Commands.Question.AnswerQuestion;
+using Application.Commands.Question.AskQuestion;
+using Application.Commands.Question.ModerateQuestion;
+using Application.Commands.Question.ToggleQuestionUpvote;
+using Application.DTOs;
+using Application.Queries.Question.GetProductQuestions;
+using Application.Queries.Question.GetQuestionsForModeration;
+using Application.Queries.Question.GetStoreQuestions;
+using Domain.Enums;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace API.Controllers;
+
+/// <summary>
+/// API питань про товари: питання покупців, відповіді продавців та модерація
+/// </summary>
+[ApiController]
+[Route("api/questions")]
+[Authorize]
+public class QuestionsController : ControllerBase
+{
+	private readonly IMediator _mediator;
+
+	public QuestionsController(IMediator mediator)
+	{
+		_mediator = mediator;
+	}
+
+	/// <summary>
+	/// Опубліковані питання про товар разом з відповідями. Sort: top, newest
+	/// </summary>
+	[HttpGet("product/{productId:guid}")]
+	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<PagedResponse<ProductQuestionDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetProductQuestions(
+		[FromRoute] Guid productId,
+		[FromQuery] string? sort = null,
+		[FromQuery] int page = 1,
+		[FromQuery] int pageSize = 10)
+	{
+		var result = await _mediator.Send(new GetProductQuestionsQuery(productId, sort, page, pageSize, GetUserId()));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Поставити питання про товар
+	/// </summary>
+	[HttpPost("product/{productId:guid}")]
+	[Authorize(Policy = "Permission:questions.create")]
+	[ProducesResponseType<ServiceResponse<ProductQuestionDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> Ask([FromRoute] Guid productId, [FromBody] AskQuestionRequest request)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<ProductQuestionDto>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new AskQuestionCommand(userId.Value, productId, request.Text));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Підтримати питання або зняти свій голос
+	/// </summary>
+	[HttpPost("{id:guid}/upvote")]
+	[ProducesResponseType<ServiceResponse<QuestionUpvoteDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> ToggleUpvote([FromRoute] Guid id)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<QuestionUpvoteDto>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new ToggleQuestionUpvoteCommand(userId.Value, id));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Питання про товари магазину поточного продавця
+	/// </summary>
+	/// <param name="answered">true — лише з відповіддю, false — ще без відповіді</param>
+	[HttpGet("store")]
+	[Authorize(Policy = "Permission:store.read.self")]
+	[ProducesResponseType<ServiceResponse<PagedResponse<QuestionWithProductDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetStoreQuestions(
+		[FromQuery] bool? answered = null,
+		[FromQuery] int page = 1,
+		[FromQuery] int pageSize = 20)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new GetStoreQuestionsQuery(userId.Value, answered, page, pageSize));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Відповідь продавця на питання (замінює попередню відповідь)
+	/// </summary>
+	[HttpPut("{id:guid}/answer")]
+	[Authorize(Policy = "Permission:store.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> Answer([FromRoute] Guid id, [FromBody] AnswerQuestionRequest request)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new AnswerQuestionCommand(userId.Value, id, request.Answer));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Усі питання для модерації (адмін-панель)
+	/// </summary>
+	[HttpGet("moderation")]
+	[Authorize(Policy = "Permission:questions.moderate")]
+	[ProducesResponseType<ServiceResponse<PagedResponse<QuestionWithProductDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetForModeration(
+		[FromQuery] QuestionStatus? status = null,
+		[FromQuery] int page = 1,
+		[FromQuery] int pageSize = 20)
+	{
+		var result = await _mediator.Send(new GetQuestionsForModerationQuery(status, page, pageSize));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Приховати питання разом з відповіддю або опублікувати його знову
+	/// </summary>
+	[HttpPut("{id:guid}/moderation")]
+	[Authorize(Policy = "Permission:questions.moderate")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> Moderate([FromRoute] Guid id, [FromBody] ModerateQuestionRequest request)
+	{
+		var result = await _mediator.Send(new ModerateQuestionCommand(id, request.Status, request.Reason));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	private Guid? GetUserId()
+	{
+		var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+		if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+		{
+			return null;
+		}
+		return userId;
+	}
+}
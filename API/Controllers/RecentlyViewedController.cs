@@ -0,0 +1,110 @@
+using Application.Commands.RecentlyViewed.AddRecentlyViewed;
+using Application.Commands.RecentlyViewed.ClearRecentlyViewed;
+using Application.Commands.RecentlyViewed.RemoveRecentlyViewed;
+using Application.DTOs;
+using Application.Queries.RecentlyViewed.GetRecentlyViewed;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace API.Controllers;
+
+/// <summary>
+/// API нещодавно переглянутих товарів (синхронізується між пристроями користувача)
+/// </summary>
+[ApiController]
+[Route("api/recently-viewed")]
+[Authorize]
+public class RecentlyViewedController : ControllerBase
+{
+	private readonly IMediator _mediator;
+	private readonly ILogger<RecentlyViewedController> _logger;
+
+	public RecentlyViewedController(IMediator mediator, ILogger<RecentlyViewedController> logger)
+	{
+		_mediator = mediator;
+		_logger = logger;
+	}
+
+	/// <summary>
+	/// Отримати нещодавно переглянуті товари (найновіші першими)
+	/// </summary>
+	[HttpGet]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetRecentlyViewed()
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new GetRecentlyViewedQuery(userId.Value));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Записати перегляди товарів. Використовується і для нового перегляду, і для злиття гостьового списку після входу
+	/// </summary>
+	/// <param name="request">Товари з часом перегляду</param>
+	[HttpPost]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> AddEntries([FromBody] AddRecentlyViewedRequest request)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new AddRecentlyViewedCommand(userId.Value, request.Entries));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Прибрати товар зі списку переглянутих
+	/// </summary>
+	/// <param name="productId">ID товару</param>
+	[HttpDelete("{productId:guid}")]
+	[ProducesResponseType<ServiceResponse<bool>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> RemoveEntry(Guid productId)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<bool>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new RemoveRecentlyViewedCommand(userId.Value, productId));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Очистити список переглянутих товарів на всіх пристроях
+	/// </summary>
+	[HttpDelete]
+	[ProducesResponseType<ServiceResponse<int>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> Clear()
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<int>(false, "User not authenticated"));
+		}
+
+		_logger.LogInformation("Clearing recently viewed products for user {UserId}", userId);
+		var result = await _mediator.Send(new ClearRecentlyViewedCommand(userId.Value));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	private Guid? GetUserId()
+	{
+		var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+		if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+		{
+			return null;
+		}
+		return userId;
+	}
+}
@@ -0,0 +1,214 @@
+using Application.Commands.Review.CreateReview;
+using Application.Commands.Review.ModerateReview;
+using Application.Commands.Review.ReplyToReview;
+using Application.Commands.Review.ToggleReviewHelpful;
+using Application.DTOs;
+using Application.Queries.Review.GetMyReviews;
+using Application.Queries.Review.GetProductRatingSummary;
+using Application.Queries.Review.GetProductReviews;
+using Application.Queries.Review.GetReviewsForModeration;
+using Application.Queries.Review.GetStoreReviews;
+using Domain.Entities;
+using Domain.Enums;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace API.Controllers;
+
+/// <summary>
+/// API відгуків про товари: відгуки покупців, відповіді продавців та модерація
+/// </summary>
+[ApiController]
+[Route("api/reviews")]
+[Authorize]
+public class ReviewsController : ControllerBase
+{
+	private readonly IMediator _mediator;
+
+	public ReviewsController(IMediator mediator)
+	{
+		_mediator = mediator;
+	}
+
+	/// <summary>
+	/// Опубліковані відгуки про товар. Sort: newest, helpful, ratingDesc, ratingAsc
+	/// </summary>
+	[HttpGet("product/{productId:guid}")]
+	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<PagedResponse<ProductReviewDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetProductReviews(
+		[FromRoute] Guid productId,
+		[FromQuery] int? rating = null,
+		[FromQuery] string? sort = null,
+		[FromQuery] int page = 1,
+		[FromQuery] int pageSize = 10)
+	{
+		// Signed-in visitors see which reviews they already marked as helpful
+		var result = await _mediator.Send(new GetProductReviewsQuery(productId, rating, sort, page, pageSize, GetUserId()));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Середній рейтинг товару та розподіл оцінок за кількістю зірок
+	/// </summary>
+	[HttpGet("product/{productId:guid}/summary")]
+	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<RatingSummaryDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetRatingSummary([FromRoute] Guid productId)
+	{
+		var result = await _mediator.Send(new GetProductRatingSummaryQuery(productId));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Залишити відгук на доставлений товар із замовлення (multipart: оцінка, коментар, до 5 фото)
+	/// </summary>
+	[HttpPost]
+	[Authorize(Policy = "Permission:reviews.create")]
+	[ProducesResponseType<ServiceResponse<ProductReviewDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> CreateReview(
+		[FromForm] Guid orderItemId,
+		[FromForm] int rating,
+		[FromForm] string? comment,
+		[FromForm] List<IFormFile>? photos)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<ProductReviewDto>(false, "User not authenticated"));
+		}
+
+		photos ??= [];
+		if (photos.Count > ProductReview.MaxPhotos)
+		{
+			return BadRequest(new ServiceResponse<ProductReviewDto>(false, $"A review can have at most {ProductReview.MaxPhotos} photos"));
+		}
+
+		// The handler checks the files are images and stores them only after the review is accepted
+		var streams = photos.Select(p => p.OpenReadStream()).ToList();
+		try
+		{
+			var result = await _mediator.Send(new CreateReviewCommand(userId.Value, orderItemId, rating, comment, streams));
+			return result.IsSuccess ? Ok(result) : BadRequest(result);
+		}
+		finally
+		{
+			streams.ForEach(s => s.Dispose());
+		}
+	}
+
+	/// <summary>
+	/// Відгуки поточного користувача (разом із прихованими модератором)
+	/// </summary>
+	[HttpGet("my")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<ReviewWithProductDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetMyReviews()
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<IReadOnlyList<ReviewWithProductDto>>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new GetMyReviewsQuery(userId.Value));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Позначити відгук корисним або зняти позначку
+	/// </summary>
+	[HttpPost("{id:guid}/helpful")]
+	[ProducesResponseType<ServiceResponse<HelpfulVoteDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> ToggleHelpful([FromRoute] Guid id)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<HelpfulVoteDto>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new ToggleReviewHelpfulCommand(userId.Value, id));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Відгуки про товари магазину поточного продавця
+	/// </summary>
+	/// <param name="replied">true — лише з відповіддю, false — ще без відповіді</param>
+	[HttpGet("store")]
+	[Authorize(Policy = "Permission:store.read.self")]
+	[ProducesResponseType<ServiceResponse<PagedResponse<ReviewWithProductDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetStoreReviews(
+		[FromQuery] bool? replied = null,
+		[FromQuery] int page = 1,
+		[FromQuery] int pageSize = 20)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new GetStoreReviewsQuery(userId.Value, replied, page, pageSize));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Відповідь продавця на відгук (замінює попередню відповідь)
+	/// </summary>
+	[HttpPut("{id:guid}/reply")]
+	[Authorize(Policy = "Permission:store.update.self")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> Reply([FromRoute] Guid id, [FromBody] ReplyToReviewRequest request)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new ReplyToReviewCommand(userId.Value, id, request.Reply));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Усі відгуки для модерації (адмін-панель)
+	/// </summary>
+	/// <param name="maxRating">Лише відгуки з оцінкою не вище вказаної</param>
+	[HttpGet("moderation")]
+	[Authorize(Policy = "Permission:reviews.moderate")]
+	[ProducesResponseType<ServiceResponse<PagedResponse<ReviewWithProductDto>>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetForModeration(
+		[FromQuery] ReviewStatus? status = null,
+		[FromQuery] int? maxRating = null,
+		[FromQuery] int page = 1,
+		[FromQuery] int pageSize = 20)
+	{
+		var result = await _mediator.Send(new GetReviewsForModerationQuery(status, maxRating, page, pageSize));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Приховати відгук або опублікувати його знову
+	/// </summary>
+	[HttpPut("{id:guid}/moderation")]
+	[Authorize(Policy = "Permission:reviews.moderate")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> Moderate([FromRoute] Guid id, [FromBody] ModerateReviewRequest request)
+	{
+		var result = await _mediator.Send(new ModerateReviewCommand(id, request.Status, request.Reason));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	private Guid? GetUserId()
+	{
+		var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+		if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+		{
+			return null;
+		}
+		return userId;
+	}
+}
@@ -1,6 +1,9 @@
 using Application.DTOs;
 using Application.Interfaces;
 using Application.Queries.Catalog;
+using Application.Queries.Catalog.GetSearchAvailableFilters;
+using Application.Queries.Catalog.GetSearchFacets;
+using Application.Queries.Catalog.GetSearchSuggestions;
 using Domain.Entities;
 using Domain.Interfaces.Repositories;
 using MediatR;
@@ -18,15 +21,18 @@ namespace API.Controllers;
 public sealed class SearchController : ControllerBase
 {
 	private readonly IProductRepository _productRepository;
+	private readonly IMediator _mediator;
 	private readonly IServiceScopeFactory _serviceScopeFactory;
 	private readonly ILogger<SearchController> _logger;
 
 	public SearchController(
 		IProductRepository productRepository,
+		IMediator mediator,
 		IServiceScopeFactory serviceScopeFactory,
 		ILogger<SearchController> logger)
 	{
 		_productRepository = productRepository;
+		_mediator = mediator;
 		_serviceScopeFactory = serviceScopeFactory;
 		_logger = logger;
 	}
@@ -36,6 +42,7 @@ public sealed class SearchController : ControllerBase
 	/// </summary>
 	[HttpGet]
 	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<ProductSummaryDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Search([FromQuery] string? q, [FromQuery] int limit = 20)
 	{
 		try
@@ -63,12 +70,75 @@ public sealed class SearchController : ControllerBase
 		}
 	}
 
+	/// <summary>
+	/// Підказки для рядка пошуку: магазини та товари.
+	/// На відміну від пошуку, запит не враховується в популярних запитах.
+	/// </summary>
+	[HttpGet("suggestions")]
+	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<SearchSuggestionsDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetSuggestions([FromQuery] string? q, [FromQuery] int limit = 5)
+	{
+		var result = await _mediator.Send(new GetSearchSuggestionsQuery(q ?? string.Empty, limit));
+		if (!result.IsSuccess)
+		{
+			return BadRequest(result);
+		}
+		return Ok(result);
+	}
+
+	/// <summary>
+	/// Отримати доступні фільтри для результатів пошуку.
+	/// Без тексту пошуку результатами є товари з усіма тегами tagIds.
+	/// </summary>
+	[HttpGet("available-filters")]
+	[AllowAnonymous]
+	[OutputCache(Duration = 300)] // Cache for 5 minutes
+	[ProducesResponseType<ServiceResponse<SearchAvailableFiltersDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetAvailableFilters([FromQuery] string? q, [FromQuery] List<Guid>? tagIds)
+	{
+		var result = await _mediator.Send(new GetSearchAvailableFiltersQuery(q ?? string.Empty, tagIds));
+		if (!result.IsSuccess)
+		{
+			return BadRequest(result);
+		}
+		return Ok(result);
+	}
+
+	/// <summary>
+	/// Отримати кількість товарів для кожного значення фільтра в результатах пошуку.
+	/// Пошуковий запит береться з поля Query у тілі запиту.
+	/// </summary>
+	[HttpPost("facets")]
+	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<SearchFacetsDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetFacets([FromBody] ProductFilterRequest request)
+	{
+		var query = new GetSearchFacetsQuery(
+			request.Query ?? string.Empty,
+			request.TagIds,
+			request.MinPrice,
+			request.MaxPrice,
+			request.InStock,
+			request.Attributes,
+			request.MinRating
+		);
+
+		var result = await _mediator.Send(query);
+		if (!result.IsSuccess)
+		{
+			return BadRequest(result);
+		}
+		return Ok(result);
+	}
+
 	/// <summary>
 	/// Отримати популярні пошукові запити
 	/// </summary>
 	[HttpGet("popular")]
 	[AllowAnonymous]
 	[OutputCache(Duration = 300)] // Cache for 5 minutes
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<PopularQueryDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetPopular([FromQuery] int limit = 10)
 	{
 		try
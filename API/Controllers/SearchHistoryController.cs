@@ -0,0 +1,128 @@
+using Application.Commands.SearchHistory.AddSearchHistoryEntries;
+using Application.Commands.SearchHistory.ClearSearchHistory;
+using Application.Commands.SearchHistory.RemoveSearchHistoryEntry;
+using Application.Commands.SearchHistory.SetSearchHistoryPaused;
+using Application.DTOs;
+using Application.Queries.SearchHistory.GetSearchHistory;
+using MediatR;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace API.Controllers;
+
+/// <summary>
+/// API особистої історії пошуку (синхронізується між пристроями користувача)
+/// </summary>
+[ApiController]
+[Route("api/search-history")]
+[Authorize]
+public class SearchHistoryController : ControllerBase
+{
+	private readonly IMediator _mediator;
+	private readonly ILogger<SearchHistoryController> _logger;
+
+	public SearchHistoryController(IMediator mediator, ILogger<SearchHistoryController> logger)
+	{
+		_mediator = mediator;
+		_logger = logger;
+	}
+
+	/// <summary>
+	/// Отримати історію пошуку користувача (найновіші запити першими)
+	/// </summary>
+	[HttpGet]
+	[ProducesResponseType<ServiceResponse<SearchHistoryDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetHistory()
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<SearchHistoryDto>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new GetSearchHistoryQuery(userId.Value));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Додати запити до історії. Використовується і для нового пошуку, і для злиття гостьової історії після входу
+	/// </summary>
+	/// <param name="request">Запити з часом пошуку</param>
+	[HttpPost]
+	[ProducesResponseType<ServiceResponse<SearchHistoryDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> AddEntries([FromBody] AddSearchHistoryRequest request)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<SearchHistoryDto>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new AddSearchHistoryEntriesCommand(userId.Value, request.Entries));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Видалити один запит з історії
+	/// </summary>
+	/// <param name="query">Текст запиту</param>
+	[HttpDelete("entries")]
+	[ProducesResponseType<ServiceResponse<bool>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> RemoveEntry([FromQuery] string query)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<bool>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new RemoveSearchHistoryEntryCommand(userId.Value, query));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Очистити історію пошуку на всіх пристроях
+	/// </summary>
+	[HttpDelete]
+	[ProducesResponseType<ServiceResponse<int>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> ClearHistory()
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<int>(false, "User not authenticated"));
+		}
+
+		_logger.LogInformation("Clearing search history for user {UserId}", userId);
+		var result = await _mediator.Send(new ClearSearchHistoryCommand(userId.Value));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	/// <summary>
+	/// Призупинити або відновити запис історії пошуку
+	/// </summary>
+	[HttpPut("paused")]
+	[ProducesResponseType<ServiceResponse<bool>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> SetPaused([FromBody] SetSearchHistoryPausedRequest request)
+	{
+		var userId = GetUserId();
+		if (!userId.HasValue)
+		{
+			return Unauthorized(new ServiceResponse<bool>(false, "User not authenticated"));
+		}
+
+		var result = await _mediator.Send(new SetSearchHistoryPausedCommand(userId.Value, request.IsPaused));
+		return result.IsSuccess ? Ok(result) : BadRequest(result);
+	}
+
+	private Guid? GetUserId()
+	{
+		var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+		if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+		{
+			return null;
+		}
+		return userId;
+	}
+}
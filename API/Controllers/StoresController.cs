@@ -2,9 +2,12 @@ using Application.Commands.Store.CreateStore;
 using Application.Commands.Store.SuspendStore;
 using Application.Commands.Store.UpdateStore;
 using Application.Commands.Store.VerifyStore;
+using Application.DTOs;
 using Application.Queries.Store.GetAllStores;
 using Application.Queries.Store.GetMyStore;
+using Application.Queries.Store.GetStoreAvailableFilters;
 using Application.Queries.Store.GetStoreBySlug;
+using Application.Queries.Store.GetStoreFacets;
 using MediatR;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
@@ -31,6 +34,7 @@ public class StoresController : ControllerBase
 	/// </summary>
 	[HttpGet]
 	[Authorize(Policy = "Permission:stores.manage")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<StoreAdminDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetAll([FromQuery] bool includeUnverified = true)
 	{
 		var result = await _mediator.Send(new GetAllStoresQuery(includeUnverified));
@@ -46,6 +50,7 @@ public class StoresController : ControllerBase
 	/// </summary>
 	[HttpGet("my")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<MyStoreDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetMyStore()
 	{
 		var userId = GetUserId();
@@ -64,6 +69,7 @@ public class StoresController : ControllerBase
 	[HttpGet("slug/{slug}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "Stores")]
+	[ProducesResponseType<ServiceResponse<PublicStoreDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetBySlug([FromRoute] string slug)
 	{
 		var result = await _mediator.Send(new GetStoreBySlugQuery(slug));
@@ -74,11 +80,56 @@ public class StoresController : ControllerBase
 		return Ok(result);
 	}
 
+	/// <summary>
+	/// Get filter options for the products of a store (public)
+	/// </summary>
+	[HttpGet("{id:guid}/available-filters")]
+	[AllowAnonymous]
+	[OutputCache(Duration = 900)] // Cache for 15 minutes
+	[ProducesResponseType<ServiceResponse<StoreAvailableFiltersDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetAvailableFilters([FromRoute] Guid id)
+	{
+		var result = await _mediator.Send(new GetStoreAvailableFiltersQuery(id));
+		if (!result.IsSuccess)
+		{
+			return BadRequest(result);
+		}
+		return Ok(result);
+	}
+
+	/// <summary>
+	/// Get product counts per filter value for the current selection (public).
+	/// StoreId in the body is ignored; the route id is used.
+	/// </summary>
+	[HttpPost("{id:guid}/facets")]
+	[AllowAnonymous]
+	[ProducesResponseType<ServiceResponse<StoreFacetsDto>>(StatusCodes.Status200OK)]
+	public async Task<IActionResult> GetFacets([FromRoute] Guid id, [FromBody] ProductFilterRequest request)
+	{
+		var query = new GetStoreFacetsQuery(
+			id,
+			request.TagIds,
+			request.MinPrice,
+			request.MaxPrice,
+			request.InStock,
+			request.Attributes,
+			request.MinRating
+		);
+
+		var result = await _mediator.Send(query);
+		if (!result.IsSuccess)
+		{
+			return BadRequest(result);
+		}
+		return Ok(result);
+	}
+
 	/// <summary>
 	/// Create a new store for current user
 	/// </summary>
 	[HttpPost]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse<Guid>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Create([FromBody] CreateStoreRequest request)
 	{
 		var userId = GetUserId();
@@ -103,6 +154,7 @@ public class StoresController : ControllerBase
 	/// </summary>
 	[HttpPost("{id:guid}/verify")]
 	[Authorize(Policy = "Permission:stores.manage")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Verify(Guid id)
 	{
 		var result = await _mediator.Send(new VerifyStoreCommand(id));
@@ -118,6 +170,7 @@ public class StoresController : ControllerBase
 	/// </summary>
 	[HttpPost("{id:guid}/suspend")]
 	[Authorize(Policy = "Permission:stores.manage")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Suspend(Guid id)
 	{
 		var result = await _mediator.Send(new SuspendStoreCommand(id));
@@ -133,6 +186,7 @@ public class StoresController : ControllerBase
 	/// </summary>
 	[HttpPost("{id:guid}/unsuspend")]
 	[Authorize(Policy = "Permission:stores.manage")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Unsuspend(Guid id)
 	{
 		var result = await _mediator.Send(new UnsuspendStoreCommand(id));
@@ -148,6 +202,7 @@ public class StoresController : ControllerBase
 	/// </summary>
 	[HttpPut("{id:guid}")]
 	[Authorize]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Update(Guid id, [FromBody] UpdateStoreRequest request)
 	{
 		var userId = GetUserId();
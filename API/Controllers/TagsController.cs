@@ -1,6 +1,7 @@
 using Application.Commands.Tag.CreateTag;
 using Application.Commands.Tag.DeleteTag;
 using Application.Commands.Tag.UpdateTag;
+using Application.DTOs;
 using Application.Queries.Catalog.GetTagById;
 using Application.Queries.Catalog.GetTagBySlug;
 using Application.Queries.Catalog.GetTags;
@@ -29,6 +30,7 @@ public sealed class TagsController : ControllerBase
 	[HttpGet]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "Tags")]
+	[ProducesResponseType<ServiceResponse<IReadOnlyList<TagDto>>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetAll()
 	{
 		var result = await _mediator.Send(new GetTagsQuery());
@@ -42,6 +44,7 @@ public sealed class TagsController : ControllerBase
 	[HttpGet("{id:guid}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "Tags")]
+	[ProducesResponseType<ServiceResponse<TagDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetById([FromRoute] Guid id)
 	{
 		var result = await _mediator.Send(new GetTagByIdQuery(id));
@@ -55,6 +58,7 @@ public sealed class TagsController : ControllerBase
 	[HttpGet("slug/{slug}")]
 	[AllowAnonymous]
 	[OutputCache(PolicyName = "Tags")]
+	[ProducesResponseType<ServiceResponse<TagDto>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> GetBySlug([FromRoute] string slug)
 	{
 		var result = await _mediator.Send(new GetTagBySlugQuery(slug));
@@ -67,6 +71,7 @@ public sealed class TagsController : ControllerBase
 	/// </summary>
 	[HttpPost]
 	[Authorize(Policy = "Permission:tags.manage")]
+	[ProducesResponseType<ServiceResponse<Guid>>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Create([FromBody] CreateTagCommand command)
 	{
 		var result = await _mediator.Send(command);
@@ -79,6 +84,7 @@ public sealed class TagsController : ControllerBase
 	/// </summary>
 	[HttpPut("{id:guid}")]
 	[Authorize(Policy = "Permission:tags.manage")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Update([FromRoute] Guid id, [FromBody] UpdateTagRequest request)
 	{
 		var command = new UpdateTagCommand(id, request.Name, request.Description);
@@ -92,6 +98,7 @@ public sealed class TagsController : ControllerBase
 	/// </summary>
 	[HttpDelete("{id:guid}")]
 	[Authorize(Policy = "Permission:tags.manage")]
+	[ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
 	public async Task<IActionResult> Delete([FromRoute] Guid id)
 	{
 		var result = await _mediator.Send(new DeleteTagCommand(id));
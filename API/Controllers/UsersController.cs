@@ -45,6 +45,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpGet("{id}")]
     [Authorize(Policy = "Permission:users.read")]
+    [ProducesResponseType<UserDto>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetUser(Guid id)
     {
         var result = await _mediator.Send(new GetUserQuery(id));
@@ -57,6 +58,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpGet]
     [Authorize(Policy = "Permission:users.read")]
+    [ProducesResponseType<ServiceResponse<List<UserDto>>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetUsers()
     {
         var result = await _mediator.Send(new GetUsersQuery());
@@ -68,6 +70,7 @@ public class UsersController : ControllerBase
     /// Отримання користувача за email
     /// </summary>
     [HttpGet("by-email/{email}")]
+    [ProducesResponseType<ServiceResponse<UserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetUserByEmail(string email)
     {
         var result = await _mediator.Send(new GetUserByEmailQuery(email));
@@ -79,6 +82,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpGet("me")]
     [Authorize(Policy = "Permission:profile.read.self")]
+    [ProducesResponseType<ServiceResponse<UserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> GetMyProfile()
     {
         var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -96,6 +100,7 @@ public class UsersController : ControllerBase
     [Obsolete("Use /me/info, /me/phone, or /me/email instead")]
     [HttpPut("me")]
     [Authorize(Policy = "Permission:profile.update.self")]
+    [ProducesResponseType<ServiceResponse<UserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> UpdateMyProfile([FromBody] UpdateProfileDto data)
     {
         var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -112,6 +117,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpPut("me/phone")]
     [Authorize(Policy = "Permission:profile.update.self")]
+    [ProducesResponseType<ServiceResponse<UserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> UpdateMyPhone([FromBody] UpdatePhoneDto data)
     {
         var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -128,6 +134,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpPut("me/email")]
     [Authorize(Policy = "Permission:profile.update.self")]
+    [ProducesResponseType<ServiceResponse<UserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> UpdateMyEmail([FromBody] UpdateEmailDto data)
     {
         var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -144,6 +151,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpPut("me/info")]
     [Authorize(Policy = "Permission:profile.update.self")]
+    [ProducesResponseType<ServiceResponse<UserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> UpdateMyInfo([FromBody] UpdateProfileInfoDto data)
     {
         var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -160,6 +168,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpPut("me/password")]
     [Authorize(Policy = "Permission:profile.update.self")]
+    [ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
     public async Task<IActionResult> ChangeMyPassword([FromBody] ChangePasswordDto data)
     {
         var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -176,6 +185,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpPost("me/picture")]
     [Authorize(Policy = "Permission:profile.update.self")]
+    [ProducesResponseType<ServiceResponse<UserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> UploadProfilePicture(IFormFile file)
     {
         var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -206,6 +216,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpDelete("me/picture")]
     [Authorize(Policy = "Permission:profile.update.self")]
+    [ProducesResponseType<ServiceResponse<UserDto>>(StatusCodes.Status200OK)]
     public async Task<IActionResult> DeleteProfilePicture()
     {
         var idClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
@@ -225,6 +236,7 @@ public class UsersController : ControllerBase
     /// </summary>
     [HttpDelete("{id}")]
     [Authorize(Policy = "Permission:users.delete")]
+    [ProducesResponseType<ServiceResponse>(StatusCodes.Status200OK)]
     public async Task<IActionResult> DeleteUser(Guid id)
     {
         var result = await _mediator.Send(new DeleteUserCommand(id));
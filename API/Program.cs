@@ -60,7 +60,23 @@ try
 
     // Scalar + OpenAPI
     builder.Services.AddEndpointsApiExplorer();
-    builder.Services.AddOpenApi();
+    builder.Services.AddOpenApi(options =>
+    {
+        // Фронтенд генерує типізований клієнт з цього документа (npm run generate:api),
+        // тому публікуємо статичні сегменти шляхів у нижньому регістрі, як їх викликає клієнт
+        options.AddDocumentTransformer((document, _, _) =>
+        {
+            var paths = document.Paths.ToList();
+            document.Paths.Clear();
+            foreach (var (path, item) in paths)
+            {
+                var lowered = System.Text.RegularExpressions.Regex.Replace(
+                    path, "(?<=/)[^/{]+", m => m.Value.ToLowerInvariant());
+                document.Paths.Add(lowered, item);
+            }
+            return Task.CompletedTask;
+        });
+    });
 
 
     // DbContext
@@ -96,6 +112,10 @@ try
     builder.Services.AddScoped<ISkuGalleryRepository, SkuGalleryRepository>();
     builder.Services.AddScoped<IAttributeDefinitionRepository, AttributeDefinitionRepository>();
     builder.Services.AddScoped<ISearchQueryRepository, SearchQueryRepository>();
+    builder.Services.AddScoped<ISearchHistoryRepository, SearchHistoryRepository>();
+    builder.Services.AddScoped<IRecentlyViewedProductRepository, RecentlyViewedProductRepository>();
+    builder.Services.AddScoped<IProductReviewRepository, ProductReviewRepository>();
+    builder.Services.AddScoped<IProductQuestionRepository, ProductQuestionRepository>();
     builder.Services.AddScoped<IProductFavoriteRepository, ProductFavoriteRepository>();
     builder.Services.AddScoped<ICartRepository, CartRepository>();
     builder.Services.AddScoped<IOrderRepository, OrderRepository>();
@@ -130,6 +130,13 @@ public static class RedisCacheExtension
 				.SetVaryByRouteValue("categoryId")
 				.Tag("products", "categories"));
 
+			// Related / frequently bought together products; co-purchase counts may lag behind orders by the expiry
+			options.AddPolicy("ProductRecommendations", builder => builder
+				.Expire(TimeSpan.FromMinutes(10))
+				.SetVaryByRouteValue("productId")
+				.SetVaryByQuery("limit")
+				.Tag("products"));
+
 			// Stores - публічні сторінки магазинів
 			options.AddPolicy("Stores", builder => builder
 				.Expire(TimeSpan.FromMinutes(5))
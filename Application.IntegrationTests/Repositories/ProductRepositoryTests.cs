@@ -199,4 +199,85 @@ public class ProductRepositoryTests : TestBase
         results.Should().HaveCount(3); // Exactly 3 demo products
         results.All(p => p.Name.Contains("Demo", StringComparison.OrdinalIgnoreCase)).Should().BeTrue();
     }
+
+    [Fact]
+    public async Task SuggestAsync_MatchesTagNames_WhileSearchAsyncDoesNot()
+    {
+        // Arrange
+        var store = await CreateVerifiedStoreAsync();
+        var product = await CreateProductAsync("Hoodie (Demo)", "Comfortable hoodie for everyday wear", store.Id, 49.99m, 5);
+        var tag = Tag.Create("Winterwear");
+        DbContext.Tags.Add(tag);
+        product.AddTag(tag);
+        await DbContext.SaveChangesAsync();
+
+        // Act
+        var suggestions = await _productRepository.SuggestAsync("winterwear", 10);
+        var searchResults = await _productRepository.SearchAsync("winterwear", 10);
+
+        // Assert
+        suggestions.Should().ContainSingle(p => p.Id == product.Id);
+        searchResults.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task FilterAsync_ByTagWithoutSearchText_ReturnsProductsOfSuggestedTag()
+    {
+        // Arrange
+        var store = await CreateVerifiedStoreAsync();
+        var tagged = await CreateProductAsync("Hoodie (Demo)", "Comfortable hoodie for everyday wear", store.Id, 49.99m, 5);
+        await CreateProductAsync("Watch (Demo)", "Stylish watch with great features", store.Id, 199.99m, 3);
+        var tag = Tag.Create("Winterwear");
+        DbContext.Tags.Add(tag);
+        tagged.AddTag(tag);
+        await DbContext.SaveChangesAsync();
+
+        // Act: the search bar opens /search?tag=<id> for a tag suggestion
+        var (products, totalCount) = await _productRepository.FilterAsync(
+            null, null, null, new List<Guid> { tag.Id }, null, null, null, null, null, "relevance", 1, 24);
+        var filterSource = await _productRepository.GetActiveByTagIdsWithSkusAsync(new[] { tag.Id });
+
+        // Assert
+        totalCount.Should().Be(1);
+        products.Should().ContainSingle(p => p.Id == tagged.Id);
+        filterSource.Should().ContainSingle(p => p.Id == tagged.Id);
+    }
+
+    [Fact]
+    public async Task FilterAsync_ByArrayAttributeValue_MatchesAnyElement()
+    {
+        // Arrange
+        var store = await CreateVerifiedStoreAsync();
+        var withNfc = await CreateProductWithAttributesAsync("Phone (Demo)", store.Id, new Dictionary<string, object?> { ["features"] = new[] { "NFC", "5G" } });
+        await CreateProductWithAttributesAsync("Watch (Demo)", store.Id, new Dictionary<string, object?> { ["features"] = new[] { "GPS" } });
+
+        var attributeFilters = new Dictionary<string, object>
+        {
+            ["features"] = new Dictionary<string, object> { ["In"] = new List<string> { "5G", "Wi-Fi 7" } }
+        };
+
+        // Act
+        var (products, totalCount) = await _productRepository.FilterAsync(
+            null, null, null, null, null, null, null, null, attributeFilters, "newest", 1, 24);
+
+        // Assert
+        totalCount.Should().Be(1);
+        products.Should().ContainSingle(p => p.Id == withNfc.Id);
+    }
+
+    // Helper: Creates an active product whose SKU keeps the attributes only in JSONB
+    private async Task<Product> CreateProductWithAttributesAsync(string name, Guid storeId, Dictionary<string, object?> attributes)
+    {
+        var product = new Product(name, "Test description");
+        product.Activate();
+        DbContext.Products.Add(product);
+        await DbContext.SaveChangesAsync();
+
+        DbContext.Entry(product).Property("StoreId").CurrentValue = storeId;
+
+        DbContext.Skus.Add(SkuEntity.Create(product.Id, 99.99m, 10, attributes));
+        await DbContext.SaveChangesAsync();
+
+        return product;
+    }
 }
\ No newline at end of file
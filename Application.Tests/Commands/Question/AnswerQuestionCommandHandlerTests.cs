@@ -0,0 +1,104 @@
+using Application.Commands.Question.AnswerQuestion;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Commands.Question;
+
+public class AnswerQuestionCommandHandlerTests
+{
+	private readonly Mock<IUserRepository> _userRepository = new();
+	private readonly Mock<IProductQuestionRepository> _questionRepository = new();
+	private readonly Mock<IUnitOfWork> _unitOfWork = new();
+	private readonly Mock<ILogger<AnswerQuestionCommandHandler>> _logger = new();
+
+	private AnswerQuestionCommandHandler CreateSut()
+		=> new(
+			_userRepository.Object,
+			_questionRepository.Object,
+			_unitOfWork.Object,
+			_logger.Object
+		);
+
+	private Domain.Entities.User SetupUser()
+	{
+		var identityUserId = Guid.NewGuid();
+		var domainUser = new Domain.Entities.User(identityUserId, "John", "Doe");
+		typeof(Domain.Entities.User).GetProperty("Id")?.SetValue(domainUser, Guid.NewGuid());
+
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(identityUserId)).ReturnsAsync(domainUser);
+		return domainUser;
+	}
+
+	private ProductQuestion SetupQuestion(Guid storeOwnerId)
+	{
+		var store = Domain.Entities.Store.Create(storeOwnerId, "My Store", null);
+		var product = new Domain.Entities.Product("Laptop");
+		store.AddProduct(product);
+
+		var question = ProductQuestion.Create(product.Id, Guid.NewGuid(), "Does it come with a charger?");
+		typeof(ProductQuestion).GetProperty("Product")?.SetValue(question, product);
+
+		_questionRepository.Setup(x => x.GetByIdAsync(question.Id)).ReturnsAsync(question);
+		return question;
+	}
+
+	[Fact]
+	public async Task Handle_WhenStoreOwnerAnswers_SavesAnswer()
+	{
+		// Arrange
+		var owner = SetupUser();
+		var question = SetupQuestion(owner.Id);
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new AnswerQuestionCommand(owner.IdentityUserId, question.Id, " Yes, a 65W one. "), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		question.Answer.Should().Be("Yes, a 65W one.");
+		question.AnsweredAt.Should().NotBeNull();
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenUserDoesNotOwnStore_ReturnsNotFound()
+	{
+		// Arrange
+		var user = SetupUser();
+		var question = SetupQuestion(Guid.NewGuid());
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new AnswerQuestionCommand(user.IdentityUserId, question.Id, "Yes"), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Question not found");
+		question.Answer.Should().BeNull();
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenQuestionIsHidden_ReturnsFailure()
+	{
+		// Arrange
+		var owner = SetupUser();
+		var question = SetupQuestion(owner.Id);
+		question.Hide("Spam");
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new AnswerQuestionCommand(owner.IdentityUserId, question.Id, "Yes"), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Question was hidden by a moderator");
+	}
+}
@@ -0,0 +1,104 @@
+using Application.Commands.Question.AskQuestion;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Commands.Question;
+
+public class AskQuestionCommandHandlerTests
+{
+	private readonly Mock<IUserRepository> _userRepository = new();
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<IProductQuestionRepository> _questionRepository = new();
+	private readonly Mock<IUnitOfWork> _unitOfWork = new();
+	private readonly Mock<ILogger<AskQuestionCommandHandler>> _logger = new();
+
+	private AskQuestionCommandHandler CreateSut()
+		=> new(
+			_userRepository.Object,
+			_productRepository.Object,
+			_questionRepository.Object,
+			_unitOfWork.Object,
+			_logger.Object
+		);
+
+	private Domain.Entities.User SetupUser()
+	{
+		var identityUserId = Guid.NewGuid();
+		var domainUser = new Domain.Entities.User(identityUserId, "John", "Doe");
+		typeof(Domain.Entities.User).GetProperty("Id")?.SetValue(domainUser, Guid.NewGuid());
+
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(identityUserId)).ReturnsAsync(domainUser);
+		return domainUser;
+	}
+
+	private Domain.Entities.Product SetupProduct(Guid storeOwnerId)
+	{
+		var store = Domain.Entities.Store.Create(storeOwnerId, "My Store", null);
+		var product = new Domain.Entities.Product("Laptop");
+		store.AddProduct(product);
+
+		_productRepository.Setup(x => x.GetByIdAsync(product.Id)).ReturnsAsync(product);
+		return product;
+	}
+
+	[Fact]
+	public async Task Handle_WhenValid_AddsPublishedQuestion()
+	{
+		// Arrange
+		var user = SetupUser();
+		var product = SetupProduct(Guid.NewGuid());
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new AskQuestionCommand(user.IdentityUserId, product.Id, "  Does it come with a charger?  "), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Text.Should().Be("Does it come with a charger?");
+		result.Payload.Answer.Should().BeNull();
+		_questionRepository.Verify(x => x.Add(It.Is<ProductQuestion>(q => q.ProductId == product.Id && q.UserId == user.Id)), Times.Once);
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenProductIsInactive_ReturnsFailure()
+	{
+		// Arrange
+		var user = SetupUser();
+		var product = SetupProduct(Guid.NewGuid());
+		product.Deactivate();
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new AskQuestionCommand(user.IdentityUserId, product.Id, "Is it in stock?"), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Product not found");
+		_questionRepository.Verify(x => x.Add(It.IsAny<ProductQuestion>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenAskingAboutOwnProduct_ReturnsFailure()
+	{
+		// Arrange
+		var user = SetupUser();
+		var product = SetupProduct(user.Id);
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new AskQuestionCommand(user.IdentityUserId, product.Id, "Is it in stock?"), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("You cannot ask a question about your own product");
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Never);
+	}
+}
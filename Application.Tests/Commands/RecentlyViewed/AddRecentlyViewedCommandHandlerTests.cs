@@ -0,0 +1,185 @@
+using Application.Commands.RecentlyViewed.AddRecentlyViewed;
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Commands.RecentlyViewed;
+
+public class AddRecentlyViewedCommandHandlerTests
+{
+	private readonly Mock<IRecentlyViewedProductRepository> _recentlyViewedRepository = new();
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<IUserRepository> _userRepository = new();
+	private readonly Mock<IUnitOfWork> _unitOfWork = new();
+	private readonly Mock<ILogger<AddRecentlyViewedCommandHandler>> _logger = new();
+
+	private AddRecentlyViewedCommandHandler CreateSut()
+		=> new(
+			_recentlyViewedRepository.Object,
+			_productRepository.Object,
+			_userRepository.Object,
+			_unitOfWork.Object,
+			_logger.Object
+		);
+
+	private Domain.Entities.User SetupUser(List<RecentlyViewedProduct> history)
+	{
+		var identityUserId = Guid.NewGuid();
+		var domainUser = new Domain.Entities.User(identityUserId, "John", "Doe");
+		typeof(Domain.Entities.User).GetProperty("Id")?.SetValue(domainUser, Guid.NewGuid());
+
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(identityUserId)).ReturnsAsync(domainUser);
+		_recentlyViewedRepository.Setup(x => x.GetByUserIdAsync(domainUser.Id)).ReturnsAsync(history);
+		return domainUser;
+	}
+
+	// Every product in the list is visible; the repository only returns the requested ones
+	private void SetupVisibleProducts(params Domain.Entities.Product[] products)
+	{
+		_productRepository
+			.Setup(x => x.GetActiveByIdsAsync(It.IsAny<IEnumerable<Guid>>()))
+			.ReturnsAsync((IEnumerable<Guid> ids) => products.Where(p => ids.Contains(p.Id)).ToList());
+	}
+
+	[Fact]
+	public async Task Handle_WhenAnotherDeviceSendsAnOlderView_KeepsTheLaterOne()
+	{
+		// Arrange
+		var now = DateTime.UtcNow;
+		var laptop = new Domain.Entities.Product("Laptop");
+		var phone = new Domain.Entities.Product("Phone");
+		SetupVisibleProducts(laptop, phone);
+
+		var history = new List<RecentlyViewedProduct>();
+		var user = SetupUser(history);
+		var laptopView = RecentlyViewedProduct.Create(user.Id, laptop.Id, now.AddHours(-2));
+		history.Add(laptopView);
+		history.Add(RecentlyViewedProduct.Create(user.Id, phone.Id, now.AddHours(-1)));
+
+		var sut = CreateSut();
+		// The laptop was opened on a phone that was offline until now
+		var command = new AddRecentlyViewedCommand(
+			user.IdentityUserId,
+			new[] { new RecentlyViewedEntryRequest(laptop.Id, now.AddHours(-3)) });
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Select(e => e.Product.Id).Should().Equal(phone.Id, laptop.Id);
+		laptopView.ViewedAt.Should().Be(now.AddHours(-2));
+		_recentlyViewedRepository.Verify(x => x.Add(It.IsAny<RecentlyViewedProduct>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenViewIsDatedInTheFuture_RecordsItAtServerTime()
+	{
+		// Arrange
+		var laptop = new Domain.Entities.Product("Laptop");
+		SetupVisibleProducts(laptop);
+
+		var history = new List<RecentlyViewedProduct>();
+		var user = SetupUser(history);
+
+		var sut = CreateSut();
+		var command = new AddRecentlyViewedCommand(
+			user.IdentityUserId,
+			new[] { new RecentlyViewedEntryRequest(laptop.Id, DateTime.UtcNow.AddDays(1)) });
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		_recentlyViewedRepository.Verify(
+			x => x.Add(It.Is<RecentlyViewedProduct>(e => e.ProductId == laptop.Id && e.ViewedAt <= DateTime.UtcNow)),
+			Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenListIsFull_ForgetsTheProductViewedLongestAgo()
+	{
+		// Arrange
+		var now = DateTime.UtcNow;
+		var viewed = Enumerable.Range(0, RecentlyViewedProduct.MaxEntriesPerUser)
+			.Select(i => new Domain.Entities.Product($"Viewed {i}"))
+			.ToList();
+		var opened = new Domain.Entities.Product("Opened now");
+		SetupVisibleProducts(viewed.Append(opened).ToArray());
+
+		var history = new List<RecentlyViewedProduct>();
+		var user = SetupUser(history);
+		for (var i = 0; i < viewed.Count; i++)
+		{
+			history.Add(RecentlyViewedProduct.Create(user.Id, viewed[i].Id, now.AddDays(-1).AddMinutes(i)));
+		}
+		var oldest = history[0];
+
+		var sut = CreateSut();
+		var command = new AddRecentlyViewedCommand(
+			user.IdentityUserId,
+			new[] { new RecentlyViewedEntryRequest(opened.Id, now) });
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Should().HaveCount(RecentlyViewedProduct.MaxEntriesPerUser);
+		result.Payload.First().Product.Id.Should().Be(opened.Id);
+		_recentlyViewedRepository.Verify(
+			x => x.RemoveRange(It.Is<IEnumerable<RecentlyViewedProduct>>(e => e.Single() == oldest)),
+			Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenProductIsHidden_DoesNotRecordIt()
+	{
+		// Arrange
+		var visible = new Domain.Entities.Product("Visible");
+		var hidden = new Domain.Entities.Product("Hidden");
+		SetupVisibleProducts(visible);
+
+		var history = new List<RecentlyViewedProduct>();
+		var user = SetupUser(history);
+
+		var sut = CreateSut();
+		var command = new AddRecentlyViewedCommand(
+			user.IdentityUserId,
+			new[] { new RecentlyViewedEntryRequest(hidden.Id), new RecentlyViewedEntryRequest(visible.Id) });
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Select(e => e.Product.Id).Should().Equal(visible.Id);
+		_recentlyViewedRepository.Verify(
+			x => x.Add(It.Is<RecentlyViewedProduct>(e => e.ProductId == hidden.Id)),
+			Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenUserNotFound_ReturnsFailure()
+	{
+		// Arrange
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(It.IsAny<Guid>())).ReturnsAsync((Domain.Entities.User?)null);
+		var sut = CreateSut();
+		var command = new AddRecentlyViewedCommand(
+			Guid.NewGuid(),
+			new[] { new RecentlyViewedEntryRequest(Guid.NewGuid()) });
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("User not found");
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Never);
+	}
+}
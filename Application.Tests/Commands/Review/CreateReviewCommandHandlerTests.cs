@@ -0,0 +1,201 @@
+using Application.Commands.Review.CreateReview;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using Domain.ValueObjects;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Commands.Review;
+
+public class CreateReviewCommandHandlerTests
+{
+	private readonly Mock<IUserRepository> _userRepository = new();
+	private readonly Mock<IOrderRepository> _orderRepository = new();
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<IProductReviewRepository> _reviewRepository = new();
+	private readonly Mock<IMediaImageRepository> _mediaImageRepository = new();
+	private readonly Mock<IFileStorage> _fileStorage = new();
+	private readonly Mock<IImageService> _imageService = new();
+	private readonly Mock<IUnitOfWork> _unitOfWork = new();
+	private readonly Mock<ILogger<CreateReviewCommandHandler>> _logger = new();
+
+	private CreateReviewCommandHandler CreateSut()
+		=> new(
+			_userRepository.Object,
+			_orderRepository.Object,
+			_productRepository.Object,
+			_reviewRepository.Object,
+			_mediaImageRepository.Object,
+			_fileStorage.Object,
+			_imageService.Object,
+			_unitOfWork.Object,
+			_logger.Object
+		);
+
+	private Domain.Entities.User SetupUser()
+	{
+		var identityUserId = Guid.NewGuid();
+		var domainUser = new Domain.Entities.User(identityUserId, "John", "Doe");
+		typeof(Domain.Entities.User).GetProperty("Id")?.SetValue(domainUser, Guid.NewGuid());
+
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(identityUserId)).ReturnsAsync(domainUser);
+		return domainUser;
+	}
+
+	private OrderItem SetupOrderItem(Guid orderUserId, Domain.Entities.Product product, OrderStatus status)
+	{
+		var address = new ShippingAddress("John", "Doe", "+380501234567", "john@example.com", "Main St 1", null, "Kyiv", null, "01001", "Ukraine");
+		var order = new Domain.Entities.Order(orderUserId, address, "courier", "card");
+		var item = new OrderItem(order.Id, product.Id, Guid.NewGuid(), 1, 100m, product.Name, null, "SKU-1", null);
+		order.AddItem(item);
+		typeof(OrderItem).GetProperty("Order")?.SetValue(item, order);
+
+		foreach (var next in new[] { OrderStatus.Confirmed, OrderStatus.Processing, OrderStatus.Shipped, OrderStatus.Delivered })
+		{
+			if (order.Status == status) break;
+			order.UpdateStatus(next);
+		}
+
+		_orderRepository.Setup(x => x.GetItemByIdAsync(item.Id, It.IsAny<CancellationToken>())).ReturnsAsync(item);
+		_productRepository.Setup(x => x.GetByIdAsync(product.Id)).ReturnsAsync(product);
+		return item;
+	}
+
+	[Fact]
+	public async Task Handle_WhenOrderNotDelivered_ReturnsFailure()
+	{
+		// Arrange
+		var user = SetupUser();
+		var product = new Domain.Entities.Product("Laptop");
+		var item = SetupOrderItem(user.Id, product, OrderStatus.Shipped);
+
+		var sut = CreateSut();
+		var command = new CreateReviewCommand(user.IdentityUserId, item.Id, 5, "Great", [new MemoryStream([1, 2, 3])]);
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Only delivered items can be reviewed");
+		_reviewRepository.Verify(x => x.Add(It.IsAny<ProductReview>()), Times.Never);
+		_fileStorage.Verify(
+			x => x.UploadAsync(It.IsAny<Stream>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()),
+			Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenPhotoIsNotAnImage_StoresNothing()
+	{
+		// Arrange
+		var user = SetupUser();
+		var product = new Domain.Entities.Product("Laptop");
+		var item = SetupOrderItem(user.Id, product, OrderStatus.Delivered);
+		var image = new MemoryStream([1, 2, 3]);
+		var notAnImage = new MemoryStream([4, 5, 6]);
+		_imageService
+			.Setup(x => x.ProcessAsync(image, It.IsAny<ImageResizeMode>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(new ProcessedImageResult(new MemoryStream(), "image/webp", ".webp", 800, 600));
+		_imageService
+			.Setup(x => x.ProcessAsync(notAnImage, It.IsAny<ImageResizeMode>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<CancellationToken>()))
+			.ThrowsAsync(new InvalidDataException("Unknown image format"));
+
+		var sut = CreateSut();
+		var command = new CreateReviewCommand(user.IdentityUserId, item.Id, 5, "Great", [image, notAnImage]);
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Only image files can be attached");
+		_fileStorage.Verify(
+			x => x.UploadAsync(It.IsAny<Stream>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<CancellationToken>()),
+			Times.Never);
+		_reviewRepository.Verify(x => x.Add(It.IsAny<ProductReview>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenOrderBelongsToAnotherUser_ReturnsNotFound()
+	{
+		// Arrange
+		var user = SetupUser();
+		var product = new Domain.Entities.Product("Laptop");
+		var item = SetupOrderItem(Guid.NewGuid(), product, OrderStatus.Delivered);
+
+		var sut = CreateSut();
+		var command = new CreateReviewCommand(user.IdentityUserId, item.Id, 5, "Great", []);
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Order item not found");
+		_reviewRepository.Verify(x => x.Add(It.IsAny<ProductReview>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenProductAlreadyReviewed_ReturnsFailure()
+	{
+		// Arrange
+		var user = SetupUser();
+		var product = new Domain.Entities.Product("Laptop");
+		var item = SetupOrderItem(user.Id, product, OrderStatus.Delivered);
+		_reviewRepository
+			.Setup(x => x.GetByUserAndProductAsync(user.Id, product.Id))
+			.ReturnsAsync(ProductReview.Create(product.Id, user.Id, Guid.NewGuid(), 4, null));
+
+		var sut = CreateSut();
+		var command = new CreateReviewCommand(user.IdentityUserId, item.Id, 5, "Great", []);
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("You have already reviewed this product");
+		_reviewRepository.Verify(x => x.Add(It.IsAny<ProductReview>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenDelivered_AddsReviewAndRefreshesProductRating()
+	{
+		// Arrange
+		var user = SetupUser();
+		var product = new Domain.Entities.Product("Laptop");
+		var item = SetupOrderItem(user.Id, product, OrderStatus.Delivered);
+		_imageService
+			.Setup(x => x.ProcessAsync(It.IsAny<Stream>(), It.IsAny<ImageResizeMode>(), It.IsAny<int>(), It.IsAny<int>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(new ProcessedImageResult(new MemoryStream(), "image/webp", ".webp", 800, 600));
+		_fileStorage
+			.Setup(x => x.UploadAsync(It.IsAny<Stream>(), It.IsAny<string>(), "image/webp", It.IsAny<CancellationToken>()))
+			.ReturnsAsync("photo.webp");
+		_reviewRepository
+			.Setup(x => x.GetRatingSummaryAsync(product.Id))
+			.ReturnsAsync(new ProductRatingSummary { AverageRating = 4.5m, ReviewCount = 2 });
+
+		var sut = CreateSut();
+		var command = new CreateReviewCommand(user.IdentityUserId, item.Id, 5, "Great", [new MemoryStream([1, 2, 3])]);
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Rating.Should().Be(5);
+		result.Payload.IsVerifiedPurchase.Should().BeTrue();
+		result.Payload.Photos.Should().HaveCount(1);
+		_fileStorage.Verify(
+			x => x.UploadAsync(It.IsAny<Stream>(), It.Is<string>(name => name.EndsWith(".webp")), "image/webp", It.IsAny<CancellationToken>()),
+			Times.Once);
+		_mediaImageRepository.Verify(x => x.Add(It.Is<MediaImage>(m => m.StorageKey == "photo.webp")), Times.Once);
+		_reviewRepository.Verify(x => x.Add(It.Is<ProductReview>(r =>
+			r.ProductId == product.Id && r.UserId == user.Id && r.OrderItemId == item.Id)), Times.Once);
+		product.AverageRating.Should().Be(4.5m);
+		product.ReviewCount.Should().Be(2);
+	}
+}
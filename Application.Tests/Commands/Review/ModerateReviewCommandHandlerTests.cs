@@ -0,0 +1,95 @@
+using Application.Commands.Review.ModerateReview;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Commands.Review;
+
+public class ModerateReviewCommandHandlerTests
+{
+	private readonly Mock<IProductReviewRepository> _reviewRepository = new();
+	private readonly Mock<IUnitOfWork> _unitOfWork = new();
+	private readonly Mock<ILogger<ModerateReviewCommandHandler>> _logger = new();
+
+	private ModerateReviewCommandHandler CreateSut()
+		=> new(_reviewRepository.Object, _unitOfWork.Object, _logger.Object);
+
+	// A laptop rated 4.5 from two published reviews, one of which is `review`
+	private (ProductReview Review, Domain.Entities.Product Product) SetupReview()
+	{
+		var product = new Domain.Entities.Product("Laptop");
+		product.UpdateRating(4.5m, 2);
+
+		var review = ProductReview.Create(product.Id, Guid.NewGuid(), Guid.NewGuid(), 5, "Buy it, it's great!!! visit my-shop.example");
+		typeof(ProductReview).GetProperty("Product")?.SetValue(review, product);
+
+		_reviewRepository.Setup(x => x.GetByIdAsync(review.Id)).ReturnsAsync(review);
+		return (review, product);
+	}
+
+	[Fact]
+	public async Task Handle_WhenHidingReview_RemovesItFromProductRating()
+	{
+		// Arrange
+		var (review, product) = SetupReview();
+		_reviewRepository
+			.Setup(x => x.GetRatingSummaryAsync(product.Id))
+			.ReturnsAsync(new ProductRatingSummary { AverageRating = 4m, ReviewCount = 1 });
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ModerateReviewCommand(review.Id, ReviewStatus.Hidden, " Advertising "), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		review.Status.Should().Be(ReviewStatus.Hidden);
+		review.ModerationReason.Should().Be("Advertising");
+		product.AverageRating.Should().Be(4m);
+		product.ReviewCount.Should().Be(1);
+	}
+
+	[Fact]
+	public async Task Handle_WhenPublishingHiddenReview_CountsItInProductRatingAgain()
+	{
+		// Arrange
+		var (review, product) = SetupReview();
+		review.Hide("Advertising");
+		product.UpdateRating(4m, 1);
+		_reviewRepository
+			.Setup(x => x.GetRatingSummaryAsync(product.Id))
+			.ReturnsAsync(new ProductRatingSummary { AverageRating = 4.5m, ReviewCount = 2 });
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ModerateReviewCommand(review.Id, ReviewStatus.Published, null), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		review.Status.Should().Be(ReviewStatus.Published);
+		review.ModerationReason.Should().BeNull();
+		product.AverageRating.Should().Be(4.5m);
+		product.ReviewCount.Should().Be(2);
+	}
+
+	[Fact]
+	public async Task Handle_WhenReviewNotFound_ReturnsFailure()
+	{
+		// Arrange
+		_reviewRepository.Setup(x => x.GetByIdAsync(It.IsAny<Guid>())).ReturnsAsync((ProductReview?)null);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ModerateReviewCommand(Guid.NewGuid(), ReviewStatus.Hidden, null), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Review not found");
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Never);
+	}
+}
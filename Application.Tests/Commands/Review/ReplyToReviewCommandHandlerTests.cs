@@ -0,0 +1,106 @@
+using Application.Commands.Review.ReplyToReview;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Commands.Review;
+
+public class ReplyToReviewCommandHandlerTests
+{
+	private readonly Mock<IUserRepository> _userRepository = new();
+	private readonly Mock<IProductReviewRepository> _reviewRepository = new();
+	private readonly Mock<IUnitOfWork> _unitOfWork = new();
+	private readonly Mock<ILogger<ReplyToReviewCommandHandler>> _logger = new();
+
+	private ReplyToReviewCommandHandler CreateSut()
+		=> new(
+			_userRepository.Object,
+			_reviewRepository.Object,
+			_unitOfWork.Object,
+			_logger.Object
+		);
+
+	private Domain.Entities.User SetupUser()
+	{
+		var identityUserId = Guid.NewGuid();
+		var domainUser = new Domain.Entities.User(identityUserId, "John", "Doe");
+		typeof(Domain.Entities.User).GetProperty("Id")?.SetValue(domainUser, Guid.NewGuid());
+
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(identityUserId)).ReturnsAsync(domainUser);
+		return domainUser;
+	}
+
+	private ProductReview SetupReview(Guid storeOwnerId)
+	{
+		var store = Domain.Entities.Store.Create(storeOwnerId, "My Store", null);
+		var product = new Domain.Entities.Product("Laptop");
+		store.AddProduct(product);
+
+		var review = ProductReview.Create(product.Id, Guid.NewGuid(), Guid.NewGuid(), 2, "The battery barely lasts an hour");
+		typeof(ProductReview).GetProperty("Product")?.SetValue(review, product);
+
+		_reviewRepository.Setup(x => x.GetByIdAsync(review.Id)).ReturnsAsync(review);
+		return review;
+	}
+
+	[Fact]
+	public async Task Handle_WhenStoreOwnerReplies_SavesReply()
+	{
+		// Arrange
+		var owner = SetupUser();
+		var review = SetupReview(owner.Id);
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ReplyToReviewCommand(owner.IdentityUserId, review.Id, " Please contact us for a replacement. "), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		review.SellerReply.Should().Be("Please contact us for a replacement.");
+		review.SellerRepliedAt.Should().NotBeNull();
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenUserDoesNotOwnStore_ReturnsNotFound()
+	{
+		// Arrange
+		var user = SetupUser();
+		var review = SetupReview(Guid.NewGuid());
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ReplyToReviewCommand(user.IdentityUserId, review.Id, "Thanks"), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Review not found");
+		review.SellerReply.Should().BeNull();
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenReviewIsHidden_ReturnsFailure()
+	{
+		// Arrange
+		var owner = SetupUser();
+		var review = SetupReview(owner.Id);
+		review.Hide("Offensive language");
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ReplyToReviewCommand(owner.IdentityUserId, review.Id, "Thanks"), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("Review was hidden by a moderator");
+		review.SellerReply.Should().BeNull();
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Never);
+	}
+}
@@ -0,0 +1,102 @@
+using Application.Commands.Review.ToggleReviewHelpful;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Commands.Review;
+
+public class ToggleReviewHelpfulCommandHandlerTests
+{
+	private readonly Mock<IUserRepository> _userRepository = new();
+	private readonly Mock<IProductReviewRepository> _reviewRepository = new();
+	private readonly Mock<IUnitOfWork> _unitOfWork = new();
+	private readonly Mock<ILogger<ToggleReviewHelpfulCommandHandler>> _logger = new();
+
+	private ToggleReviewHelpfulCommandHandler CreateSut()
+		=> new(
+			_userRepository.Object,
+			_reviewRepository.Object,
+			_unitOfWork.Object,
+			_logger.Object
+		);
+
+	private Domain.Entities.User SetupUser()
+	{
+		var identityUserId = Guid.NewGuid();
+		var domainUser = new Domain.Entities.User(identityUserId, "John", "Doe");
+		typeof(Domain.Entities.User).GetProperty("Id")?.SetValue(domainUser, Guid.NewGuid());
+
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(identityUserId)).ReturnsAsync(domainUser);
+		return domainUser;
+	}
+
+	private ProductReview SetupReview(Guid authorId)
+	{
+		var review = ProductReview.Create(Guid.NewGuid(), authorId, Guid.NewGuid(), 4, "Works fine");
+		_reviewRepository.Setup(x => x.GetByIdAsync(review.Id)).ReturnsAsync(review);
+		return review;
+	}
+
+	[Fact]
+	public async Task Handle_WhenNotVotedYet_AddsVote()
+	{
+		// Arrange
+		var user = SetupUser();
+		var review = SetupReview(Guid.NewGuid());
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ToggleReviewHelpfulCommand(user.IdentityUserId, review.Id), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.VotedHelpful.Should().BeTrue();
+		result.Payload.HelpfulCount.Should().Be(1);
+		_reviewRepository.Verify(x => x.AddVote(It.Is<ProductReviewVote>(v => v.ReviewId == review.Id && v.UserId == user.Id)), Times.Once);
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenAlreadyVoted_RemovesVote()
+	{
+		// Arrange
+		var user = SetupUser();
+		var review = SetupReview(Guid.NewGuid());
+		review.AddHelpfulVote();
+		var vote = ProductReviewVote.Create(review.Id, user.Id);
+		_reviewRepository.Setup(x => x.GetVoteAsync(review.Id, user.Id)).ReturnsAsync(vote);
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ToggleReviewHelpfulCommand(user.IdentityUserId, review.Id), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.VotedHelpful.Should().BeFalse();
+		result.Payload.HelpfulCount.Should().Be(0);
+		_reviewRepository.Verify(x => x.RemoveVote(vote), Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenVotingForOwnReview_ReturnsFailure()
+	{
+		// Arrange
+		var user = SetupUser();
+		var review = SetupReview(user.Id);
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new ToggleReviewHelpfulCommand(user.IdentityUserId, review.Id), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Be("You cannot vote for your own review");
+		_reviewRepository.Verify(x => x.AddVote(It.IsAny<ProductReviewVote>()), Times.Never);
+	}
+}
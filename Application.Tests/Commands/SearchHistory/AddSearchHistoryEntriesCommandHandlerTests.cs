@@ -0,0 +1,138 @@
+using Application.Commands.SearchHistory.AddSearchHistoryEntries;
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Commands.SearchHistory;
+
+public class AddSearchHistoryEntriesCommandHandlerTests
+{
+	private readonly Mock<ISearchHistoryRepository> _searchHistoryRepository = new();
+	private readonly Mock<IUserRepository> _userRepository = new();
+	private readonly Mock<IUnitOfWork> _unitOfWork = new();
+	private readonly Mock<ILogger<AddSearchHistoryEntriesCommandHandler>> _logger = new();
+
+	private AddSearchHistoryEntriesCommandHandler CreateSut()
+		=> new(
+			_searchHistoryRepository.Object,
+			_userRepository.Object,
+			_unitOfWork.Object,
+			_logger.Object
+		);
+
+	private Domain.Entities.User SetupUser(List<SearchHistoryEntry> history, bool paused = false)
+	{
+		var identityUserId = Guid.NewGuid();
+		var domainUser = new Domain.Entities.User(identityUserId, "John", "Doe");
+		typeof(Domain.Entities.User).GetProperty("Id")?.SetValue(domainUser, Guid.NewGuid());
+		domainUser.SetSearchHistoryPaused(paused);
+
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(identityUserId)).ReturnsAsync(domainUser);
+		_searchHistoryRepository.Setup(x => x.GetByUserIdAsync(domainUser.Id)).ReturnsAsync(history);
+		return domainUser;
+	}
+
+	[Fact]
+	public async Task Handle_WhenQueryAlreadyInHistory_MovesItToTopInsteadOfDuplicating()
+	{
+		// Arrange
+		var now = DateTime.UtcNow;
+		var history = new List<SearchHistoryEntry>();
+		var user = SetupUser(history);
+		history.Add(SearchHistoryEntry.Create(user.Id, "laptop", now.AddHours(-2)));
+		history.Add(SearchHistoryEntry.Create(user.Id, "phone", now.AddHours(-1)));
+
+		var sut = CreateSut();
+		var command = new AddSearchHistoryEntriesCommand(
+			user.IdentityUserId,
+			new[] { new SearchHistoryEntryRequest(" Laptop ", now.AddMinutes(-5)) });
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Queries.Should().Equal("Laptop", "phone");
+		_searchHistoryRepository.Verify(x => x.Add(It.IsAny<SearchHistoryEntry>()), Times.Never);
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenMergingGuestHistory_KeepsNewestEntriesUpToLimit()
+	{
+		// Arrange
+		var now = DateTime.UtcNow;
+		var history = new List<SearchHistoryEntry>();
+		var user = SetupUser(history);
+		for (var i = 0; i < SearchHistoryEntry.MaxEntriesPerUser; i++)
+		{
+			history.Add(SearchHistoryEntry.Create(user.Id, $"server {i}", now.AddDays(-1).AddMinutes(i)));
+		}
+
+		var sut = CreateSut();
+		var command = new AddSearchHistoryEntriesCommand(
+			user.IdentityUserId,
+			new[]
+			{
+				new SearchHistoryEntryRequest("guest a", now.AddMinutes(-10)),
+				new SearchHistoryEntryRequest("guest b", now.AddMinutes(-20))
+			});
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Queries.Should().HaveCount(SearchHistoryEntry.MaxEntriesPerUser);
+		result.Payload.Queries.Take(2).Should().Equal("guest a", "guest b");
+		result.Payload.Queries.Should().NotContain(new[] { "server 0", "server 1" });
+		_searchHistoryRepository.Verify(x => x.Add(It.IsAny<SearchHistoryEntry>()), Times.Exactly(2));
+		_searchHistoryRepository.Verify(
+			x => x.RemoveRange(It.Is<IEnumerable<SearchHistoryEntry>>(e => e.Count() == 2)),
+			Times.Once);
+	}
+
+	[Fact]
+	public async Task Handle_WhenHistoryPaused_DoesNotRecord()
+	{
+		// Arrange
+		var history = new List<SearchHistoryEntry>();
+		var user = SetupUser(history, paused: true);
+
+		var sut = CreateSut();
+		var command = new AddSearchHistoryEntriesCommand(
+			user.IdentityUserId,
+			new[] { new SearchHistoryEntryRequest("laptop") });
+
+		// Act
+		var result = await sut.Handle(command, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.IsPaused.Should().BeTrue();
+		result.Payload.Queries.Should().BeEmpty();
+		_searchHistoryRepository.Verify(x => x.Add(It.IsAny<SearchHistoryEntry>()), Times.Never);
+		_unitOfWork.Verify(x => x.SaveChangesAsync(It.IsAny<CancellationToken>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenUserNotFound_ReturnsFailure()
+	{
+		// Arrange
+		_userRepository.Setup(x => x.GetByIdentityUserIdAsync(It.IsAny<Guid>())).ReturnsAsync((Domain.Entities.User?)null);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(
+			new AddSearchHistoryEntriesCommand(Guid.NewGuid(), new[] { new SearchHistoryEntryRequest("laptop") }),
+			CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("User not found");
+	}
+}
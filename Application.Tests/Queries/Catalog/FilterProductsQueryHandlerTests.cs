@@ -36,10 +36,13 @@ public class FilterProductsQueryHandlerTests
 
 		_productRepository.Setup(x => x.FilterAsync(
 			It.IsAny<Guid?>(),
+			It.IsAny<Guid?>(),
+			It.IsAny<string?>(),
 			It.IsAny<List<Guid>?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<bool?>(),
+			It.IsAny<decimal?>(),
 			It.IsAny<Dictionary<string, object>?>(),
 			It.IsAny<string>(),
 			It.IsAny<int>(),
@@ -73,10 +76,13 @@ public class FilterProductsQueryHandlerTests
 		// Arrange
 		_productRepository.Setup(x => x.FilterAsync(
 			It.IsAny<Guid?>(),
+			It.IsAny<Guid?>(),
+			It.IsAny<string?>(),
 			It.IsAny<List<Guid>?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<bool?>(),
+			It.IsAny<decimal?>(),
 			It.IsAny<Dictionary<string, object>?>(),
 			It.IsAny<string>(),
 			It.IsAny<int>(),
@@ -150,17 +156,20 @@ public class FilterProductsQueryHandlerTests
 		Dictionary<string, object>? capturedFilters = null;
 		_productRepository.Setup(x => x.FilterAsync(
 			It.IsAny<Guid?>(),
+			It.IsAny<Guid?>(),
+			It.IsAny<string?>(),
 			It.IsAny<List<Guid>?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<bool?>(),
+			It.IsAny<decimal?>(),
 			It.IsAny<Dictionary<string, object>?>(),
 			It.IsAny<string>(),
 			It.IsAny<int>(),
 			It.IsAny<int>()
 		))
-		.Callback<Guid?, List<Guid>?, decimal?, decimal?, bool?, Dictionary<string, object>?, string, int, int>(
-			(_, _, _, _, _, filters, _, _, _) => capturedFilters = filters
+		.Callback<Guid?, Guid?, string?, List<Guid>?, decimal?, decimal?, bool?, decimal?, Dictionary<string, object>?, string, int, int>(
+			(_, _, _, _, _, _, _, _, filters, _, _, _) => capturedFilters = filters
 		)
 		.ReturnsAsync((products, 1));
 
@@ -189,10 +198,13 @@ public class FilterProductsQueryHandlerTests
 		// Arrange
 		_productRepository.Setup(x => x.FilterAsync(
 			It.IsAny<Guid?>(),
+			It.IsAny<Guid?>(),
+			It.IsAny<string?>(),
 			It.IsAny<List<Guid>?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<bool?>(),
+			It.IsAny<decimal?>(),
 			It.IsAny<Dictionary<string, object>?>(),
 			It.IsAny<string>(),
 			It.IsAny<int>(),
@@ -219,17 +231,20 @@ public class FilterProductsQueryHandlerTests
 		string? capturedSort = null;
 		_productRepository.Setup(x => x.FilterAsync(
 			It.IsAny<Guid?>(),
+			It.IsAny<Guid?>(),
+			It.IsAny<string?>(),
 			It.IsAny<List<Guid>?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<decimal?>(),
 			It.IsAny<bool?>(),
+			It.IsAny<decimal?>(),
 			It.IsAny<Dictionary<string, object>?>(),
 			It.IsAny<string>(),
 			It.IsAny<int>(),
 			It.IsAny<int>()
 		))
-		.Callback<Guid?, List<Guid>?, decimal?, decimal?, bool?, Dictionary<string, object>?, string, int, int>(
-			(_, _, _, _, _, _, sort, _, _) => capturedSort = sort
+		.Callback<Guid?, Guid?, string?, List<Guid>?, decimal?, decimal?, bool?, decimal?, Dictionary<string, object>?, string, int, int>(
+			(_, _, _, _, _, _, _, _, _, sort, _, _) => capturedSort = sort
 		)
 		.ReturnsAsync((products, 1));
 
@@ -243,4 +258,91 @@ public class FilterProductsQueryHandlerTests
 		result.IsSuccess.Should().BeTrue();
 		capturedSort.Should().Be("PriceAsc");
 	}
+
+	[Fact]
+	public async Task Handle_WhenStoreIdSpecified_PassesStoreScopeToRepository()
+	{
+		// Arrange
+		var storeId = Guid.NewGuid();
+		var products = new List<Domain.Entities.Product> { CreateProductWithSkus("Product", 100m, 10) };
+
+		Guid? capturedCategoryId = Guid.NewGuid();
+		Guid? capturedStoreId = null;
+		_productRepository.Setup(x => x.FilterAsync(
+			It.IsAny<Guid?>(),
+			It.IsAny<Guid?>(),
+			It.IsAny<string?>(),
+			It.IsAny<List<Guid>?>(),
+			It.IsAny<decimal?>(),
+			It.IsAny<decimal?>(),
+			It.IsAny<bool?>(),
+			It.IsAny<decimal?>(),
+			It.IsAny<Dictionary<string, object>?>(),
+			It.IsAny<string>(),
+			It.IsAny<int>(),
+			It.IsAny<int>()
+		))
+		.Callback<Guid?, Guid?, string?, List<Guid>?, decimal?, decimal?, bool?, decimal?, Dictionary<string, object>?, string, int, int>(
+			(categoryId, store, _, _, _, _, _, _, _, _, _, _) =>
+			{
+				capturedCategoryId = categoryId;
+				capturedStoreId = store;
+			}
+		)
+		.ReturnsAsync((products, 1));
+
+		var sut = CreateSut();
+		var query = new FilterProductsQuery(StoreId: storeId, Sort: ProductSort.PriceDesc);
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		capturedStoreId.Should().Be(storeId);
+		capturedCategoryId.Should().BeNull();
+	}
+
+	[Fact]
+	public async Task Handle_WhenQuerySpecified_PassesSearchTextAndRelevanceToRepository()
+	{
+		// Arrange
+		var products = new List<Domain.Entities.Product> { CreateProductWithSkus("Phone case", 100m, 10) };
+
+		string? capturedQuery = null;
+		string? capturedSort = null;
+		_productRepository.Setup(x => x.FilterAsync(
+			It.IsAny<Guid?>(),
+			It.IsAny<Guid?>(),
+			It.IsAny<string?>(),
+			It.IsAny<List<Guid>?>(),
+			It.IsAny<decimal?>(),
+			It.IsAny<decimal?>(),
+			It.IsAny<bool?>(),
+			It.IsAny<decimal?>(),
+			It.IsAny<Dictionary<string, object>?>(),
+			It.IsAny<string>(),
+			It.IsAny<int>(),
+			It.IsAny<int>()
+		))
+		.Callback<Guid?, Guid?, string?, List<Guid>?, decimal?, decimal?, bool?, decimal?, Dictionary<string, object>?, string, int, int>(
+			(_, _, searchQuery, _, _, _, _, _, _, sort, _, _) =>
+			{
+				capturedQuery = searchQuery;
+				capturedSort = sort;
+			}
+		)
+		.ReturnsAsync((products, 1));
+
+		var sut = CreateSut();
+		var query = new FilterProductsQuery(Query: "phone");
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		capturedQuery.Should().Be("phone");
+		capturedSort.Should().Be("Relevance");
+	}
 }
@@ -1,3 +1,4 @@
+using Application.DTOs;
 using Application.Queries.Catalog.GetCategoryAvailableFilters;
 using Domain.Entities;
 using Domain.Interfaces.Repositories;
@@ -293,4 +294,46 @@ public class GetCategoryAvailableFiltersQueryHandlerTests
 		result.IsSuccess.Should().BeFalse();
 		result.Message.Should().Contain("Database error");
 	}
+
+	[Fact]
+	public async Task Handle_WhenArrayAttribute_ReturnsValueOptions()
+	{
+		// Arrange
+		var categoryId = Guid.NewGuid();
+		var category = CreateCategory("Test");
+
+		var products = new List<Domain.Entities.Product>
+		{
+			CreateProductWithSkuAttributes("P1", 100m, 10, new Dictionary<string, object> { ["features"] = new[] { "NFC", "5G" }, ["color"] = "Black" }),
+			CreateProductWithSkuAttributes("P2", 100m, 10, new Dictionary<string, object> { ["features"] = new[] { "NFC" }, ["color"] = "Blue" })
+		};
+
+		var attributeDefinitions = new List<AttributeDefinition>
+		{
+			CreateAttributeDefinition("features", "Features", "array"),
+			CreateAttributeDefinition("color", "Color", "string")
+		};
+
+		_categoryRepository.Setup(x => x.GetByIdAsync(categoryId)).ReturnsAsync(category);
+		_productRepository.Setup(x => x.GetActiveByCategoryIdWithSkusAsync(categoryId)).ReturnsAsync(products);
+		_attributeDefinitionRepository.Setup(x => x.GetByCodesAsync(It.IsAny<IEnumerable<string>>()))
+			.ReturnsAsync(attributeDefinitions);
+
+		var sut = CreateSut();
+		var query = new GetCategoryAvailableFiltersQuery(categoryId);
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		var featuresFilter = result.Payload!.Attributes.Single(a => a.Code == "features");
+		featuresFilter.DataType.Should().Be("array");
+		featuresFilter.AvailableValues.Should().BeEquivalentTo(new[]
+		{
+			new AttributeValueOptionDto("NFC", 2),
+			new AttributeValueOptionDto("5G", 1)
+		});
+		featuresFilter.NumberRange.Should().BeNull();
+	}
 }
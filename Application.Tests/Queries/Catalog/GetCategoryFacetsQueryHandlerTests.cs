@@ -0,0 +1,254 @@
+using Application.DTOs;
+using Application.Queries.Catalog.GetCategoryFacets;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Catalog;
+
+public class GetCategoryFacetsQueryHandlerTests
+{
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<ICategoryRepository> _categoryRepository = new();
+	private readonly Mock<ILogger<GetCategoryFacetsQueryHandler>> _logger = new();
+
+	private GetCategoryFacetsQueryHandler CreateSut()
+		=> new(
+			_productRepository.Object,
+			_categoryRepository.Object,
+			_logger.Object
+		);
+
+	private static Domain.Entities.Product CreateProductWithSkuAttributes(
+		string name,
+		decimal price,
+		int stock,
+		Dictionary<string, object>? attributes = null)
+	{
+		var product = new Domain.Entities.Product(name, "Test description");
+		var sku = SkuEntity.Create(product.Id, price, stock, attributes);
+		product.AddSku(sku);
+		return product;
+	}
+
+	private Guid SetupCategory(List<Domain.Entities.Product> products)
+	{
+		var categoryId = Guid.NewGuid();
+		_categoryRepository.Setup(x => x.GetByIdAsync(categoryId)).ReturnsAsync(Category.Create("Smartphones"));
+		_productRepository.Setup(x => x.GetActiveByCategoryIdWithSkusAsync(categoryId)).ReturnsAsync(products);
+		return categoryId;
+	}
+
+	private static List<Domain.Entities.Product> CreatePhones()
+		=> new()
+		{
+			CreateProductWithSkuAttributes("P1", 100m, 10, new Dictionary<string, object> { ["color"] = "Black", ["brand"] = "Apple" }),
+			CreateProductWithSkuAttributes("P2", 200m, 10, new Dictionary<string, object> { ["color"] = "Black", ["brand"] = "Samsung" }),
+			CreateProductWithSkuAttributes("P3", 300m, 10, new Dictionary<string, object> { ["color"] = "Blue", ["brand"] = "Apple" }),
+			CreateProductWithSkuAttributes("P4", 400m, 10, new Dictionary<string, object> { ["color"] = "Red", ["brand"] = "Xiaomi" })
+		};
+
+	private static int CountOf(CategoryFacetsDto facets, string code, string value)
+		=> facets.Attributes.First(a => a.Code == code).Values.First(v => v.Value == value).Count;
+
+	[Fact]
+	public async Task Handle_WithoutFilters_CountsAllProducts()
+	{
+		// Arrange
+		var categoryId = SetupCategory(CreatePhones());
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetCategoryFacetsQuery(categoryId), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.MatchingProductCount.Should().Be(4);
+		CountOf(result.Payload, "color", "Black").Should().Be(2);
+		CountOf(result.Payload, "brand", "Apple").Should().Be(2);
+	}
+
+	[Fact]
+	public async Task Handle_WhenValueSelected_KeepsCountsOfSameFacetDisjunctive()
+	{
+		// Arrange
+		var categoryId = SetupCategory(CreatePhones());
+		var sut = CreateSut();
+		var query = new GetCategoryFacetsQuery(categoryId, Attributes: new Dictionary<string, AttributeFilterValue>
+		{
+			["color"] = new() { In = new List<string> { "Black" } }
+		});
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.MatchingProductCount.Should().Be(2);
+		CountOf(result.Payload, "color", "Black").Should().Be(2);
+		CountOf(result.Payload, "color", "Blue").Should().Be(1);
+		CountOf(result.Payload, "color", "Red").Should().Be(1);
+	}
+
+	[Fact]
+	public async Task Handle_WhenValueSelected_NarrowsOtherFacetsConjunctive()
+	{
+		// Arrange
+		var categoryId = SetupCategory(CreatePhones());
+		var sut = CreateSut();
+		var query = new GetCategoryFacetsQuery(categoryId, Attributes: new Dictionary<string, AttributeFilterValue>
+		{
+			["color"] = new() { In = new List<string> { "Black" } }
+		});
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		CountOf(result.Payload!, "brand", "Apple").Should().Be(1);
+		CountOf(result.Payload!, "brand", "Samsung").Should().Be(1);
+		// Values that would lead to an empty result stay listed with zero
+		CountOf(result.Payload!, "brand", "Xiaomi").Should().Be(0);
+	}
+
+	[Fact]
+	public async Task Handle_WhenPriceFilterApplied_CountsOnlyProductsInRange()
+	{
+		// Arrange
+		var categoryId = SetupCategory(CreatePhones());
+		var sut = CreateSut();
+		var query = new GetCategoryFacetsQuery(categoryId, MinPrice: 150m, MaxPrice: 350m);
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.Payload!.MatchingProductCount.Should().Be(2);
+		CountOf(result.Payload, "color", "Black").Should().Be(1);
+		CountOf(result.Payload, "color", "Blue").Should().Be(1);
+		CountOf(result.Payload, "color", "Red").Should().Be(0);
+	}
+
+	[Fact]
+	public async Task Handle_ComparesValuesExactlyLikeTheProductFilter()
+	{
+		// Arrange
+		var categoryId = SetupCategory(new List<Domain.Entities.Product>
+		{
+			CreateProductWithSkuAttributes("P1", 100m, 10, new Dictionary<string, object> { ["color"] = "Red" }),
+			CreateProductWithSkuAttributes("P2", 200m, 10, new Dictionary<string, object> { ["color"] = "red" })
+		});
+		var sut = CreateSut();
+		var query = new GetCategoryFacetsQuery(categoryId, Attributes: new Dictionary<string, AttributeFilterValue>
+		{
+			["color"] = new() { In = new List<string> { "Red" } }
+		});
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.Payload!.MatchingProductCount.Should().Be(1);
+		CountOf(result.Payload, "color", "Red").Should().Be(1);
+		CountOf(result.Payload, "color", "red").Should().Be(1);
+	}
+
+	[Fact]
+	public async Task Handle_ComparesAttributeCodesExactlyLikeTheProductFilter()
+	{
+		// Arrange
+		var categoryId = SetupCategory(CreatePhones());
+		var sut = CreateSut();
+		var query = new GetCategoryFacetsQuery(categoryId, Attributes: new Dictionary<string, AttributeFilterValue>
+		{
+			["Color"] = new() { In = new List<string> { "Black" } }
+		});
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.Payload!.MatchingProductCount.Should().Be(0);
+		result.Payload.Attributes.Should().NotContain(a => a.Code == "Color");
+		CountOf(result.Payload, "color", "Black").Should().Be(0);
+	}
+
+	[Fact]
+	public async Task Handle_CountsEachElementOfArrayAttribute()
+	{
+		// Arrange
+		var categoryId = SetupCategory(new List<Domain.Entities.Product>
+		{
+			CreateProductWithSkuAttributes("P1", 100m, 10, new Dictionary<string, object> { ["features"] = new[] { "NFC", "5G" }, ["color"] = "Black" }),
+			CreateProductWithSkuAttributes("P2", 200m, 10, new Dictionary<string, object> { ["features"] = new[] { "NFC" }, ["color"] = "Blue" })
+		});
+		var sut = CreateSut();
+		var query = new GetCategoryFacetsQuery(categoryId, Attributes: new Dictionary<string, AttributeFilterValue>
+		{
+			["features"] = new() { In = new List<string> { "5G" } }
+		});
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.Payload!.MatchingProductCount.Should().Be(1);
+		CountOf(result.Payload, "features", "NFC").Should().Be(2);
+		CountOf(result.Payload, "features", "5G").Should().Be(1);
+		CountOf(result.Payload, "color", "Black").Should().Be(1);
+		CountOf(result.Payload, "color", "Blue").Should().Be(0);
+	}
+
+	[Fact]
+	public async Task Handle_CountsOutOfStockSkusLikeTheProductFilter()
+	{
+		// Arrange
+		var categoryId = SetupCategory(new List<Domain.Entities.Product>
+		{
+			CreateProductWithSkuAttributes("P1", 100m, 10, new Dictionary<string, object> { ["color"] = "Black" }),
+			CreateProductWithSkuAttributes("P2", 200m, 0, new Dictionary<string, object> { ["color"] = "Black" })
+		});
+		var sut = CreateSut();
+
+		// Act
+		var withoutStockFilter = await sut.Handle(new GetCategoryFacetsQuery(categoryId), CancellationToken.None);
+		var inStockOnly = await sut.Handle(new GetCategoryFacetsQuery(categoryId, InStock: true), CancellationToken.None);
+
+		// Assert
+		CountOf(withoutStockFilter.Payload!, "color", "Black").Should().Be(2);
+		CountOf(inStockOnly.Payload!, "color", "Black").Should().Be(1);
+		inStockOnly.Payload!.MatchingProductCount.Should().Be(1);
+	}
+
+	[Fact]
+	public async Task Handle_WhenCategoryNotFound_ReturnsFailure()
+	{
+		// Arrange
+		var categoryId = Guid.NewGuid();
+		_categoryRepository.Setup(x => x.GetByIdAsync(categoryId)).ReturnsAsync((Category?)null);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetCategoryFacetsQuery(categoryId), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("Category not found");
+	}
+
+	[Fact]
+	public async Task Handle_WhenEmptyCategoryId_ReturnsFailure()
+	{
+		// Arrange
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetCategoryFacetsQuery(Guid.Empty), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("CategoryId is required");
+	}
+}
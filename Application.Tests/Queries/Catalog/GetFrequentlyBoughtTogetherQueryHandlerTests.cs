@@ -0,0 +1,104 @@
+using Application.Queries.Catalog.GetFrequentlyBoughtTogether;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Catalog;
+
+public class GetFrequentlyBoughtTogetherQueryHandlerTests
+{
+	private readonly Mock<IOrderRepository> _orderRepository = new();
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<ILogger<GetFrequentlyBoughtTogetherQueryHandler>> _logger = new();
+
+	private GetFrequentlyBoughtTogetherQueryHandler CreateSut()
+		=> new(_orderRepository.Object, _productRepository.Object, _logger.Object);
+
+	private static (Domain.Entities.Product Product, SkuEntity Sku) CreateProduct(string name, int stock = 10)
+	{
+		var product = new Domain.Entities.Product(name, "Test description");
+		var sku = SkuEntity.Create(product.Id, 100m, stock);
+		product.AddSku(sku);
+		return (product, sku);
+	}
+
+	private void Setup(Guid productId, IEnumerable<SkuCoPurchase> coPurchases, params Domain.Entities.Product[] activeProducts)
+	{
+		_orderRepository
+			.Setup(x => x.GetCoPurchasedSkusAsync(productId, It.IsAny<int>(), It.IsAny<CancellationToken>()))
+			.ReturnsAsync(coPurchases.ToList());
+		_productRepository
+			.Setup(x => x.GetActiveByIdsAsync(It.IsAny<IEnumerable<Guid>>()))
+			.ReturnsAsync(activeProducts);
+	}
+
+	[Fact]
+	public async Task Handle_ReturnsProductsByOrderCountWithTheirSku()
+	{
+		// Arrange
+		var productId = Guid.NewGuid();
+		var (charger, chargerSku) = CreateProduct("Charger");
+		var (cover, coverSku) = CreateProduct("Cover");
+		Setup(productId, new[]
+		{
+			new SkuCoPurchase { ProductId = cover.Id, SkuId = coverSku.Id, OrderCount = 3 },
+			new SkuCoPurchase { ProductId = charger.Id, SkuId = chargerSku.Id, OrderCount = 5 }
+		}, cover, charger);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetFrequentlyBoughtTogetherQuery(productId), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Select(i => i.Product.Name).Should().Equal("Charger", "Cover");
+		result.Payload![0].SkuId.Should().Be(chargerSku.Id);
+		result.Payload![0].OrderCount.Should().Be(5);
+	}
+
+	[Fact]
+	public async Task Handle_WhenBoughtSkuOutOfStock_FallsBackToAnotherSku()
+	{
+		// Arrange
+		var productId = Guid.NewGuid();
+		var (cover, soldOutSku) = CreateProduct("Cover", stock: 0);
+		var inStockSku = SkuEntity.Create(cover.Id, 120m, 4);
+		cover.AddSku(inStockSku);
+		Setup(productId, new[]
+		{
+			new SkuCoPurchase { ProductId = cover.Id, SkuId = soldOutSku.Id, OrderCount = 2 }
+		}, cover);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetFrequentlyBoughtTogetherQuery(productId), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Should().ContainSingle().Which.SkuId.Should().Be(inStockSku.Id);
+	}
+
+	[Fact]
+	public async Task Handle_SkipsInactiveAndSoldOutProducts()
+	{
+		// Arrange
+		var productId = Guid.NewGuid();
+		var (hidden, hiddenSku) = CreateProduct("Hidden");
+		var (soldOut, soldOutSku) = CreateProduct("Sold out", stock: 0);
+		Setup(productId, new[]
+		{
+			new SkuCoPurchase { ProductId = hidden.Id, SkuId = hiddenSku.Id, OrderCount = 7 },
+			new SkuCoPurchase { ProductId = soldOut.Id, SkuId = soldOutSku.Id, OrderCount = 4 }
+		}, soldOut);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetFrequentlyBoughtTogetherQuery(productId), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Should().BeEmpty();
+	}
+}
@@ -0,0 +1,107 @@
+using Application.Queries.Catalog.GetRelatedProducts;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Catalog;
+
+public class GetRelatedProductsQueryHandlerTests
+{
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<ILogger<GetRelatedProductsQueryHandler>> _logger = new();
+
+	private GetRelatedProductsQueryHandler CreateSut()
+		=> new(_productRepository.Object, _logger.Object);
+
+	private static Domain.Entities.Product CreateProduct(
+		string name,
+		Category? primaryCategory = null,
+		IEnumerable<Tag>? tags = null,
+		Dictionary<string, object?>? attributes = null,
+		int stock = 10)
+	{
+		var product = new Domain.Entities.Product(name, "Test description");
+		if (primaryCategory is not null) product.AddCategory(primaryCategory, isPrimary: true);
+		foreach (var tag in tags ?? Enumerable.Empty<Tag>()) product.AddTag(tag);
+		product.AddSku(SkuEntity.Create(product.Id, 100m, stock, attributes));
+		return product;
+	}
+
+	private void SetupCandidates(Domain.Entities.Product source, params Domain.Entities.Product[] candidates)
+	{
+		_productRepository
+			.Setup(x => x.GetActiveByIdsAsync(It.Is<IEnumerable<Guid>>(ids => ids.Contains(source.Id))))
+			.ReturnsAsync(new[] { source });
+		_productRepository
+			.Setup(x => x.GetActiveRelatedCandidatesAsync(source.Id, It.IsAny<IEnumerable<Guid>>(), It.IsAny<IEnumerable<Guid>>(), It.IsAny<int>()))
+			.ReturnsAsync(candidates);
+	}
+
+	[Fact]
+	public async Task Handle_WhenProductIsNotVisible_ReturnsNotFound()
+	{
+		// Arrange: missing, deactivated or in a suspended store
+		var productId = Guid.NewGuid();
+		_productRepository
+			.Setup(x => x.GetActiveByIdsAsync(It.IsAny<IEnumerable<Guid>>()))
+			.ReturnsAsync(Enumerable.Empty<Domain.Entities.Product>());
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetRelatedProductsQuery(productId), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("Product not found");
+		_productRepository.Verify(
+			x => x.GetActiveRelatedCandidatesAsync(It.IsAny<Guid>(), It.IsAny<IEnumerable<Guid>>(), It.IsAny<IEnumerable<Guid>>(), It.IsAny<int>()),
+			Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_OrdersCandidatesByCategoryTagAndAttributeSimilarity()
+	{
+		// Arrange
+		var phones = Category.Create("Phones");
+		var accessories = Category.Create("Accessories");
+		var fiveG = Tag.Create("5G");
+		var source = CreateProduct("Source", phones, new[] { fiveG }, new() { ["brand"] = "Apple", ["color"] = "Black" });
+		var samePrimaryAndTag = CreateProduct("Same category and tag", phones, new[] { fiveG }, new() { ["brand"] = "Samsung" });
+		var samePrimaryAndAttributes = CreateProduct("Same category and attributes", phones, attributes: new() { ["brand"] = "apple", ["color"] = "Black" });
+		var tagOnly = CreateProduct("Tag only", accessories, new[] { fiveG });
+		SetupCandidates(source, tagOnly, samePrimaryAndTag, samePrimaryAndAttributes);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetRelatedProductsQuery(source.Id), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Select(p => p.Name).Should().Equal(
+			"Same category and attributes",
+			"Same category and tag",
+			"Tag only"
+		);
+	}
+
+	[Fact]
+	public async Task Handle_PrefersInStockProductsAndAppliesLimit()
+	{
+		// Arrange
+		var phones = Category.Create("Phones");
+		var source = CreateProduct("Source", phones);
+		var outOfStock = CreateProduct("Out of stock", phones, stock: 0);
+		var inStock = CreateProduct("In stock", phones);
+		SetupCandidates(source, outOfStock, inStock);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetRelatedProductsQuery(source.Id, Limit: 1), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Should().ContainSingle().Which.Name.Should().Be("In stock");
+	}
+}
@@ -0,0 +1,103 @@
+using Application.Queries.Catalog.GetSearchAvailableFilters;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Catalog;
+
+public class GetSearchAvailableFiltersQueryHandlerTests
+{
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<IAttributeDefinitionRepository> _attributeDefinitionRepository = new();
+	private readonly Mock<ILogger<GetSearchAvailableFiltersQueryHandler>> _logger = new();
+
+	private GetSearchAvailableFiltersQueryHandler CreateSut()
+		=> new(
+			_productRepository.Object,
+			_attributeDefinitionRepository.Object,
+			_logger.Object
+		);
+
+	private static Domain.Entities.Product CreateProductWithSkuAttributes(
+		string name,
+		decimal price,
+		int stock,
+		Dictionary<string, object>? attributes = null)
+	{
+		var product = new Domain.Entities.Product(name, "Test description");
+		var sku = SkuEntity.Create(product.Id, price, stock, attributes);
+		product.AddSku(sku);
+		return product;
+	}
+
+	[Fact]
+	public async Task Handle_WhenProductsMatch_ReturnsAvailableFilters()
+	{
+		// Arrange
+		var products = new List<Domain.Entities.Product>
+		{
+			CreateProductWithSkuAttributes("Phone case", 100m, 10, new Dictionary<string, object> { ["color"] = "Black" }),
+			CreateProductWithSkuAttributes("Phone stand", 250m, 3, new Dictionary<string, object> { ["color"] = "Blue" })
+		};
+
+		_productRepository.Setup(x => x.SearchActiveWithSkusAsync("phone")).ReturnsAsync(products);
+		_attributeDefinitionRepository.Setup(x => x.GetByCodesAsync(It.IsAny<IEnumerable<string>>()))
+			.ReturnsAsync(new List<AttributeDefinition> { new("color", "Color", "string", displayOrder: 1) });
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetSearchAvailableFiltersQuery("  phone "), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Query.Should().Be("phone");
+		result.Payload.Attributes.Should().ContainSingle(a => a.Code == "color");
+		result.Payload.PriceRange!.Min.Should().Be(100m);
+		result.Payload.PriceRange.Max.Should().Be(250m);
+		result.Payload.TotalProductCount.Should().Be(2);
+	}
+
+	[Fact]
+	public async Task Handle_WhenOnlyTagsGiven_ReturnsFiltersOfTaggedProducts()
+	{
+		// Arrange
+		var tagId = Guid.NewGuid();
+		var product = CreateProductWithSkuAttributes("Hoodie", 50m, 5, new Dictionary<string, object> { ["color"] = "Grey" });
+		product.AddTagsById([tagId]);
+
+		_productRepository
+			.Setup(x => x.GetActiveByTagIdsWithSkusAsync(It.Is<IEnumerable<Guid>>(ids => ids.SequenceEqual(new[] { tagId }))))
+			.ReturnsAsync(new List<Domain.Entities.Product> { product });
+		_attributeDefinitionRepository.Setup(x => x.GetByCodesAsync(It.IsAny<IEnumerable<string>>()))
+			.ReturnsAsync(new List<AttributeDefinition> { new("color", "Color", "string", displayOrder: 1) });
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetSearchAvailableFiltersQuery("", new List<Guid> { tagId }), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.TotalProductCount.Should().Be(1);
+		result.Payload.Attributes.Should().ContainSingle(a => a.Code == "color");
+		_productRepository.Verify(x => x.SearchActiveWithSkusAsync(It.IsAny<string>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenEmptyQuery_ReturnsFailure()
+	{
+		// Arrange
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetSearchAvailableFiltersQuery("   "), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("Query or tags are required");
+		_productRepository.Verify(x => x.SearchActiveWithSkusAsync(It.IsAny<string>()), Times.Never);
+	}
+}
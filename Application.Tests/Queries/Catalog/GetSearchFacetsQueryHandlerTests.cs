@@ -0,0 +1,97 @@
+using Application.DTOs;
+using Application.Queries.Catalog.GetSearchFacets;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Catalog;
+
+public class GetSearchFacetsQueryHandlerTests
+{
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<ILogger<GetSearchFacetsQueryHandler>> _logger = new();
+
+	private GetSearchFacetsQueryHandler CreateSut()
+		=> new(
+			_productRepository.Object,
+			_logger.Object
+		);
+
+	private static Domain.Entities.Product CreateProductWithSkuAttributes(
+		string name,
+		decimal price,
+		int stock,
+		Dictionary<string, object>? attributes = null)
+	{
+		var product = new Domain.Entities.Product(name, "Test description");
+		var sku = SkuEntity.Create(product.Id, price, stock, attributes);
+		product.AddSku(sku);
+		return product;
+	}
+
+	[Fact]
+	public async Task Handle_WhenValueSelected_CountsOtherFacetsWithinSelection()
+	{
+		// Arrange
+		_productRepository.Setup(x => x.SearchActiveWithSkusAsync("phone")).ReturnsAsync(new List<Domain.Entities.Product>
+		{
+			CreateProductWithSkuAttributes("Phone 1", 100m, 10, new Dictionary<string, object> { ["color"] = "Black", ["brand"] = "Apple" }),
+			CreateProductWithSkuAttributes("Phone 2", 200m, 10, new Dictionary<string, object> { ["color"] = "Black", ["brand"] = "Samsung" }),
+			CreateProductWithSkuAttributes("Phone 3", 300m, 10, new Dictionary<string, object> { ["color"] = "Blue", ["brand"] = "Apple" })
+		});
+		var sut = CreateSut();
+		var query = new GetSearchFacetsQuery("phone", Attributes: new Dictionary<string, AttributeFilterValue>
+		{
+			["color"] = new() { In = new List<string> { "Black" } }
+		});
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Query.Should().Be("phone");
+		result.Payload.MatchingProductCount.Should().Be(2);
+		result.Payload.Attributes.First(a => a.Code == "brand").Values.First(v => v.Value == "Apple").Count.Should().Be(1);
+		result.Payload.Attributes.First(a => a.Code == "color").Values.First(v => v.Value == "Blue").Count.Should().Be(1);
+	}
+
+	[Fact]
+	public async Task Handle_WhenOnlyTagsGiven_CountsTaggedProducts()
+	{
+		// Arrange
+		var tagId = Guid.NewGuid();
+		var black = CreateProductWithSkuAttributes("Hoodie 1", 50m, 5, new Dictionary<string, object> { ["color"] = "Black" });
+		var grey = CreateProductWithSkuAttributes("Hoodie 2", 60m, 5, new Dictionary<string, object> { ["color"] = "Grey" });
+		black.AddTagsById([tagId]);
+		grey.AddTagsById([tagId]);
+		_productRepository.Setup(x => x.GetActiveByTagIdsWithSkusAsync(It.IsAny<IEnumerable<Guid>>()))
+			.ReturnsAsync(new List<Domain.Entities.Product> { black, grey });
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetSearchFacetsQuery("", TagIds: new List<Guid> { tagId }), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.MatchingProductCount.Should().Be(2);
+		result.Payload.Attributes.First(a => a.Code == "color").Values.Should().HaveCount(2);
+		_productRepository.Verify(x => x.SearchActiveWithSkusAsync(It.IsAny<string>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenEmptyQuery_ReturnsFailure()
+	{
+		// Arrange
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetSearchFacetsQuery(""), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("Query or tags are required");
+	}
+}
@@ -0,0 +1,62 @@
+using Application.Queries.Catalog.GetSearchSuggestions;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Catalog;
+
+public class GetSearchSuggestionsQueryHandlerTests
+{
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<IStoreRepository> _storeRepository = new();
+	private readonly Mock<ILogger<GetSearchSuggestionsQueryHandler>> _logger = new();
+
+	private GetSearchSuggestionsQueryHandler CreateSut()
+		=> new(
+			_productRepository.Object,
+			_storeRepository.Object,
+			_logger.Object
+		);
+
+	[Fact]
+	public async Task Handle_WhenQueryMatches_ReturnsStoresAndProducts()
+	{
+		// Arrange
+		var store = Domain.Entities.Store.Create(Guid.NewGuid(), "Phone Shop");
+		store.Verify();
+		var product = new Domain.Entities.Product("Phone case", "Test description");
+		product.AddSku(SkuEntity.Create(product.Id, 100m, 10));
+
+		_storeRepository.Setup(x => x.SearchAsync("phone", 5)).ReturnsAsync(new List<(Domain.Entities.Store, int)> { (store, 3) });
+		_productRepository.Setup(x => x.SuggestAsync("phone", 5)).ReturnsAsync(new List<Domain.Entities.Product> { product });
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetSearchSuggestionsQuery(" phone "), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Stores.Should().ContainSingle(s => s.Id == store.Id && s.Name == "Phone Shop" && s.ProductCount == 3);
+		result.Payload.Products.Should().ContainSingle(p => p.Id == product.Id);
+	}
+
+	[Fact]
+	public async Task Handle_WhenEmptyQuery_ReturnsEmptySuggestionsWithoutQuerying()
+	{
+		// Arrange
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetSearchSuggestionsQuery("  "), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.Stores.Should().BeEmpty();
+		result.Payload.Products.Should().BeEmpty();
+		_storeRepository.Verify(x => x.SearchAsync(It.IsAny<string>(), It.IsAny<int>()), Times.Never);
+		_productRepository.Verify(x => x.SuggestAsync(It.IsAny<string>(), It.IsAny<int>()), Times.Never);
+	}
+}
@@ -0,0 +1,108 @@
+using Application.Queries.Store.GetStoreAvailableFilters;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Store;
+
+public class GetStoreAvailableFiltersQueryHandlerTests
+{
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<IStoreRepository> _storeRepository = new();
+	private readonly Mock<IAttributeDefinitionRepository> _attributeDefinitionRepository = new();
+	private readonly Mock<ILogger<GetStoreAvailableFiltersQueryHandler>> _logger = new();
+
+	private GetStoreAvailableFiltersQueryHandler CreateSut()
+		=> new(
+			_productRepository.Object,
+			_storeRepository.Object,
+			_attributeDefinitionRepository.Object,
+			_logger.Object
+		);
+
+	private static Domain.Entities.Store CreateStore(bool verified = true)
+	{
+		var store = Domain.Entities.Store.Create(Guid.NewGuid(), "Gadget Shop");
+		if (verified)
+		{
+			store.Verify();
+		}
+		return store;
+	}
+
+	private static Domain.Entities.Product CreateProductWithSkuAttributes(
+		string name,
+		decimal price,
+		int stock,
+		Dictionary<string, object>? attributes = null)
+	{
+		var product = new Domain.Entities.Product(name, "Test description");
+		var sku = SkuEntity.Create(product.Id, price, stock, attributes);
+		product.AddSku(sku);
+		return product;
+	}
+
+	[Fact]
+	public async Task Handle_WhenStoreHasProducts_ReturnsAvailableFilters()
+	{
+		// Arrange
+		var store = CreateStore();
+		var products = new List<Domain.Entities.Product>
+		{
+			CreateProductWithSkuAttributes("Product 1", 100m, 10, new Dictionary<string, object> { ["color"] = "Black" }),
+			CreateProductWithSkuAttributes("Product 2", 250m, 3, new Dictionary<string, object> { ["color"] = "Blue" })
+		};
+
+		_storeRepository.Setup(x => x.GetByIdAsync(store.Id)).ReturnsAsync(store);
+		_productRepository.Setup(x => x.GetActiveByStoreIdWithSkusAsync(store.Id)).ReturnsAsync(products);
+		_attributeDefinitionRepository.Setup(x => x.GetByCodesAsync(It.IsAny<IEnumerable<string>>()))
+			.ReturnsAsync(new List<AttributeDefinition> { new("color", "Color", "string", displayOrder: 1) });
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetStoreAvailableFiltersQuery(store.Id), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.StoreId.Should().Be(store.Id);
+		result.Payload.Attributes.Should().ContainSingle(a => a.Code == "color");
+		result.Payload.PriceRange!.Min.Should().Be(100m);
+		result.Payload.PriceRange.Max.Should().Be(250m);
+		result.Payload.TotalProductCount.Should().Be(2);
+	}
+
+	[Fact]
+	public async Task Handle_WhenStoreNotVerified_ReturnsFailure()
+	{
+		// Arrange
+		var store = CreateStore(verified: false);
+		_storeRepository.Setup(x => x.GetByIdAsync(store.Id)).ReturnsAsync(store);
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetStoreAvailableFiltersQuery(store.Id), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("Store not found");
+		_productRepository.Verify(x => x.GetActiveByStoreIdWithSkusAsync(It.IsAny<Guid>()), Times.Never);
+	}
+
+	[Fact]
+	public async Task Handle_WhenEmptyStoreId_ReturnsFailure()
+	{
+		// Arrange
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetStoreAvailableFiltersQuery(Guid.Empty), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("StoreId is required");
+	}
+}
@@ -0,0 +1,53 @@
+using Application.Queries.Store.GetStoreBySlug;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Store;
+
+public class GetStoreBySlugQueryHandlerTests
+{
+	private readonly Mock<IStoreRepository> _storeRepository = new();
+	private readonly Mock<ILogger<GetStoreBySlugQueryHandler>> _logger = new();
+
+	private GetStoreBySlugQueryHandler CreateSut()
+		=> new(
+			_storeRepository.Object,
+			_logger.Object
+		);
+
+	[Fact]
+	public async Task Handle_WhenStoreVerified_ReturnsActiveProductCountFromRepository()
+	{
+		// Arrange
+		var store = Domain.Entities.Store.Create(Guid.NewGuid(), "Gadget Shop");
+		store.Verify();
+		_storeRepository.Setup(x => x.GetBySlugAsync(store.Slug)).ReturnsAsync(store);
+		_storeRepository.Setup(x => x.CountActiveProductsAsync(store.Id)).ReturnsAsync(42);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetStoreBySlugQuery(store.Slug), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.ProductCount.Should().Be(42);
+	}
+
+	[Fact]
+	public async Task Handle_WhenStoreNotVerified_ReturnsNotFoundWithoutCounting()
+	{
+		// Arrange
+		var store = Domain.Entities.Store.Create(Guid.NewGuid(), "Gadget Shop");
+		_storeRepository.Setup(x => x.GetBySlugAsync(store.Slug)).ReturnsAsync(store);
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetStoreBySlugQuery(store.Slug), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		_storeRepository.Verify(x => x.CountActiveProductsAsync(It.IsAny<Guid>()), Times.Never);
+	}
+}
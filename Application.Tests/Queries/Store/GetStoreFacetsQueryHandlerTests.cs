@@ -0,0 +1,88 @@
+using Application.DTOs;
+using Application.Queries.Store.GetStoreFacets;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Moq;
+
+namespace Application.Tests.Queries.Store;
+
+public class GetStoreFacetsQueryHandlerTests
+{
+	private readonly Mock<IProductRepository> _productRepository = new();
+	private readonly Mock<IStoreRepository> _storeRepository = new();
+	private readonly Mock<ILogger<GetStoreFacetsQueryHandler>> _logger = new();
+
+	private GetStoreFacetsQueryHandler CreateSut()
+		=> new(
+			_productRepository.Object,
+			_storeRepository.Object,
+			_logger.Object
+		);
+
+	private static Domain.Entities.Product CreateProductWithSkuAttributes(
+		string name,
+		decimal price,
+		int stock,
+		Dictionary<string, object>? attributes = null)
+	{
+		var product = new Domain.Entities.Product(name, "Test description");
+		var sku = SkuEntity.Create(product.Id, price, stock, attributes);
+		product.AddSku(sku);
+		return product;
+	}
+
+	private Guid SetupStore(List<Domain.Entities.Product> products)
+	{
+		var store = Domain.Entities.Store.Create(Guid.NewGuid(), "Gadget Shop");
+		store.Verify();
+		_storeRepository.Setup(x => x.GetByIdAsync(store.Id)).ReturnsAsync(store);
+		_productRepository.Setup(x => x.GetActiveByStoreIdWithSkusAsync(store.Id)).ReturnsAsync(products);
+		return store.Id;
+	}
+
+	[Fact]
+	public async Task Handle_WhenValueSelected_CountsOtherFacetsWithinSelection()
+	{
+		// Arrange
+		var storeId = SetupStore(new List<Domain.Entities.Product>
+		{
+			CreateProductWithSkuAttributes("P1", 100m, 10, new Dictionary<string, object> { ["color"] = "Black", ["brand"] = "Apple" }),
+			CreateProductWithSkuAttributes("P2", 200m, 10, new Dictionary<string, object> { ["color"] = "Black", ["brand"] = "Samsung" }),
+			CreateProductWithSkuAttributes("P3", 300m, 10, new Dictionary<string, object> { ["color"] = "Blue", ["brand"] = "Apple" })
+		});
+		var sut = CreateSut();
+		var query = new GetStoreFacetsQuery(storeId, Attributes: new Dictionary<string, AttributeFilterValue>
+		{
+			["color"] = new() { In = new List<string> { "Black" } }
+		});
+
+		// Act
+		var result = await sut.Handle(query, CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeTrue();
+		result.Payload!.StoreId.Should().Be(storeId);
+		result.Payload.MatchingProductCount.Should().Be(2);
+		result.Payload.Attributes.First(a => a.Code == "brand").Values.First(v => v.Value == "Apple").Count.Should().Be(1);
+		result.Payload.Attributes.First(a => a.Code == "color").Values.First(v => v.Value == "Blue").Count.Should().Be(1);
+	}
+
+	[Fact]
+	public async Task Handle_WhenStoreNotFound_ReturnsFailure()
+	{
+		// Arrange
+		var storeId = Guid.NewGuid();
+		_storeRepository.Setup(x => x.GetByIdAsync(storeId)).ReturnsAsync((Domain.Entities.Store?)null);
+
+		var sut = CreateSut();
+
+		// Act
+		var result = await sut.Handle(new GetStoreFacetsQuery(storeId), CancellationToken.None);
+
+		// Assert
+		result.IsSuccess.Should().BeFalse();
+		result.Message.Should().Contain("Store not found");
+	}
+}
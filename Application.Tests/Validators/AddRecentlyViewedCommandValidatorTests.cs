@@ -0,0 +1,43 @@
+using Application.Commands.RecentlyViewed.AddRecentlyViewed;
+using Application.DTOs;
+using Domain.Entities;
+using FluentAssertions;
+
+namespace Application.Tests.Validators;
+
+public class AddRecentlyViewedCommandValidatorTests
+{
+	private readonly AddRecentlyViewedCommandValidator _validator = new();
+
+	private static AddRecentlyViewedCommand CreateCommand(int entryCount)
+		=> new(
+			Guid.NewGuid(),
+			Enumerable.Range(0, entryCount).Select(_ => new RecentlyViewedEntryRequest(Guid.NewGuid())).ToList());
+
+	[Fact]
+	public void Validate_WhenGuestListIsMergedOnSignIn_ShouldPass()
+	{
+		// Arrange
+		var command = CreateCommand(RecentlyViewedProduct.MaxEntriesPerUser);
+
+		// Act
+		var result = _validator.Validate(command);
+
+		// Assert
+		result.IsValid.Should().BeTrue();
+	}
+
+	[Fact]
+	public void Validate_WhenMoreViewsThanListKeeps_ShouldFail()
+	{
+		// Arrange
+		var command = CreateCommand(RecentlyViewedProduct.MaxEntriesPerUser + 1);
+
+		// Act
+		var result = _validator.Validate(command);
+
+		// Assert
+		result.IsValid.Should().BeFalse();
+		result.Errors.Should().Contain(e => e.PropertyName == "Entries");
+	}
+}
@@ -0,0 +1,43 @@
+using Application.Commands.SearchHistory.AddSearchHistoryEntries;
+using Application.DTOs;
+using Domain.Entities;
+using FluentAssertions;
+
+namespace Application.Tests.Validators;
+
+public class AddSearchHistoryEntriesCommandValidatorTests
+{
+	private readonly AddSearchHistoryEntriesCommandValidator _validator = new();
+
+	private static AddSearchHistoryEntriesCommand CreateCommand(int entryCount)
+		=> new(
+			Guid.NewGuid(),
+			Enumerable.Range(0, entryCount).Select(i => new SearchHistoryEntryRequest($"query {i}")).ToList());
+
+	[Fact]
+	public void Validate_WhenWholeLocalHistoryIsSent_ShouldPass()
+	{
+		// Arrange
+		var command = CreateCommand(SearchHistoryEntry.MaxEntriesPerUser);
+
+		// Act
+		var result = _validator.Validate(command);
+
+		// Assert
+		result.IsValid.Should().BeTrue();
+	}
+
+	[Fact]
+	public void Validate_WhenMoreEntriesThanHistoryKeeps_ShouldFail()
+	{
+		// Arrange
+		var command = CreateCommand(SearchHistoryEntry.MaxEntriesPerUser + 1);
+
+		// Act
+		var result = _validator.Validate(command);
+
+		// Assert
+		result.IsValid.Should().BeFalse();
+		result.Errors.Should().Contain(e => e.PropertyName == "Entries");
+	}
+}
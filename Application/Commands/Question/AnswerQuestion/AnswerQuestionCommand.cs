@@ -0,0 +1,9 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.Question.AnswerQuestion;
+
+/// <summary>
+/// Public answer of the store owner to a question about one of the store's products; replaces an earlier answer
+/// </summary>
+public sealed record AnswerQuestionCommand(Guid UserId, Guid QuestionId, string Answer) : IRequest<ServiceResponse>;
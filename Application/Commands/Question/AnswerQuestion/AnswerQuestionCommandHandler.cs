@@ -0,0 +1,69 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.Question.AnswerQuestion;
+
+public sealed class AnswerQuestionCommandHandler : IRequestHandler<AnswerQuestionCommand, ServiceResponse>
+{
+	private readonly IUserRepository _userRepository;
+	private readonly IProductQuestionRepository _questionRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<AnswerQuestionCommandHandler> _logger;
+
+	public AnswerQuestionCommandHandler(
+		IUserRepository userRepository,
+		IProductQuestionRepository questionRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<AnswerQuestionCommandHandler> logger)
+	{
+		_userRepository = userRepository;
+		_questionRepository = questionRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse> Handle(AnswerQuestionCommand request, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse(false, "User not found");
+			}
+
+			// Only the store selling the product may answer
+			var question = await _questionRepository.GetByIdAsync(request.QuestionId);
+			var store = question?.Product?.Store;
+			if (question is null || store is null || store.UserId != domainUser.Id)
+			{
+				_logger.LogWarning("Question {QuestionId} not found for store owner {UserId}", request.QuestionId, domainUser.Id);
+				return new ServiceResponse(false, "Question not found");
+			}
+
+			if (question.Status == QuestionStatus.Hidden)
+			{
+				return new ServiceResponse(false, "Question was hidden by a moderator");
+			}
+
+			if (store.IsSuspended)
+			{
+				return new ServiceResponse(false, "Store is suspended");
+			}
+
+			question.SetAnswer(request.Answer);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse(true, "Answer saved successfully");
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error answering question {QuestionId}", request.QuestionId);
+			return new ServiceResponse(false, $"Error: {ex.Message}");
+		}
+	}
+}
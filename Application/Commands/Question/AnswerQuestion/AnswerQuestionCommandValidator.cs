@@ -0,0 +1,17 @@
+using Domain.Entities;
+using FluentValidation;
+
+namespace Application.Commands.Question.AnswerQuestion;
+
+public sealed class AnswerQuestionCommandValidator : AbstractValidator<AnswerQuestionCommand>
+{
+	public AnswerQuestionCommandValidator()
+	{
+		RuleFor(x => x.UserId).NotEmpty();
+		RuleFor(x => x.QuestionId).NotEmpty();
+
+		RuleFor(x => x.Answer)
+			.NotEmpty().WithMessage("Answer is required")
+			.MaximumLength(ProductQuestion.MaxAnswerLength).WithMessage($"Answer cannot exceed {ProductQuestion.MaxAnswerLength} characters");
+	}
+}
@@ -0,0 +1,9 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.Question.AskQuestion;
+
+/// <summary>
+/// Question of a signed-in user about a product, answered later by the store that sells it
+/// </summary>
+public sealed record AskQuestionCommand(Guid UserId, Guid ProductId, string Text) : IRequest<ServiceResponse<ProductQuestionDto>>;
@@ -0,0 +1,75 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Application.Queries.Question;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.Question.AskQuestion;
+
+public sealed class AskQuestionCommandHandler : IRequestHandler<AskQuestionCommand, ServiceResponse<ProductQuestionDto>>
+{
+	private readonly IUserRepository _userRepository;
+	private readonly IProductRepository _productRepository;
+	private readonly IProductQuestionRepository _questionRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<AskQuestionCommandHandler> _logger;
+
+	public AskQuestionCommandHandler(
+		IUserRepository userRepository,
+		IProductRepository productRepository,
+		IProductQuestionRepository questionRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<AskQuestionCommandHandler> logger)
+	{
+		_userRepository = userRepository;
+		_productRepository = productRepository;
+		_questionRepository = questionRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<ProductQuestionDto>> Handle(AskQuestionCommand request, CancellationToken cancellationToken)
+	{
+		_logger.LogInformation("User {UserId} asks a question about product {ProductId}", request.UserId, request.ProductId);
+
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				_logger.LogWarning("Domain user for identity {UserId} not found", request.UserId);
+				return new ServiceResponse<ProductQuestionDto>(false, "User not found");
+			}
+
+			var product = await _productRepository.GetByIdAsync(request.ProductId);
+			if (product is null || !product.IsActive)
+			{
+				return new ServiceResponse<ProductQuestionDto>(false, "Product not found");
+			}
+
+			// Sellers answer questions about their products, they do not ask them
+			if (product.Store is not null && product.Store.UserId == domainUser.Id)
+			{
+				return new ServiceResponse<ProductQuestionDto>(false, "You cannot ask a question about your own product");
+			}
+
+			var question = ProductQuestion.Create(product.Id, domainUser.Id, request.Text);
+			_questionRepository.Add(question);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			_logger.LogInformation("Question {QuestionId} created for product {ProductId}", question.Id, product.Id);
+
+			return new ServiceResponse<ProductQuestionDto>(
+				true,
+				"Question submitted successfully",
+				QuestionMapping.Map(question));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error creating question for product {ProductId}", request.ProductId);
+			return new ServiceResponse<ProductQuestionDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,19 @@
+using Domain.Entities;
+using FluentValidation;
+
+namespace Application.Commands.Question.AskQuestion;
+
+public sealed class AskQuestionCommandValidator : AbstractValidator<AskQuestionCommand>
+{
+	public AskQuestionCommandValidator()
+	{
+		RuleFor(x => x.UserId).NotEmpty();
+		RuleFor(x => x.ProductId).NotEmpty();
+
+		RuleFor(x => x.Text)
+			.NotEmpty().WithMessage("Question is required")
+			.Must(text => text.Trim().Length >= ProductQuestion.MinTextLength)
+				.WithMessage($"Question must be at least {ProductQuestion.MinTextLength} characters")
+			.MaximumLength(ProductQuestion.MaxTextLength).WithMessage($"Question cannot exceed {ProductQuestion.MaxTextLength} characters");
+	}
+}
@@ -0,0 +1,10 @@
+using Application.DTOs;
+using Domain.Enums;
+using MediatR;
+
+namespace Application.Commands.Question.ModerateQuestion;
+
+/// <summary>
+/// Hides a question thread (with an optional reason) or publishes it again
+/// </summary>
+public sealed record ModerateQuestionCommand(Guid QuestionId, QuestionStatus Status, string? Reason) : IRequest<ServiceResponse>;
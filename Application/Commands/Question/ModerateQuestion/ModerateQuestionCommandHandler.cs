@@ -0,0 +1,57 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.Question.ModerateQuestion;
+
+public sealed class ModerateQuestionCommandHandler : IRequestHandler<ModerateQuestionCommand, ServiceResponse>
+{
+	private readonly IProductQuestionRepository _questionRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<ModerateQuestionCommandHandler> _logger;
+
+	public ModerateQuestionCommandHandler(
+		IProductQuestionRepository questionRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<ModerateQuestionCommandHandler> logger)
+	{
+		_questionRepository = questionRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse> Handle(ModerateQuestionCommand request, CancellationToken cancellationToken)
+	{
+		_logger.LogInformation("Setting question {QuestionId} status to {Status}", request.QuestionId, request.Status);
+
+		try
+		{
+			var question = await _questionRepository.GetByIdAsync(request.QuestionId);
+			if (question is null)
+			{
+				return new ServiceResponse(false, "Question not found");
+			}
+
+			if (request.Status == QuestionStatus.Hidden)
+			{
+				question.Hide(request.Reason);
+			}
+			else
+			{
+				question.Publish();
+			}
+
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse(true, request.Status == QuestionStatus.Hidden ? "Question hidden" : "Question published");
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error moderating question {QuestionId}", request.QuestionId);
+			return new ServiceResponse(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,17 @@
+using Domain.Entities;
+using FluentValidation;
+
+namespace Application.Commands.Question.ModerateQuestion;
+
+public sealed class ModerateQuestionCommandValidator : AbstractValidator<ModerateQuestionCommand>
+{
+	public ModerateQuestionCommandValidator()
+	{
+		RuleFor(x => x.QuestionId).NotEmpty();
+		RuleFor(x => x.Status).IsInEnum();
+
+		RuleFor(x => x.Reason)
+			.MaximumLength(ProductQuestion.MaxModerationReasonLength)
+			.When(x => x.Reason is not null);
+	}
+}
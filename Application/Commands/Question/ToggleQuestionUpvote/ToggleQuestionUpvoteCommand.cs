@@ -0,0 +1,9 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.Question.ToggleQuestionUpvote;
+
+/// <summary>
+/// Upvotes a question for the user, or takes the upvote back if it is already there
+/// </summary>
+public sealed record ToggleQuestionUpvoteCommand(Guid UserId, Guid QuestionId) : IRequest<ServiceResponse<QuestionUpvoteDto>>;
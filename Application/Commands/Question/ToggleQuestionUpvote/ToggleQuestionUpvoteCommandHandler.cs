@@ -0,0 +1,76 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.Question.ToggleQuestionUpvote;
+
+public sealed class ToggleQuestionUpvoteCommandHandler : IRequestHandler<ToggleQuestionUpvoteCommand, ServiceResponse<QuestionUpvoteDto>>
+{
+	private readonly IUserRepository _userRepository;
+	private readonly IProductQuestionRepository _questionRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<ToggleQuestionUpvoteCommandHandler> _logger;
+
+	public ToggleQuestionUpvoteCommandHandler(
+		IUserRepository userRepository,
+		IProductQuestionRepository questionRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<ToggleQuestionUpvoteCommandHandler> logger)
+	{
+		_userRepository = userRepository;
+		_questionRepository = questionRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<QuestionUpvoteDto>> Handle(ToggleQuestionUpvoteCommand request, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<QuestionUpvoteDto>(false, "User not found");
+			}
+
+			var question = await _questionRepository.GetByIdAsync(request.QuestionId);
+			if (question is null || question.Status != QuestionStatus.Published)
+			{
+				return new ServiceResponse<QuestionUpvoteDto>(false, "Question not found");
+			}
+
+			if (question.UserId == domainUser.Id)
+			{
+				return new ServiceResponse<QuestionUpvoteDto>(false, "You cannot upvote your own question");
+			}
+
+			var vote = await _questionRepository.GetVoteAsync(question.Id, domainUser.Id);
+			if (vote is null)
+			{
+				_questionRepository.AddVote(ProductQuestionVote.Create(question.Id, domainUser.Id));
+				question.AddUpvote();
+			}
+			else
+			{
+				_questionRepository.RemoveVote(vote);
+				question.RemoveUpvote();
+			}
+
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse<QuestionUpvoteDto>(
+				true,
+				vote is null ? "Question upvoted" : "Upvote removed",
+				new QuestionUpvoteDto(question.UpvoteCount, vote is null));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error toggling upvote on question {QuestionId}", request.QuestionId);
+			return new ServiceResponse<QuestionUpvoteDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,13 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.RecentlyViewed.AddRecentlyViewed;
+
+/// <summary>
+/// Records product views in the user's recently viewed list and returns the merged list.
+/// UserId is the identity user id.
+/// </summary>
+public sealed record AddRecentlyViewedCommand(
+	Guid UserId,
+	IEnumerable<RecentlyViewedEntryRequest> Entries
+) : IRequest<ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>>;
@@ -0,0 +1,96 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Application.Queries.RecentlyViewed;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.RecentlyViewed.AddRecentlyViewed;
+
+public sealed class AddRecentlyViewedCommandHandler
+	: IRequestHandler<AddRecentlyViewedCommand, ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>>
+{
+	private readonly IRecentlyViewedProductRepository _recentlyViewedRepository;
+	private readonly IProductRepository _productRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<AddRecentlyViewedCommandHandler> _logger;
+
+	public AddRecentlyViewedCommandHandler(
+		IRecentlyViewedProductRepository recentlyViewedRepository,
+		IProductRepository productRepository,
+		IUserRepository userRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<AddRecentlyViewedCommandHandler> logger)
+	{
+		_recentlyViewedRepository = recentlyViewedRepository;
+		_productRepository = productRepository;
+		_userRepository = userRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>> Handle(
+		AddRecentlyViewedCommand request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				_logger.LogWarning("Domain user for identity {UserId} not found", request.UserId);
+				return new ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>(false, "User not found");
+			}
+
+			var now = DateTime.UtcNow;
+			var incoming = request.Entries
+				.Where(e => e.ProductId != Guid.Empty)
+				.Select(e => (e.ProductId, ViewedAt: SyncedUserList.ClampSentAt(e.ViewedAt, now)))
+				// One entry per product, at its latest view
+				.GroupBy(e => e.ProductId)
+				.Select(g => g.MaxBy(e => e.ViewedAt))
+				.ToList();
+
+			// Only products a visitor can open are recorded; ids of hidden or deleted products are dropped
+			var visibleIds = (await _productRepository.GetActiveByIdsAsync(incoming.Select(e => e.ProductId)))
+				.Select(p => p.Id)
+				.ToHashSet();
+
+			var history = await _recentlyViewedRepository.GetByUserIdAsync(domainUser.Id);
+
+			foreach (var (productId, viewedAt) in incoming.Where(e => visibleIds.Contains(e.ProductId)))
+			{
+				var existing = history.FirstOrDefault(e => e.ProductId == productId);
+				if (existing is not null)
+				{
+					existing.Touch(viewedAt);
+					continue;
+				}
+
+				var entry = RecentlyViewedProduct.Create(domainUser.Id, productId, viewedAt);
+				_recentlyViewedRepository.Add(entry);
+				history.Add(entry);
+			}
+
+			// The products viewed longest ago make room for the new ones
+			var (kept, overflow) = SyncedUserList.Cap(history, e => e.ViewedAt, RecentlyViewedProduct.MaxEntriesPerUser);
+			if (overflow.Count > 0)
+			{
+				_recentlyViewedRepository.RemoveRange(overflow);
+			}
+
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			var result = await RecentlyViewedMapping.MapAsync(kept, _productRepository);
+
+			return new ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>(true, "Recently viewed products updated", result);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error recording recently viewed products for user {UserId}", request.UserId);
+			return new ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
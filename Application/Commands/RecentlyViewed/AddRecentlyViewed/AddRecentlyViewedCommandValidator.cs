@@ -0,0 +1,18 @@
+using Domain.Entities;
+using FluentValidation;
+
+namespace Application.Commands.RecentlyViewed.AddRecentlyViewed;
+
+public sealed class AddRecentlyViewedCommandValidator : AbstractValidator<AddRecentlyViewedCommand>
+{
+	public AddRecentlyViewedCommandValidator()
+	{
+		RuleFor(x => x.UserId).NotEmpty();
+
+		// One view per product page, or the whole local list (same cap) on sign-in; the ids go into a single IN query
+		RuleFor(x => x.Entries)
+			.NotNull()
+			.Must(entries => entries.Count() <= RecentlyViewedProduct.MaxEntriesPerUser)
+			.WithMessage($"At most {RecentlyViewedProduct.MaxEntriesPerUser} product views can be recorded at once");
+	}
+}
@@ -0,0 +1,6 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.RecentlyViewed.ClearRecentlyViewed;
+
+public sealed record ClearRecentlyViewedCommand(Guid UserId) : IRequest<ServiceResponse<int>>;
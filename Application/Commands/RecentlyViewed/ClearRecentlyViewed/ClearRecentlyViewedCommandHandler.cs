@@ -0,0 +1,54 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.RecentlyViewed.ClearRecentlyViewed;
+
+public sealed class ClearRecentlyViewedCommandHandler : IRequestHandler<ClearRecentlyViewedCommand, ServiceResponse<int>>
+{
+	private readonly IRecentlyViewedProductRepository _recentlyViewedRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<ClearRecentlyViewedCommandHandler> _logger;
+
+	public ClearRecentlyViewedCommandHandler(
+		IRecentlyViewedProductRepository recentlyViewedRepository,
+		IUserRepository userRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<ClearRecentlyViewedCommandHandler> logger)
+	{
+		_recentlyViewedRepository = recentlyViewedRepository;
+		_userRepository = userRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<int>> Handle(ClearRecentlyViewedCommand request, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<int>(false, "User not found");
+			}
+
+			var entries = await _recentlyViewedRepository.GetByUserIdAsync(domainUser.Id);
+			if (entries.Count > 0)
+			{
+				_recentlyViewedRepository.RemoveRange(entries);
+				await _unitOfWork.SaveChangesAsync(cancellationToken);
+			}
+
+			_logger.LogInformation("Cleared {Count} recently viewed products for user {UserId}", entries.Count, request.UserId);
+			return new ServiceResponse<int>(true, $"Removed {entries.Count} entries", entries.Count);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error clearing recently viewed products for user {UserId}", request.UserId);
+			return new ServiceResponse<int>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,6 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.RecentlyViewed.RemoveRecentlyViewed;
+
+public sealed record RemoveRecentlyViewedCommand(Guid UserId, Guid ProductId) : IRequest<ServiceResponse<bool>>;
@@ -0,0 +1,61 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.RecentlyViewed.RemoveRecentlyViewed;
+
+public sealed class RemoveRecentlyViewedCommandHandler
+	: IRequestHandler<RemoveRecentlyViewedCommand, ServiceResponse<bool>>
+{
+	private readonly IRecentlyViewedProductRepository _recentlyViewedRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<RemoveRecentlyViewedCommandHandler> _logger;
+
+	public RemoveRecentlyViewedCommandHandler(
+		IRecentlyViewedProductRepository recentlyViewedRepository,
+		IUserRepository userRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<RemoveRecentlyViewedCommandHandler> logger)
+	{
+		_recentlyViewedRepository = recentlyViewedRepository;
+		_userRepository = userRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<bool>> Handle(
+		RemoveRecentlyViewedCommand request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<bool>(false, "User not found");
+			}
+
+			var entry = (await _recentlyViewedRepository.GetByUserIdAsync(domainUser.Id))
+				.FirstOrDefault(e => e.ProductId == request.ProductId);
+
+			// Already gone (e.g. removed on another device) is not an error
+			if (entry is null)
+			{
+				return new ServiceResponse<bool>(true, "Entry not found", false);
+			}
+
+			_recentlyViewedRepository.Remove(entry);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse<bool>(true, "Entry removed", true);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error removing recently viewed product for user {UserId}", request.UserId);
+			return new ServiceResponse<bool>(false, $"Error: {ex.Message}");
+		}
+	}
+}
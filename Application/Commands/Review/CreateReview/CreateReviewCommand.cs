@@ -0,0 +1,21 @@
+using Application.Behaviors;
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.Review.CreateReview;
+
+/// <summary>
+/// Command to review a product from a delivered order item.
+/// Photos are the raw uploaded files; they are stored only once the review is accepted
+/// </summary>
+public sealed record CreateReviewCommand(
+	Guid UserId,
+	Guid OrderItemId,
+	int Rating,
+	string? Comment,
+	IReadOnlyList<Stream> Photos
+) : IRequest<ServiceResponse<ProductReviewDto>>, ICacheInvalidatingCommand
+{
+	// Product lists and details carry the rating
+	public IEnumerable<string> CacheTags => ["products"];
+}
@@ -0,0 +1,140 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Application.Queries.Review;
+using Domain.Entities;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.Review.CreateReview;
+
+public sealed class CreateReviewCommandHandler : IRequestHandler<CreateReviewCommand, ServiceResponse<ProductReviewDto>>
+{
+	// Longest side a review photo is scaled down to
+	private const int MaxPhotoSize = 1600;
+
+	private readonly IUserRepository _userRepository;
+	private readonly IOrderRepository _orderRepository;
+	private readonly IProductRepository _productRepository;
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly IMediaImageRepository _mediaImageRepository;
+	private readonly IFileStorage _fileStorage;
+	private readonly IImageService _imageService;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<CreateReviewCommandHandler> _logger;
+
+	public CreateReviewCommandHandler(
+		IUserRepository userRepository,
+		IOrderRepository orderRepository,
+		IProductRepository productRepository,
+		IProductReviewRepository reviewRepository,
+		IMediaImageRepository mediaImageRepository,
+		IFileStorage fileStorage,
+		IImageService imageService,
+		IUnitOfWork unitOfWork,
+		ILogger<CreateReviewCommandHandler> logger)
+	{
+		_userRepository = userRepository;
+		_orderRepository = orderRepository;
+		_productRepository = productRepository;
+		_reviewRepository = reviewRepository;
+		_mediaImageRepository = mediaImageRepository;
+		_fileStorage = fileStorage;
+		_imageService = imageService;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<ProductReviewDto>> Handle(CreateReviewCommand request, CancellationToken cancellationToken)
+	{
+		_logger.LogInformation("Creating review for order item {OrderItemId} by user {UserId}", request.OrderItemId, request.UserId);
+
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				_logger.LogWarning("Domain user for identity {UserId} not found", request.UserId);
+				return new ServiceResponse<ProductReviewDto>(false, "User not found");
+			}
+
+			// Verified purchase: the item must come from the user's own order
+			var orderItem = await _orderRepository.GetItemByIdAsync(request.OrderItemId, cancellationToken);
+			if (orderItem?.Order is null || orderItem.Order.UserId != domainUser.Id)
+			{
+				_logger.LogWarning("Order item {OrderItemId} not found for user {UserId}", request.OrderItemId, domainUser.Id);
+				return new ServiceResponse<ProductReviewDto>(false, "Order item not found");
+			}
+
+			if (orderItem.Order.Status != OrderStatus.Delivered)
+			{
+				return new ServiceResponse<ProductReviewDto>(false, "Only delivered items can be reviewed");
+			}
+
+			var existing = await _reviewRepository.GetByUserAndProductAsync(domainUser.Id, orderItem.ProductId);
+			if (existing is not null)
+			{
+				return new ServiceResponse<ProductReviewDto>(false, "You have already reviewed this product");
+			}
+
+			var product = await _productRepository.GetByIdAsync(orderItem.ProductId);
+			if (product is null)
+			{
+				_logger.LogWarning("Product {ProductId} of order item {OrderItemId} not found", orderItem.ProductId, orderItem.Id);
+				return new ServiceResponse<ProductReviewDto>(false, "Product not found");
+			}
+
+			// Every photo is decoded before any is stored: the declared content type proves nothing,
+			// and re-encoding drops EXIF metadata such as where the photo was taken
+			var processedPhotos = new List<ProcessedImageResult>();
+			foreach (var photo in request.Photos)
+			{
+				try
+				{
+					processedPhotos.Add(await _imageService.ProcessAsync(
+						photo,
+						ImageResizeMode.KeepAspect,
+						MaxPhotoSize,
+						MaxPhotoSize,
+						cancellationToken
+					));
+				}
+				catch (Exception ex) when (ex is not OperationCanceledException)
+				{
+					_logger.LogWarning(ex, "Photo for order item {OrderItemId} is not a readable image", orderItem.Id);
+					return new ServiceResponse<ProductReviewDto>(false, "Only image files can be attached");
+				}
+			}
+
+			var review = ProductReview.Create(product.Id, domainUser.Id, orderItem.Id, request.Rating, request.Comment);
+			foreach (var processed in processedPhotos)
+			{
+				await using var imageStream = processed.ImageStream;
+				var storageKey = await _fileStorage.UploadAsync(
+					imageStream,
+					$"{Guid.NewGuid()}{processed.Extension}",
+					processed.ContentType,
+					cancellationToken
+				);
+
+				var media = new MediaImage(storageKey, processed.ContentType, processed.Width, processed.Height, product.Name);
+				_mediaImageRepository.Add(media);
+				review.AddPhoto(media);
+			}
+
+			_reviewRepository.Add(review);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			await ProductRatingUpdater.RefreshAsync(product, _reviewRepository);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse<ProductReviewDto>(true, "Review created successfully", ReviewMapping.Map(review, _fileStorage));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error creating review for order item {OrderItemId}", request.OrderItemId);
+			return new ServiceResponse<ProductReviewDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
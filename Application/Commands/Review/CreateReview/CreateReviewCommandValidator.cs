@@ -0,0 +1,25 @@
+using Domain.Entities;
+using FluentValidation;
+
+namespace Application.Commands.Review.CreateReview;
+
+public sealed class CreateReviewCommandValidator : AbstractValidator<CreateReviewCommand>
+{
+	public CreateReviewCommandValidator()
+	{
+		RuleFor(x => x.UserId).NotEmpty();
+		RuleFor(x => x.OrderItemId).NotEmpty();
+
+		RuleFor(x => x.Rating)
+			.InclusiveBetween(ProductReview.MinRating, ProductReview.MaxRating)
+			.WithMessage($"Rating must be between {ProductReview.MinRating} and {ProductReview.MaxRating}");
+
+		RuleFor(x => x.Comment)
+			.MaximumLength(ProductReview.MaxCommentLength)
+			.WithMessage($"Comment cannot exceed {ProductReview.MaxCommentLength} characters");
+
+		RuleFor(x => x.Photos)
+			.Must(photos => photos.Count <= ProductReview.MaxPhotos)
+			.WithMessage($"A review can have at most {ProductReview.MaxPhotos} photos");
+	}
+}
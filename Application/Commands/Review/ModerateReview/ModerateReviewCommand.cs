@@ -0,0 +1,16 @@
+using Application.Behaviors;
+using Application.DTOs;
+using Domain.Enums;
+using MediatR;
+
+namespace Application.Commands.Review.ModerateReview;
+
+/// <summary>
+/// Hides a review (with an optional reason) or publishes it again
+/// </summary>
+public sealed record ModerateReviewCommand(Guid ReviewId, ReviewStatus Status, string? Reason)
+	: IRequest<ServiceResponse>, ICacheInvalidatingCommand
+{
+	// Hidden reviews do not count towards the rating shown in product lists
+	public IEnumerable<string> CacheTags => ["products"];
+}
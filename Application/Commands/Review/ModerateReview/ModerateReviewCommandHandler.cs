@@ -0,0 +1,60 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.Review.ModerateReview;
+
+public sealed class ModerateReviewCommandHandler : IRequestHandler<ModerateReviewCommand, ServiceResponse>
+{
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<ModerateReviewCommandHandler> _logger;
+
+	public ModerateReviewCommandHandler(
+		IProductReviewRepository reviewRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<ModerateReviewCommandHandler> logger)
+	{
+		_reviewRepository = reviewRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse> Handle(ModerateReviewCommand request, CancellationToken cancellationToken)
+	{
+		_logger.LogInformation("Setting review {ReviewId} status to {Status}", request.ReviewId, request.Status);
+
+		try
+		{
+			var review = await _reviewRepository.GetByIdAsync(request.ReviewId);
+			if (review?.Product is null)
+			{
+				return new ServiceResponse(false, "Review not found");
+			}
+
+			if (request.Status == ReviewStatus.Hidden)
+			{
+				review.Hide(request.Reason);
+			}
+			else
+			{
+				review.Publish();
+			}
+
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			await ProductRatingUpdater.RefreshAsync(review.Product, _reviewRepository);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse(true, request.Status == ReviewStatus.Hidden ? "Review hidden" : "Review published");
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error moderating review {ReviewId}", request.ReviewId);
+			return new ServiceResponse(false, $"Error: {ex.Message}");
+		}
+	}
+}
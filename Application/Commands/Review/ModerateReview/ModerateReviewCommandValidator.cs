@@ -0,0 +1,17 @@
+using Domain.Entities;
+using FluentValidation;
+
+namespace Application.Commands.Review.ModerateReview;
+
+public sealed class ModerateReviewCommandValidator : AbstractValidator<ModerateReviewCommand>
+{
+	public ModerateReviewCommandValidator()
+	{
+		RuleFor(x => x.ReviewId).NotEmpty();
+		RuleFor(x => x.Status).IsInEnum();
+
+		RuleFor(x => x.Reason)
+			.MaximumLength(ProductReview.MaxModerationReasonLength)
+			.When(x => x.Reason is not null);
+	}
+}
@@ -0,0 +1,16 @@
+using Domain.Interfaces.Repositories;
+
+namespace Application.Commands.Review;
+
+internal static class ProductRatingUpdater
+{
+	/// <summary>
+	/// Recalculates the rating stored on the product from its published reviews.
+	/// Call it after the review change is saved, so the summary query sees it.
+	/// </summary>
+	public static async Task RefreshAsync(Domain.Entities.Product product, IProductReviewRepository reviewRepository)
+	{
+		var summary = await reviewRepository.GetRatingSummaryAsync(product.Id);
+		product.UpdateRating(summary.AverageRating, summary.ReviewCount);
+	}
+}
@@ -0,0 +1,9 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.Review.ReplyToReview;
+
+/// <summary>
+/// Public answer of the store owner to a review of one of the store's products; replaces an earlier answer
+/// </summary>
+public sealed record ReplyToReviewCommand(Guid UserId, Guid ReviewId, string Reply) : IRequest<ServiceResponse>;
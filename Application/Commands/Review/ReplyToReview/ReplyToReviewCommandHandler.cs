@@ -0,0 +1,69 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.Review.ReplyToReview;
+
+public sealed class ReplyToReviewCommandHandler : IRequestHandler<ReplyToReviewCommand, ServiceResponse>
+{
+	private readonly IUserRepository _userRepository;
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<ReplyToReviewCommandHandler> _logger;
+
+	public ReplyToReviewCommandHandler(
+		IUserRepository userRepository,
+		IProductReviewRepository reviewRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<ReplyToReviewCommandHandler> logger)
+	{
+		_userRepository = userRepository;
+		_reviewRepository = reviewRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse> Handle(ReplyToReviewCommand request, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse(false, "User not found");
+			}
+
+			// Only the store selling the product may answer
+			var review = await _reviewRepository.GetByIdAsync(request.ReviewId);
+			var store = review?.Product?.Store;
+			if (review is null || store is null || store.UserId != domainUser.Id)
+			{
+				_logger.LogWarning("Review {ReviewId} not found for store owner {UserId}", request.ReviewId, domainUser.Id);
+				return new ServiceResponse(false, "Review not found");
+			}
+
+			if (store.IsSuspended)
+			{
+				return new ServiceResponse(false, "Store is suspended");
+			}
+
+			if (review.Status == ReviewStatus.Hidden)
+			{
+				return new ServiceResponse(false, "Review was hidden by a moderator");
+			}
+
+			review.Reply(request.Reply);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse(true, "Reply saved successfully");
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error replying to review {ReviewId}", request.ReviewId);
+			return new ServiceResponse(false, $"Error: {ex.Message}");
+		}
+	}
+}
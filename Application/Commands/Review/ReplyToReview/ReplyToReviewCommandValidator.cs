@@ -0,0 +1,17 @@
+using Domain.Entities;
+using FluentValidation;
+
+namespace Application.Commands.Review.ReplyToReview;
+
+public sealed class ReplyToReviewCommandValidator : AbstractValidator<ReplyToReviewCommand>
+{
+	public ReplyToReviewCommandValidator()
+	{
+		RuleFor(x => x.UserId).NotEmpty();
+		RuleFor(x => x.ReviewId).NotEmpty();
+
+		RuleFor(x => x.Reply)
+			.NotEmpty().WithMessage("Reply is required")
+			.MaximumLength(ProductReview.MaxReplyLength).WithMessage($"Reply cannot exceed {ProductReview.MaxReplyLength} characters");
+	}
+}
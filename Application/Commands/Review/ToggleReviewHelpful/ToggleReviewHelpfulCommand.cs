@@ -0,0 +1,9 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.Review.ToggleReviewHelpful;
+
+/// <summary>
+/// Marks a review as helpful for the user, or takes the mark back if it is already there
+/// </summary>
+public sealed record ToggleReviewHelpfulCommand(Guid UserId, Guid ReviewId) : IRequest<ServiceResponse<HelpfulVoteDto>>;
@@ -0,0 +1,76 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.Review.ToggleReviewHelpful;
+
+public sealed class ToggleReviewHelpfulCommandHandler : IRequestHandler<ToggleReviewHelpfulCommand, ServiceResponse<HelpfulVoteDto>>
+{
+	private readonly IUserRepository _userRepository;
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<ToggleReviewHelpfulCommandHandler> _logger;
+
+	public ToggleReviewHelpfulCommandHandler(
+		IUserRepository userRepository,
+		IProductReviewRepository reviewRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<ToggleReviewHelpfulCommandHandler> logger)
+	{
+		_userRepository = userRepository;
+		_reviewRepository = reviewRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<HelpfulVoteDto>> Handle(ToggleReviewHelpfulCommand request, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<HelpfulVoteDto>(false, "User not found");
+			}
+
+			var review = await _reviewRepository.GetByIdAsync(request.ReviewId);
+			if (review is null || review.Status != ReviewStatus.Published)
+			{
+				return new ServiceResponse<HelpfulVoteDto>(false, "Review not found");
+			}
+
+			if (review.UserId == domainUser.Id)
+			{
+				return new ServiceResponse<HelpfulVoteDto>(false, "You cannot vote for your own review");
+			}
+
+			var vote = await _reviewRepository.GetVoteAsync(review.Id, domainUser.Id);
+			if (vote is null)
+			{
+				_reviewRepository.AddVote(ProductReviewVote.Create(review.Id, domainUser.Id));
+				review.AddHelpfulVote();
+			}
+			else
+			{
+				_reviewRepository.RemoveVote(vote);
+				review.RemoveHelpfulVote();
+			}
+
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse<HelpfulVoteDto>(
+				true,
+				vote is null ? "Review marked as helpful" : "Helpful mark removed",
+				new HelpfulVoteDto(review.HelpfulCount, vote is null));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error toggling helpful vote on review {ReviewId}", request.ReviewId);
+			return new ServiceResponse<HelpfulVoteDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
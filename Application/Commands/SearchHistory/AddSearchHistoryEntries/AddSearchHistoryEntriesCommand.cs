@@ -0,0 +1,13 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.SearchHistory.AddSearchHistoryEntries;
+
+/// <summary>
+/// Records searches in the user's history and returns the merged history.
+/// UserId is the identity user id; nothing is recorded while history is paused.
+/// </summary>
+public sealed record AddSearchHistoryEntriesCommand(
+	Guid UserId,
+	IEnumerable<SearchHistoryEntryRequest> Entries
+) : IRequest<ServiceResponse<SearchHistoryDto>>;
@@ -0,0 +1,102 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.SearchHistory.AddSearchHistoryEntries;
+
+public sealed class AddSearchHistoryEntriesCommandHandler
+	: IRequestHandler<AddSearchHistoryEntriesCommand, ServiceResponse<SearchHistoryDto>>
+{
+	private const int MaxQueryLength = 500;
+
+	private readonly ISearchHistoryRepository _searchHistoryRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<AddSearchHistoryEntriesCommandHandler> _logger;
+
+	public AddSearchHistoryEntriesCommandHandler(
+		ISearchHistoryRepository searchHistoryRepository,
+		IUserRepository userRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<AddSearchHistoryEntriesCommandHandler> logger)
+	{
+		_searchHistoryRepository = searchHistoryRepository;
+		_userRepository = userRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<SearchHistoryDto>> Handle(
+		AddSearchHistoryEntriesCommand request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				_logger.LogWarning("Domain user for identity {UserId} not found", request.UserId);
+				return new ServiceResponse<SearchHistoryDto>(false, "User not found");
+			}
+
+			var history = await _searchHistoryRepository.GetByUserIdAsync(domainUser.Id);
+
+			if (domainUser.IsSearchHistoryPaused)
+			{
+				return new ServiceResponse<SearchHistoryDto>(
+					true,
+					"Search history is paused",
+					ToDto(history, domainUser.IsSearchHistoryPaused)
+				);
+			}
+
+			var now = DateTime.UtcNow;
+			var incoming = request.Entries
+				.Where(e => !string.IsNullOrWhiteSpace(e.Query) && e.Query.Trim().Length <= MaxQueryLength)
+				.Select(e => (Query: e.Query.Trim(), SearchedAt: SyncedUserList.ClampSentAt(e.SearchedAt, now)))
+				.GroupBy(e => SearchHistoryEntry.Normalize(e.Query))
+				.Select(g => g.MaxBy(e => e.SearchedAt));
+
+			foreach (var (query, searchedAt) in incoming)
+			{
+				var normalized = SearchHistoryEntry.Normalize(query);
+				var existing = history.FirstOrDefault(e => e.NormalizedQuery == normalized);
+				if (existing is not null)
+				{
+					existing.Touch(query, searchedAt);
+					continue;
+				}
+
+				var entry = SearchHistoryEntry.Create(domainUser.Id, query, searchedAt);
+				_searchHistoryRepository.Add(entry);
+				history.Add(entry);
+			}
+
+			// Only the latest searches are offered as suggestions; older ones are dropped
+			var (kept, overflow) = SyncedUserList.Cap(history, e => e.SearchedAt, SearchHistoryEntry.MaxEntriesPerUser);
+			if (overflow.Count > 0)
+			{
+				_searchHistoryRepository.RemoveRange(overflow);
+			}
+
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse<SearchHistoryDto>(
+				true,
+				"Search history updated",
+				ToDto(kept, domainUser.IsSearchHistoryPaused)
+			);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error recording search history for user {UserId}", request.UserId);
+			return new ServiceResponse<SearchHistoryDto>(false, $"Error: {ex.Message}");
+		}
+	}
+
+	private static SearchHistoryDto ToDto(IEnumerable<SearchHistoryEntry> entries, bool isPaused)
+		=> new(entries.Select(e => e.Query).ToList().AsReadOnly(), isPaused);
+}
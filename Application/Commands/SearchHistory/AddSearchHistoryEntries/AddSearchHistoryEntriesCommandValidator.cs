@@ -0,0 +1,18 @@
+using Domain.Entities;
+using FluentValidation;
+
+namespace Application.Commands.SearchHistory.AddSearchHistoryEntries;
+
+public sealed class AddSearchHistoryEntriesCommandValidator : AbstractValidator<AddSearchHistoryEntriesCommand>
+{
+	public AddSearchHistoryEntriesCommandValidator()
+	{
+		RuleFor(x => x.UserId).NotEmpty();
+
+		// A client sends one search at a time, or its whole local history (same cap) on sign-in
+		RuleFor(x => x.Entries)
+			.NotNull()
+			.Must(entries => entries.Count() <= SearchHistoryEntry.MaxEntriesPerUser)
+			.WithMessage($"At most {SearchHistoryEntry.MaxEntriesPerUser} searches can be recorded at once");
+	}
+}
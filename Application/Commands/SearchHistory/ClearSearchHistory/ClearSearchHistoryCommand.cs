@@ -0,0 +1,6 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.SearchHistory.ClearSearchHistory;
+
+public sealed record ClearSearchHistoryCommand(Guid UserId) : IRequest<ServiceResponse<int>>;
@@ -0,0 +1,54 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.SearchHistory.ClearSearchHistory;
+
+public sealed class ClearSearchHistoryCommandHandler : IRequestHandler<ClearSearchHistoryCommand, ServiceResponse<int>>
+{
+	private readonly ISearchHistoryRepository _searchHistoryRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<ClearSearchHistoryCommandHandler> _logger;
+
+	public ClearSearchHistoryCommandHandler(
+		ISearchHistoryRepository searchHistoryRepository,
+		IUserRepository userRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<ClearSearchHistoryCommandHandler> logger)
+	{
+		_searchHistoryRepository = searchHistoryRepository;
+		_userRepository = userRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<int>> Handle(ClearSearchHistoryCommand request, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<int>(false, "User not found");
+			}
+
+			var entries = await _searchHistoryRepository.GetByUserIdAsync(domainUser.Id);
+			if (entries.Count > 0)
+			{
+				_searchHistoryRepository.RemoveRange(entries);
+				await _unitOfWork.SaveChangesAsync(cancellationToken);
+			}
+
+			_logger.LogInformation("Cleared {Count} search history entries for user {UserId}", entries.Count, request.UserId);
+			return new ServiceResponse<int>(true, $"Removed {entries.Count} entries", entries.Count);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error clearing search history for user {UserId}", request.UserId);
+			return new ServiceResponse<int>(false, $"Error: {ex.Message}");
+		}
+	}
+}
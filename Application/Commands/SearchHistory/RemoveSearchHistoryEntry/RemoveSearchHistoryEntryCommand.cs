@@ -0,0 +1,6 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.SearchHistory.RemoveSearchHistoryEntry;
+
+public sealed record RemoveSearchHistoryEntryCommand(Guid UserId, string Query) : IRequest<ServiceResponse<bool>>;
@@ -0,0 +1,68 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.SearchHistory.RemoveSearchHistoryEntry;
+
+public sealed class RemoveSearchHistoryEntryCommandHandler
+	: IRequestHandler<RemoveSearchHistoryEntryCommand, ServiceResponse<bool>>
+{
+	private readonly ISearchHistoryRepository _searchHistoryRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<RemoveSearchHistoryEntryCommandHandler> _logger;
+
+	public RemoveSearchHistoryEntryCommandHandler(
+		ISearchHistoryRepository searchHistoryRepository,
+		IUserRepository userRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<RemoveSearchHistoryEntryCommandHandler> logger)
+	{
+		_searchHistoryRepository = searchHistoryRepository;
+		_userRepository = userRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<bool>> Handle(
+		RemoveSearchHistoryEntryCommand request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (string.IsNullOrWhiteSpace(request.Query))
+			{
+				return new ServiceResponse<bool>(false, "Query is required");
+			}
+
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<bool>(false, "User not found");
+			}
+
+			var normalized = SearchHistoryEntry.Normalize(request.Query);
+			var entry = (await _searchHistoryRepository.GetByUserIdAsync(domainUser.Id))
+				.FirstOrDefault(e => e.NormalizedQuery == normalized);
+
+			// Already gone (e.g. removed on another device) is not an error
+			if (entry is null)
+			{
+				return new ServiceResponse<bool>(true, "Entry not found", false);
+			}
+
+			_searchHistoryRepository.Remove(entry);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse<bool>(true, "Entry removed", true);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error removing search history entry for user {UserId}", request.UserId);
+			return new ServiceResponse<bool>(false, $"Error: {ex.Message}");
+		}
+	}
+}
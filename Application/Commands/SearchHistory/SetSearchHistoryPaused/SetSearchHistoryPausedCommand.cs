@@ -0,0 +1,6 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Commands.SearchHistory.SetSearchHistoryPaused;
+
+public sealed record SetSearchHistoryPausedCommand(Guid UserId, bool IsPaused) : IRequest<ServiceResponse<bool>>;
@@ -0,0 +1,54 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Commands.SearchHistory.SetSearchHistoryPaused;
+
+public sealed class SetSearchHistoryPausedCommandHandler
+	: IRequestHandler<SetSearchHistoryPausedCommand, ServiceResponse<bool>>
+{
+	private readonly IUserRepository _userRepository;
+	private readonly IUnitOfWork _unitOfWork;
+	private readonly ILogger<SetSearchHistoryPausedCommandHandler> _logger;
+
+	public SetSearchHistoryPausedCommandHandler(
+		IUserRepository userRepository,
+		IUnitOfWork unitOfWork,
+		ILogger<SetSearchHistoryPausedCommandHandler> logger)
+	{
+		_userRepository = userRepository;
+		_unitOfWork = unitOfWork;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<bool>> Handle(
+		SetSearchHistoryPausedCommand request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<bool>(false, "User not found");
+			}
+
+			domainUser.SetSearchHistoryPaused(request.IsPaused);
+			_userRepository.Update(domainUser);
+			await _unitOfWork.SaveChangesAsync(cancellationToken);
+
+			return new ServiceResponse<bool>(
+				true,
+				request.IsPaused ? "Search history paused" : "Search history resumed",
+				request.IsPaused
+			);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error updating search history setting for user {UserId}", request.UserId);
+			return new ServiceResponse<bool>(false, $"Error: {ex.Message}");
+		}
+	}
+}
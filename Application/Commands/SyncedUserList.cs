@@ -0,0 +1,25 @@
+namespace Application.Commands;
+
+/// <summary>
+/// Merge rules for the per-user lists that signed-in clients sync from their local copy
+/// (search history, recently viewed products).
+/// </summary>
+public static class SyncedUserList
+{
+	/// <summary>
+	/// Time an entry sent by a client is recorded under. A device whose clock runs ahead would date its entries
+	/// in the future and keep them above everything recorded later, so such timestamps (and missing ones) become <paramref name="now"/>.
+	/// </summary>
+	public static DateTime ClampSentAt(DateTime? sentAt, DateTime now)
+		=> sentAt?.ToUniversalTime() is { } at && at < now ? at : now;
+
+	/// <summary>
+	/// Orders the list newest first and splits off the entries past <paramref name="maxEntries"/>.
+	/// Clients trim their local copy to the same size, so a device shows exactly what the server returns.
+	/// </summary>
+	public static (List<T> Kept, List<T> Overflow) Cap<T>(IEnumerable<T> entries, Func<T, DateTime> timestamp, int maxEntries)
+	{
+		var ordered = entries.OrderByDescending(timestamp).ToList();
+		return (ordered.Take(maxEntries).ToList(), ordered.Skip(maxEntries).ToList());
+	}
+}
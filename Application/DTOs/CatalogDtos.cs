@@ -77,7 +77,21 @@ public sealed record ProductSummaryDto(
 	bool IsActive,
 	CategoryDto? PrimaryCategory,
 	IReadOnlyList<CategoryDto> Categories,
-	IReadOnlyList<TagDto> Tags
+	IReadOnlyList<TagDto> Tags,
+	decimal AverageRating,
+	int ReviewCount
+);
+
+/// <summary>
+/// A product often ordered together with another one, with the SKU of it that is bought most
+/// </summary>
+public sealed record FrequentlyBoughtTogetherDto(
+	ProductSummaryDto Product,
+	Guid SkuId,
+	string SkuCode,
+	decimal Price,
+	int StockQuantity,
+	int OrderCount
 );
 
 public sealed record ProductDetailsDto(
@@ -100,7 +114,8 @@ public enum ProductSort
 	Relevance = 0,
 	Newest = 1,
 	PriceAsc = 2,
-	PriceDesc = 3
+	PriceDesc = 3,
+	Rating = 4
 }
 
 public sealed record ProductSearchRequest(
@@ -128,7 +143,11 @@ public sealed record ProductFilterRequest(
 	Dictionary<string, AttributeFilterValue>? Attributes = null,
 	ProductSort Sort = ProductSort.Relevance,
 	int Page = 1,
-	int PageSize = 24
+	int PageSize = 24,
+	Guid? StoreId = null,
+	string? Query = null,
+	// Only products rated at least this many stars on average
+	decimal? MinRating = null
 );
 
 /// <summary>
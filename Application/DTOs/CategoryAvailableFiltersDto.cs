@@ -49,3 +49,22 @@ public sealed record PriceRangeDto(
 	decimal Min,
 	decimal Max
 );
+
+/// <summary>
+/// Facet counts for a category relative to the filters currently applied.
+/// Counts within an attribute ignore that attribute's own selection (OR within a facet),
+/// while every other filter still applies (AND across facets).
+/// </summary>
+public sealed record CategoryFacetsDto(
+	Guid CategoryId,
+	IReadOnlyList<AttributeFacetDto> Attributes,
+	int MatchingProductCount
+);
+
+/// <summary>
+/// Number of matching products per value of a string/boolean attribute.
+/// </summary>
+public sealed record AttributeFacetDto(
+	string Code,
+	IReadOnlyList<AttributeValueOptionDto> Values
+);
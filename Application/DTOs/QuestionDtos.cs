@@ -0,0 +1,38 @@
+using Domain.Enums;
+
+namespace Application.DTOs;
+
+/// <summary>
+/// A published question with the store's answer as shown on the product page
+/// </summary>
+public record ProductQuestionDto(
+	Guid Id,
+	Guid ProductId,
+	string? AuthorName,
+	string Text,
+	string? Answer,
+	DateTime? AnsweredAt,
+	int UpvoteCount,
+	bool Upvoted,
+	DateTime CreatedAt
+);
+
+/// <summary>
+/// A question with the product it is about and its moderation state (store inbox, admin panel)
+/// </summary>
+public record QuestionWithProductDto(
+	ProductQuestionDto Question,
+	string ProductName,
+	string ProductSlug,
+	string? ProductImageUrl,
+	QuestionStatus Status,
+	string? ModerationReason
+);
+
+public record QuestionUpvoteDto(int UpvoteCount, bool Upvoted);
+
+public record AskQuestionRequest(string Text);
+
+public record AnswerQuestionRequest(string Answer);
+
+public record ModerateQuestionRequest(QuestionStatus Status, string? Reason = null);
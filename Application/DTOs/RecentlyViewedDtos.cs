@@ -0,0 +1,16 @@
+namespace Application.DTOs;
+
+/// <summary>
+/// A product from the user's recently viewed list with the time of the last view
+/// </summary>
+public record RecentlyViewedProductDto(ProductSummaryDto Product, DateTime ViewedAt);
+
+/// <summary>
+/// A product view to record; ViewedAt lets a device merge views made while offline or signed out
+/// </summary>
+public record RecentlyViewedEntryRequest(Guid ProductId, DateTime? ViewedAt = null);
+
+/// <summary>
+/// Request DTO for recording product views (a single visit or the guest list on login)
+/// </summary>
+public record AddRecentlyViewedRequest(IEnumerable<RecentlyViewedEntryRequest> Entries);
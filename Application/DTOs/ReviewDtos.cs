@@ -0,0 +1,49 @@
+using Domain.Enums;
+
+namespace Application.DTOs;
+
+public record ReviewPhotoDto(Guid Id, string Url);
+
+/// <summary>
+/// A published review as shown on the product page
+/// </summary>
+public record ProductReviewDto(
+	Guid Id,
+	Guid ProductId,
+	string? AuthorName,
+	int Rating,
+	string? Comment,
+	bool IsVerifiedPurchase,
+	IReadOnlyList<ReviewPhotoDto> Photos,
+	int HelpfulCount,
+	bool VotedHelpful,
+	string? SellerReply,
+	DateTime? SellerRepliedAt,
+	DateTime CreatedAt
+);
+
+/// <summary>
+/// A review with the product it is about and its moderation state (my reviews, store cabinet, admin panel)
+/// </summary>
+public record ReviewWithProductDto(
+	ProductReviewDto Review,
+	Guid OrderItemId,
+	string ProductName,
+	string ProductSlug,
+	string? ProductImageUrl,
+	ReviewStatus Status,
+	string? ModerationReason
+);
+
+public record RatingCountDto(int Stars, int Count);
+
+/// <summary>
+/// Average rating of a product and how many reviews gave each number of stars
+/// </summary>
+public record RatingSummaryDto(decimal AverageRating, int ReviewCount, IReadOnlyList<RatingCountDto> Distribution);
+
+public record HelpfulVoteDto(int HelpfulCount, bool VotedHelpful);
+
+public record ReplyToReviewRequest(string Reply);
+
+public record ModerateReviewRequest(ReviewStatus Status, string? Reason = null);
@@ -0,0 +1,21 @@
+namespace Application.DTOs;
+
+/// <summary>
+/// Personal search history of a signed-in user, newest first
+/// </summary>
+public record SearchHistoryDto(IReadOnlyList<string> Queries, bool IsPaused);
+
+/// <summary>
+/// A search to record; SearchedAt lets a device merge searches made while offline or signed out
+/// </summary>
+public record SearchHistoryEntryRequest(string Query, DateTime? SearchedAt = null);
+
+/// <summary>
+/// Request DTO for recording searches (a single new search or the guest history on login)
+/// </summary>
+public record AddSearchHistoryRequest(IEnumerable<SearchHistoryEntryRequest> Entries);
+
+/// <summary>
+/// Request DTO for pausing or resuming history recording
+/// </summary>
+public record SetSearchHistoryPausedRequest(bool IsPaused);
@@ -0,0 +1,191 @@
+using Application.DTOs;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog;
+
+/// <summary>
+/// Builds the filter options offered for a set of products from their in-stock SKUs.
+/// Only attributes that have an AttributeDefinition and at least one value are returned.
+/// </summary>
+public static class AvailableFiltersBuilder
+{
+	public static async Task<(IReadOnlyList<AttributeFilterDto> Attributes, PriceRangeDto? PriceRange)> BuildAsync(
+		IReadOnlyCollection<Product> products,
+		IAttributeDefinitionRepository attributeDefinitionRepository,
+		ILogger logger)
+	{
+		// Analyze JSONB attributes from all SKUs
+		var attributeData = AnalyzeSkuAttributes(products, logger);
+
+		// Get attribute definitions
+		var attributeCodes = attributeData.Keys.ToList();
+		var attributeDefinitions = (await attributeDefinitionRepository.GetByCodesAsync(attributeCodes))
+			.ToDictionary(ad => ad.Code, StringComparer.OrdinalIgnoreCase);
+
+		// Build filter DTOs
+		var filters = new List<AttributeFilterDto>();
+
+		foreach (var (code, data) in attributeData.OrderBy(kvp => 
+			attributeDefinitions.ContainsKey(kvp.Key) ? attributeDefinitions[kvp.Key].DisplayOrder : int.MaxValue))
+		{
+			if (!attributeDefinitions.TryGetValue(code, out var definition))
+			{
+				// Attribute exists in data but not in definitions - skip or use defaults
+				logger.LogWarning("Attribute code '{Code}' found in products but no AttributeDefinition exists", code);
+				continue;
+			}
+
+			var filter = definition.DataType.ToLowerInvariant() switch
+			{
+				"number" => CreateNumberFilter(definition, data.NumberValues),
+				"string" or "boolean" or "array" => CreateStringFilter(definition, data.StringValues),
+				_ => null
+			};
+
+			if (filter is not null)
+			{
+				filters.Add(filter);
+			}
+		}
+
+		// Calculate price range
+		var allPrices = products
+			.SelectMany(p => p.Skus)
+			.Where(s => s.StockQuantity > 0)
+			.Select(s => s.Price)
+			.ToList();
+
+		PriceRangeDto? priceRange = allPrices.Count > 0
+			? new PriceRangeDto(allPrices.Min(), allPrices.Max())
+			: null;
+
+		return (filters.AsReadOnly(), priceRange);
+	}
+
+	/// <summary>
+	/// Analyzes all SKU attributes across products and aggregates values by attribute code.
+	/// Uses typed SkuAttributeValue entities with fallback to JSONB for backward compatibility.
+	/// </summary>
+	private static Dictionary<string, AttributeAnalysisData> AnalyzeSkuAttributes(IReadOnlyCollection<Product> products, ILogger logger)
+	{
+		var attributeData = new Dictionary<string, AttributeAnalysisData>(StringComparer.OrdinalIgnoreCase);
+
+		foreach (var product in products)
+		{
+			foreach (var sku in product.Skus.Where(s => s.StockQuantity > 0)) // Only in-stock SKUs
+			{
+				foreach (var (code, value) in SkuAttributeReader.Read(sku, logger))
+				{
+					if (!attributeData.TryGetValue(code, out var data))
+					{
+						data = new AttributeAnalysisData();
+						attributeData[code] = data;
+					}
+
+					if (value is decimal number)
+					{
+						data.NumberValues.Add(number);
+					}
+					else if (value is string text)
+					{
+						data.StringValues.Add(text);
+					}
+					else if (value is string[] items)
+					{
+						// Each element is an option of its own
+						data.StringValues.AddRange(items);
+					}
+				}
+			}
+		}
+
+		return attributeData;
+	}
+
+	private static AttributeFilterDto CreateStringFilter(
+		AttributeDefinition definition,
+		List<string> values)
+	{
+		if (values.Count == 0)
+		{
+			return null!;
+		}
+
+		// Count occurrences of each value
+		var valueCounts = values
+			.GroupBy(v => v, StringComparer.OrdinalIgnoreCase)
+			.Select(g => new AttributeValueOptionDto(g.Key, g.Count()))
+			.OrderByDescending(x => x.Count)
+			.ThenBy(x => x.Value)
+			.ToList();
+
+		return new AttributeFilterDto(
+			definition.Code,
+			definition.Name,
+			definition.DataType,
+			definition.Unit,
+			definition.DisplayOrder,
+			valueCounts.AsReadOnly(),
+			null
+		);
+	}
+
+	private static AttributeFilterDto? CreateNumberFilter(
+		AttributeDefinition definition,
+		List<decimal> values)
+	{
+		if (values.Count == 0)
+		{
+			return null;
+		}
+
+		var min = values.Min();
+		var max = values.Max();
+
+		// Calculate a reasonable step value
+		decimal? step = null;
+		var range = max - min;
+		if (range > 0)
+		{
+			// Try to find common step from values
+			var sortedValues = values.Distinct().OrderBy(v => v).ToList();
+			if (sortedValues.Count > 1)
+			{
+				var differences = new List<decimal>();
+				for (int i = 1; i < sortedValues.Count; i++)
+				{
+					differences.Add(sortedValues[i] - sortedValues[i - 1]);
+				}
+				
+				// Use the most common difference as step
+				var commonDiff = differences
+					.GroupBy(d => d)
+					.OrderByDescending(g => g.Count())
+					.FirstOrDefault()?.Key;
+
+				if (commonDiff.HasValue && commonDiff.Value > 0)
+				{
+					step = commonDiff.Value;
+				}
+			}
+		}
+
+		return new AttributeFilterDto(
+			definition.Code,
+			definition.Name,
+			definition.DataType,
+			definition.Unit,
+			definition.DisplayOrder,
+			null,
+			new NumberRangeDto(min, max, step)
+		);
+	}
+
+	private class AttributeAnalysisData
+	{
+		public List<string> StringValues { get; } = new();
+		public List<decimal> NumberValues { get; } = new();
+	}
+}
@@ -12,5 +12,8 @@ public sealed record FilterProductsQuery(
 	Dictionary<string, AttributeFilterValue>? Attributes = null,
 	ProductSort Sort = ProductSort.Relevance,
 	int Page = 1,
-	int PageSize = 24
+	int PageSize = 24,
+	Guid? StoreId = null,
+	string? Query = null,
+	decimal? MinRating = null
 ) : IRequest<ServiceResponse<PagedResponse<ProductSummaryDto>>>;
@@ -73,10 +73,13 @@ public sealed class FilterProductsQueryHandler
 			// Call repository filter method
 			var (products, totalCount) = await _productRepository.FilterAsync(
 				request.CategoryId,
+				request.StoreId,
+				request.Query,
 				request.TagIds,
 				request.MinPrice,
 				request.MaxPrice,
 				request.InStock,
+				request.MinRating,
 				attributeFilters,
 				request.Sort.ToString(),
 				request.Page,
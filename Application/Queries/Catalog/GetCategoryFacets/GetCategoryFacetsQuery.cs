@@ -0,0 +1,14 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Catalog.GetCategoryFacets;
+
+public sealed record GetCategoryFacetsQuery(
+	Guid CategoryId,
+	List<Guid>? TagIds = null,
+	decimal? MinPrice = null,
+	decimal? MaxPrice = null,
+	bool? InStock = null,
+	Dictionary<string, AttributeFilterValue>? Attributes = null,
+	decimal? MinRating = null
+) : IRequest<ServiceResponse<CategoryFacetsDto>>;
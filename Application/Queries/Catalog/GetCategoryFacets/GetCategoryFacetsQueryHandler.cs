@@ -0,0 +1,60 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog.GetCategoryFacets;
+
+public sealed class GetCategoryFacetsQueryHandler
+	: IRequestHandler<GetCategoryFacetsQuery, ServiceResponse<CategoryFacetsDto>>
+{
+	private readonly IProductRepository _productRepository;
+	private readonly ICategoryRepository _categoryRepository;
+	private readonly ILogger<GetCategoryFacetsQueryHandler> _logger;
+
+	public GetCategoryFacetsQueryHandler(
+		IProductRepository productRepository,
+		ICategoryRepository categoryRepository,
+		ILogger<GetCategoryFacetsQueryHandler> logger)
+	{
+		_productRepository = productRepository;
+		_categoryRepository = categoryRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<CategoryFacetsDto>> Handle(
+		GetCategoryFacetsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.CategoryId == Guid.Empty)
+			{
+				return new ServiceResponse<CategoryFacetsDto>(false, "CategoryId is required");
+			}
+
+			var category = await _categoryRepository.GetByIdAsync(request.CategoryId);
+			if (category is null)
+			{
+				return new ServiceResponse<CategoryFacetsDto>(false, "Category not found");
+			}
+
+			var products = await _productRepository.GetActiveByCategoryIdWithSkusAsync(request.CategoryId);
+			var (facets, matchingCount) = ProductFacetCounter.Count(
+				products,
+				new ProductFacetSelection(request.TagIds, request.MinPrice, request.MaxPrice, request.InStock, request.Attributes, request.MinRating),
+				_logger);
+
+			return new ServiceResponse<CategoryFacetsDto>(
+				true,
+				"Facets retrieved successfully",
+				new CategoryFacetsDto(category.Id, facets, matchingCount)
+			);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving facets for category {CategoryId}", request.CategoryId);
+			return new ServiceResponse<CategoryFacetsDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
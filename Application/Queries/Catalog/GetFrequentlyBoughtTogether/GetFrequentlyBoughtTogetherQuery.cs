@@ -0,0 +1,7 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Catalog.GetFrequentlyBoughtTogether;
+
+public sealed record GetFrequentlyBoughtTogetherQuery(Guid ProductId, int Limit = 3)
+	: IRequest<ServiceResponse<IReadOnlyList<FrequentlyBoughtTogetherDto>>>;
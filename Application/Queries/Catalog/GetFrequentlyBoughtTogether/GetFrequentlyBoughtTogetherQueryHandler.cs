@@ -0,0 +1,93 @@
+using Application.DTOs;
+using Application.Queries.Catalog;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog.GetFrequentlyBoughtTogether;
+
+public sealed class GetFrequentlyBoughtTogetherQueryHandler
+	: IRequestHandler<GetFrequentlyBoughtTogetherQuery, ServiceResponse<IReadOnlyList<FrequentlyBoughtTogetherDto>>>
+{
+	private const int MaxLimit = 10;
+	// Co-purchased SKUs read per requested product; several may belong to one product or to hidden ones
+	private const int SkusPerResult = 5;
+
+	private readonly IOrderRepository _orderRepository;
+	private readonly IProductRepository _productRepository;
+	private readonly ILogger<GetFrequentlyBoughtTogetherQueryHandler> _logger;
+
+	public GetFrequentlyBoughtTogetherQueryHandler(
+		IOrderRepository orderRepository,
+		IProductRepository productRepository,
+		ILogger<GetFrequentlyBoughtTogetherQueryHandler> logger)
+	{
+		_orderRepository = orderRepository;
+		_productRepository = productRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<IReadOnlyList<FrequentlyBoughtTogetherDto>>> Handle(
+		GetFrequentlyBoughtTogetherQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var limit = Math.Clamp(request.Limit, 1, MaxLimit);
+			var coPurchases = await _orderRepository.GetCoPurchasedSkusAsync(
+				request.ProductId,
+				limit * SkusPerResult,
+				cancellationToken
+			);
+
+			var products = (await _productRepository.GetActiveByIdsAsync(coPurchases.Select(c => c.ProductId)))
+				.ToDictionary(p => p.Id);
+
+			var payload = new List<FrequentlyBoughtTogetherDto>();
+			foreach (var group in coPurchases.GroupBy(c => c.ProductId).OrderByDescending(g => g.Sum(c => c.OrderCount)))
+			{
+				if (!products.TryGetValue(group.Key, out var product))
+				{
+					continue;
+				}
+
+				// The SKU bought most that can still be bought; otherwise any SKU in stock
+				var inStock = product.Skus.Where(s => s.StockQuantity > 0).ToList();
+				var sku = group
+					.OrderByDescending(c => c.OrderCount)
+					.Select(c => inStock.FirstOrDefault(s => s.Id == c.SkuId))
+					.FirstOrDefault(s => s is not null)
+					?? inStock.OrderBy(s => s.Price).FirstOrDefault();
+				if (sku is null)
+				{
+					continue;
+				}
+
+				payload.Add(new FrequentlyBoughtTogetherDto(
+					ProductMapping.MapSummary(product),
+					sku.Id,
+					sku.SkuCode,
+					sku.Price,
+					sku.StockQuantity,
+					group.Sum(c => c.OrderCount)
+				));
+
+				if (payload.Count == limit)
+				{
+					break;
+				}
+			}
+
+			return new ServiceResponse<IReadOnlyList<FrequentlyBoughtTogetherDto>>(
+				true,
+				"Frequently bought together products retrieved successfully",
+				payload.AsReadOnly()
+			);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving frequently bought together products for {ProductId}", request.ProductId);
+			return new ServiceResponse<IReadOnlyList<FrequentlyBoughtTogetherDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,7 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Catalog.GetRelatedProducts;
+
+public sealed record GetRelatedProductsQuery(Guid ProductId, int Limit = 8)
+	: IRequest<ServiceResponse<IReadOnlyList<ProductSummaryDto>>>;
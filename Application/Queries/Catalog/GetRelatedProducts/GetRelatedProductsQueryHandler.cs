@@ -0,0 +1,64 @@
+using Application.DTOs;
+using Application.Queries.Catalog;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog.GetRelatedProducts;
+
+public sealed class GetRelatedProductsQueryHandler
+	: IRequestHandler<GetRelatedProductsQuery, ServiceResponse<IReadOnlyList<ProductSummaryDto>>>
+{
+	private const int MaxLimit = 24;
+	// Products sharing a category or tag that are scored; the newest ones are taken
+	private const int CandidateLimit = 100;
+
+	private readonly IProductRepository _productRepository;
+	private readonly ILogger<GetRelatedProductsQueryHandler> _logger;
+
+	public GetRelatedProductsQueryHandler(IProductRepository productRepository, ILogger<GetRelatedProductsQueryHandler> logger)
+	{
+		_productRepository = productRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<IReadOnlyList<ProductSummaryDto>>> Handle(
+		GetRelatedProductsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			// A deactivated product or one of a suspended store has no page to show related products on
+			var product = (await _productRepository.GetActiveByIdsAsync(new[] { request.ProductId })).FirstOrDefault();
+			if (product is null)
+			{
+				return new ServiceResponse<IReadOnlyList<ProductSummaryDto>>(false, "Product not found");
+			}
+
+			var candidates = await _productRepository.GetActiveRelatedCandidatesAsync(
+				product.Id,
+				product.ProductCategories.Select(pc => pc.CategoryId),
+				product.ProductTags.Select(pt => pt.TagId),
+				CandidateLimit
+			);
+
+			var payload = candidates
+				.Select(c => (Product: c, Score: RelatedProductScorer.Score(product, c, _logger)))
+				.Where(x => x.Score > 0)
+				.OrderByDescending(x => x.Score)
+				// Among equally related products, ones that can be bought right away come first
+				.ThenByDescending(x => x.Product.Skus.Any(s => s.StockQuantity > 0))
+				.Take(Math.Clamp(request.Limit, 1, MaxLimit))
+				.Select(x => ProductMapping.MapSummary(x.Product))
+				.ToList()
+				.AsReadOnly();
+
+			return new ServiceResponse<IReadOnlyList<ProductSummaryDto>>(true, "Related products retrieved successfully", payload);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving related products for {ProductId}", request.ProductId);
+			return new ServiceResponse<IReadOnlyList<ProductSummaryDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
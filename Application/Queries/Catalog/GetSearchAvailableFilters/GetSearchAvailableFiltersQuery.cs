@@ -0,0 +1,20 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Catalog.GetSearchAvailableFilters;
+
+/// <summary>
+/// Without a search text the results are the products having all <paramref name="TagIds"/> (a tag picked in the search bar).
+/// </summary>
+public sealed record GetSearchAvailableFiltersQuery(string Query, List<Guid>? TagIds = null)
+	: IRequest<ServiceResponse<SearchAvailableFiltersDto>>;
+
+/// <summary>
+/// Filter options of the products matching a search query (or tags), built the same way as the category filters.
+/// </summary>
+public sealed record SearchAvailableFiltersDto(
+	string Query,
+	IReadOnlyList<AttributeFilterDto> Attributes,
+	PriceRangeDto? PriceRange,
+	int TotalProductCount
+);
@@ -0,0 +1,68 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog.GetSearchAvailableFilters;
+
+public sealed class GetSearchAvailableFiltersQueryHandler
+	: IRequestHandler<GetSearchAvailableFiltersQuery, ServiceResponse<SearchAvailableFiltersDto>>
+{
+	private readonly IProductRepository _productRepository;
+	private readonly IAttributeDefinitionRepository _attributeDefinitionRepository;
+	private readonly ILogger<GetSearchAvailableFiltersQueryHandler> _logger;
+
+	public GetSearchAvailableFiltersQueryHandler(
+		IProductRepository productRepository,
+		IAttributeDefinitionRepository attributeDefinitionRepository,
+		ILogger<GetSearchAvailableFiltersQueryHandler> logger)
+	{
+		_productRepository = productRepository;
+		_attributeDefinitionRepository = attributeDefinitionRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<SearchAvailableFiltersDto>> Handle(
+		GetSearchAvailableFiltersQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var hasTags = request.TagIds is { Count: > 0 };
+			if (string.IsNullOrWhiteSpace(request.Query) && !hasTags)
+			{
+				return new ServiceResponse<SearchAvailableFiltersDto>(false, "Query or tags are required");
+			}
+
+			var query = request.Query.Trim();
+			var products = (query.Length > 0
+				? await _productRepository.SearchActiveWithSkusAsync(query)
+				: await _productRepository.GetActiveByTagIdsWithSkusAsync(request.TagIds!)).ToList();
+
+			if (products.Count == 0)
+			{
+				return new ServiceResponse<SearchAvailableFiltersDto>(
+					true,
+					"No products match the query",
+					new SearchAvailableFiltersDto(query, Array.Empty<AttributeFilterDto>(), null, 0)
+				);
+			}
+
+			var (filters, priceRange) = await AvailableFiltersBuilder.BuildAsync(
+				products,
+				_attributeDefinitionRepository,
+				_logger);
+
+			return new ServiceResponse<SearchAvailableFiltersDto>(
+				true,
+				"Available filters retrieved successfully",
+				new SearchAvailableFiltersDto(query, filters, priceRange, products.Count)
+			);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving available filters for search {Query}", request.Query);
+			return new ServiceResponse<SearchAvailableFiltersDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,24 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Catalog.GetSearchFacets;
+
+public sealed record GetSearchFacetsQuery(
+	string Query,
+	List<Guid>? TagIds = null,
+	decimal? MinPrice = null,
+	decimal? MaxPrice = null,
+	bool? InStock = null,
+	Dictionary<string, AttributeFilterValue>? Attributes = null,
+	decimal? MinRating = null
+) : IRequest<ServiceResponse<SearchFacetsDto>>;
+
+/// <summary>
+/// Facet counts for search results; same semantics as CategoryFacetsDto.
+/// Without a search text the results are the products having all the selected tags.
+/// </summary>
+public sealed record SearchFacetsDto(
+	string Query,
+	IReadOnlyList<AttributeFacetDto> Attributes,
+	int MatchingProductCount
+);
@@ -0,0 +1,55 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog.GetSearchFacets;
+
+public sealed class GetSearchFacetsQueryHandler
+	: IRequestHandler<GetSearchFacetsQuery, ServiceResponse<SearchFacetsDto>>
+{
+	private readonly IProductRepository _productRepository;
+	private readonly ILogger<GetSearchFacetsQueryHandler> _logger;
+
+	public GetSearchFacetsQueryHandler(
+		IProductRepository productRepository,
+		ILogger<GetSearchFacetsQueryHandler> logger)
+	{
+		_productRepository = productRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<SearchFacetsDto>> Handle(
+		GetSearchFacetsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var hasTags = request.TagIds is { Count: > 0 };
+			if (string.IsNullOrWhiteSpace(request.Query) && !hasTags)
+			{
+				return new ServiceResponse<SearchFacetsDto>(false, "Query or tags are required");
+			}
+
+			var query = request.Query.Trim();
+			var products = query.Length > 0
+				? await _productRepository.SearchActiveWithSkusAsync(query)
+				: await _productRepository.GetActiveByTagIdsWithSkusAsync(request.TagIds!);
+			var (facets, matchingCount) = ProductFacetCounter.Count(
+				products,
+				new ProductFacetSelection(request.TagIds, request.MinPrice, request.MaxPrice, request.InStock, request.Attributes, request.MinRating),
+				_logger);
+
+			return new ServiceResponse<SearchFacetsDto>(
+				true,
+				"Facets retrieved successfully",
+				new SearchFacetsDto(query, facets, matchingCount)
+			);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving facets for search {Query}", request.Query);
+			return new ServiceResponse<SearchFacetsDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
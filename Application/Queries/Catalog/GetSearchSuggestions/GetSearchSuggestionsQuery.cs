@@ -0,0 +1,16 @@
+using Application.DTOs;
+using Application.Queries.Store.GetStoreBySlug;
+using MediatR;
+
+namespace Application.Queries.Catalog.GetSearchSuggestions;
+
+public sealed record GetSearchSuggestionsQuery(string Query, int Limit = 5)
+	: IRequest<ServiceResponse<SearchSuggestionsDto>>;
+
+/// <summary>
+/// Typeahead matches for the search bar. Categories and tags are matched on the client from their cached lists.
+/// </summary>
+public sealed record SearchSuggestionsDto(
+	IReadOnlyList<PublicStoreDto> Stores,
+	IReadOnlyList<ProductSummaryDto> Products
+);
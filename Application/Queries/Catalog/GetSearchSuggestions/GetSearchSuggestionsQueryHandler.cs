@@ -0,0 +1,70 @@
+using Application.DTOs;
+using Application.Queries.Store.GetStoreBySlug;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog.GetSearchSuggestions;
+
+public sealed class GetSearchSuggestionsQueryHandler
+	: IRequestHandler<GetSearchSuggestionsQuery, ServiceResponse<SearchSuggestionsDto>>
+{
+	private readonly IProductRepository _productRepository;
+	private readonly IStoreRepository _storeRepository;
+	private readonly ILogger<GetSearchSuggestionsQueryHandler> _logger;
+
+	public GetSearchSuggestionsQueryHandler(
+		IProductRepository productRepository,
+		IStoreRepository storeRepository,
+		ILogger<GetSearchSuggestionsQueryHandler> logger)
+	{
+		_productRepository = productRepository;
+		_storeRepository = storeRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<SearchSuggestionsDto>> Handle(
+		GetSearchSuggestionsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (string.IsNullOrWhiteSpace(request.Query))
+			{
+				return new ServiceResponse<SearchSuggestionsDto>(
+					true,
+					"Empty query",
+					new SearchSuggestionsDto(Array.Empty<PublicStoreDto>(), Array.Empty<ProductSummaryDto>())
+				);
+			}
+
+			var query = request.Query.Trim();
+			var limit = Math.Clamp(request.Limit, 1, 10);
+
+			var stores = await _storeRepository.SearchAsync(query, limit);
+			var products = await _productRepository.SuggestAsync(query, limit);
+
+			var result = new SearchSuggestionsDto(
+				stores
+					.Select(s => new PublicStoreDto(
+						s.Store.Id,
+						s.Store.Name,
+						s.Store.Slug,
+						s.Store.Description,
+						s.Store.IsVerified,
+						s.Store.CreatedAt,
+						s.ActiveProductCount))
+					.ToList()
+					.AsReadOnly(),
+				products.Select(ProductMapping.MapSummary).ToList().AsReadOnly()
+			);
+
+			return new ServiceResponse<SearchSuggestionsDto>(true, "Suggestions retrieved successfully", result);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving search suggestions for {Query}", request.Query);
+			return new ServiceResponse<SearchSuggestionsDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
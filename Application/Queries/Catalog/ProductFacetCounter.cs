@@ -0,0 +1,162 @@
+using Application.DTOs;
+using Domain.Entities;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog;
+
+/// <summary>
+/// Filter selection that facet counts are computed against.
+/// </summary>
+public sealed record ProductFacetSelection(
+	List<Guid>? TagIds = null,
+	decimal? MinPrice = null,
+	decimal? MaxPrice = null,
+	bool? InStock = null,
+	Dictionary<string, AttributeFilterValue>? Attributes = null,
+	decimal? MinRating = null
+);
+
+/// <summary>
+/// Counts products per attribute value under the current filter selection.
+/// Matching mirrors IProductRepository.FilterAsync: every condition is satisfied by any SKU of the product,
+/// in stock or not, attribute codes and string values are compared exactly and an array attribute matches each of its elements,
+/// so a count is the number of products the filter returns.
+/// </summary>
+public static class ProductFacetCounter
+{
+	public static (IReadOnlyList<AttributeFacetDto> Attributes, int MatchingProductCount) Count(
+		IEnumerable<Product> source,
+		ProductFacetSelection selection,
+		ILogger? logger = null)
+	{
+		var products = source
+			.Select(p => new ProductFacetData(p, p.Skus
+				.Select(s => new SkuFacetData(s, new Dictionary<string, object>(SkuAttributeReader.Read(s, logger), StringComparer.Ordinal)))
+				.ToList()))
+			.ToList();
+
+		var attributeFilters = selection.Attributes?
+			.Where(kvp => HasConditions(kvp.Value))
+			.ToDictionary(kvp => kvp.Key, kvp => kvp.Value, StringComparer.Ordinal)
+			?? new Dictionary<string, AttributeFilterValue>(StringComparer.Ordinal);
+
+		var baseMatches = products.Where(p => MatchesBaseFilters(p.Product, selection)).ToList();
+
+		// Every string/boolean value and array element present in the scope, so values filtered down to zero are still listed
+		var facetValues = products
+			.SelectMany(p => p.Skus)
+			.SelectMany(s => s.Attributes)
+			.SelectMany(kvp => StringValues(kvp.Value).Select(value => (Code: kvp.Key, Value: value)))
+			.GroupBy(x => x.Code, StringComparer.Ordinal)
+			.ToDictionary(
+				g => g.Key,
+				g => g.Select(x => x.Value).Distinct(StringComparer.Ordinal).ToList(),
+				StringComparer.Ordinal);
+
+		var facets = new List<AttributeFacetDto>();
+		foreach (var (code, values) in facetValues)
+		{
+			// Disjunctive: the facet's own selection is left out when counting its values
+			var candidates = baseMatches
+				.Where(p => attributeFilters
+					.Where(f => !string.Equals(f.Key, code, StringComparison.Ordinal))
+					.All(f => MatchesAttribute(p, f.Key, f.Value)))
+				.ToList();
+
+			var counts = values
+				.Select(value => new AttributeValueOptionDto(
+					value,
+					candidates.Count(p => p.Skus.Any(s => StringValueEquals(s, code, value)))))
+				.OrderByDescending(x => x.Count)
+				.ThenBy(x => x.Value)
+				.ToList();
+
+			facets.Add(new AttributeFacetDto(code, counts.AsReadOnly()));
+		}
+
+		var matchingCount = baseMatches.Count(p => attributeFilters.All(f => MatchesAttribute(p, f.Key, f.Value)));
+
+		return (facets.AsReadOnly(), matchingCount);
+	}
+
+	private static bool HasConditions(AttributeFilterValue filter)
+		=> (filter.In is not null && filter.In.Count > 0) ||
+		   !string.IsNullOrEmpty(filter.Equal) ||
+		   filter.Gte.HasValue ||
+		   filter.Lte.HasValue ||
+		   filter.Eq.HasValue;
+
+	private static bool MatchesBaseFilters(Product product, ProductFacetSelection selection)
+	{
+		// Tags use AND logic - product must have ALL specified tags
+		if (selection.TagIds is not null && selection.TagIds.Any(tagId => product.ProductTags.All(pt => pt.TagId != tagId)))
+		{
+			return false;
+		}
+
+		if (selection.MinPrice.HasValue && !product.Skus.Any(s => s.Price >= selection.MinPrice.Value))
+		{
+			return false;
+		}
+
+		if (selection.MaxPrice.HasValue && !product.Skus.Any(s => s.Price <= selection.MaxPrice.Value))
+		{
+			return false;
+		}
+
+		if (selection.MinRating.HasValue && product.AverageRating < selection.MinRating.Value)
+		{
+			return false;
+		}
+
+		return selection.InStock != true || product.Skus.Any(s => s.StockQuantity > 0);
+	}
+
+	private static bool MatchesAttribute(ProductFacetData product, string code, AttributeFilterValue filter)
+	{
+		var inValues = filter.In;
+		if (inValues is not null && inValues.Count > 0 &&
+			!product.Skus.Any(s => inValues.Any(value => StringValueEquals(s, code, value))))
+		{
+			return false;
+		}
+
+		var equal = filter.Equal;
+		if (!string.IsNullOrEmpty(equal) && !product.Skus.Any(s => StringValueEquals(s, code, equal)))
+		{
+			return false;
+		}
+
+		if (filter.Gte.HasValue && !product.Skus.Any(s => NumberValue(s, code) >= filter.Gte.Value))
+		{
+			return false;
+		}
+
+		if (filter.Lte.HasValue && !product.Skus.Any(s => NumberValue(s, code) <= filter.Lte.Value))
+		{
+			return false;
+		}
+
+		return !filter.Eq.HasValue || product.Skus.Any(s => NumberValue(s, code) == filter.Eq.Value);
+	}
+
+	private static bool StringValueEquals(SkuFacetData sku, string code, string value)
+		=> sku.Attributes.TryGetValue(code, out var actual) &&
+		   StringValues(actual).Contains(value, StringComparer.Ordinal);
+
+	// The value itself for strings, each element for arrays
+	private static IEnumerable<string> StringValues(object value)
+		=> value switch
+		{
+			string text => [text],
+			string[] items => items,
+			_ => []
+		};
+
+	private static decimal? NumberValue(SkuFacetData sku, string code)
+		=> sku.Attributes.TryGetValue(code, out var actual) && actual is decimal number ? number : null;
+
+	private sealed record ProductFacetData(Product Product, List<SkuFacetData> Skus);
+
+	private sealed record SkuFacetData(SkuEntity Sku, Dictionary<string, object> Attributes);
+}
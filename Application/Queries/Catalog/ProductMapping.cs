@@ -55,7 +55,9 @@ public static class ProductMapping
 			product.IsActive,
 			primaryCategory,
 			categories,
-			tags);
+			tags,
+			product.AverageRating,
+			product.ReviewCount);
 	}
 
 	public static ProductDetailsDto MapDetails(Product product, IFileStorage fileStorage)
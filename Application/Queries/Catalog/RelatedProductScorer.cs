@@ -0,0 +1,66 @@
+using Domain.Entities;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog;
+
+/// <summary>
+/// Scores how closely a candidate product relates to a source product:
+/// the same primary category weighs most, then other shared categories and tags,
+/// then how many SKU attribute values (e.g. brand=Apple, color=Black) the two products have in common.
+/// </summary>
+public static class RelatedProductScorer
+{
+	private const double PrimaryCategoryWeight = 3;
+	private const double SharedCategoryWeight = 1;
+	private const double SharedTagWeight = 1;
+	// Applied to the Jaccard similarity (0..1) of the attribute values
+	private const double AttributeSimilarityWeight = 4;
+
+	public static double Score(Product source, Product candidate, ILogger? logger = null)
+	{
+		var score = 0d;
+
+		var sourcePrimary = PrimaryCategoryId(source);
+		if (sourcePrimary.HasValue && sourcePrimary == PrimaryCategoryId(candidate))
+		{
+			score += PrimaryCategoryWeight;
+		}
+
+		var sourceCategories = source.ProductCategories
+			.Where(pc => pc.CategoryId != sourcePrimary)
+			.Select(pc => pc.CategoryId)
+			.ToHashSet();
+		score += SharedCategoryWeight * candidate.ProductCategories.Count(pc => sourceCategories.Contains(pc.CategoryId));
+
+		var sourceTags = source.ProductTags.Select(pt => pt.TagId).ToHashSet();
+		score += SharedTagWeight * candidate.ProductTags.Count(pt => sourceTags.Contains(pt.TagId));
+
+		var sourceAttributes = AttributeValues(source, logger);
+		var candidateAttributes = AttributeValues(candidate, logger);
+		var union = sourceAttributes.Union(candidateAttributes).Count();
+		if (union > 0)
+		{
+			score += AttributeSimilarityWeight * sourceAttributes.Intersect(candidateAttributes).Count() / union;
+		}
+
+		return score;
+	}
+
+	private static Guid? PrimaryCategoryId(Product product)
+	{
+		var categories = product.ProductCategories.ToList();
+		return (categories.FirstOrDefault(pc => pc.IsPrimary) ?? categories.FirstOrDefault())?.CategoryId;
+	}
+
+	// "code=value" pairs over all SKUs of a product (one per element of an array attribute), case-insensitive
+	private static HashSet<string> AttributeValues(Product product, ILogger? logger)
+	{
+		return product.Skus
+			.SelectMany(sku => SkuAttributeReader.Read(sku, logger))
+			.SelectMany(kv => kv.Value is string[] items
+				? items.Select(item => $"{kv.Key}={item}")
+				: new[] { $"{kv.Key}={Convert.ToString(kv.Value, System.Globalization.CultureInfo.InvariantCulture)}" })
+			.Select(pair => pair.ToLowerInvariant())
+			.ToHashSet();
+	}
+}
@@ -0,0 +1,104 @@
+using System.Text.Json;
+using Domain.Entities;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Catalog;
+
+/// <summary>
+/// Reads the filterable attribute values of a SKU as seen by the catalog filters.
+/// Typed SkuAttributeValue entries win; JSONB attributes are a fallback for older SKUs.
+/// Numbers are returned as decimal, strings and booleans as string ("True"/"False"),
+/// arrays (kept only in JSONB, a typed value cannot hold them) as string[] of their string elements.
+/// </summary>
+public static class SkuAttributeReader
+{
+	private static readonly JsonSerializerOptions JsonOptions = new() { PropertyNameCaseInsensitive = true };
+
+	public static Dictionary<string, object> Read(SkuEntity sku, ILogger? logger = null)
+	{
+		var values = new Dictionary<string, object>(StringComparer.OrdinalIgnoreCase);
+
+		foreach (var attrValue in sku.AttributeValues)
+		{
+			var code = attrValue.AttributeDefinition?.Code;
+			if (code is null) continue;
+
+			if (attrValue.ValueNumber.HasValue)
+			{
+				values[code] = attrValue.ValueNumber.Value;
+			}
+			else if (attrValue.ValueString is not null)
+			{
+				values[code] = attrValue.ValueString;
+			}
+			else if (attrValue.ValueBoolean.HasValue)
+			{
+				values[code] = attrValue.ValueBoolean.Value.ToString();
+			}
+		}
+
+		if (sku.Attributes is null)
+		{
+			return values;
+		}
+
+		Dictionary<string, JsonElement>? attributes;
+		try
+		{
+			attributes = JsonSerializer.Deserialize<Dictionary<string, JsonElement>>(
+				sku.Attributes.RootElement.GetRawText(),
+				JsonOptions
+			);
+		}
+		catch (Exception ex)
+		{
+			logger?.LogWarning(ex, "Failed to parse SKU attributes for SKU {SkuId}", sku.Id);
+			return values;
+		}
+
+		if (attributes is null)
+		{
+			return values;
+		}
+
+		foreach (var (code, value) in attributes)
+		{
+			if (value.ValueKind == JsonValueKind.Array)
+			{
+				values[code] = value.EnumerateArray()
+					.Where(item => item.ValueKind == JsonValueKind.String)
+					.Select(item => item.GetString()!)
+					.Where(item => !string.IsNullOrWhiteSpace(item))
+					.Distinct(StringComparer.Ordinal)
+					.ToArray();
+				continue;
+			}
+
+			// Skip if already read from typed attributes
+			if (values.ContainsKey(code) ||
+				sku.AttributeValues.Any(av => string.Equals(av.AttributeDefinition?.Code, code, StringComparison.OrdinalIgnoreCase)))
+			{
+				continue;
+			}
+
+			if (value.ValueKind == JsonValueKind.Number)
+			{
+				values[code] = value.TryGetDecimal(out var number) ? number : value.ToString();
+			}
+			else if (value.ValueKind == JsonValueKind.String)
+			{
+				var strValue = value.GetString();
+				if (!string.IsNullOrWhiteSpace(strValue))
+				{
+					values[code] = strValue;
+				}
+			}
+			else if (value.ValueKind == JsonValueKind.True || value.ValueKind == JsonValueKind.False)
+			{
+				values[code] = value.GetBoolean().ToString();
+			}
+		}
+
+		return values;
+	}
+}
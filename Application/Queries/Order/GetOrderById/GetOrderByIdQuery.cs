@@ -1,5 +1,6 @@
 using Application.Commands.Order.CreateOrder;
 using Application.DTOs;
+using Domain.Enums;
 using Domain.ValueObjects;
 using MediatR;
 
@@ -25,8 +26,8 @@ public record OrderDetailDto(
 	decimal Subtotal,
 	decimal ShippingCost,
 	decimal DiscountAmount,
-	string Status,
-	string PaymentStatus,
+	OrderStatus Status,
+	PaymentStatus PaymentStatus,
 	ShippingAddressDto ShippingAddress,
 	string DeliveryMethod,
 	string PaymentMethod,
@@ -104,8 +104,8 @@ public sealed class GetOrderByIdQueryHandler : IRequestHandler<GetOrderByIdQuery
 			subtotal,
 			order.ShippingCost,
 			order.DiscountAmount,
-			order.Status.ToString(),
-			order.PaymentStatus.ToString(),
+			order.Status,
+			order.PaymentStatus,
 			shippingAddress,
 			order.DeliveryMethod,
 			order.PaymentMethod,
@@ -0,0 +1,15 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Question.GetProductQuestions;
+
+/// <summary>
+/// Published questions of a product. UserId is set for a signed-in visitor so their upvotes are marked.
+/// </summary>
+public sealed record GetProductQuestionsQuery(
+	Guid ProductId,
+	string? Sort = null,
+	int Page = 1,
+	int PageSize = 10,
+	Guid? UserId = null
+) : IRequest<ServiceResponse<PagedResponse<ProductQuestionDto>>>;
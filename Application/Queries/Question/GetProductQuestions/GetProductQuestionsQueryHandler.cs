@@ -0,0 +1,68 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Question.GetProductQuestions;
+
+public sealed class GetProductQuestionsQueryHandler
+	: IRequestHandler<GetProductQuestionsQuery, ServiceResponse<PagedResponse<ProductQuestionDto>>>
+{
+	private readonly IProductQuestionRepository _questionRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly ILogger<GetProductQuestionsQueryHandler> _logger;
+
+	public GetProductQuestionsQueryHandler(
+		IProductQuestionRepository questionRepository,
+		IUserRepository userRepository,
+		ILogger<GetProductQuestionsQueryHandler> logger)
+	{
+		_questionRepository = questionRepository;
+		_userRepository = userRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<PagedResponse<ProductQuestionDto>>> Handle(
+		GetProductQuestionsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.Page < 1) return new ServiceResponse<PagedResponse<ProductQuestionDto>>(false, "Page must be >= 1");
+			if (request.PageSize < 1 || request.PageSize > 50)
+				return new ServiceResponse<PagedResponse<ProductQuestionDto>>(false, "PageSize must be between 1 and 50");
+
+			var (questions, total) = await _questionRepository.GetPublishedByProductIdAsync(
+				request.ProductId,
+				request.Sort,
+				request.Page,
+				request.PageSize);
+			var questionList = questions.ToList();
+
+			var votedIds = new HashSet<Guid>();
+			if (request.UserId.HasValue && questionList.Count > 0)
+			{
+				var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId.Value);
+				if (domainUser is not null)
+				{
+					votedIds = await _questionRepository.GetVotedQuestionIdsAsync(domainUser.Id, questionList.Select(q => q.Id));
+				}
+			}
+
+			var items = questionList
+				.Select(q => QuestionMapping.Map(q, votedIds.Contains(q.Id)))
+				.ToList()
+				.AsReadOnly();
+
+			return new ServiceResponse<PagedResponse<ProductQuestionDto>>(
+				true,
+				"Questions retrieved successfully",
+				new PagedResponse<ProductQuestionDto>(items, request.Page, request.PageSize, total));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving questions for product {ProductId}", request.ProductId);
+			return new ServiceResponse<PagedResponse<ProductQuestionDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,14 @@
+using Application.DTOs;
+using Domain.Enums;
+using MediatR;
+
+namespace Application.Queries.Question.GetQuestionsForModeration;
+
+/// <summary>
+/// Questions about all products for the admin panel, newest first
+/// </summary>
+public sealed record GetQuestionsForModerationQuery(
+	QuestionStatus? Status = null,
+	int Page = 1,
+	int PageSize = 20
+) : IRequest<ServiceResponse<PagedResponse<QuestionWithProductDto>>>;
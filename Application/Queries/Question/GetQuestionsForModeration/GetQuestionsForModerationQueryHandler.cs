@@ -0,0 +1,49 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Question.GetQuestionsForModeration;
+
+public sealed class GetQuestionsForModerationQueryHandler
+	: IRequestHandler<GetQuestionsForModerationQuery, ServiceResponse<PagedResponse<QuestionWithProductDto>>>
+{
+	private readonly IProductQuestionRepository _questionRepository;
+	private readonly ILogger<GetQuestionsForModerationQueryHandler> _logger;
+
+	public GetQuestionsForModerationQueryHandler(
+		IProductQuestionRepository questionRepository,
+		ILogger<GetQuestionsForModerationQueryHandler> logger)
+	{
+		_questionRepository = questionRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<PagedResponse<QuestionWithProductDto>>> Handle(
+		GetQuestionsForModerationQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.Page < 1) return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, "Page must be >= 1");
+			if (request.PageSize < 1 || request.PageSize > 100)
+				return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, "PageSize must be between 1 and 100");
+
+			var (questions, total) = await _questionRepository.GetAllAsync(request.Status, request.Page, request.PageSize);
+			var items = questions
+				.Select(q => QuestionMapping.MapWithProduct(q))
+				.ToList()
+				.AsReadOnly();
+
+			return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(
+				true,
+				"Questions retrieved successfully",
+				new PagedResponse<QuestionWithProductDto>(items, request.Page, request.PageSize, total));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving questions for moderation");
+			return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
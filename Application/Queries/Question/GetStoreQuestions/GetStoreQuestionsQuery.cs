@@ -0,0 +1,14 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Question.GetStoreQuestions;
+
+/// <summary>
+/// Questions about the products of the seller's store. Answered: true — answered only, false — awaiting an answer.
+/// </summary>
+public sealed record GetStoreQuestionsQuery(
+	Guid UserId,
+	bool? Answered = null,
+	int Page = 1,
+	int PageSize = 20
+) : IRequest<ServiceResponse<PagedResponse<QuestionWithProductDto>>>;
@@ -0,0 +1,67 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Question.GetStoreQuestions;
+
+public sealed class GetStoreQuestionsQueryHandler
+	: IRequestHandler<GetStoreQuestionsQuery, ServiceResponse<PagedResponse<QuestionWithProductDto>>>
+{
+	private readonly IProductQuestionRepository _questionRepository;
+	private readonly IStoreRepository _storeRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly ILogger<GetStoreQuestionsQueryHandler> _logger;
+
+	public GetStoreQuestionsQueryHandler(
+		IProductQuestionRepository questionRepository,
+		IStoreRepository storeRepository,
+		IUserRepository userRepository,
+		ILogger<GetStoreQuestionsQueryHandler> logger)
+	{
+		_questionRepository = questionRepository;
+		_storeRepository = storeRepository;
+		_userRepository = userRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<PagedResponse<QuestionWithProductDto>>> Handle(
+		GetStoreQuestionsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.Page < 1) return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, "Page must be >= 1");
+			if (request.PageSize < 1 || request.PageSize > 100)
+				return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, "PageSize must be between 1 and 100");
+
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, "User not found");
+			}
+
+			var store = await _storeRepository.GetByUserIdAsync(domainUser.Id);
+			if (store is null)
+			{
+				return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, "Store not found");
+			}
+
+			var (questions, total) = await _questionRepository.GetByStoreIdAsync(store.Id, request.Answered, request.Page, request.PageSize);
+			var items = questions
+				.Select(q => QuestionMapping.MapWithProduct(q))
+				.ToList()
+				.AsReadOnly();
+
+			return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(
+				true,
+				"Questions retrieved successfully",
+				new PagedResponse<QuestionWithProductDto>(items, request.Page, request.PageSize, total));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving store questions for user {UserId}", request.UserId);
+			return new ServiceResponse<PagedResponse<QuestionWithProductDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
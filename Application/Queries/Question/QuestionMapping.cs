@@ -0,0 +1,45 @@
+using Application.DTOs;
+using Domain.Entities;
+
+namespace Application.Queries.Question;
+
+public static class QuestionMapping
+{
+	public static ProductQuestionDto Map(ProductQuestion question, bool upvoted = false)
+	{
+		return new ProductQuestionDto(
+			question.Id,
+			question.ProductId,
+			AuthorName(question.User),
+			question.Text,
+			question.Answer,
+			question.AnsweredAt,
+			question.UpvoteCount,
+			upvoted,
+			question.CreatedAt);
+	}
+
+	public static QuestionWithProductDto MapWithProduct(ProductQuestion question)
+	{
+		return new QuestionWithProductDto(
+			Map(question),
+			question.Product?.Name ?? string.Empty,
+			question.Product?.Slug ?? string.Empty,
+			question.Product?.BaseImageUrl,
+			question.Status,
+			question.ModerationReason);
+	}
+
+	// Same format as review authors: first name and the initial of the surname
+	private static string? AuthorName(Domain.Entities.User? user)
+	{
+		var name = user?.Name?.Trim();
+		if (string.IsNullOrEmpty(name))
+		{
+			return null;
+		}
+
+		var surname = user!.Surname?.Trim();
+		return string.IsNullOrEmpty(surname) ? name : $"{name} {surname[0]}.";
+	}
+}
@@ -0,0 +1,6 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.RecentlyViewed.GetRecentlyViewed;
+
+public sealed record GetRecentlyViewedQuery(Guid UserId) : IRequest<ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>>;
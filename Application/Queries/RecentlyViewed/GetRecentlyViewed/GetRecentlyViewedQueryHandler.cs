@@ -0,0 +1,51 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.RecentlyViewed.GetRecentlyViewed;
+
+public sealed class GetRecentlyViewedQueryHandler
+	: IRequestHandler<GetRecentlyViewedQuery, ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>>
+{
+	private readonly IRecentlyViewedProductRepository _recentlyViewedRepository;
+	private readonly IProductRepository _productRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly ILogger<GetRecentlyViewedQueryHandler> _logger;
+
+	public GetRecentlyViewedQueryHandler(
+		IRecentlyViewedProductRepository recentlyViewedRepository,
+		IProductRepository productRepository,
+		IUserRepository userRepository,
+		ILogger<GetRecentlyViewedQueryHandler> logger)
+	{
+		_recentlyViewedRepository = recentlyViewedRepository;
+		_productRepository = productRepository;
+		_userRepository = userRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>> Handle(
+		GetRecentlyViewedQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>(false, "User not found");
+			}
+
+			var entries = await _recentlyViewedRepository.GetByUserIdAsync(domainUser.Id);
+			var result = await RecentlyViewedMapping.MapAsync(entries, _productRepository);
+
+			return new ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>(true, "Recently viewed products retrieved", result);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving recently viewed products for user {UserId}", request.UserId);
+			return new ServiceResponse<IReadOnlyList<RecentlyViewedProductDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,27 @@
+using Application.DTOs;
+using Application.Queries.Catalog;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+
+namespace Application.Queries.RecentlyViewed;
+
+public static class RecentlyViewedMapping
+{
+	/// <summary>
+	/// Maps entries (newest first) to DTOs; products that were deactivated or whose store is hidden are skipped
+	/// </summary>
+	public static async Task<IReadOnlyList<RecentlyViewedProductDto>> MapAsync(
+		IEnumerable<RecentlyViewedProduct> entries,
+		IProductRepository productRepository)
+	{
+		var ordered = entries.OrderByDescending(e => e.ViewedAt).ToList();
+		var products = (await productRepository.GetActiveByIdsAsync(ordered.Select(e => e.ProductId)))
+			.ToDictionary(p => p.Id);
+
+		return ordered
+			.Where(e => products.ContainsKey(e.ProductId))
+			.Select(e => new RecentlyViewedProductDto(ProductMapping.MapSummary(products[e.ProductId]), e.ViewedAt))
+			.ToList()
+			.AsReadOnly();
+	}
+}
@@ -0,0 +1,9 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Review.GetMyReviews;
+
+/// <summary>
+/// Reviews written by the user, including hidden ones, so the orders page knows what was already rated
+/// </summary>
+public sealed record GetMyReviewsQuery(Guid UserId) : IRequest<ServiceResponse<IReadOnlyList<ReviewWithProductDto>>>;
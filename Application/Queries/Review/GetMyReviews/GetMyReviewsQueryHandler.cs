@@ -0,0 +1,55 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Review.GetMyReviews;
+
+public sealed class GetMyReviewsQueryHandler
+	: IRequestHandler<GetMyReviewsQuery, ServiceResponse<IReadOnlyList<ReviewWithProductDto>>>
+{
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IFileStorage _fileStorage;
+	private readonly ILogger<GetMyReviewsQueryHandler> _logger;
+
+	public GetMyReviewsQueryHandler(
+		IProductReviewRepository reviewRepository,
+		IUserRepository userRepository,
+		IFileStorage fileStorage,
+		ILogger<GetMyReviewsQueryHandler> logger)
+	{
+		_reviewRepository = reviewRepository;
+		_userRepository = userRepository;
+		_fileStorage = fileStorage;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<IReadOnlyList<ReviewWithProductDto>>> Handle(
+		GetMyReviewsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<IReadOnlyList<ReviewWithProductDto>>(false, "User not found");
+			}
+
+			var reviews = await _reviewRepository.GetByUserIdAsync(domainUser.Id);
+			var result = reviews
+				.Select(r => ReviewMapping.MapWithProduct(r, _fileStorage))
+				.ToList()
+				.AsReadOnly();
+
+			return new ServiceResponse<IReadOnlyList<ReviewWithProductDto>>(true, "Reviews retrieved successfully", result);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving reviews of user {UserId}", request.UserId);
+			return new ServiceResponse<IReadOnlyList<ReviewWithProductDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -0,0 +1,9 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Review.GetProductRatingSummary;
+
+/// <summary>
+/// Average rating and per-star histogram of a product's published reviews
+/// </summary>
+public sealed record GetProductRatingSummaryQuery(Guid ProductId) : IRequest<ServiceResponse<RatingSummaryDto>>;
@@ -0,0 +1,37 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Review.GetProductRatingSummary;
+
+public sealed class GetProductRatingSummaryQueryHandler
+	: IRequestHandler<GetProductRatingSummaryQuery, ServiceResponse<RatingSummaryDto>>
+{
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly ILogger<GetProductRatingSummaryQueryHandler> _logger;
+
+	public GetProductRatingSummaryQueryHandler(
+		IProductReviewRepository reviewRepository,
+		ILogger<GetProductRatingSummaryQueryHandler> logger)
+	{
+		_reviewRepository = reviewRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<RatingSummaryDto>> Handle(
+		GetProductRatingSummaryQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			var summary = await _reviewRepository.GetRatingSummaryAsync(request.ProductId);
+			return new ServiceResponse<RatingSummaryDto>(true, "Rating summary retrieved successfully", ReviewMapping.MapSummary(summary));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving rating summary for product {ProductId}", request.ProductId);
+			return new ServiceResponse<RatingSummaryDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
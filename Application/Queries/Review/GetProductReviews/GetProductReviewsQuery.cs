@@ -0,0 +1,16 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Review.GetProductReviews;
+
+/// <summary>
+/// Published reviews of a product. UserId is set for a signed-in visitor so their helpful votes are marked.
+/// </summary>
+public sealed record GetProductReviewsQuery(
+	Guid ProductId,
+	int? Rating = null,
+	string? Sort = null,
+	int Page = 1,
+	int PageSize = 10,
+	Guid? UserId = null
+) : IRequest<ServiceResponse<PagedResponse<ProductReviewDto>>>;
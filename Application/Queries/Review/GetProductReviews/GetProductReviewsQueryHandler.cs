@@ -0,0 +1,73 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Review.GetProductReviews;
+
+public sealed class GetProductReviewsQueryHandler
+	: IRequestHandler<GetProductReviewsQuery, ServiceResponse<PagedResponse<ProductReviewDto>>>
+{
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IFileStorage _fileStorage;
+	private readonly ILogger<GetProductReviewsQueryHandler> _logger;
+
+	public GetProductReviewsQueryHandler(
+		IProductReviewRepository reviewRepository,
+		IUserRepository userRepository,
+		IFileStorage fileStorage,
+		ILogger<GetProductReviewsQueryHandler> logger)
+	{
+		_reviewRepository = reviewRepository;
+		_userRepository = userRepository;
+		_fileStorage = fileStorage;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<PagedResponse<ProductReviewDto>>> Handle(
+		GetProductReviewsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.Page < 1) return new ServiceResponse<PagedResponse<ProductReviewDto>>(false, "Page must be >= 1");
+			if (request.PageSize < 1 || request.PageSize > 50)
+				return new ServiceResponse<PagedResponse<ProductReviewDto>>(false, "PageSize must be between 1 and 50");
+
+			var (reviews, total) = await _reviewRepository.GetPublishedByProductIdAsync(
+				request.ProductId,
+				request.Rating,
+				request.Sort,
+				request.Page,
+				request.PageSize);
+			var reviewList = reviews.ToList();
+
+			var votedIds = new HashSet<Guid>();
+			if (request.UserId.HasValue && reviewList.Count > 0)
+			{
+				var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId.Value);
+				if (domainUser is not null)
+				{
+					votedIds = await _reviewRepository.GetVotedReviewIdsAsync(domainUser.Id, reviewList.Select(r => r.Id));
+				}
+			}
+
+			var items = reviewList
+				.Select(r => ReviewMapping.Map(r, _fileStorage, votedIds.Contains(r.Id)))
+				.ToList()
+				.AsReadOnly();
+
+			return new ServiceResponse<PagedResponse<ProductReviewDto>>(
+				true,
+				"Reviews retrieved successfully",
+				new PagedResponse<ProductReviewDto>(items, request.Page, request.PageSize, total));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving reviews for product {ProductId}", request.ProductId);
+			return new ServiceResponse<PagedResponse<ProductReviewDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
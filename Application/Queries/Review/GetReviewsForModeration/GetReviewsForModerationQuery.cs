@@ -0,0 +1,15 @@
+using Application.DTOs;
+using Domain.Enums;
+using MediatR;
+
+namespace Application.Queries.Review.GetReviewsForModeration;
+
+/// <summary>
+/// All reviews for the admin panel. MaxRating narrows the list to low ratings, where abuse is most likely.
+/// </summary>
+public sealed record GetReviewsForModerationQuery(
+	ReviewStatus? Status = null,
+	int? MaxRating = null,
+	int Page = 1,
+	int PageSize = 20
+) : IRequest<ServiceResponse<PagedResponse<ReviewWithProductDto>>>;
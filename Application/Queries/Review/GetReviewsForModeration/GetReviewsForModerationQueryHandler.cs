@@ -0,0 +1,53 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Review.GetReviewsForModeration;
+
+public sealed class GetReviewsForModerationQueryHandler
+	: IRequestHandler<GetReviewsForModerationQuery, ServiceResponse<PagedResponse<ReviewWithProductDto>>>
+{
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly IFileStorage _fileStorage;
+	private readonly ILogger<GetReviewsForModerationQueryHandler> _logger;
+
+	public GetReviewsForModerationQueryHandler(
+		IProductReviewRepository reviewRepository,
+		IFileStorage fileStorage,
+		ILogger<GetReviewsForModerationQueryHandler> logger)
+	{
+		_reviewRepository = reviewRepository;
+		_fileStorage = fileStorage;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<PagedResponse<ReviewWithProductDto>>> Handle(
+		GetReviewsForModerationQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.Page < 1) return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, "Page must be >= 1");
+			if (request.PageSize < 1 || request.PageSize > 100)
+				return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, "PageSize must be between 1 and 100");
+
+			var (reviews, total) = await _reviewRepository.GetAllAsync(request.Status, request.MaxRating, request.Page, request.PageSize);
+			var items = reviews
+				.Select(r => ReviewMapping.MapWithProduct(r, _fileStorage))
+				.ToList()
+				.AsReadOnly();
+
+			return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(
+				true,
+				"Reviews retrieved successfully",
+				new PagedResponse<ReviewWithProductDto>(items, request.Page, request.PageSize, total));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving reviews for moderation");
+			return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
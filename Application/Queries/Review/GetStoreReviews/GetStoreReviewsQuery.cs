@@ -0,0 +1,14 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Review.GetStoreReviews;
+
+/// <summary>
+/// Reviews of the products of the seller's store. Replied: true — answered only, false — awaiting a reply.
+/// </summary>
+public sealed record GetStoreReviewsQuery(
+	Guid UserId,
+	bool? Replied = null,
+	int Page = 1,
+	int PageSize = 20
+) : IRequest<ServiceResponse<PagedResponse<ReviewWithProductDto>>>;
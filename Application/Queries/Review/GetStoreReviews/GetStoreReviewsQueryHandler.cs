@@ -0,0 +1,71 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Review.GetStoreReviews;
+
+public sealed class GetStoreReviewsQueryHandler
+	: IRequestHandler<GetStoreReviewsQuery, ServiceResponse<PagedResponse<ReviewWithProductDto>>>
+{
+	private readonly IProductReviewRepository _reviewRepository;
+	private readonly IStoreRepository _storeRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly IFileStorage _fileStorage;
+	private readonly ILogger<GetStoreReviewsQueryHandler> _logger;
+
+	public GetStoreReviewsQueryHandler(
+		IProductReviewRepository reviewRepository,
+		IStoreRepository storeRepository,
+		IUserRepository userRepository,
+		IFileStorage fileStorage,
+		ILogger<GetStoreReviewsQueryHandler> logger)
+	{
+		_reviewRepository = reviewRepository;
+		_storeRepository = storeRepository;
+		_userRepository = userRepository;
+		_fileStorage = fileStorage;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<PagedResponse<ReviewWithProductDto>>> Handle(
+		GetStoreReviewsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.Page < 1) return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, "Page must be >= 1");
+			if (request.PageSize < 1 || request.PageSize > 100)
+				return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, "PageSize must be between 1 and 100");
+
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, "User not found");
+			}
+
+			var store = await _storeRepository.GetByUserIdAsync(domainUser.Id);
+			if (store is null)
+			{
+				return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, "Store not found");
+			}
+
+			var (reviews, total) = await _reviewRepository.GetByStoreIdAsync(store.Id, request.Replied, request.Page, request.PageSize);
+			var items = reviews
+				.Select(r => ReviewMapping.MapWithProduct(r, _fileStorage))
+				.ToList()
+				.AsReadOnly();
+
+			return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(
+				true,
+				"Reviews retrieved successfully",
+				new PagedResponse<ReviewWithProductDto>(items, request.Page, request.PageSize, total));
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving store reviews for user {UserId}", request.UserId);
+			return new ServiceResponse<PagedResponse<ReviewWithProductDto>>(false, $"Error: {ex.Message}");
+		}
+	}
+}
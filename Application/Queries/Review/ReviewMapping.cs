@@ -0,0 +1,70 @@
+using Application.DTOs;
+using Application.Interfaces;
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+
+namespace Application.Queries.Review;
+
+public static class ReviewMapping
+{
+	public static ProductReviewDto Map(ProductReview review, IFileStorage fileStorage, bool votedHelpful = false)
+	{
+		var photos = review.Photos
+			.Where(p => p.MediaImage is not null)
+			.OrderBy(p => p.DisplayOrder)
+			.Select(p => new ReviewPhotoDto(p.Id, fileStorage.GetPublicUrl(p.MediaImage!.StorageKey)))
+			.ToList()
+			.AsReadOnly();
+
+		return new ProductReviewDto(
+			review.Id,
+			review.ProductId,
+			AuthorName(review.User),
+			review.Rating,
+			review.Comment,
+			// Reviews can only be written for a delivered order item
+			true,
+			photos,
+			review.HelpfulCount,
+			votedHelpful,
+			review.SellerReply,
+			review.SellerRepliedAt,
+			review.CreatedAt);
+	}
+
+	public static ReviewWithProductDto MapWithProduct(ProductReview review, IFileStorage fileStorage)
+	{
+		return new ReviewWithProductDto(
+			Map(review, fileStorage),
+			review.OrderItemId,
+			review.Product?.Name ?? string.Empty,
+			review.Product?.Slug ?? string.Empty,
+			review.Product?.BaseImageUrl,
+			review.Status,
+			review.ModerationReason);
+	}
+
+	public static RatingSummaryDto MapSummary(ProductRatingSummary summary)
+	{
+		var distribution = summary.Distribution
+			.OrderByDescending(kv => kv.Key)
+			.Select(kv => new RatingCountDto(kv.Key, kv.Value))
+			.ToList()
+			.AsReadOnly();
+
+		return new RatingSummaryDto(Math.Round(summary.AverageRating, 2), summary.ReviewCount, distribution);
+	}
+
+	// First name and the initial of the surname, e.g. "Olena K."; null when the customer left no name
+	private static string? AuthorName(Domain.Entities.User? user)
+	{
+		var name = user?.Name?.Trim();
+		if (string.IsNullOrEmpty(name))
+		{
+			return null;
+		}
+
+		var surname = user!.Surname?.Trim();
+		return string.IsNullOrEmpty(surname) ? name : $"{name} {surname[0]}.";
+	}
+}
@@ -0,0 +1,6 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.SearchHistory.GetSearchHistory;
+
+public sealed record GetSearchHistoryQuery(Guid UserId) : IRequest<ServiceResponse<SearchHistoryDto>>;
@@ -0,0 +1,48 @@
+using Application.DTOs;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.SearchHistory.GetSearchHistory;
+
+public sealed class GetSearchHistoryQueryHandler : IRequestHandler<GetSearchHistoryQuery, ServiceResponse<SearchHistoryDto>>
+{
+	private readonly ISearchHistoryRepository _searchHistoryRepository;
+	private readonly IUserRepository _userRepository;
+	private readonly ILogger<GetSearchHistoryQueryHandler> _logger;
+
+	public GetSearchHistoryQueryHandler(
+		ISearchHistoryRepository searchHistoryRepository,
+		IUserRepository userRepository,
+		ILogger<GetSearchHistoryQueryHandler> logger)
+	{
+		_searchHistoryRepository = searchHistoryRepository;
+		_userRepository = userRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<SearchHistoryDto>> Handle(GetSearchHistoryQuery request, CancellationToken cancellationToken)
+	{
+		try
+		{
+			var domainUser = await _userRepository.GetByIdentityUserIdAsync(request.UserId);
+			if (domainUser is null)
+			{
+				return new ServiceResponse<SearchHistoryDto>(false, "User not found");
+			}
+
+			var entries = await _searchHistoryRepository.GetByUserIdAsync(domainUser.Id);
+			var result = new SearchHistoryDto(
+				entries.Select(e => e.Query).ToList().AsReadOnly(),
+				domainUser.IsSearchHistoryPaused
+			);
+
+			return new ServiceResponse<SearchHistoryDto>(true, "Search history retrieved", result);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving search history for user {UserId}", request.UserId);
+			return new ServiceResponse<SearchHistoryDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
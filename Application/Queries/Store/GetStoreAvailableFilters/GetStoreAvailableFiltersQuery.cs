@@ -0,0 +1,17 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Store.GetStoreAvailableFilters;
+
+public sealed record GetStoreAvailableFiltersQuery(Guid StoreId)
+	: IRequest<ServiceResponse<StoreAvailableFiltersDto>>;
+
+/// <summary>
+/// Filter options of a storefront, built the same way as the category filters.
+/// </summary>
+public sealed record StoreAvailableFiltersDto(
+	Guid StoreId,
+	IReadOnlyList<AttributeFilterDto> Attributes,
+	PriceRangeDto? PriceRange,
+	int TotalProductCount
+);
@@ -0,0 +1,75 @@
+using Application.DTOs;
+using Application.Queries.Catalog;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Store.GetStoreAvailableFilters;
+
+public sealed class GetStoreAvailableFiltersQueryHandler
+	: IRequestHandler<GetStoreAvailableFiltersQuery, ServiceResponse<StoreAvailableFiltersDto>>
+{
+	private readonly IProductRepository _productRepository;
+	private readonly IStoreRepository _storeRepository;
+	private readonly IAttributeDefinitionRepository _attributeDefinitionRepository;
+	private readonly ILogger<GetStoreAvailableFiltersQueryHandler> _logger;
+
+	public GetStoreAvailableFiltersQueryHandler(
+		IProductRepository productRepository,
+		IStoreRepository storeRepository,
+		IAttributeDefinitionRepository attributeDefinitionRepository,
+		ILogger<GetStoreAvailableFiltersQueryHandler> logger)
+	{
+		_productRepository = productRepository;
+		_storeRepository = storeRepository;
+		_attributeDefinitionRepository = attributeDefinitionRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<StoreAvailableFiltersDto>> Handle(
+		GetStoreAvailableFiltersQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.StoreId == Guid.Empty)
+			{
+				return new ServiceResponse<StoreAvailableFiltersDto>(false, "StoreId is required");
+			}
+
+			// Same visibility as the public store page
+			var store = await _storeRepository.GetByIdAsync(request.StoreId);
+			if (store is null || !store.IsVerified || store.IsSuspended)
+			{
+				return new ServiceResponse<StoreAvailableFiltersDto>(false, "Store not found");
+			}
+
+			var products = (await _productRepository.GetActiveByStoreIdWithSkusAsync(request.StoreId)).ToList();
+
+			if (products.Count == 0)
+			{
+				return new ServiceResponse<StoreAvailableFiltersDto>(
+					true,
+					"No products found in store",
+					new StoreAvailableFiltersDto(store.Id, Array.Empty<AttributeFilterDto>(), null, 0)
+				);
+			}
+
+			var (filters, priceRange) = await AvailableFiltersBuilder.BuildAsync(
+				products,
+				_attributeDefinitionRepository,
+				_logger);
+
+			return new ServiceResponse<StoreAvailableFiltersDto>(
+				true,
+				"Available filters retrieved successfully",
+				new StoreAvailableFiltersDto(store.Id, filters, priceRange, products.Count)
+			);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving available filters for store {StoreId}", request.StoreId);
+			return new ServiceResponse<StoreAvailableFiltersDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
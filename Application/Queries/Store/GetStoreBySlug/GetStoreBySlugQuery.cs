@@ -12,5 +12,6 @@ public sealed record PublicStoreDto(
 	string? Description,
 	bool IsVerified,
 	DateTime CreatedAt,
-	IReadOnlyList<ProductSummaryDto> Products
+	// Products are listed page by page through POST api/products/filter with StoreId
+	int ProductCount
 );
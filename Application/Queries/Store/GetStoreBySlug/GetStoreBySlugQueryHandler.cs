@@ -1,5 +1,4 @@
 using Application.DTOs;
-using Application.Queries.Catalog;
 using Domain.Interfaces.Repositories;
 using MediatR;
 using Microsoft.Extensions.Logging;
@@ -40,12 +39,8 @@ public sealed class GetStoreBySlugQueryHandler : IRequestHandler<GetStoreBySlugQ
 				return new ServiceResponse<PublicStoreDto?>(false, "Store not found", null);
 			}
 
-			// Only show active products
-			var activeProducts = store.Products
-				.Where(p => p.IsActive)
-				.Select(ProductMapping.MapSummary)
-				.ToList()
-				.AsReadOnly();
+			// Only count active products
+			var activeProductCount = await _storeRepository.CountActiveProductsAsync(store.Id);
 
 			var dto = new PublicStoreDto(
 				store.Id,
@@ -54,10 +49,10 @@ public sealed class GetStoreBySlugQueryHandler : IRequestHandler<GetStoreBySlugQ
 				store.Description,
 				store.IsVerified,
 				store.CreatedAt,
-				activeProducts
+				activeProductCount
 			);
 
-			_logger.LogInformation("Store {Slug} found with {ProductCount} active products", request.Slug, activeProducts.Count);
+			_logger.LogInformation("Store {Slug} found with {ProductCount} active products", request.Slug, activeProductCount);
 			return new ServiceResponse<PublicStoreDto?>(true, "Store retrieved successfully", dto);
 		}
 		catch (Exception ex)
@@ -0,0 +1,23 @@
+using Application.DTOs;
+using MediatR;
+
+namespace Application.Queries.Store.GetStoreFacets;
+
+public sealed record GetStoreFacetsQuery(
+	Guid StoreId,
+	List<Guid>? TagIds = null,
+	decimal? MinPrice = null,
+	decimal? MaxPrice = null,
+	bool? InStock = null,
+	Dictionary<string, AttributeFilterValue>? Attributes = null,
+	decimal? MinRating = null
+) : IRequest<ServiceResponse<StoreFacetsDto>>;
+
+/// <summary>
+/// Facet counts for a storefront; same semantics as CategoryFacetsDto.
+/// </summary>
+public sealed record StoreFacetsDto(
+	Guid StoreId,
+	IReadOnlyList<AttributeFacetDto> Attributes,
+	int MatchingProductCount
+);
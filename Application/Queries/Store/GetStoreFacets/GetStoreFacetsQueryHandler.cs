@@ -0,0 +1,61 @@
+using Application.DTOs;
+using Application.Queries.Catalog;
+using Domain.Interfaces.Repositories;
+using MediatR;
+using Microsoft.Extensions.Logging;
+
+namespace Application.Queries.Store.GetStoreFacets;
+
+public sealed class GetStoreFacetsQueryHandler
+	: IRequestHandler<GetStoreFacetsQuery, ServiceResponse<StoreFacetsDto>>
+{
+	private readonly IProductRepository _productRepository;
+	private readonly IStoreRepository _storeRepository;
+	private readonly ILogger<GetStoreFacetsQueryHandler> _logger;
+
+	public GetStoreFacetsQueryHandler(
+		IProductRepository productRepository,
+		IStoreRepository storeRepository,
+		ILogger<GetStoreFacetsQueryHandler> logger)
+	{
+		_productRepository = productRepository;
+		_storeRepository = storeRepository;
+		_logger = logger;
+	}
+
+	public async Task<ServiceResponse<StoreFacetsDto>> Handle(
+		GetStoreFacetsQuery request,
+		CancellationToken cancellationToken)
+	{
+		try
+		{
+			if (request.StoreId == Guid.Empty)
+			{
+				return new ServiceResponse<StoreFacetsDto>(false, "StoreId is required");
+			}
+
+			var store = await _storeRepository.GetByIdAsync(request.StoreId);
+			if (store is null || !store.IsVerified || store.IsSuspended)
+			{
+				return new ServiceResponse<StoreFacetsDto>(false, "Store not found");
+			}
+
+			var products = await _productRepository.GetActiveByStoreIdWithSkusAsync(request.StoreId);
+			var (facets, matchingCount) = ProductFacetCounter.Count(
+				products,
+				new ProductFacetSelection(request.TagIds, request.MinPrice, request.MaxPrice, request.InStock, request.Attributes, request.MinRating),
+				_logger);
+
+			return new ServiceResponse<StoreFacetsDto>(
+				true,
+				"Facets retrieved successfully",
+				new StoreFacetsDto(store.Id, facets, matchingCount)
+			);
+		}
+		catch (Exception ex)
+		{
+			_logger.LogError(ex, "Error retrieving facets for store {StoreId}", request.StoreId);
+			return new ServiceResponse<StoreFacetsDto>(false, $"Error: {ex.Message}");
+		}
+	}
+}
@@ -46,6 +46,11 @@ public static class Permissions
     // Reviews
     public const string ReviewsCreate = "reviews.create";
     public const string ReviewsUpdateSelf = "reviews.update.self";
+    public const string ReviewsModerate = "reviews.moderate";
+
+    // Questions
+    public const string QuestionsCreate = "questions.create";
+    public const string QuestionsModerate = "questions.moderate";
 
     // Profile
     public const string ProfileReadSelf = "profile.read.self";
@@ -110,7 +115,13 @@ public static class Permissions
             ["Reviews"] = new()
             {
                 new(ReviewsCreate, "Create reviews"),
-                new(ReviewsUpdateSelf, "Update own reviews")
+                new(ReviewsUpdateSelf, "Update own reviews"),
+                new(ReviewsModerate, "Hide and restore reviews")
+            },
+            ["Questions"] = new()
+            {
+                new(QuestionsCreate, "Ask questions about products"),
+                new(QuestionsModerate, "Hide and restore product questions")
             },
             ["Profile"] = new()
             {
@@ -140,7 +151,8 @@ public static class Permissions
             ProductsCreate, ProductsReadSelf, ProductsUpdateSelf, ProductsDeleteSelf,
             CategoriesManage, TagsManage,
             OrdersCreate, OrdersReadSelf, OrdersUpdateStatus,
-            ReviewsCreate, ReviewsUpdateSelf,
+            ReviewsCreate, ReviewsUpdateSelf, ReviewsModerate,
+            QuestionsCreate, QuestionsModerate,
             ProfileReadSelf, ProfileUpdateSelf,
             PayoutsReadAll, PayoutsProcess, PayoutsReadSelf, PayoutsRequest
         ];
@@ -14,6 +14,13 @@ public class Product : BaseEntity<Guid>
     public string? BaseImageUrl { get; private set; }
     public bool IsActive { get; private set; } = true;
 
+    /// <summary>
+    /// Average star rating of the published reviews (0 while there are none).
+    /// Kept on the product so the catalog can sort and filter by it.
+    /// </summary>
+    public decimal AverageRating { get; private set; }
+    public int ReviewCount { get; private set; }
+
     /// <summary>
     /// Base attributes for the product. These are inherited by all SKUs
     /// unless overridden at SKU level. Stored as JSONB.
@@ -105,6 +112,21 @@ public class Product : BaseEntity<Guid>
         MarkAsUpdated();
     }
 
+    /// <summary>
+    /// Stores the rating recalculated from the published reviews.
+    /// Not a change of the product itself, so UpdatedAt stays as is.
+    /// </summary>
+    public void UpdateRating(decimal averageRating, int reviewCount)
+    {
+        if (reviewCount < 0)
+        {
+            throw new ArgumentOutOfRangeException(nameof(reviewCount), "Review count cannot be negative");
+        }
+
+        AverageRating = reviewCount == 0 ? 0 : Math.Round(averageRating, 2);
+        ReviewCount = reviewCount;
+    }
+
     public void UpdateBaseImage(string? baseImageUrl)
     {
         BaseImageUrl = string.IsNullOrWhiteSpace(baseImageUrl) ? null : baseImageUrl.Trim();
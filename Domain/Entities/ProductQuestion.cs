@@ -0,0 +1,104 @@
+using Domain.Enums;
+
+namespace Domain.Entities;
+
+/// <summary>
+/// Питання покупця про товар та відповідь магазину, що його продає
+/// </summary>
+public class ProductQuestion : BaseEntity<Guid>
+{
+	public const int MinTextLength = 5;
+	public const int MaxTextLength = 1000;
+	public const int MaxAnswerLength = 2000;
+	public const int MaxModerationReasonLength = 500;
+
+	public Guid ProductId { get; private set; }
+	public virtual Product? Product { get; private set; }
+
+	public Guid UserId { get; private set; }
+	public virtual User? User { get; private set; }
+
+	public string Text { get; private set; } = string.Empty;
+
+	/// <summary>
+	/// Public answer of the store that sells the product
+	/// </summary>
+	public string? Answer { get; private set; }
+	public DateTime? AnsweredAt { get; private set; }
+
+	/// <summary>
+	/// Hiding a question hides the whole thread, answer included
+	/// </summary>
+	public QuestionStatus Status { get; private set; }
+	public string? ModerationReason { get; private set; }
+	public DateTime? ModeratedAt { get; private set; }
+
+	/// <summary>
+	/// Number of users who want an answer to the same question (denormalized from the votes)
+	/// </summary>
+	public int UpvoteCount { get; private set; }
+
+	private ProductQuestion() { }
+
+	public static ProductQuestion Create(Guid productId, Guid userId, string text)
+	{
+		if (productId == Guid.Empty)
+			throw new ArgumentException("ProductId cannot be empty", nameof(productId));
+
+		if (userId == Guid.Empty)
+			throw new ArgumentException("UserId cannot be empty", nameof(userId));
+
+		if (string.IsNullOrWhiteSpace(text))
+			throw new ArgumentException("Question cannot be empty", nameof(text));
+
+		var trimmed = text.Trim();
+		if (trimmed.Length < MinTextLength || trimmed.Length > MaxTextLength)
+			throw new ArgumentException($"Question must be between {MinTextLength} and {MaxTextLength} characters", nameof(text));
+
+		return new ProductQuestion
+		{
+			Id = Guid.NewGuid(),
+			ProductId = productId,
+			UserId = userId,
+			Text = trimmed,
+			Status = QuestionStatus.Published
+		};
+	}
+
+	public void SetAnswer(string answer)
+	{
+		if (string.IsNullOrWhiteSpace(answer))
+			throw new ArgumentException("Answer cannot be empty", nameof(answer));
+
+		if (answer.Trim().Length > MaxAnswerLength)
+			throw new ArgumentException($"Answer cannot be longer than {MaxAnswerLength} characters", nameof(answer));
+
+		Answer = answer.Trim();
+		AnsweredAt = DateTime.UtcNow;
+		MarkAsUpdated();
+	}
+
+	public void Hide(string? reason)
+	{
+		Status = QuestionStatus.Hidden;
+		ModerationReason = string.IsNullOrWhiteSpace(reason) ? null : reason.Trim();
+		ModeratedAt = DateTime.UtcNow;
+		MarkAsUpdated();
+	}
+
+	public void Publish()
+	{
+		Status = QuestionStatus.Published;
+		ModerationReason = null;
+		ModeratedAt = DateTime.UtcNow;
+		MarkAsUpdated();
+	}
+
+	public void AddUpvote() => UpvoteCount++;
+
+	public void RemoveUpvote()
+	{
+		if (UpvoteCount > 0)
+			UpvoteCount--;
+	}
+}
@@ -0,0 +1,28 @@
+namespace Domain.Entities;
+
+/// <summary>
+/// Upvote a user put on a product question; one per user and question
+/// </summary>
+public class ProductQuestionVote : BaseEntity<Guid>
+{
+	public Guid QuestionId { get; private set; }
+	public Guid UserId { get; private set; }
+
+	private ProductQuestionVote() { }
+
+	public static ProductQuestionVote Create(Guid questionId, Guid userId)
+	{
+		if (questionId == Guid.Empty)
+			throw new ArgumentException("QuestionId cannot be empty", nameof(questionId));
+
+		if (userId == Guid.Empty)
+			throw new ArgumentException("UserId cannot be empty", nameof(userId));
+
+		return new ProductQuestionVote
+		{
+			Id = Guid.NewGuid(),
+			QuestionId = questionId,
+			UserId = userId
+		};
+	}
+}
@@ -0,0 +1,141 @@
+using Domain.Enums;
+
+namespace Domain.Entities;
+
+/// <summary>
+/// Відгук покупця про товар. Залишити його можна лише за позицією доставленого замовлення (підтверджена покупка).
+/// </summary>
+public class ProductReview : BaseEntity<Guid>
+{
+	public const int MinRating = 1;
+	public const int MaxRating = 5;
+	public const int MaxCommentLength = 4000;
+	public const int MaxReplyLength = 2000;
+	public const int MaxPhotos = 5;
+	public const int MaxModerationReasonLength = 500;
+
+	public Guid ProductId { get; private set; }
+	public virtual Product? Product { get; private set; }
+
+	public Guid UserId { get; private set; }
+	public virtual User? User { get; private set; }
+
+	/// <summary>
+	/// Order item the review is based on; proves the purchase
+	/// </summary>
+	public Guid OrderItemId { get; private set; }
+	public virtual OrderItem? OrderItem { get; private set; }
+
+	public int Rating { get; private set; }
+	public string? Comment { get; private set; }
+
+	public ReviewStatus Status { get; private set; }
+	public string? ModerationReason { get; private set; }
+	public DateTime? ModeratedAt { get; private set; }
+
+	/// <summary>
+	/// Public answer of the store that sells the product
+	/// </summary>
+	public string? SellerReply { get; private set; }
+	public DateTime? SellerRepliedAt { get; private set; }
+
+	/// <summary>
+	/// Number of users who marked the review as helpful (denormalized from the votes)
+	/// </summary>
+	public int HelpfulCount { get; private set; }
+
+	private readonly List<ProductReviewPhoto> _photos = new();
+	public virtual IReadOnlyCollection<ProductReviewPhoto> Photos => _photos.AsReadOnly();
+
+	private ProductReview() { }
+
+	public static ProductReview Create(Guid productId, Guid userId, Guid orderItemId, int rating, string? comment)
+	{
+		if (productId == Guid.Empty)
+			throw new ArgumentException("ProductId cannot be empty", nameof(productId));
+
+		if (userId == Guid.Empty)
+			throw new ArgumentException("UserId cannot be empty", nameof(userId));
+
+		if (orderItemId == Guid.Empty)
+			throw new ArgumentException("OrderItemId cannot be empty", nameof(orderItemId));
+
+		var review = new ProductReview
+		{
+			Id = Guid.NewGuid(),
+			ProductId = productId,
+			UserId = userId,
+			OrderItemId = orderItemId,
+			Status = ReviewStatus.Published
+		};
+		review.SetContent(rating, comment);
+		return review;
+	}
+
+	public void Edit(int rating, string? comment)
+	{
+		SetContent(rating, comment);
+		MarkAsUpdated();
+	}
+
+	public void AddPhoto(MediaImage mediaImage)
+	{
+		if (mediaImage is null)
+			throw new ArgumentNullException(nameof(mediaImage));
+
+		if (_photos.Count >= MaxPhotos)
+			throw new InvalidOperationException($"A review can have at most {MaxPhotos} photos");
+
+		_photos.Add(ProductReviewPhoto.Create(Id, mediaImage, _photos.Count));
+	}
+
+	public void Reply(string reply)
+	{
+		if (string.IsNullOrWhiteSpace(reply))
+			throw new ArgumentException("Reply cannot be empty", nameof(reply));
+
+		if (reply.Trim().Length > MaxReplyLength)
+			throw new ArgumentException($"Reply cannot be longer than {MaxReplyLength} characters", nameof(reply));
+
+		SellerReply = reply.Trim();
+		SellerRepliedAt = DateTime.UtcNow;
+		MarkAsUpdated();
+	}
+
+	public void Hide(string? reason)
+	{
+		Status = ReviewStatus.Hidden;
+		ModerationReason = string.IsNullOrWhiteSpace(reason) ? null : reason.Trim();
+		ModeratedAt = DateTime.UtcNow;
+		MarkAsUpdated();
+	}
+
+	public void Publish()
+	{
+		Status = ReviewStatus.Published;
+		ModerationReason = null;
+		ModeratedAt = DateTime.UtcNow;
+		MarkAsUpdated();
+	}
+
+	public void AddHelpfulVote() => HelpfulCount++;
+
+	public void RemoveHelpfulVote()
+	{
+		if (HelpfulCount > 0)
+			HelpfulCount--;
+	}
+
+	private void SetContent(int rating, string? comment)
+	{
+		if (rating < MinRating || rating > MaxRating)
+			throw new ArgumentOutOfRangeException(nameof(rating), $"Rating must be between {MinRating} and {MaxRating}");
+
+		var trimmed = string.IsNullOrWhiteSpace(comment) ? null : comment.Trim();
+		if (trimmed?.Length > MaxCommentLength)
+			throw new ArgumentException($"Comment cannot be longer than {MaxCommentLength} characters", nameof(comment));
+
+		Rating = rating;
+		Comment = trimmed;
+	}
+}
@@ -0,0 +1,28 @@
+namespace Domain.Entities;
+
+public class ProductReviewPhoto : BaseEntity<Guid>
+{
+	public Guid ReviewId { get; private set; }
+	public Guid MediaImageId { get; private set; }
+	public virtual MediaImage? MediaImage { get; private set; }
+	public int DisplayOrder { get; private set; }
+
+	private ProductReviewPhoto() { }
+
+	internal static ProductReviewPhoto Create(Guid reviewId, MediaImage mediaImage, int displayOrder)
+	{
+		if (reviewId == Guid.Empty)
+		{
+			throw new ArgumentException("ReviewId cannot be empty", nameof(reviewId));
+		}
+
+		return new ProductReviewPhoto
+		{
+			Id = Guid.NewGuid(),
+			ReviewId = reviewId,
+			MediaImage = mediaImage,
+			MediaImageId = mediaImage.Id,
+			DisplayOrder = displayOrder
+		};
+	}
+}
@@ -0,0 +1,28 @@
+namespace Domain.Entities;
+
+/// <summary>
+/// "Helpful" mark a user put on a review; one per user and review
+/// </summary>
+public class ProductReviewVote : BaseEntity<Guid>
+{
+	public Guid ReviewId { get; private set; }
+	public Guid UserId { get; private set; }
+
+	private ProductReviewVote() { }
+
+	public static ProductReviewVote Create(Guid reviewId, Guid userId)
+	{
+		if (reviewId == Guid.Empty)
+			throw new ArgumentException("ReviewId cannot be empty", nameof(reviewId));
+
+		if (userId == Guid.Empty)
+			throw new ArgumentException("UserId cannot be empty", nameof(userId));
+
+		return new ProductReviewVote
+		{
+			Id = Guid.NewGuid(),
+			ReviewId = reviewId,
+			UserId = userId
+		};
+	}
+}
@@ -0,0 +1,48 @@
+namespace Domain.Entities;
+
+/// <summary>
+/// Товар, який користувач нещодавно переглядав (синхронізується між пристроями)
+/// </summary>
+public class RecentlyViewedProduct : BaseEntity<Guid>
+{
+	/// <summary>
+	/// Кількість переглянутих товарів, що зберігаються для одного користувача
+	/// </summary>
+	public const int MaxEntriesPerUser = 20;
+
+	public Guid UserId { get; private set; }
+	public Guid ProductId { get; private set; }
+	public DateTime ViewedAt { get; private set; }
+
+	private RecentlyViewedProduct() { }
+
+	public static RecentlyViewedProduct Create(Guid userId, Guid productId, DateTime? viewedAt = null)
+	{
+		if (userId == Guid.Empty)
+			throw new ArgumentException("UserId cannot be empty", nameof(userId));
+
+		if (productId == Guid.Empty)
+			throw new ArgumentException("ProductId cannot be empty", nameof(productId));
+
+		return new RecentlyViewedProduct
+		{
+			Id = Guid.NewGuid(),
+			UserId = userId,
+			ProductId = productId,
+			ViewedAt = viewedAt ?? DateTime.UtcNow
+		};
+	}
+
+	/// <summary>
+	/// Moves the product up when it is viewed again. A view older than the recorded one
+	/// (a merged guest list, a device that was offline) changes nothing
+	/// </summary>
+	public void Touch(DateTime viewedAt)
+	{
+		if (viewedAt <= ViewedAt)
+			return;
+
+		ViewedAt = viewedAt;
+		MarkAsUpdated();
+	}
+}
@@ -0,0 +1,52 @@
+namespace Domain.Entities;
+
+/// <summary>
+/// Запит з особистої історії пошуку користувача (синхронізується між пристроями)
+/// </summary>
+public class SearchHistoryEntry : BaseEntity<Guid>
+{
+	/// <summary>
+	/// Кількість запитів, що зберігаються для одного користувача
+	/// </summary>
+	public const int MaxEntriesPerUser = 10;
+
+	public Guid UserId { get; private set; }
+	public string Query { get; private set; } = null!;
+	public string NormalizedQuery { get; private set; } = null!;
+	public DateTime SearchedAt { get; private set; }
+
+	private SearchHistoryEntry() { }
+
+	public static SearchHistoryEntry Create(Guid userId, string query, DateTime? searchedAt = null)
+	{
+		if (userId == Guid.Empty)
+			throw new ArgumentException("UserId cannot be empty", nameof(userId));
+
+		if (string.IsNullOrWhiteSpace(query))
+			throw new ArgumentNullException(nameof(query));
+
+		return new SearchHistoryEntry
+		{
+			Id = Guid.NewGuid(),
+			UserId = userId,
+			Query = query.Trim(),
+			NormalizedQuery = Normalize(query),
+			SearchedAt = searchedAt ?? DateTime.UtcNow
+		};
+	}
+
+	public static string Normalize(string query) => query.Trim().ToLowerInvariant();
+
+	/// <summary>
+	/// Records a repeated search; an older timestamp (e.g. from another device) never moves the entry back
+	/// </summary>
+	public void Touch(string query, DateTime searchedAt)
+	{
+		if (searchedAt <= SearchedAt)
+			return;
+
+		Query = query.Trim();
+		SearchedAt = searchedAt;
+		MarkAsUpdated();
+	}
+}
@@ -79,6 +79,11 @@ public class User : BaseEntity<Guid>
          get => _isBlocked;
          private set => _isBlocked = value;
      }
+     /// <summary>
+     /// Чи призупинено запис історії пошуку
+     /// </summary>
+     public bool IsSearchHistoryPaused { get; private set; }
+
      public Guid? AvatarId { get; private set; }
      public virtual MediaImage? Avatar { get; private set; }
 
@@ -109,6 +114,15 @@ public class User : BaseEntity<Guid>
         MarkAsUpdated();
     }
 
+    /// <summary>
+    /// Вмикає або призупиняє запис історії пошуку
+    /// </summary>
+    public void SetSearchHistoryPaused(bool paused)
+    {
+        IsSearchHistoryPaused = paused;
+        MarkAsUpdated();
+    }
+
     /// <summary>
     /// Оновлює електронну пошту користувача
     /// </summary>
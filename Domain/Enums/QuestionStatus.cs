@@ -0,0 +1,17 @@
+namespace Domain.Enums;
+
+/// <summary>
+/// Visibility of a product question thread after moderation
+/// </summary>
+public enum QuestionStatus
+{
+	/// <summary>
+	/// Question and its answer are shown on the product page
+	/// </summary>
+	Published = 0,
+
+	/// <summary>
+	/// Question was hidden by a moderator together with its answer
+	/// </summary>
+	Hidden = 1
+}
@@ -0,0 +1,17 @@
+namespace Domain.Enums;
+
+/// <summary>
+/// Visibility of a product review after moderation
+/// </summary>
+public enum ReviewStatus
+{
+	/// <summary>
+	/// Review is shown on the product page and counts towards the rating
+	/// </summary>
+	Published = 0,
+
+	/// <summary>
+	/// Review was hidden by a moderator and does not count towards the rating
+	/// </summary>
+	Hidden = 1
+}
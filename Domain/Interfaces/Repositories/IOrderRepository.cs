@@ -23,6 +23,11 @@ public interface IOrderRepository
 	/// </summary>
 	Task<Order?> GetByOrderNumberAsync(string orderNumber, CancellationToken cancellationToken = default);
 
+	/// <summary>
+	/// Gets an order item by ID together with its order
+	/// </summary>
+	Task<OrderItem?> GetItemByIdAsync(Guid orderItemId, CancellationToken cancellationToken = default);
+
 	/// <summary>
 	/// Gets orders for a specific user with filtering, sorting, and pagination
 	/// </summary>
@@ -66,6 +71,15 @@ public interface IOrderRepository
 	/// </summary>
 	Task<OrderStatistics> GetUserOrderStatisticsAsync(Guid userId, CancellationToken cancellationToken = default);
 
+	/// <summary>
+	/// Gets the SKUs of other products that were ordered together with the given product (cancelled orders excluded),
+	/// with the number of orders they share, most shared first
+	/// </summary>
+	Task<IReadOnlyList<SkuCoPurchase>> GetCoPurchasedSkusAsync(
+		Guid productId,
+		int limit,
+		CancellationToken cancellationToken = default);
+
 	/// <summary>
 	/// Adds a new order
 	/// </summary>
@@ -104,3 +118,13 @@ public class OrderStatistics
 	public int CancelledOrders { get; set; }
 	public decimal TotalSpent { get; set; }
 }
+
+/// <summary>
+/// A SKU bought in the same orders as another product
+/// </summary>
+public class SkuCoPurchase
+{
+	public Guid ProductId { get; set; }
+	public Guid SkuId { get; set; }
+	public int OrderCount { get; set; }
+}
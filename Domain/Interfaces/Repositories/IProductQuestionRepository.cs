@@ -0,0 +1,54 @@
+using Domain.Entities;
+using Domain.Enums;
+
+namespace Domain.Interfaces.Repositories;
+
+/// <summary>
+/// Repository для роботи з питаннями про товари
+/// </summary>
+public interface IProductQuestionRepository
+{
+	/// <summary>
+	/// Gets a question with its product and store (tracked, so it can be updated)
+	/// </summary>
+	Task<ProductQuestion?> GetByIdAsync(Guid id);
+
+	/// <summary>
+	/// Gets published questions of a product. Sort: "top" (default, most upvoted first), "newest".
+	/// </summary>
+	Task<(IEnumerable<ProductQuestion> Questions, int TotalCount)> GetPublishedByProductIdAsync(
+		Guid productId,
+		string? sort,
+		int page,
+		int pageSize);
+
+	/// <summary>
+	/// Gets published questions about the store's products (store inbox); unanswered ones come oldest first
+	/// </summary>
+	Task<(IEnumerable<ProductQuestion> Questions, int TotalCount)> GetByStoreIdAsync(
+		Guid storeId,
+		bool? answered,
+		int page,
+		int pageSize);
+
+	/// <summary>
+	/// Gets questions about all products for moderation, newest first
+	/// </summary>
+	Task<(IEnumerable<ProductQuestion> Questions, int TotalCount)> GetAllAsync(
+		QuestionStatus? status,
+		int page,
+		int pageSize);
+
+	Task<ProductQuestionVote?> GetVoteAsync(Guid questionId, Guid userId);
+
+	/// <summary>
+	/// Returns which of the given questions the user upvoted
+	/// </summary>
+	Task<HashSet<Guid>> GetVotedQuestionIdsAsync(Guid userId, IEnumerable<Guid> questionIds);
+
+	void Add(ProductQuestion question);
+
+	void AddVote(ProductQuestionVote vote);
+
+	void RemoveVote(ProductQuestionVote vote);
+}
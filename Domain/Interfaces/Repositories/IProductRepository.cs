@@ -20,6 +20,11 @@ public interface IProductRepository
 	/// </summary>
 	Task<IEnumerable<Product>> SearchAsync(string query, int limit = 20);
 
+	/// <summary>
+	/// Typeahead suggestions: same as SearchAsync, but tag names match as well.
+	/// </summary>
+	Task<IEnumerable<Product>> SuggestAsync(string query, int limit = 5);
+
 	/// <summary>
 	/// Gets all active products in a category with SKUs loaded.
 	/// Used for analyzing available filter options from actual product data.
@@ -27,15 +32,52 @@ public interface IProductRepository
 	Task<IEnumerable<Product>> GetActiveByCategoryIdWithSkusAsync(Guid categoryId);
 
 	/// <summary>
-	/// Filters products based on category, tags, price, stock, and JSONB attributes.
-	/// Returns paginated results with sorting.
+	/// Gets all active products of a verified, not suspended store with SKUs loaded.
+	/// Used for the filter options of a storefront.
+	/// </summary>
+	Task<IEnumerable<Product>> GetActiveByStoreIdWithSkusAsync(Guid storeId);
+
+	/// <summary>
+	/// Gets all active products matching the search text (same matching as SearchAsync) with SKUs loaded.
+	/// Used for the filter options of the search results page.
+	/// </summary>
+	Task<IEnumerable<Product>> SearchActiveWithSkusAsync(string query);
+
+	/// <summary>
+	/// Gets all active products that have every one of the tags (same matching as the FilterAsync tag filter) with SKUs loaded.
+	/// Used for the filter options of the search results page opened from a tag.
+	/// </summary>
+	Task<IEnumerable<Product>> GetActiveByTagIdsWithSkusAsync(IEnumerable<Guid> tagIds);
+
+	/// <summary>
+	/// Gets the products with the given ids that are active and sold by a verified, not suspended store.
+	/// Ids of missing or hidden products are skipped; the order of the result is not defined.
+	/// </summary>
+	Task<IEnumerable<Product>> GetActiveByIdsAsync(IEnumerable<Guid> ids);
+
+	/// <summary>
+	/// Gets active products of verified, not suspended stores that share a category or a tag with a product
+	/// (the product itself excluded), newest first, with details loaded. Used as candidates for related products.
+	/// </summary>
+	Task<IEnumerable<Product>> GetActiveRelatedCandidatesAsync(
+		Guid productId,
+		IEnumerable<Guid> categoryIds,
+		IEnumerable<Guid> tagIds,
+		int limit);
+
+	/// <summary>
+	/// Filters products based on category, store, search text, tags, price, stock, and JSONB attributes.
+	/// Returns paginated results with sorting; "Relevance" ranks by the search text when one is given.
 	/// </summary>
 	Task<(IEnumerable<Product> Products, int TotalCount)> FilterAsync(
 		Guid? categoryId,
+		Guid? storeId,
+		string? searchQuery,
 		List<Guid>? tagIds,
 		decimal? minPrice,
 		decimal? maxPrice,
 		bool? inStock,
+		decimal? minRating,
 		Dictionary<string, object>? attributeFilters,
 		string sort,
 		int page,
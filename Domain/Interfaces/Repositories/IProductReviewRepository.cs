@@ -0,0 +1,83 @@
+using Domain.Entities;
+using Domain.Enums;
+
+namespace Domain.Interfaces.Repositories;
+
+/// <summary>
+/// Repository для роботи з відгуками про товари
+/// </summary>
+public interface IProductReviewRepository
+{
+	/// <summary>
+	/// Gets a review with its photos and product (tracked, so it can be updated)
+	/// </summary>
+	Task<ProductReview?> GetByIdAsync(Guid id);
+
+	Task<ProductReview?> GetByUserAndProductAsync(Guid userId, Guid productId);
+
+	/// <summary>
+	/// Gets published reviews of a product, optionally only those with the given star rating.
+	/// Sort: "newest" (default), "helpful", "ratingDesc", "ratingAsc".
+	/// </summary>
+	Task<(IEnumerable<ProductReview> Reviews, int TotalCount)> GetPublishedByProductIdAsync(
+		Guid productId,
+		int? rating,
+		string? sort,
+		int page,
+		int pageSize);
+
+	/// <summary>
+	/// Average rating, count and per-star distribution of the published reviews of a product
+	/// </summary>
+	Task<ProductRatingSummary> GetRatingSummaryAsync(Guid productId);
+
+	/// <summary>
+	/// Gets all reviews written by the user, newest first
+	/// </summary>
+	Task<IEnumerable<ProductReview>> GetByUserIdAsync(Guid userId);
+
+	/// <summary>
+	/// Gets reviews of the store's products, newest first (store cabinet)
+	/// </summary>
+	Task<(IEnumerable<ProductReview> Reviews, int TotalCount)> GetByStoreIdAsync(
+		Guid storeId,
+		bool? replied,
+		int page,
+		int pageSize);
+
+	/// <summary>
+	/// Gets reviews of all products for moderation, newest first
+	/// </summary>
+	Task<(IEnumerable<ProductReview> Reviews, int TotalCount)> GetAllAsync(
+		ReviewStatus? status,
+		int? maxRating,
+		int page,
+		int pageSize);
+
+	Task<ProductReviewVote?> GetVoteAsync(Guid reviewId, Guid userId);
+
+	/// <summary>
+	/// Returns which of the given reviews the user marked as helpful
+	/// </summary>
+	Task<HashSet<Guid>> GetVotedReviewIdsAsync(Guid userId, IEnumerable<Guid> reviewIds);
+
+	void Add(ProductReview review);
+
+	void AddVote(ProductReviewVote vote);
+
+	void RemoveVote(ProductReviewVote vote);
+}
+
+/// <summary>
+/// Rating of a product computed from its published reviews
+/// </summary>
+public class ProductRatingSummary
+{
+	public decimal AverageRating { get; set; }
+	public int ReviewCount { get; set; }
+
+	/// <summary>
+	/// Number of reviews per star rating (1..5)
+	/// </summary>
+	public Dictionary<int, int> Distribution { get; set; } = new();
+}
@@ -0,0 +1,20 @@
+using Domain.Entities;
+
+namespace Domain.Interfaces.Repositories;
+
+/// <summary>
+/// Repository для роботи з нещодавно переглянутими товарами
+/// </summary>
+public interface IRecentlyViewedProductRepository
+{
+	/// <summary>
+	/// Gets the user's recently viewed entries, newest first (tracked, so they can be updated or removed)
+	/// </summary>
+	Task<List<RecentlyViewedProduct>> GetByUserIdAsync(Guid userId);
+
+	void Add(RecentlyViewedProduct entry);
+
+	void Remove(RecentlyViewedProduct entry);
+
+	void RemoveRange(IEnumerable<RecentlyViewedProduct> entries);
+}
@@ -0,0 +1,20 @@
+using Domain.Entities;
+
+namespace Domain.Interfaces.Repositories;
+
+/// <summary>
+/// Repository для роботи з особистою історією пошуку
+/// </summary>
+public interface ISearchHistoryRepository
+{
+	/// <summary>
+	/// Gets the user's history entries, newest first (tracked, so they can be updated or removed)
+	/// </summary>
+	Task<List<SearchHistoryEntry>> GetByUserIdAsync(Guid userId);
+
+	void Add(SearchHistoryEntry entry);
+
+	void Remove(SearchHistoryEntry entry);
+
+	void RemoveRange(IEnumerable<SearchHistoryEntry> entries);
+}
@@ -12,6 +12,16 @@ public interface IStoreRepository
 	Task<Store?> GetBySlugAsync(string slug);
 	Task<IEnumerable<Store>> GetAllAsync(bool includeUnverified = false);
 
+	/// <summary>
+	/// Number of active products of the store, counted in the database
+	/// </summary>
+	Task<int> CountActiveProductsAsync(Guid storeId);
+
+	/// <summary>
+	/// Verified, not suspended stores whose name contains the query, each with its active product count; name prefix matches first
+	/// </summary>
+	Task<IEnumerable<(Store Store, int ActiveProductCount)>> SearchAsync(string query, int limit = 5);
+
 	void Add(Store store);
 	void Update(Store store);
 	void Delete(Store store);
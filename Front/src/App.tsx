@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { Layout } from './components/layout/Layout'
 import { ProtectedRoute } from './components/ProtectedRoute'
+import { RouteSectionBoundary } from './components/SectionErrorBoundary'
 import { ThemeProvider } from './contexts/ThemeContext'
 import Home from './pages/home/Home'
 import About from './pages/info/About'
@@ -19,15 +20,21 @@ import AttributeDefinitionsManagement from './pages/admin/AttributeDefinitionsMa
 import StoresManagement from './pages/admin/StoresManagement'
 import UsersManagement from './pages/admin/users/UsersManagement'
 import RolesManagement from './pages/admin/roles/RolesManagement'
+import ReviewsModeration from './pages/admin/ReviewsModeration'
+import QuestionsModeration from './pages/admin/QuestionsModeration'
 import MyStore from './pages/store/MyStore'
 import CreateStore from './pages/store/CreateStore'
 import ProductCreate from './pages/store/ProductCreate'
 import ProductEdit from './pages/store/ProductEdit'
 import SkuManagement from './pages/store/SkuManagement'
 import MyProducts from './pages/store/MyProducts'
+import StoreReviews from './pages/store/StoreReviews'
+import StoreQuestions from './pages/store/StoreQuestions'
 import StorePage from './pages/store/StorePage'
 import ProductPage from './pages/product/ProductPage'
 import { CategoryProductsPage } from './pages/catalog/CategoryProductsPage'
+import SearchResultsPage from './pages/search/SearchResultsPage'
+import ComparePage from './pages/compare/ComparePage'
 import Cart from './pages/cart/Cart'
 import Checkout from './pages/checkout/Checkout'
 import Orders from './pages/orders/Orders'
@@ -37,7 +44,8 @@ const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5, // 5 minutes
-      retry: 1,
+      // axiosClient already retries transient failures with backoff (api/retry.ts)
+      retry: false,
     },
   },
 })
@@ -49,12 +57,16 @@ export default function App() {
     <ThemeProvider>
       <Routes>
         <Route element={<Layout />}>
-          <Route index element={<Home />} />
-          <Route path="about" element={<About />} />
-          <Route path="contacts" element={<Contacts />} />
-          <Route path="store/:slug" element={<StorePage />} />
-          <Route path="category/:slug" element={<CategoryProductsPage />} />
-          <Route path="product/:productSlug" element={<ProductPage />} />
+          {/* Each section has its own error boundary, so a crash in one page keeps the header usable */}
+          <Route element={<RouteSectionBoundary section="storefront" />}>
+            <Route index element={<Home />} />
+            <Route path="about" element={<About />} />
+            <Route path="contacts" element={<Contacts />} />
+            <Route path="store/:slug" element={<StorePage />} />
+            <Route path="category/:slug" element={<CategoryProductsPage />} />
+            <Route path="search" element={<SearchResultsPage />} />
+            <Route path="compare" element={<ComparePage />} />
+            <Route path="product/:productSlug" element={<ProductPage />} />
             <Route path="product/:productSlug/:skuCode" element={<ProductPage />} />
             <Route path="cart" element={<Cart />} />
             <Route path="checkout" element={<Checkout />} />
@@ -62,51 +74,60 @@ export default function App() {
             <Route path="auth" element={<Auth />} />
             <Route path="reset-password" element={<ResetPassword />} />
 
+            {/* 404 routes */}
+            <Route path="404" element={<NotFound />} />
+            <Route path="*" element={<NotFound />} />
+          </Route>
+
           {/* Protected routes - require authentication */}
-          <Route
-            path="cabinet/*"
-            element={
-              <ProtectedRoute requireAuth>
-                <Cabinet />
-              </ProtectedRoute>
-            }
-          >
-            <Route index element={<div className="p-6">{t('greeting', { name: '' })}</div>} />
-            <Route path="user/settings" element={<SettingsPage />} />
-            <Route path="my-store" element={<MyStore />} />
-            <Route path="create-store" element={<CreateStore />} />
-            <Route path="products" element={<MyProducts />} />
-            <Route path="products/create" element={<ProductCreate />} />
-            <Route path="products/:productId/edit" element={<ProductEdit />} />
-            <Route path="products/:productId/skus" element={<SkuManagement />} />
-            <Route path="orders" element={<div className="p-6">{t('menu.orders')} ({t('common.empty')})</div>} />
-            <Route path="tracking" element={<div className="p-6">{t('menu.tracking')} ({t('common.empty')})</div>} />
-            <Route path="favorites" element={<Favorites />} />
-            <Route path="wallet" element={<div className="p-6">{t('menu.wallet')} ({t('common.empty')})</div>} />
-            <Route path="support" element={<div className="p-6">{t('menu.support')} ({t('common.empty')})</div>} />
-            <Route path="help" element={<div className="p-6">{t('menu.help')} ({t('common.empty')})</div>} />
+          <Route element={<RouteSectionBoundary section="cabinet" />}>
+            <Route
+              path="cabinet/*"
+              element={
+                <ProtectedRoute requireAuth>
+                  <Cabinet />
+                </ProtectedRoute>
+              }
+            >
+              <Route index element={<div className="p-6">{t('greeting', { name: '' })}</div>} />
+              <Route path="user/settings" element={<SettingsPage />} />
+              <Route path="my-store" element={<MyStore />} />
+              <Route path="create-store" element={<CreateStore />} />
+              <Route path="products" element={<MyProducts />} />
+              <Route path="products/create" element={<ProductCreate />} />
+              <Route path="products/:productId/edit" element={<ProductEdit />} />
+              <Route path="products/:productId/skus" element={<SkuManagement />} />
+              <Route path="reviews" element={<StoreReviews />} />
+              <Route path="questions" element={<StoreQuestions />} />
+              <Route path="orders" element={<div className="p-6">{t('menu.orders')} ({t('common.empty')})</div>} />
+              <Route path="tracking" element={<div className="p-6">{t('menu.tracking')} ({t('common.empty')})</div>} />
+              <Route path="favorites" element={<Favorites />} />
+              <Route path="wallet" element={<div className="p-6">{t('menu.wallet')} ({t('common.empty')})</div>} />
+              <Route path="support" element={<div className="p-6">{t('menu.support')} ({t('common.empty')})</div>} />
+              <Route path="help" element={<div className="p-6">{t('menu.help')} ({t('common.empty')})</div>} />
+            </Route>
           </Route>
 
           {/* Admin routes - require Admin role */}
-          <Route
-            path="admin"
-            element={
-              <ProtectedRoute requireAuth requiredRoles={['Admin']}>
-                <AdminPanel />
-              </ProtectedRoute>
-            }
-          >
-            <Route path="categories" element={<CategoriesManagement />} />
-            <Route path="tags" element={<TagsManagement />} />
-            <Route path="attributes" element={<AttributeDefinitionsManagement />} />
-            <Route path="stores" element={<StoresManagement />} />
-            <Route path="users" element={<UsersManagement />} />
-            <Route path="roles" element={<RolesManagement />} />
+          <Route element={<RouteSectionBoundary section="admin" />}>
+            <Route
+              path="admin"
+              element={
+                <ProtectedRoute requireAuth requiredRoles={['Admin']}>
+                  <AdminPanel />
+                </ProtectedRoute>
+              }
+            >
+              <Route path="categories" element={<CategoriesManagement />} />
+              <Route path="tags" element={<TagsManagement />} />
+              <Route path="attributes" element={<AttributeDefinitionsManagement />} />
+              <Route path="stores" element={<StoresManagement />} />
+              <Route path="users" element={<UsersManagement />} />
+              <Route path="roles" element={<RolesManagement />} />
+              <Route path="reviews" element={<ReviewsModeration />} />
+              <Route path="questions" element={<QuestionsModeration />} />
+            </Route>
           </Route>
-
-          {/* 404 routes */}
-          <Route path="404" element={<NotFound />} />
-          <Route path="*" element={<NotFound />} />
         </Route>
       </Routes>
     </ThemeProvider>
@@ -1,106 +1,58 @@
-import axiosClient from './axiousClient'
-import type { ServiceResponse } from './types'
+import { apiClient } from './client'
+import type { Schemas, ServiceResponse } from './types'
 
 // Types
-export interface RoleDto {
-  id: string
-  name: string
-  description: string
-  permissions: string[]
-  usersCount: number
-}
-
-export interface CreateRoleDto {
-  name: string
-  description: string
-  permissions: string[]
-}
-
-export interface UpdateRoleDto {
-  name?: string
-  description?: string
-  permissions?: string[]
-}
-
-export interface AdminUserDto {
-  id: string
-  username: string
-  name: string
-  surname: string
-  email: string
-  phoneNumber: string
-  roles: string[]
-  avatarUrl?: string
-  isEmailConfirmed: boolean
-  isLocked: boolean
-  lockoutEnd?: string
-  createdAt: string
-}
-
-export interface PermissionDto {
-  name: string
-  description: string
-  category: string
-}
-
-export interface AssignUserRolesDto {
-  roles: string[]
-}
-
-export interface LockUserDto {
-  lockUntil?: string
-}
+export type RoleDto = Schemas['RoleDto']
+export type CreateRoleDto = Schemas['CreateRoleDto']
+export type UpdateRoleDto = Partial<Schemas['UpdateRoleDto']>
+export type AdminUserDto = Schemas['AdminUserDto']
+export type PermissionDto = Schemas['PermissionDto']
+export type AssignUserRolesDto = Schemas['AssignUserRolesDto']
+export type LockUserDto = Partial<Schemas['LockUserDto']>
 
 // API Functions
 
 // Roles
 export const getRoles = async (): Promise<ServiceResponse<RoleDto[]>> => {
-  const { data } = await axiosClient.get<ServiceResponse<RoleDto[]>>('/admin/roles')
-  return data
+  return apiClient.get('/admin/roles')
 }
 
 export const getRoleById = async (id: string): Promise<ServiceResponse<RoleDto>> => {
-  const { data } = await axiosClient.get<ServiceResponse<RoleDto>>(`/admin/roles/${id}`)
-  return data
+  return apiClient.get('/admin/roles/{id}', { path: { id } })
 }
 
 export const getAllPermissions = async (): Promise<ServiceResponse<Record<string, PermissionDto[]>>> => {
-  const { data } = await axiosClient.get<ServiceResponse<Record<string, PermissionDto[]>>>('/admin/permissions')
-  return data
+  return apiClient.get('/admin/permissions')
 }
 
 export const createRole = async (dto: CreateRoleDto): Promise<ServiceResponse<RoleDto>> => {
-  const { data } = await axiosClient.post<ServiceResponse<RoleDto>>('/admin/roles', dto)
-  return data
+  return apiClient.post('/admin/roles', { body: dto })
 }
 
 export const updateRole = async (id: string, dto: UpdateRoleDto): Promise<ServiceResponse<RoleDto>> => {
-  const { data } = await axiosClient.put<ServiceResponse<RoleDto>>(`/admin/roles/${id}`, dto)
-  return data
+  return apiClient.put('/admin/roles/{id}', {
+    path: { id },
+    body: { name: dto.name ?? null, description: dto.description ?? null, permissions: dto.permissions ?? null }
+  })
 }
 
-export const deleteRole = async (id: string): Promise<ServiceResponse<void>> => {
-  const { data } = await axiosClient.delete<ServiceResponse<void>>(`/admin/roles/${id}`)
-  return data
+export const deleteRole = async (id: string): Promise<ServiceResponse> => {
+  return apiClient.delete('/admin/roles/{id}', { path: { id } })
 }
 
 // Users
 export const getAdminUsers = async (): Promise<ServiceResponse<AdminUserDto[]>> => {
-  const { data } = await axiosClient.get<ServiceResponse<AdminUserDto[]>>('/admin/users')
-  return data
+  return apiClient.get('/admin/users')
 }
 
 export const assignUserRoles = async (userId: string, dto: AssignUserRolesDto): Promise<ServiceResponse<AdminUserDto>> => {
-  const { data } = await axiosClient.put<ServiceResponse<AdminUserDto>>(`/admin/users/${userId}/roles`, dto)
-  return data
+  return apiClient.put('/admin/users/{id}/roles', { path: { id: userId }, body: dto })
 }
 
-export const lockUser = async (userId: string, dto?: LockUserDto): Promise<ServiceResponse<void>> => {
-  const { data } = await axiosClient.post<ServiceResponse<void>>(`/admin/users/${userId}/lock`, dto || {})
-  return data
+export const lockUser = async (userId: string, dto?: LockUserDto): Promise<ServiceResponse> => {
+  return apiClient.post('/admin/users/{id}/lock', { path: { id: userId }, body: { lockUntil: dto?.lockUntil ?? null } })
 }
 
-export const unlockUser = async (userId: string): Promise<ServiceResponse<void>> => {
-  const { data } = await axiosClient.post<ServiceResponse<void>>(`/admin/users/${userId}/unlock`)
-  return data
+export const unlockUser = async (userId: string): Promise<ServiceResponse> => {
+  return apiClient.post('/admin/users/{id}/unlock', { path: { id: userId } })
 }
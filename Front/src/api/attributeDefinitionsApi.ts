@@ -1,81 +1,36 @@
-import axiosClient from './axiousClient'
-import type { ServiceResponse } from './types'
+import { apiClient } from './client'
+import type { Schemas, ServiceResponse } from './types'
 
 export type AttributeDataType = 'string' | 'number' | 'boolean' | 'array'
 
-export interface AttributeDefinitionDto {
-  id: string
-  code: string
-  name: string
-  dataType: AttributeDataType
-  isRequired: boolean
-  isVariant: boolean
-  allowedValues: string[] | null
-  displayOrder: number
-  unit: string | null
-  description: string | null
-  isActive: boolean
-  createdAt: string
-  updatedAt: string | null
-}
-
-export interface CreateAttributeDefinitionRequest {
-  code: string
-  name: string
-  dataType: AttributeDataType
-  isRequired?: boolean
-  isVariant?: boolean
-  allowedValues?: string[]
-  displayOrder?: number
-  unit?: string
-  description?: string
-}
+// The backend exposes dataType as a plain string; it only accepts the values above
+type WithDataType<T> = Omit<T, 'dataType'> & { dataType: AttributeDataType }
 
-export interface UpdateAttributeDefinitionRequest {
-  name: string
-  dataType: AttributeDataType
-  isRequired?: boolean
-  isVariant?: boolean
-  allowedValues?: string[]
-  displayOrder?: number
-  unit?: string
-  description?: string
-  isActive?: boolean
-}
+export type AttributeDefinitionDto = WithDataType<Schemas['AttributeDefinitionDto']>
+export type CreateAttributeDefinitionRequest = WithDataType<Schemas['CreateAttributeDefinitionRequest']>
+export type UpdateAttributeDefinitionRequest = WithDataType<Schemas['UpdateAttributeDefinitionRequest']>
 
 export const attributeDefinitionsApi = {
   getAll: async (): Promise<ServiceResponse<AttributeDefinitionDto[]>> => {
-    const response = await axiosClient.get<ServiceResponse<AttributeDefinitionDto[]>>(
-      '/attributedefinitions'
-    )
-    return response.data
+    const response = await apiClient.get('/attributedefinitions')
+    return response as ServiceResponse<AttributeDefinitionDto[]>
   },
 
+  // Returns the id of the created definition
   create: async (
     request: CreateAttributeDefinitionRequest
-  ): Promise<ServiceResponse<AttributeDefinitionDto>> => {
-    const response = await axiosClient.post<ServiceResponse<AttributeDefinitionDto>>(
-      '/attributedefinitions',
-      request
-    )
-    return response.data
+  ): Promise<ServiceResponse<string>> => {
+    return apiClient.post('/attributedefinitions', { body: request })
   },
 
   update: async (
     id: string,
     request: UpdateAttributeDefinitionRequest
-  ): Promise<ServiceResponse<AttributeDefinitionDto>> => {
-    const response = await axiosClient.put<ServiceResponse<AttributeDefinitionDto>>(
-      `/attributedefinitions/${id}`,
-      request
-    )
-    return response.data
+  ): Promise<ServiceResponse> => {
+    return apiClient.put('/attributedefinitions/{id}', { path: { id }, body: request })
   },
 
-  delete: async (id: string): Promise<ServiceResponse<null>> => {
-    const response = await axiosClient.delete<ServiceResponse<null>>(
-      `/attributedefinitions/${id}`
-    )
-    return response.data
+  delete: async (id: string): Promise<ServiceResponse> => {
+    return apiClient.delete('/attributedefinitions/{id}', { path: { id } })
   },
 }
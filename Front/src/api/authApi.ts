@@ -1,141 +1,90 @@
-import axiosClient from './axiousClient'
+import { apiClient } from './client'
+import { tokenStorage } from './tokenStorage'
+import { createLogger } from '../utils/logger'
+import type { Schemas } from './types'
 import type { User } from '../store/authStore'
 
-export interface CheckEmailResponse {
-  exists: boolean
-}
-
-export interface LoginRequest {
-  email: string
-  password: string
-  turnstileToken?: string
-}
-
-export interface RegisterRequest {
-  email: string
-  name: string
-  surname: string
-  password: string
-  confirmPassword: string
-  turnstileToken?: string
-}
+export type CheckEmailResponse = Schemas['CheckEmailResponse']
+export type LoginRequest = Schemas['LoginRequest']
+export type RegisterRequest = Schemas['RegistrationDto']
 
 export interface AuthResponse {
   token: string
   user: User
 }
 
-export interface TokenResponse {
-  accessToken: string
-  refreshToken?: string
-}
-
-export interface RequestPasswordResetRequest {
-  email: string
-  turnstileToken?: string
-}
+export type TokenResponse = Schemas['TokenResponse']
+export type RequestPasswordResetRequest = Schemas['ForgotPasswordRequest']
+export type ResetPasswordRequest = Schemas['ResetPasswordRequest']
+export type GoogleLoginRequest = Schemas['GoogleLoginRequest']
 
-export interface ResetPasswordRequest {
-  email: string
-  token: string
-  newPassword: string
-}
-
-export interface GoogleLoginRequest {
-  idToken: string
-  turnstileToken?: string
-}
+const log = createLogger('auth')
 
 export const authApi = {
   // Перевірка чи існує email в базі
   checkEmail: async (email: string, turnstileToken?: string): Promise<CheckEmailResponse> => {
-    const qs = new URLSearchParams({ email })
-    if (turnstileToken) qs.set('turnstileToken', turnstileToken)
-    const response = await axiosClient.get<CheckEmailResponse>(`/auth/check-email?${qs.toString()}`)
-    return response.data
+    return apiClient.get('/auth/check-email', {
+      query: { email, ...(turnstileToken ? { turnstileToken } : {}) }
+    })
   },
 
   // Логін
   login: async (data: LoginRequest): Promise<TokenResponse> => {
-  const response = await axiosClient.post<TokenResponse>('/auth/login', data)
-
-    // Store tokens if backend returned them (keep backward-compatible keys)
-   
-    console.log('Login response:', response.data); // Додано для налагодження
-  
-    const tokens : TokenResponse = response.data ;
- console.log('Login response tokens:', tokens); // Додано для налагодження
+    const tokens = await apiClient.post('/auth/login', { body: data })
+    log.debug('Login response', tokens)
+
+    // Store tokens if backend returned them
     const access = tokens.accessToken || ""
     const refresh = tokens.refreshToken || ""
 
-    if (access) {
-      localStorage.setItem('accessToken', access);
-    }
-    if (refresh) {
-      localStorage.setItem('refreshToken', refresh);
-    }
+    tokenStorage.setTokens(access, refresh)
 
     return { accessToken: access, refreshToken: refresh }
   },
 
   // Реєстрація
   register: async (data: RegisterRequest): Promise<TokenResponse> => {
-    console.log('Register data:', data); // Додано для налагодження
-  const response = await axiosClient.post<TokenResponse>('/auth/register', data)
-    console.log('Register response:', response.data); // Додано для налагодження
-    const tokens : TokenResponse = response.data ;
-       const access = tokens.accessToken || ""
+    log.debug('Register request', data)
+    const tokens = await apiClient.post('/auth/register', { body: data })
+    log.debug('Register response', tokens)
+    const access = tokens.accessToken || ""
     const refresh = tokens.refreshToken || ""
 
-    if (access) {
-      localStorage.setItem('accessToken', access);
-    }
-    if (refresh) {
-      localStorage.setItem('refreshToken', refresh);
-    }
+    tokenStorage.setTokens(access, refresh)
 
     return { accessToken: access, refreshToken: refresh }
   },
 
   // Ініціація відновлення паролю
   requestPasswordReset: async (data: RequestPasswordResetRequest): Promise<{ message: string }> => {
-    const response = await axiosClient.post('/auth/forgot-password', data)
-    return response.data
+    return apiClient.post('/auth/forgot-password', { body: data })
   },
 
   // Завершення відновлення паролю
   resetPassword: async (data: ResetPasswordRequest): Promise<{ message: string }> => {
-    const response = await axiosClient.post('/auth/reset-password', data)
-    return response.data
+    return apiClient.post('/auth/reset-password', { body: data })
   },
 
   // Google OAuth login
   googleLogin: async (data: GoogleLoginRequest): Promise<TokenResponse> => {
-    const response = await axiosClient.post<TokenResponse>('/auth/google-login', data)
-    const tokens: TokenResponse = response.data
+    const tokens = await apiClient.post('/auth/google-login', { body: data })
     const access = tokens.accessToken || ''
     const refresh = tokens.refreshToken || ''
 
-    if (access) {
-      localStorage.setItem('accessToken', access)
-    }
-    if (refresh) {
-      localStorage.setItem('refreshToken', refresh)
-    }
+    tokenStorage.setTokens(access, refresh)
 
     return { accessToken: access, refreshToken: refresh }
   },
 
   // Refresh access/refresh tokens using stored tokens
+  // (cookie mode: refreshToken is empty and the BFF takes it from the httpOnly cookie)
   refreshTokens: async (): Promise<TokenResponse> => {
-    const access = localStorage.getItem('accessToken') || ''
-    const refresh = localStorage.getItem('refreshToken') || ''
-    const response = await axiosClient.post<TokenResponse>('/auth/refresh', { accessToken: access, refreshToken: refresh })
-    const tokens: TokenResponse = response.data
+    const access = tokenStorage.getAccessToken() || ''
+    const refresh = tokenStorage.getRefreshToken() || ''
+    const tokens = await apiClient.post('/auth/refresh', { body: { accessToken: access, refreshToken: refresh } })
     const accessNew = tokens.accessToken || ''
     const refreshNew = tokens.refreshToken || ''
-    if (accessNew) localStorage.setItem('accessToken', accessNew)
-    if (refreshNew) localStorage.setItem('refreshToken', refreshNew)
+    tokenStorage.setTokens(accessNew, refreshNew)
     return { accessToken: accessNew, refreshToken: refreshNew }
   },
 
@@ -0,0 +1,115 @@
+// Cross-tab session coordination.
+// - withRefreshLock: only one tab at a time calls /auth/refresh (Web Locks, localStorage lock as fallback)
+// - publish/subscribeAuthEvents: token updates and logouts reach useAuthStore in every open tab
+//   (BroadcastChannel, storage events as fallback)
+
+export type AuthSyncEvent =
+  | { type: 'tokens'; accessToken: string; refreshToken?: string | null }
+  | { type: 'logout' }
+
+type AuthSyncListener = (event: AuthSyncEvent) => void
+
+const CHANNEL_NAME = 'auth-sync'
+const LOCK_NAME = 'auth-refresh'
+const STORAGE_EVENT_KEY = 'authSync:event'
+const STORAGE_LOCK_KEY = 'authSync:refreshLock'
+// A tab that crashed mid-refresh must not block the others forever
+const STORAGE_LOCK_TTL_MS = 15_000
+
+const tabId = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+  ? crypto.randomUUID()
+  : `${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+const listeners = new Set<AuthSyncListener>()
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+
+function dispatch(event: AuthSyncEvent) {
+  listeners.forEach((listener) => listener(event))
+}
+
+if (channel) {
+  channel.onmessage = (e: MessageEvent<AuthSyncEvent>) => dispatch(e.data)
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key !== STORAGE_EVENT_KEY || !e.newValue) return
+    try {
+      const { event } = JSON.parse(e.newValue) as { event: AuthSyncEvent }
+      dispatch(event)
+    } catch {
+      // ignore malformed payloads written by other code
+    }
+  })
+}
+
+/** Notify every other tab; the sending tab does not receive its own event */
+export function publishAuthEvent(event: AuthSyncEvent) {
+  if (channel) {
+    channel.postMessage(event)
+    return
+  }
+  try {
+    // storage events fire on every change, so write-then-remove is enough to deliver
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ event, tabId, at: Date.now() }))
+    localStorage.removeItem(STORAGE_EVENT_KEY)
+  } catch {
+    // storage unavailable (private mode quota etc.) — other tabs will catch up on their next 401
+  }
+}
+
+export function subscribeAuthEvents(listener: AuthSyncListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+interface StorageLock {
+  owner: string
+  expiresAt: number
+}
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
+
+function readStorageLock(): StorageLock | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_LOCK_KEY)
+    return raw ? (JSON.parse(raw) as StorageLock) : null
+  } catch {
+    return null
+  }
+}
+
+async function withStorageLock<T>(task: () => Promise<T>): Promise<T> {
+  const giveUpAt = Date.now() + STORAGE_LOCK_TTL_MS
+
+  while (Date.now() < giveUpAt) {
+    const lock = readStorageLock()
+    if (!lock || lock.expiresAt < Date.now() || lock.owner === tabId) {
+      localStorage.setItem(STORAGE_LOCK_KEY, JSON.stringify({ owner: tabId, expiresAt: Date.now() + STORAGE_LOCK_TTL_MS }))
+      // Two tabs may write at the same moment; the last writer wins, the other keeps waiting
+      await delay(50)
+      if (readStorageLock()?.owner === tabId) break
+    }
+    await delay(100)
+  }
+
+  try {
+    return await task()
+  } finally {
+    if (readStorageLock()?.owner === tabId) {
+      localStorage.removeItem(STORAGE_LOCK_KEY)
+    }
+  }
+}
+
+/**
+ * Run the task while holding the cross-tab refresh lock.
+ * Tabs that waited should re-check stored tokens first: the holder may already have refreshed them.
+ */
+export async function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(LOCK_NAME, task)
+  }
+  return withStorageLock(task)
+}
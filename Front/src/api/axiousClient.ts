@@ -1,5 +1,14 @@
-import axios, { AxiosHeaders } from "axios";
+import axios, { AxiosHeaders, isCancel } from "axios";
 import type { TokenResponse } from './authApi';
+import { withRefreshLock } from './authSync';
+import { tokenStorage } from './tokenStorage';
+import { createLogger } from '../utils/logger';
+import { recordFailedRequest } from '../utils/errorReporter';
+import { useNetworkStore, waitForOnline } from '../store/networkStore';
+import { retryDelayMs, shouldRetry } from './retry';
+
+const httpLog = createLogger('http');
+const authLog = createLogger('auth');
 
 // Prefer build-time env, fallback to relative API path if missing
 const rawEnvUrl = import.meta.env.VITE_API_URL;
@@ -14,6 +23,8 @@ if (rawEnvUrl && typeof rawEnvUrl === 'string' && rawEnvUrl.trim().length > 0) {
 
 const axiosClient = axios.create({
   baseURL: BASE_URL, // ⚡ твій бекенд API
+  // Cookie mode: the session lives in an httpOnly cookie that must travel with every call
+  withCredentials: tokenStorage.mode === 'cookie',
   headers: {
     "Content-Type": "application/json",
   },
@@ -39,7 +50,7 @@ function isTokenExpired(token: string | null, offsetSeconds = 30) {
   const now = Math.floor(Date.now() / 1000);
   const isExpired = payload.exp <= now + offsetSeconds;
   if (isExpired) {
-    console.log('Token expired or expiring soon:', {
+    authLog.debug('Token expired or expiring soon', {
       exp: payload.exp,
       now,
       diff: payload.exp - now,
@@ -49,109 +60,135 @@ function isTokenExpired(token: string | null, offsetSeconds = 30) {
   return isExpired;
 }
 
-let refreshInProgress: Promise<void> | null = null;
-
-async function refreshTokensIfNeeded(): Promise<void> {
-  const access = localStorage.getItem("accessToken");
-  const refresh = localStorage.getItem("refreshToken");
+let refreshInProgress: Promise<string | null> | null = null;
 
-  // If no access token present, nothing to refresh here
-  if (!access || !refresh) {
-    console.log('No tokens found, skipping refresh');
-    return;
+/**
+ * Refresh the session once across all tabs and resolve with the access token to use.
+ * `staleAccess` is the token the caller found unusable: if another tab has already replaced it
+ * while we waited for the lock, that token is adopted instead of refreshing again
+ * (the refresh token is single-use, so a second refresh would log this tab out).
+ */
+async function refreshSession(staleAccess: string | null): Promise<string | null> {
+  // If a refresh is already in progress in this tab, wait for it
+  if (refreshInProgress) {
+    authLog.debug('Refresh already in progress, waiting...');
+    return refreshInProgress;
   }
 
-  if (!isTokenExpired(access)) {
-    return;
-  }
+  refreshInProgress = withRefreshLock(async () => {
+    const access = tokenStorage.getAccessToken();
+    const refresh = tokenStorage.getRefreshToken();
 
-  console.log('Token is expired, starting refresh...');
+    // Logged out in another tab while we were waiting
+    if (!tokenStorage.canRefresh() || (staleAccess && !access)) {
+      return null;
+    }
 
-  // If a refresh is already in progress, wait for it
-  if (refreshInProgress) {
-    console.log('Refresh already in progress, waiting...');
-    await refreshInProgress;
-    return;
-  }
+    if (access && access !== staleAccess && !isTokenExpired(access)) {
+      authLog.debug('Tokens were refreshed by another tab, adopting them');
+      return access;
+    }
 
-  // Start refresh
-  refreshInProgress = (async () => {
     try {
-      console.log('Sending refresh request to:', `${BASE_URL}/auth/refresh`);
-      // Use plain axios to avoid interceptor recursion
+      authLog.debug('Sending refresh request');
+      // Use plain axios to avoid interceptor recursion.
+      // In cookie mode refreshToken is empty here and the BFF fills it in from the cookie
       const res = await axios.post(
         `${BASE_URL}/auth/refresh`,
-        { accessToken: access, refreshToken: refresh },
-        { headers: { "Content-Type": "application/json" } }
+        { accessToken: access ?? '', refreshToken: refresh ?? '' },
+        {
+          headers: { "Content-Type": "application/json" },
+          withCredentials: tokenStorage.mode === 'cookie',
+        }
       );
 
       const data = res.data as TokenResponse;
-      // Expecting { AccessToken, RefreshToken }
       const newAccess = data?.accessToken;
       const newRefresh = data?.refreshToken;
+      if (!newAccess) return null;
 
-      if (newAccess) {
-        console.log('Token refreshed successfully');
-        localStorage.setItem("accessToken", newAccess);
-        
-        if (newRefresh) {
-          localStorage.setItem("refreshToken", newRefresh);
-        }
+      authLog.info('Token refreshed successfully');
+      tokenStorage.setTokens(newAccess, newRefresh);
 
-        // Update authStore if available
-        try {
-          const { useAuthStore } = await import('../store/authStore');
-          useAuthStore.getState().setAuth(newAccess, newRefresh || refresh);
-        } catch (e) {
-          console.warn('Could not update authStore:', e);
-        }
+      // Update authStore (also broadcasts the new tokens to other tabs)
+      try {
+        const { useAuthStore } = await import('../store/authStore');
+        useAuthStore.getState().setAuth(newAccess, newRefresh || refresh || undefined);
+      } catch (e) {
+        authLog.warn('Could not update authStore', e);
       }
+      return newAccess;
     } catch (err) {
-      console.error('Token refresh failed:', err);
+      authLog.warn('Token refresh failed', err);
       // If refresh fails, clear local tokens (forces user to login)
-      localStorage.removeItem("accessToken");
-      localStorage.removeItem("refreshToken");
-      
-      // Clear authStore
+      tokenStorage.clear();
+
+      // Clear authStore (also logs out the other tabs)
       try {
         const { useAuthStore } = await import('../store/authStore');
         useAuthStore.getState().logout();
       } catch (e) {
-        console.warn('Could not clear authStore:', e);
+        authLog.warn('Could not clear authStore', e);
       }
-    
+
       throw err;
-    } finally {
-      refreshInProgress = null;
     }
-  })();
+  }).finally(() => {
+    refreshInProgress = null;
+  });
+
+  return refreshInProgress;
+}
+
+async function refreshTokensIfNeeded(): Promise<void> {
+  // A refresh or session restore is already running: send the request with its result
+  if (refreshInProgress) {
+    await refreshInProgress;
+    return;
+  }
+
+  const access = tokenStorage.getAccessToken();
+
+  // If no access token present, nothing to refresh here
+  if (!access || !tokenStorage.canRefresh()) {
+    authLog.debug('No tokens found, skipping refresh');
+    return;
+  }
+
+  if (!isTokenExpired(access)) {
+    return;
+  }
 
-  await refreshInProgress;
+  authLog.debug('Token is expired, starting refresh...');
+  await refreshSession(access);
 }
 
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
 // ⚡ інтерцептори для JWT
 axiosClient.interceptors.request.use(async (config) => {
+  // While offline, hold requests until the connection is back instead of failing them
+  if (!useNetworkStore.getState().isOnline) {
+    httpLog.info('Offline, request paused', { method: config.method, url: config.url });
+    await waitForOnline();
+  }
+
   try {
     await refreshTokensIfNeeded();
   } catch (err) {
     // Failed to refresh: let the request continue without token (will likely 401)
-    console.warn("Token refresh failed", err);
+    authLog.warn('Token refresh failed, sending request without it', err);
   }
 
-  // Log outgoing requests (avoid logging Authorization header)
-  try {
-    const { method, url, params, data } = config as any
-    console.log('HTTP Request', {
-      method,
-      url: `${BASE_URL}${url}`,
-      params,
-      data
-    })
-  } catch (e) {
-    console.warn('Failed to log request', e)
-  }
+  // Headers are never logged; params and body go through the logger's redaction
+  httpLog.debug('Request', {
+    method: config.method,
+    url: `${BASE_URL}${config.url ?? ''}`,
+    params: config.params,
+    data: config.data,
+  });
 
-  const token = localStorage.getItem("accessToken");
+  const token = tokenStorage.getAccessToken();
   if (token) {
     config.headers = AxiosHeaders.from(config.headers);
     config.headers.set('Authorization', `Bearer ${token}`);
@@ -162,106 +199,99 @@ axiosClient.interceptors.request.use(async (config) => {
 // Response interceptor to handle 401 errors
 axiosClient.interceptors.response.use(
   (response) => {
-    try {
-      const { method, url } = response.config || {}
-      console.log('HTTP Response', {
-        method,
-        url: url,
-        status: response.status,
-        data: response.data
-      })
-    } catch (e) {
-      console.warn('Failed to log response', e)
-    }
-    return response
+    httpLog.debug('Response', {
+      method: response.config?.method,
+      url: response.config?.url,
+      status: response.status,
+      data: response.data,
+    });
+    return response;
   },
   async (error) => {
+    // Aborted by the caller (superseded search, filter change, unmount): not a failure
+    if (isCancel(error)) {
+      return Promise.reject(error);
+    }
+
     const originalRequest = error.config;
 
-    // Global error logging
-    try {
-      console.error('HTTP Error', {
-        method: originalRequest?.method,
-        url: originalRequest?.url || error.config?.url,
+    // Transient failure of an idempotent call: back off and send it again
+    // (the request interceptor holds the retry while the browser is offline)
+    const attempt: number = originalRequest?._retryCount ?? 0;
+    if (shouldRetry(error, attempt)) {
+      originalRequest._retryCount = attempt + 1;
+      const delay = retryDelayMs(error, attempt);
+      httpLog.info('Retrying request', {
+        method: originalRequest.method,
+        url: originalRequest.url,
         status: error.response?.status,
-        message: error.message,
-        responseData: error.response?.data
-      })
-    } catch (e) {
-      console.warn('Failed to log HTTP error', e)
+        attempt: attempt + 1,
+        delay,
+      });
+      await sleep(delay);
+      return axiosClient(originalRequest);
+    }
+
+    // Global error logging: 401 is routine (refresh follows), other 4xx are the caller's business
+    const status: number | undefined = error.response?.status;
+    recordFailedRequest({ method: originalRequest?.method, url: originalRequest?.url, status });
+    if (status === 401) {
+      httpLog.debug('Unauthorized', error);
+    } else if (status !== undefined && status < 500) {
+      httpLog.warn('Request failed', error);
+    } else {
+      httpLog.error('Request failed', error);
     }
 
     // If error is 401 and we haven't retried yet
     if (error.response?.status === 401 && !originalRequest._retry) {
-      console.log('Received 401 error, attempting token refresh...');
+      authLog.debug('Received 401, attempting token refresh...');
       originalRequest._retry = true;
 
       try {
-        const refresh = localStorage.getItem("refreshToken");
-        const access = localStorage.getItem("accessToken");
+        const access = tokenStorage.getAccessToken();
 
-        if (!refresh || !access) {
-          console.log('No tokens available, redirecting to login');
+        if (!access || !tokenStorage.canRefresh()) {
+          authLog.info('No tokens available, redirecting to login');
           // No tokens to refresh, redirect to login
-          localStorage.removeItem("accessToken");
-          localStorage.removeItem("refreshToken");
+          tokenStorage.clear();
           
           // Clear authStore
           try {
             const { useAuthStore } = await import('../store/authStore');
             useAuthStore.getState().logout();
           } catch (e) {
-            console.warn('Could not clear authStore:', e);
+            authLog.warn('Could not clear authStore', e);
           }
           
           window.location.href = "/auth";
           return Promise.reject(error);
         }
 
-        // Try to refresh token
-        console.log('Refreshing token after 401...');
-        const res = await axios.post(
-          `${BASE_URL}/auth/refresh`,
-          { accessToken: access, refreshToken: refresh },
-          { headers: { "Content-Type": "application/json" } }
-        );
-
-        const data = res.data as TokenResponse;
-        const newAccess = data?.accessToken;
-        const newRefresh = data?.refreshToken;
+        // Try to refresh token (or adopt one another tab has already refreshed)
+        authLog.debug('Refreshing token after 401...');
+        const sentToken = AxiosHeaders.from(originalRequest.headers).get('Authorization');
+        const sentAccess = typeof sentToken === 'string' ? sentToken.replace(/^Bearer\s+/i, '') : access;
+        const newAccess = await refreshSession(sentAccess);
 
         if (newAccess) {
-          console.log('Token refreshed after 401, retrying request');
-          localStorage.setItem("accessToken", newAccess);
-          if (newRefresh) {
-            localStorage.setItem("refreshToken", newRefresh);
-          }
-
-          // Update authStore
-          try {
-            const { useAuthStore } = await import('../store/authStore');
-            useAuthStore.getState().setAuth(newAccess, newRefresh || refresh);
-          } catch (e) {
-            console.warn('Could not update authStore:', e);
-          }
-
+          authLog.debug('Token refreshed after 401, retrying request');
           // Retry original request with new token
           originalRequest.headers = AxiosHeaders.from(originalRequest.headers);
           originalRequest.headers.set('Authorization', `Bearer ${newAccess}`);
           return axiosClient(originalRequest);
         }
       } catch (refreshError) {
-        console.error('Token refresh failed after 401:', refreshError);
+        authLog.warn('Token refresh failed after 401', refreshError);
         // Refresh failed, clear tokens and redirect to login
-        localStorage.removeItem("accessToken");
-        localStorage.removeItem("refreshToken");
+        tokenStorage.clear();
         
         // Clear authStore
         try {
           const { useAuthStore } = await import('../store/authStore');
           useAuthStore.getState().logout();
         } catch (e) {
-          console.warn('Could not clear authStore:', e);
+          authLog.warn('Could not clear authStore', e);
         }
         
         window.location.href = "/auth";
@@ -273,4 +303,34 @@ axiosClient.interceptors.response.use(
   }
 );
 
+/**
+ * Cookie mode keeps the access token in memory only, so after a reload it is re-issued
+ * from the httpOnly refresh cookie. No-op in localStorage mode.
+ */
+export async function restoreSession(): Promise<void> {
+  const { useAuthStore } = await import('../store/authStore');
+  if (tokenStorage.mode !== 'cookie' || tokenStorage.getAccessToken()) {
+    useAuthStore.getState().setRestoring(false);
+    return;
+  }
+
+  try {
+    await refreshSession(null);
+  } catch {
+    // No (valid) session cookie — continue as a guest
+  } finally {
+    useAuthStore.getState().setRestoring(false);
+  }
+}
+
+/** Ask the BFF to expire the httpOnly session cookie. No-op in localStorage mode. */
+export async function endServerSession(): Promise<void> {
+  if (tokenStorage.mode !== 'cookie') return;
+  try {
+    await axios.post(`${BASE_URL}/auth/logout`, null, { withCredentials: true });
+  } catch (err) {
+    authLog.warn('Could not end server session', err);
+  }
+}
+
 export default axiosClient;
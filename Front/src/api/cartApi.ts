@@ -1,139 +1,105 @@
-import axiosClient from './axiousClient'
-import type { ServiceResponse } from './types'
+import { apiClient } from './client'
+import type { Schemas, ServiceResponse } from './types'
+import { createLogger } from '../utils/logger'
 
-// Types
-export interface CartItemDto {
-  id: string
-  productId: string
-  productName: string
-  productImageUrl: string | null
-  skuId: string
-  skuCode: string
-  skuAttributes: string | null
-  quantity: number
-  unitPrice: number
-  subtotal: number
-  addedAt: string
-}
-
-export interface CartDto {
-  id: string
-  userId: string
-  items: CartItemDto[]
-  totalItems: number
-  totalPrice: number
-}
-
-export interface AddToCartRequest {
-  productId: string
-  skuId: string
-  quantity: number
-}
-
-export interface UpdateQuantityRequest {
-  quantity: number
-}
+const log = createLogger('cart')
 
-// Helper to format axios errors for logging
-function formatAxiosError(err: any) {
-  return {
-    message: err?.message,
-    code: err?.code,
-    status: err?.response?.status,
-    url: err?.config?.url,
-    data: err?.response?.data
-  }
-}
+// Types
+export type CartItemDto = Schemas['CartItemDto']
+export type CartDto = Schemas['CartDto']
+// C# request classes have no required members, but the cart endpoints expect every field
+export type AddToCartRequest = Required<Schemas['AddToCartRequest']>
+export type UpdateQuantityRequest = Required<Schemas['UpdateQuantityRequest']>
 
 // Cart API
 export const cartApi = {
   getCart: async (): Promise<ServiceResponse<CartDto>> => {
-    console.log('cartApi.getCart request')
-    return axiosClient.get<ServiceResponse<CartDto>>('/cart')
-      .then((response) => {
-        console.log('cartApi.getCart response', { status: response.status, data: response.data })
-        return response.data
+    log.debug('getCart request')
+    return apiClient.get('/cart')
+      .then((data) => {
+        log.debug('getCart response', data)
+        return data
       })
       .catch((err) => {
-        console.error('cartApi.getCart error', formatAxiosError(err))
+        log.error('getCart failed', err)
         throw err
       })
   },
 
   addToCart: async (data: AddToCartRequest): Promise<ServiceResponse<CartDto>> => {
-    console.log('cartApi.addToCart request', data)
-    return axiosClient.post<ServiceResponse<CartDto>>('/cart/items', data)
-      .then((response) => {
-        console.log('cartApi.addToCart response', { status: response.status, data: response.data })
-        return response.data
+    log.debug('addToCart request', data)
+    return apiClient.post('/cart/items', { body: data })
+      .then((data) => {
+        log.debug('addToCart response', data)
+        return data
       })
       .catch((err) => {
-        console.error('cartApi.addToCart error', formatAxiosError(err))
+        log.error('addToCart failed', err)
         throw err
       })
   },
 
   updateQuantity: async (cartItemId: string, data: UpdateQuantityRequest): Promise<ServiceResponse<CartDto>> => {
-    console.log('cartApi.updateQuantity request', { cartItemId, data })
-    return axiosClient.put<ServiceResponse<CartDto>>(`/cart/items/${cartItemId}`, data)
-      .then((response) => {
-        console.log('cartApi.updateQuantity response', { status: response.status, data: response.data })
-        return response.data
+    log.debug('updateQuantity request', { cartItemId, data })
+    return apiClient.put('/cart/items/{cartItemId}', { path: { cartItemId }, body: data })
+      .then((data) => {
+        log.debug('updateQuantity response', data)
+        return data
       })
       .catch((err) => {
-        console.error('cartApi.updateQuantity error', formatAxiosError(err))
+        log.error('updateQuantity failed', err)
         throw err
       })
   },
 
   updateQuantityBySku: async (skuId: string, data: UpdateQuantityRequest): Promise<ServiceResponse<CartDto>> => {
-    console.log('cartApi.updateQuantityBySku request', { skuId, data })
-    return axiosClient.put<ServiceResponse<CartDto>>(`/cart/items/sku/${skuId}`, data)
-      .then((response) => {
-        console.log('cartApi.updateQuantityBySku response', { status: response.status, data: response.data })
-        return response.data
+    log.debug('updateQuantityBySku request', { skuId, data })
+    return apiClient.put('/cart/items/sku/{skuId}', { path: { skuId }, body: data })
+      .then((data) => {
+        log.debug('updateQuantityBySku response', data)
+        return data
       })
       .catch((err) => {
-        console.error('cartApi.updateQuantityBySku error', formatAxiosError(err))
+        log.error('updateQuantityBySku failed', err)
         throw err
       })
   },
 
   removeFromCart: async (cartItemId: string): Promise<ServiceResponse<CartDto>> => {
-    console.log('cartApi.removeFromCart request', { cartItemId })
-    return axiosClient.delete<ServiceResponse<CartDto>>(`/cart/items/${cartItemId}`)
-      .then((response) => {
-        console.log('cartApi.removeFromCart response', { status: response.status, data: response.data })
-        return response.data
+    log.debug('removeFromCart request', { cartItemId })
+    return apiClient.delete('/cart/items/{cartItemId}', { path: { cartItemId } })
+      .then((data) => {
+        log.debug('removeFromCart response', data)
+        return data
       })
       .catch((err) => {
-        console.error('cartApi.removeFromCart error', formatAxiosError(err))
+        log.error('removeFromCart failed', err)
         throw err
       })
   },
 
   removeFromCartBySku: async (skuId: string): Promise<ServiceResponse<CartDto>> => {
-    console.log('cartApi.removeFromCartBySku request', { skuId })
-    return axiosClient.delete<ServiceResponse<CartDto>>(`/cart/items/sku/${skuId}`)
-      .then((response) => {
-        console.log('cartApi.removeFromCartBySku response', { status: response.status, data: response.data })
-        return response.data
+    log.debug('removeFromCartBySku request', { skuId })
+    return apiClient.delete('/cart/items/sku/{skuId}', { path: { skuId } })
+      .then((data) => {
+        log.debug('removeFromCartBySku response', data)
+        return data
       })
       .catch((err) => {
-        console.error('cartApi.removeFromCartBySku error', formatAxiosError(err))
+        log.error('removeFromCartBySku failed', err)
         throw err
       })
   },
 
   clearCart: async (): Promise<ServiceResponse<boolean>> => {
-    console.log('cartApi.clearCart request')
-    return axiosClient.delete<ServiceResponse<boolean>>('/cart')
-      .then((response) => {
-        console.log('cartApi.clearCart response', { status: response.status, data: response.data })
-        return response.data
+    log.debug('clearCart request')
+    return apiClient.delete('/cart')
+      .then((data) => {
+        log.debug('clearCart response', data)
+        return data
       })
       .catch((err) => {
-        console.error('cartApi.clearCart error', formatAxiosError(err))
+        log.error('clearCart failed', err)
         throw err
       })
   },
@@ -143,14 +109,14 @@ export const cartApi = {
    * This endpoint handles the merge server-side to avoid concurrency issues.
    */
   mergeGuestCart: async (items: AddToCartRequest[]): Promise<ServiceResponse<CartDto>> => {
-    console.log('cartApi.mergeGuestCart request', { items })
-    return axiosClient.post<ServiceResponse<CartDto>>('/cart/merge', { items })
-      .then((response) => {
-        console.log('cartApi.mergeGuestCart response', { status: response.status, data: response.data })
-        return response.data
+    log.debug('mergeGuestCart request', { items })
+    return apiClient.post('/cart/merge', { body: { items } })
+      .then((data) => {
+        log.debug('mergeGuestCart response', data)
+        return data
       })
       .catch((err) => {
-        console.error('cartApi.mergeGuestCart error', formatAxiosError(err))
+        log.error('mergeGuestCart failed', err)
         throw err
       })
   },
@@ -1,223 +1,114 @@
-import axiosClient from './axiousClient'
-import type { ServiceResponse } from './types'
-
-// Types
-export interface CategoryDto {
-  id: string
-  name: string
-  slug: string
-  description: string | null
-  parentCategoryId: string | null
-  emoji: string | null
-  isPrimary?: boolean
-}
-
-export interface TagDto {
-  id: string
-  name: string
-  slug: string
-  description: string | null
-}
-
-export interface CreateCategoryRequest {
-  name: string
-  description?: string | null
-  parentCategoryId?: string | null
-  emoji?: string | null
-}
-
-export interface UpdateCategoryRequest {
-  name: string
-  description?: string | null
-  parentCategoryId?: string | null
-  emoji?: string | null
-}
-
-export interface CreateTagRequest {
-  name: string
-  description?: string | null
-}
+import { apiClient } from './client'
+import type { Schemas, ServiceResponse } from './types'
 
-export interface UpdateTagRequest {
-  name: string
-  description?: string | null
-}
+// Types (generated from the backend contract, see ./generated/schema.d.ts)
+export type CategoryDto = Schemas['CategoryDto']
+export type TagDto = Schemas['TagDto']
+export type CreateCategoryRequest = Schemas['CreateCategoryCommand']
+export type UpdateCategoryRequest = Schemas['UpdateCategoryRequest']
+export type CreateTagRequest = Schemas['CreateTagCommand']
+export type UpdateTagRequest = Schemas['UpdateTagRequest']
 
 // Categories API
 export const categoriesApi = {
   getAll: async (parentCategoryId?: string, topLevelOnly?: boolean): Promise<ServiceResponse<CategoryDto[]>> => {
-    const params = new URLSearchParams()
-    if (parentCategoryId) params.append('parentCategoryId', parentCategoryId)
-    if (topLevelOnly) params.append('topLevelOnly', 'true')
-    const query = params.toString()
-    const response = await axiosClient.get<ServiceResponse<CategoryDto[]>>(`/categories${query ? `?${query}` : ''}`)
-    return response.data
+    return apiClient.get('/categories', {
+      query: {
+        ...(parentCategoryId ? { parentCategoryId } : {}),
+        ...(topLevelOnly ? { topLevelOnly: true } : {})
+      }
+    })
   },
 
   getById: async (id: string): Promise<ServiceResponse<CategoryDto>> => {
-    const response = await axiosClient.get<ServiceResponse<CategoryDto>>(`/categories/${id}`)
-    return response.data
+    return apiClient.get('/categories/{id}', { path: { id } })
   },
 
   getBySlug: async (slug: string): Promise<ServiceResponse<CategoryDto>> => {
-    const response = await axiosClient.get<ServiceResponse<CategoryDto>>(`/categories/slug/${slug}`)
-    return response.data
+    return apiClient.get('/categories/slug/{slug}', { path: { slug } })
   },
 
   create: async (data: CreateCategoryRequest): Promise<ServiceResponse<string>> => {
-    const response = await axiosClient.post<ServiceResponse<string>>('/categories', data)
-    return response.data
+    return apiClient.post('/categories', { body: data })
   },
 
   update: async (id: string, data: UpdateCategoryRequest): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.put<ServiceResponse<void>>(`/categories/${id}`, data)
-    return response.data
+    return apiClient.put('/categories/{id}', { path: { id }, body: data }) as Promise<ServiceResponse<void>>
   },
 
   delete: async (id: string): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.delete<ServiceResponse<void>>(`/categories/${id}`)
-    return response.data
+    return apiClient.delete('/categories/{id}', { path: { id } }) as Promise<ServiceResponse<void>>
   },
 
   getAvailableFilters: async (id: string): Promise<ServiceResponse<CategoryAvailableFiltersDto>> => {
-    const response = await axiosClient.get<ServiceResponse<CategoryAvailableFiltersDto>>(`/categories/${id}/available-filters`)
-    return response.data
+    return apiClient.get('/categories/{id}/available-filters', { path: { id } })
+  },
+
+  /**
+   * Product counts per filter value relative to `request` (OR within an attribute, AND across attributes)
+   */
+  getFacets: async (id: string, request: ProductFilterRequest, signal?: AbortSignal): Promise<ServiceResponse<CategoryFacetsDto>> => {
+    return apiClient.post('/categories/{id}/facets', { path: { id }, body: request, config: { signal } })
   }
 }
 
 // Tags API
 export const tagsApi = {
   getAll: async (): Promise<ServiceResponse<TagDto[]>> => {
-    const response = await axiosClient.get<ServiceResponse<TagDto[]>>('/tags')
-    return response.data
+    return apiClient.get('/tags')
   },
 
   getById: async (id: string): Promise<ServiceResponse<TagDto>> => {
-    const response = await axiosClient.get<ServiceResponse<TagDto>>(`/tags/${id}`)
-    return response.data
+    return apiClient.get('/tags/{id}', { path: { id } })
   },
 
   getBySlug: async (slug: string): Promise<ServiceResponse<TagDto>> => {
-    const response = await axiosClient.get<ServiceResponse<TagDto>>(`/tags/slug/${slug}`)
-    return response.data
+    return apiClient.get('/tags/slug/{slug}', { path: { slug } })
   },
 
   create: async (data: CreateTagRequest): Promise<ServiceResponse<string>> => {
-    const response = await axiosClient.post<ServiceResponse<string>>('/tags', data)
-    return response.data
+    return apiClient.post('/tags', { body: data })
   },
 
   update: async (id: string, data: UpdateTagRequest): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.put<ServiceResponse<void>>(`/tags/${id}`, data)
-    return response.data
+    return apiClient.put('/tags/{id}', { path: { id }, body: data }) as Promise<ServiceResponse<void>>
   },
 
   delete: async (id: string): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.delete<ServiceResponse<void>>(`/tags/${id}`)
-    return response.data
+    return apiClient.delete('/tags/{id}', { path: { id } }) as Promise<ServiceResponse<void>>
   }
 }
 
 // Product types
-export interface SkuDto {
-  id: string
-  skuCode: string
-  price: number
-  stockQuantity: number
-  attributes: Record<string, unknown> | null
-  mergedAttributes: Record<string, unknown> | null
-  gallery: MediaImageDto[] | null
-}
-
-export interface MediaImageDto {
-  id: string
-  storageKey: string
-  url: string
-  mimeType: string
-  width: number
-  height: number
-  altText: string | null
-  galleryId?: string | null
-}
-
-export interface ProductSummaryDto {
-  id: string
-  storeId: string | null
-  name: string
-  slug: string
-  baseImageUrl: string | null
-  minPrice: number | null
-  inStock: boolean
-  isActive: boolean
-  primaryCategory: CategoryDto | null
-  categories: CategoryDto[]
-  tags: TagDto[]
-}
+export type SkuDto = Schemas['SkuDto']
+export type MediaImageDto = Schemas['MediaImageDto']
+export type ProductSummaryDto = Schemas['ProductSummaryDto']
 
 // Filter types
-export interface AttributeValueOptionDto {
-  value: string
-  count: number
-}
-
-export interface NumberRangeDto {
-  min: number
-  max: number
-  step?: number | null
-}
+export type AttributeValueOptionDto = Schemas['AttributeValueOptionDto']
+export type NumberRangeDto = Schemas['NumberRangeDto']
+export type AttributeFilterDto = Schemas['AttributeFilterDto']
+export type PriceRangeDto = Schemas['PriceRangeDto']
+export type CategoryAvailableFiltersDto = Schemas['CategoryAvailableFiltersDto']
 
-export interface AttributeFilterDto {
-  code: string
-  name: string
-  dataType: string
-  unit: string | null
-  displayOrder: number
-  availableValues: AttributeValueOptionDto[] | null
-  numberRange: NumberRangeDto | null
-}
-
-export interface PriceRangeDto {
-  min: number
-  max: number
-}
+export type AttributeFacetDto = Schemas['AttributeFacetDto']
 
-export interface CategoryAvailableFiltersDto {
-  categoryId: string
-  categoryName: string
-  attributes: AttributeFilterDto[]
-  priceRange: PriceRangeDto | null
-  totalProductCount: number
-}
-
-export interface AttributeFilterValue {
-  in?: string[]
-  equal?: string
-  gte?: number
-  lte?: number
-  eq?: number
-}
+export type CategoryFacetsDto = Schemas['CategoryFacetsDto']
+export type AttributeFilterValue = Schemas['AttributeFilterValue']
 
 export const ProductSort = {
   Relevance: 'Relevance',
   Newest: 'Newest',
   PriceAsc: 'PriceAsc',
-  PriceDesc: 'PriceDesc'
-} as const
-
-export type ProductSort = typeof ProductSort[keyof typeof ProductSort]
-
-export interface ProductFilterRequest {
-  categoryId?: string | null
-  tagIds?: string[] | null
-  minPrice?: number | null
-  maxPrice?: number | null
-  inStock?: boolean | null
-  attributes?: Record<string, AttributeFilterValue> | null
-  sort?: ProductSort
-  page?: number
-  pageSize?: number
-}
+  PriceDesc: 'PriceDesc',
+  Rating: 'Rating'
+} as const satisfies Record<Schemas['ProductSort'], Schemas['ProductSort']>
+
+export type ProductSort = Schemas['ProductSort']
 
+export type ProductFilterRequest = Schemas['ProductFilterRequest']
+
+// Generic mirror of the backend PagedResponse<T>; generated as PagedResponseOf<T> per payload type
 export interface PagedResponse<T> {
   items: T[]
   page: number
@@ -225,107 +116,63 @@ export interface PagedResponse<T> {
   total: number
 }
 
-export interface ProductDetailsDto {
-  id: string
-  storeId: string | null
-  name: string
-  slug: string
-  description: string | null
-  baseImageUrl: string | null
-  attributes: Record<string, unknown> | null
-  skus: SkuDto[]
-  gallery: MediaImageDto[]
-  primaryCategory: CategoryDto | null
-  categories: CategoryDto[]
-  tags: TagDto[]
-}
-
-export interface SkuRequest {
-  price: number
-  stockQuantity: number
-  attributes?: Record<string, unknown>
-}
-
-export interface CreateProductRequest {
-  name: string
-  description?: string | null
-  categoryIds?: string[]
-  tagIds?: string[]
-  skus?: SkuRequest[]
-}
-
-export interface AddSkuRequest {
-  price: number
-  stockQuantity: number
-  attributes?: Record<string, unknown>
-}
-
-export interface UpdateSkuRequest {
-  price: number
-  stockQuantity: number
-  attributes?: Record<string, unknown>
-}
-
-export interface GalleryUploadResponse {
-  galleryId: string
-  mediaImageId: string
-  url: string
-  storageKey: string
-}
+export type ProductDetailsDto = Schemas['ProductDetailsDto']
+export type FrequentlyBoughtTogetherDto = Schemas['FrequentlyBoughtTogetherDto']
+export type SkuRequest = Schemas['SkuRequest']
+export type CreateProductRequest = Schemas['CreateProductRequest']
+export type AddSkuRequest = Schemas['AddSkuRequest']
+export type UpdateSkuRequest = Schemas['UpdateSkuRequest']
+export type GalleryUploadResponse = Schemas['GalleryUploadResponse']
+export type SkuGalleryUploadResponse = Schemas['SkuGalleryUploadResponse']
 
 // Products API
-export interface UpdateProductRequest {
-  name: string
-  description?: string | null
-  categoryIds?: string[]
-  tagIds?: string[]
-  primaryCategoryId?: string
-  galleryIdsToDelete?: string[]
-}
+export type UpdateProductRequest = Schemas['UpdateProductRequest']
 
 export const productsApi = {
   getAll: async (): Promise<ServiceResponse<ProductSummaryDto[]>> => {
-    const response = await axiosClient.get<ServiceResponse<ProductSummaryDto[]>>('/products')
-    return response.data
+    return apiClient.get('/products')
   },
 
   getMy: async (): Promise<ServiceResponse<ProductSummaryDto[]>> => {
-    const response = await axiosClient.get<ServiceResponse<ProductSummaryDto[]>>('/products/my')
-    return response.data
+    return apiClient.get('/products/my')
   },
 
   getById: async (id: string): Promise<ServiceResponse<ProductDetailsDto>> => {
-    const response = await axiosClient.get<ServiceResponse<ProductDetailsDto>>(`/products/${id}`)
-    return response.data
+    return apiClient.get('/products/{id}', { path: { id } })
   },
 
   getBySlug: async (productSlug: string, skuCode?: string): Promise<ServiceResponse<ProductDetailsDto>> => {
-    const params = skuCode ? `?sku=${encodeURIComponent(skuCode)}` : ''
-    const response = await axiosClient.get<ServiceResponse<ProductDetailsDto>>(`/products/s/${productSlug}${params}`)
-    return response.data
+    return apiClient.get('/products/s/{productSlug}', {
+      path: { productSlug },
+      query: skuCode ? { sku: skuCode } : undefined
+    })
   },
 
   getBySkuCode: async (skuCode: string): Promise<ServiceResponse<ProductDetailsDto>> => {
-    const response = await axiosClient.get<ServiceResponse<ProductDetailsDto>>(`/products/by-sku/${skuCode}`)
-    return response.data
+    return apiClient.get('/products/by-sku/{skuCode}', { path: { skuCode } })
   },
 
   getByCategory: async (categoryId: string): Promise<ServiceResponse<ProductSummaryDto[]>> => {
-    const response = await axiosClient.get<ServiceResponse<ProductSummaryDto[]>>(`/products/by-category/${categoryId}`)
-    return response.data
+    return apiClient.get('/products/by-category/{categoryId}', { path: { categoryId } })
+  },
+
+  getRelated: async (productId: string, limit?: number): Promise<ServiceResponse<ProductSummaryDto[]>> => {
+    return apiClient.get('/products/{productId}/related', { path: { productId }, query: { limit } })
   },
 
-  filter: async (request: ProductFilterRequest): Promise<ServiceResponse<PagedResponse<ProductSummaryDto>>> => {
-    const response = await axiosClient.post<ServiceResponse<PagedResponse<ProductSummaryDto>>>('/products/filter', request)
-    return response.data
+  getFrequentlyBoughtTogether: async (productId: string, limit?: number): Promise<ServiceResponse<FrequentlyBoughtTogetherDto[]>> => {
+    return apiClient.get('/products/{productId}/frequently-bought-together', { path: { productId }, query: { limit } })
+  },
+
+  filter: async (request: ProductFilterRequest, signal?: AbortSignal): Promise<ServiceResponse<PagedResponse<ProductSummaryDto>>> => {
+    return apiClient.post('/products/filter', { body: request, config: { signal } })
   },
 
   create: async (data: CreateProductRequest): Promise<ServiceResponse<string>> => {
-    const response = await axiosClient.post<ServiceResponse<string>>('/products', data)
-    return response.data
+    return apiClient.post('/products', { body: data })
   },
 
-  update: async (productId: string, data: UpdateProductRequest, newImages?: File[]): Promise<ServiceResponse<void>> => {
+  update: async (productId: string, data: UpdateProductRequest, newImages?: File[]): Promise<ServiceResponse> => {
     const formData = new FormData()
     formData.append('name', data.name)
     if (data.description) formData.append('description', data.description)
@@ -344,114 +191,106 @@ export const productsApi = {
     if (newImages) {
       newImages.forEach(file => formData.append('newGalleryImages', file))
     }
-    
-    const response = await axiosClient.put<ServiceResponse<void>>(
-      `/products/${productId}/with-gallery`,
-      formData,
-      { headers: { 'Content-Type': 'multipart/form-data' } }
-    )
-    return response.data
+
+    return apiClient.put('/products/{productId}/with-gallery', { path: { productId }, body: formData })
   },
 
   addSku: async (productId: string, data: AddSkuRequest): Promise<ServiceResponse<string>> => {
-    const response = await axiosClient.post<ServiceResponse<string>>(`/products/${productId}/skus`, data)
-    return response.data
+    return apiClient.post('/products/{productId}/skus', { path: { productId }, body: data })
   },
 
-  updateSku: async (productId: string, skuId: string, data: UpdateSkuRequest): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.put<ServiceResponse<void>>(`/products/${productId}/skus/${skuId}`, data)
-    return response.data
+  updateSku: async (productId: string, skuId: string, data: UpdateSkuRequest): Promise<ServiceResponse> => {
+    return apiClient.put('/products/{productId}/skus/{skuId}', { path: { productId, skuId }, body: data })
   },
 
-  deleteSku: async (productId: string, skuId: string): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.delete<ServiceResponse<void>>(`/products/${productId}/skus/${skuId}`)
-    return response.data
+  deleteSku: async (productId: string, skuId: string): Promise<ServiceResponse> => {
+    return apiClient.delete('/products/{productId}/skus/{skuId}', { path: { productId, skuId } })
   },
 
   uploadGalleryImage: async (productId: string, file: File, displayOrder: number = 0): Promise<ServiceResponse<GalleryUploadResponse>> => {
     const formData = new FormData()
     formData.append('file', file)
     formData.append('displayOrder', displayOrder.toString())
-    const response = await axiosClient.post<ServiceResponse<GalleryUploadResponse>>(
-      `/products/${productId}/gallery`,
-      formData,
-      { headers: { 'Content-Type': 'multipart/form-data' } }
-    )
-    return response.data
+    return apiClient.post('/products/{productId}/gallery', { path: { productId }, body: formData })
   },
 
-  deleteGalleryImage: async (productId: string, galleryId: string): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.delete<ServiceResponse<void>>(`/products/${productId}/gallery/${galleryId}`)
-    return response.data
+  deleteGalleryImage: async (productId: string, galleryId: string): Promise<ServiceResponse> => {
+    return apiClient.delete('/products/{productId}/gallery/{galleryId}', { path: { productId, galleryId } })
   },
 
-  setBaseImage: async (productId: string, baseImageUrl: string | null): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.patch<ServiceResponse<void>>(`/products/${productId}/base-image`, { baseImageUrl })
-    return response.data
+  setBaseImage: async (productId: string, baseImageUrl: string | null): Promise<ServiceResponse> => {
+    return apiClient.patch('/products/{productId}/base-image', { path: { productId }, body: { baseImageUrl } })
   },
 
-  // SKU Gallery
-  uploadSkuGalleryImage: async (productId: string, skuId: string, file: File, displayOrder: number = 0): Promise<ServiceResponse<GalleryUploadResponse>> => {
+  // SKU Gallery (the backend returns a flat, non-enveloped result here)
+  uploadSkuGalleryImage: async (productId: string, skuId: string, file: File, displayOrder: number = 0): Promise<SkuGalleryUploadResponse> => {
     const formData = new FormData()
     formData.append('file', file)
     formData.append('displayOrder', displayOrder.toString())
-    const response = await axiosClient.post<ServiceResponse<GalleryUploadResponse>>(
-      `/products/${productId}/skus/${skuId}/gallery`,
-      formData,
-      { headers: { 'Content-Type': 'multipart/form-data' } }
-    )
-    return response.data
+    return apiClient.post('/products/{productId}/skus/{skuId}/gallery', { path: { productId, skuId }, body: formData })
   },
 
-  deleteSkuGalleryImage: async (productId: string, skuId: string, galleryId: string): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.delete<ServiceResponse<void>>(`/products/${productId}/skus/${skuId}/gallery/${galleryId}`)
-    return response.data
+  deleteSkuGalleryImage: async (productId: string, skuId: string, galleryItemId: string): Promise<ServiceResponse> => {
+    return apiClient.delete('/products/{productId}/skus/{skuId}/gallery/{galleryItemId}', {
+      path: { productId, skuId, galleryItemId }
+    })
   },
 
-  toggleActive: async (productId: string, isActive: boolean): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.patch<ServiceResponse<void>>(`/products/${productId}/active`, { isActive })
-    return response.data
+  toggleActive: async (productId: string, isActive: boolean): Promise<ServiceResponse> => {
+    return apiClient.patch('/products/{productId}/active', { path: { productId }, body: { isActive } })
   },
 
-   delete: async (productId: string): Promise<ServiceResponse<void>> => {
-     const response = await axiosClient.delete<ServiceResponse<void>>(`/products/${productId}`)
-     return response.data
-   }
- }
-
-// Favorites API
-export interface FavoriteProductDto {
-  id: string
-  name: string
-  slug: string
-  baseImageUrl: string | null
-  minPrice: number | null
-  inStock: boolean
-  favoritedAt: string
+  delete: async (productId: string): Promise<ServiceResponse> => {
+    return apiClient.delete('/products/{productId}', { path: { productId } })
+  }
 }
 
-export interface MergeGuestFavoritesRequest {
-  productIds: string[];
-}
+// Favorites API
+export type FavoriteProductDto = Schemas['FavoriteProductDto']
+export type MergeGuestFavoritesRequest = Schemas['MergeGuestFavoritesRequest']
 
 export const favoritesApi = {
   getFavorites: async (): Promise<ServiceResponse<FavoriteProductDto[]>> => {
-    const response = await axiosClient.get<ServiceResponse<FavoriteProductDto[]>>('/favorites')
-    return response.data
+    return apiClient.get('/favorites')
   },
 
   addToFavorites: async (productId: string): Promise<ServiceResponse<boolean>> => {
-    const response = await axiosClient.post<ServiceResponse<boolean>>('/favorites', { productId })
-    return response.data
+    return apiClient.post('/favorites', { body: { productId } })
   },
 
   removeFromFavorites: async (productId: string): Promise<ServiceResponse<boolean>> => {
-    const response = await axiosClient.delete<ServiceResponse<boolean>>(`/favorites/${productId}`)
-    return response.data
+    return apiClient.delete('/favorites/{productId}', { path: { productId } })
   },
 
   mergeGuestFavorites: async (productIds: string[]): Promise<ServiceResponse<number>> => {
-    const response = await axiosClient.post<ServiceResponse<number>>('/favorites/merge-guest', { productIds })
-    return response.data
+    return apiClient.post('/favorites/merge-guest', { body: { productIds } })
+  }
+}
+
+// Recently viewed API
+export type RecentlyViewedProductDto = Schemas['RecentlyViewedProductDto']
+export type RecentlyViewedEntryRequest = Schemas['RecentlyViewedEntryRequest']
+
+export const recentlyViewedApi = {
+  getRecentlyViewed: async (): Promise<ServiceResponse<RecentlyViewedProductDto[]>> => {
+    return apiClient.get('/recently-viewed')
+  },
+
+  /**
+   * Records views (newest wins per product) and returns the merged list; also used to upload the guest list on login
+   */
+  addEntries: async (entries: RecentlyViewedEntryRequest[]): Promise<ServiceResponse<RecentlyViewedProductDto[]>> => {
+    return apiClient.post('/recently-viewed', { body: { entries } })
+  },
+
+  removeEntry: async (productId: string): Promise<ServiceResponse<boolean>> => {
+    return apiClient.delete('/recently-viewed/{productId}', { path: { productId } })
+  },
+
+  /**
+   * Clears the list on every device of the user
+   */
+  clear: async (): Promise<ServiceResponse<number>> => {
+    return apiClient.delete('/recently-viewed')
   }
 }
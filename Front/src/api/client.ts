@@ -0,0 +1,106 @@
+import type { AxiosRequestConfig } from 'axios'
+import axiosClient from './axiousClient'
+import type { paths } from './generated/schema'
+
+// Typed call layer over the generated OpenAPI contract (src/api/generated/schema.d.ts).
+// Requests still go through axiosClient, so auth/refresh interceptors keep working.
+// Regenerate the contract with `npm run generate:api` after backend DTO changes.
+
+type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+
+// axiosClient's baseURL already ends with `/api`, so paths are keyed without it
+type ApiPaths = {
+  [P in keyof paths as P extends `/api${infer Rest}` ? Rest : never]: paths[P]
+}
+
+type Operation<P extends keyof ApiPaths, M extends HttpMethod> = NonNullable<ApiPaths[P][M]>
+
+export type ApiPath<M extends HttpMethod> = {
+  [P in keyof ApiPaths]: [NonNullable<ApiPaths[P][M]>] extends [never] ? never : P
+}[keyof ApiPaths]
+
+type ContentOf<T> =
+  T extends { content: { 'application/json': infer Json } } ? Json
+  : T extends { content: { 'multipart/form-data': unknown } } ? FormData
+  : never
+
+type SuccessResponse<R> =
+  R extends { 200: infer Ok } ? Ok
+  : R extends { 201: infer Created } ? Created
+  : never
+
+export type ApiResponse<P extends keyof ApiPaths, M extends HttpMethod> =
+  Operation<P, M> extends { responses: infer R } ? ContentOf<SuccessResponse<R>> : never
+
+type PathOption<O> = O extends { parameters: { path: infer Path } } ? { path: Path } : { path?: never }
+
+type QueryOption<O> = O extends { parameters: { query?: infer Query } }
+  ? [NonNullable<Query>] extends [never] ? { query?: never } : { query?: NonNullable<Query> }
+  : { query?: never }
+
+type BodyOption<O> = O extends { requestBody: infer Body }
+  ? { body: ContentOf<Body> }
+  : O extends { requestBody?: infer Body }
+    ? [NonNullable<Body>] extends [never] ? { body?: never } : { body?: ContentOf<NonNullable<Body>> }
+    : { body?: never }
+
+export type ApiRequestOptions<P extends keyof ApiPaths, M extends HttpMethod> =
+  PathOption<Operation<P, M>> &
+  QueryOption<Operation<P, M>> &
+  BodyOption<Operation<P, M>> & {
+    config?: AxiosRequestConfig
+  }
+
+// Options become mandatory only when the operation declares path params or a required body
+type OptionsArgs<P extends keyof ApiPaths, M extends HttpMethod> =
+  Record<string, never> extends Omit<ApiRequestOptions<P, M>, 'config'>
+    ? [options?: ApiRequestOptions<P, M>]
+    : [options: ApiRequestOptions<P, M>]
+
+interface RawRequestOptions {
+  path?: Record<string, unknown>
+  query?: Record<string, unknown>
+  body?: unknown
+  config?: AxiosRequestConfig
+}
+
+function buildUrl(template: string, pathParams?: Record<string, unknown>): string {
+  return template.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = pathParams?.[key]
+    if (value === undefined || value === null) {
+      throw new Error(`Missing path parameter "${key}" for ${template}`)
+    }
+    return encodeURIComponent(String(value))
+  })
+}
+
+// Untyped core; the wrappers below check the path and options against the contract.
+// Keeping it non-generic stops TypeScript from expanding every path's options into one union (TS2590).
+async function request<T>(method: HttpMethod, path: string, options?: RawRequestOptions): Promise<T> {
+  const { path: pathParams, query, body, config } = options ?? {}
+
+  const response = await axiosClient.request<T>({
+    ...config,
+    method,
+    url: buildUrl(path, pathParams),
+    params: query,
+    data: body,
+    headers: body instanceof FormData
+      ? { ...config?.headers, 'Content-Type': 'multipart/form-data' }
+      : config?.headers,
+  })
+  return response.data
+}
+
+export const apiClient = {
+  get: <P extends ApiPath<'get'>>(path: P, ...[options]: OptionsArgs<P, 'get'>) =>
+    request<ApiResponse<P, 'get'>>('get', path, options as RawRequestOptions | undefined),
+  post: <P extends ApiPath<'post'>>(path: P, ...[options]: OptionsArgs<P, 'post'>) =>
+    request<ApiResponse<P, 'post'>>('post', path, options as RawRequestOptions | undefined),
+  put: <P extends ApiPath<'put'>>(path: P, ...[options]: OptionsArgs<P, 'put'>) =>
+    request<ApiResponse<P, 'put'>>('put', path, options as RawRequestOptions | undefined),
+  patch: <P extends ApiPath<'patch'>>(path: P, ...[options]: OptionsArgs<P, 'patch'>) =>
+    request<ApiResponse<P, 'patch'>>('patch', path, options as RawRequestOptions | undefined),
+  delete: <P extends ApiPath<'delete'>>(path: P, ...[options]: OptionsArgs<P, 'delete'>) =>
+    request<ApiResponse<P, 'delete'>>('delete', path, options as RawRequestOptions | undefined),
+}
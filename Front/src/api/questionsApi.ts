@@ -0,0 +1,85 @@
+import { apiClient } from './client'
+import type { PagedResponse } from './catalogApi'
+import type { Schemas, ServiceResponse } from './types'
+
+// Types
+export type ProductQuestionDto = Schemas['ProductQuestionDto']
+export type QuestionWithProductDto = Schemas['QuestionWithProductDto']
+export type QuestionUpvoteDto = Schemas['QuestionUpvoteDto']
+export type QuestionStatus = Schemas['QuestionStatus']
+
+export const QuestionStatus = {
+  Published: 'Published',
+  Hidden: 'Hidden',
+} as const satisfies Record<Schemas['QuestionStatus'], Schemas['QuestionStatus']>
+
+// Sort values accepted by GET /questions/product/{productId}
+export type QuestionSort = 'top' | 'newest'
+
+export interface ProductQuestionsParams {
+  sort?: QuestionSort
+  page?: number
+  pageSize?: number
+}
+
+// Questions API
+export const questionsApi = {
+  getProductQuestions: async (
+    productId: string,
+    params: ProductQuestionsParams = {}
+  ): Promise<ServiceResponse<PagedResponse<ProductQuestionDto>>> => {
+    return apiClient.get('/questions/product/{productId}', {
+      path: { productId },
+      query: {
+        ...(params.sort ? { sort: params.sort } : {}),
+        page: params.page ?? 1,
+        pageSize: params.pageSize ?? 10
+      }
+    })
+  },
+
+  ask: async (productId: string, text: string): Promise<ServiceResponse<ProductQuestionDto>> => {
+    return apiClient.post('/questions/product/{productId}', { path: { productId }, body: { text } })
+  },
+
+  toggleUpvote: async (id: string): Promise<ServiceResponse<QuestionUpvoteDto>> => {
+    return apiClient.post('/questions/{id}/upvote', { path: { id } })
+  },
+
+  // Questions about the current seller's products; `answered` narrows to answered / unanswered ones
+  getStoreQuestions: async (
+    answered?: boolean | null,
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<ServiceResponse<PagedResponse<QuestionWithProductDto>>> => {
+    return apiClient.get('/questions/store', {
+      query: {
+        ...(answered != null ? { answered } : {}),
+        page,
+        pageSize
+      }
+    })
+  },
+
+  answer: async (id: string, answer: string): Promise<ServiceResponse> => {
+    return apiClient.put('/questions/{id}/answer', { path: { id }, body: { answer } })
+  },
+
+  getForModeration: async (
+    status?: QuestionStatus | null,
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<ServiceResponse<PagedResponse<QuestionWithProductDto>>> => {
+    return apiClient.get('/questions/moderation', {
+      query: {
+        ...(status ? { status } : {}),
+        page,
+        pageSize
+      }
+    })
+  },
+
+  moderate: async (id: string, status: QuestionStatus, reason?: string | null): Promise<ServiceResponse> => {
+    return apiClient.put('/questions/{id}/moderation', { path: { id }, body: { status, reason: reason || null } })
+  }
+}
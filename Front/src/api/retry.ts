@@ -0,0 +1,69 @@
+import { isAxiosError, isCancel, type AxiosError } from 'axios'
+
+// Retry policy for axiosClient.
+// Only requests that are safe to repeat are retried: GET/HEAD/OPTIONS, plus calls that opt in
+// with `idempotent: true` because the server deduplicates them (e.g. createOrder's idempotencyKey).
+// Per request: `config: { retry: { retries: 5 } }` overrides the defaults, `retry: false` disables it.
+
+export interface RetryOptions {
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  // Responses worth another attempt; network errors (no response) are always retried
+  retryOnStatus: number[]
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    retry?: Partial<RetryOptions> | false
+    // Marks a non-GET call as safe to repeat
+    idempotent?: boolean
+  }
+}
+
+export const defaultRetryOptions: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5_000,
+  retryOnStatus: [408, 429, 502, 503, 504],
+}
+
+const SAFE_METHODS = ['get', 'head', 'options']
+
+export function resolveRetryOptions(retry: Partial<RetryOptions> | false | undefined): RetryOptions | null {
+  if (retry === false) return null
+  return { ...defaultRetryOptions, ...retry }
+}
+
+/** Whether `error` on attempt number `attempt` (0-based) should be retried */
+export function shouldRetry(error: unknown, attempt: number): error is AxiosError {
+  if (!isAxiosError(error) || isCancel(error) || !error.config) return false
+
+  const options = resolveRetryOptions(error.config.retry)
+  if (!options || attempt >= options.retries) return false
+
+  const method = (error.config.method ?? 'get').toLowerCase()
+  if (!SAFE_METHODS.includes(method) && !error.config.idempotent) return false
+
+  const status = error.response?.status
+  return status === undefined || options.retryOnStatus.includes(status)
+}
+
+function retryAfterMs(error: AxiosError): number | null {
+  const header = error.response?.headers?.['retry-after']
+  if (!header) return null
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) return seconds * 1000
+  const date = Date.parse(String(header))
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/** Exponential backoff with full jitter; a Retry-After header from the server wins if present */
+export function retryDelayMs(error: AxiosError, attempt: number): number {
+  const options = resolveRetryOptions(error.config?.retry) ?? defaultRetryOptions
+  const fromServer = retryAfterMs(error)
+  if (fromServer !== null) return Math.min(fromServer, options.maxDelayMs)
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt)
+  return Math.round(Math.random() * ceiling)
+}
@@ -0,0 +1,117 @@
+import { apiClient } from './client'
+import type { PagedResponse } from './catalogApi'
+import type { Schemas, ServiceResponse } from './types'
+
+// Types
+export type ProductReviewDto = Schemas['ProductReviewDto']
+export type ReviewWithProductDto = Schemas['ReviewWithProductDto']
+export type ReviewPhotoDto = Schemas['ReviewPhotoDto']
+export type RatingSummaryDto = Schemas['RatingSummaryDto']
+export type HelpfulVoteDto = Schemas['HelpfulVoteDto']
+export type ReviewStatus = Schemas['ReviewStatus']
+
+export const ReviewStatus = {
+  Published: 'Published',
+  Hidden: 'Hidden',
+} as const satisfies Record<Schemas['ReviewStatus'], Schemas['ReviewStatus']>
+
+// Sort values accepted by GET /reviews/product/{productId}
+export type ReviewSort = 'newest' | 'helpful' | 'ratingDesc' | 'ratingAsc'
+
+// Mirrors ProductReview.MaxPhotos on the backend
+export const MAX_REVIEW_PHOTOS = 5
+
+export interface ProductReviewsParams {
+  rating?: number | null
+  sort?: ReviewSort
+  page?: number
+  pageSize?: number
+}
+
+export interface CreateReviewRequest {
+  orderItemId: string
+  rating: number
+  comment?: string
+  photos?: File[]
+}
+
+// Reviews API
+export const reviewsApi = {
+  getProductReviews: async (
+    productId: string,
+    params: ProductReviewsParams = {}
+  ): Promise<ServiceResponse<PagedResponse<ProductReviewDto>>> => {
+    return apiClient.get('/reviews/product/{productId}', {
+      path: { productId },
+      query: {
+        ...(params.rating ? { rating: params.rating } : {}),
+        ...(params.sort ? { sort: params.sort } : {}),
+        page: params.page ?? 1,
+        pageSize: params.pageSize ?? 10
+      }
+    })
+  },
+
+  getSummary: async (productId: string): Promise<ServiceResponse<RatingSummaryDto>> => {
+    return apiClient.get('/reviews/product/{productId}/summary', { path: { productId } })
+  },
+
+  /**
+   * Review of a delivered order item; photos are uploaded in the same multipart request
+   */
+  create: async (data: CreateReviewRequest): Promise<ServiceResponse<ProductReviewDto>> => {
+    const formData = new FormData()
+    formData.append('orderItemId', data.orderItemId)
+    formData.append('rating', data.rating.toString())
+    if (data.comment) formData.append('comment', data.comment)
+    data.photos?.forEach(photo => formData.append('photos', photo))
+    return apiClient.post('/reviews', { body: formData })
+  },
+
+  getMy: async (): Promise<ServiceResponse<ReviewWithProductDto[]>> => {
+    return apiClient.get('/reviews/my')
+  },
+
+  toggleHelpful: async (id: string): Promise<ServiceResponse<HelpfulVoteDto>> => {
+    return apiClient.post('/reviews/{id}/helpful', { path: { id } })
+  },
+
+  // Reviews of the current seller's store; `replied` narrows to answered / unanswered ones
+  getStoreReviews: async (
+    replied?: boolean | null,
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<ServiceResponse<PagedResponse<ReviewWithProductDto>>> => {
+    return apiClient.get('/reviews/store', {
+      query: {
+        ...(replied != null ? { replied } : {}),
+        page,
+        pageSize
+      }
+    })
+  },
+
+  reply: async (id: string, reply: string): Promise<ServiceResponse> => {
+    return apiClient.put('/reviews/{id}/reply', { path: { id }, body: { reply } })
+  },
+
+  getForModeration: async (
+    status?: ReviewStatus | null,
+    maxRating?: number | null,
+    page: number = 1,
+    pageSize: number = 20
+  ): Promise<ServiceResponse<PagedResponse<ReviewWithProductDto>>> => {
+    return apiClient.get('/reviews/moderation', {
+      query: {
+        ...(status ? { status } : {}),
+        ...(maxRating ? { maxRating } : {}),
+        page,
+        pageSize
+      }
+    })
+  },
+
+  moderate: async (id: string, status: ReviewStatus, reason?: string | null): Promise<ServiceResponse> => {
+    return apiClient.put('/reviews/{id}/moderation', { path: { id }, body: { status, reason: reason || null } })
+  }
+}
@@ -1,12 +1,14 @@
-import axiosClient from './axiousClient'
-import type { ServiceResponse } from './types'
-import type { ProductSummaryDto } from './catalogApi'
+import { apiClient } from './client'
+import type { Schemas, ServiceResponse } from './types'
+import type { ProductFilterRequest, ProductSummaryDto } from './catalogApi'
 
 // Types
-export interface PopularQueryDto {
-  query: string
-  searchCount: number
-}
+export type PopularQueryDto = Schemas['PopularQueryDto']
+export type SearchAvailableFiltersDto = Schemas['SearchAvailableFiltersDto']
+export type SearchFacetsDto = Schemas['SearchFacetsDto']
+export type SearchSuggestionsDto = Schemas['SearchSuggestionsDto']
+export type SearchHistoryDto = Schemas['SearchHistoryDto']
+export type SearchHistoryEntryRequest = Schemas['SearchHistoryEntryRequest']
 
 export interface SearchResultDto {
   products: ProductSummaryDto[]
@@ -16,22 +18,74 @@ export interface SearchResultDto {
 // Search API
 export const searchApi = {
   /**
-   * Search products by query text
+   * Search products by query text; pass `signal` to abort a superseded search
+   */
+  search: async (query: string, limit: number = 20, signal?: AbortSignal): Promise<ServiceResponse<ProductSummaryDto[]>> => {
+    return apiClient.get('/search', {
+      query: { q: query, ...(limit !== 20 ? { limit } : {}) },
+      config: { signal },
+    })
+  },
+
+  /**
+   * Typeahead matches (stores, products) for the search bar; unlike `search`, not counted as a search
    */
-  search: async (query: string, limit: number = 20): Promise<ServiceResponse<ProductSummaryDto[]>> => {
-    const params = new URLSearchParams()
-    params.append('q', query)
-    if (limit !== 20) params.append('limit', limit.toString())
-    const response = await axiosClient.get<ServiceResponse<ProductSummaryDto[]>>(`/search?${params.toString()}`)
-    return response.data
+  getSuggestions: async (query: string, signal?: AbortSignal): Promise<ServiceResponse<SearchSuggestionsDto>> => {
+    return apiClient.get('/search/suggestions', { query: { q: query }, config: { signal } })
+  },
+
+  /**
+   * Filter options (attributes, price range) of all products matching `query`,
+   * or of the products having all `tagIds` when there is no query
+   */
+  getAvailableFilters: async (query: string, tagIds: string[] = []): Promise<ServiceResponse<SearchAvailableFiltersDto>> => {
+    return apiClient.get('/search/available-filters', {
+      query: { q: query, tagIds },
+      // tagIds=a&tagIds=b, the form ASP.NET binds to a list
+      config: { paramsSerializer: { indexes: null } },
+    })
+  },
+
+  /**
+   * Product counts per filter value for the search in `request.query`, same semantics as categoriesApi.getFacets
+   */
+  getFacets: async (request: ProductFilterRequest, signal?: AbortSignal): Promise<ServiceResponse<SearchFacetsDto>> => {
+    return apiClient.post('/search/facets', { body: request, config: { signal } })
   },
 
   /**
    * Get popular search queries
    */
   getPopular: async (limit: number = 10): Promise<ServiceResponse<PopularQueryDto[]>> => {
-    const params = limit !== 10 ? `?limit=${limit}` : ''
-    const response = await axiosClient.get<ServiceResponse<PopularQueryDto[]>>(`/search/popular${params}`)
-    return response.data
+    return apiClient.get('/search/popular', { query: limit !== 10 ? { limit } : undefined })
+  }
+}
+
+// Personal search history of the signed-in user, shared across their devices
+export const searchHistoryApi = {
+  getHistory: async (): Promise<ServiceResponse<SearchHistoryDto>> => {
+    return apiClient.get('/search-history')
+  },
+
+  /**
+   * Records searches (newest wins per query) and returns the merged history; also used to upload the guest history on login
+   */
+  addEntries: async (entries: SearchHistoryEntryRequest[]): Promise<ServiceResponse<SearchHistoryDto>> => {
+    return apiClient.post('/search-history', { body: { entries } })
+  },
+
+  removeEntry: async (query: string): Promise<ServiceResponse<boolean>> => {
+    return apiClient.delete('/search-history/entries', { query: { query } })
+  },
+
+  /**
+   * Clears the history on every device of the user
+   */
+  clearHistory: async (): Promise<ServiceResponse<number>> => {
+    return apiClient.delete('/search-history')
+  },
+
+  setPaused: async (isPaused: boolean): Promise<ServiceResponse<boolean>> => {
+    return apiClient.put('/search-history/paused', { body: { isPaused } })
   }
 }
@@ -1,79 +1,42 @@
-import axiosClient from './axiousClient'
-import type { ServiceResponse } from './types'
+import { apiClient } from './client'
+import type { Schemas, ServiceResponse } from './types'
 
 // Types
-export interface StoreAdminDto {
-  id: string
-  name: string
-  slug: string
-  description: string | null
-  userId: string
-  ownerName: string | null
-  ownerEmail: string | null
-  isVerified: boolean
-  isSuspended: boolean
-  createdAt: string
-  productCount: number
-}
-
-export interface MyStoreDto {
-  id: string
-  name: string
-  slug: string
-  description: string | null
-  isVerified: boolean
-  isSuspended: boolean
-  createdAt: string
-  productCount: number
-}
-
-export interface CreateStoreRequest {
-  name: string
-  description?: string | null
-}
-
-export interface UpdateStoreRequest {
-  name: string
-  description?: string | null
-}
+export type StoreAdminDto = Schemas['StoreAdminDto']
+export type MyStoreDto = Schemas['MyStoreDto']
+export type CreateStoreRequest = Schemas['CreateStoreRequest']
+export type UpdateStoreRequest = Schemas['UpdateStoreRequest']
 
 // Admin Stores API
 export const storesAdminApi = {
   getAll: async (includeUnverified = true): Promise<ServiceResponse<StoreAdminDto[]>> => {
-    const response = await axiosClient.get<ServiceResponse<StoreAdminDto[]>>(`/stores?includeUnverified=${includeUnverified}`)
-    return response.data
+    return apiClient.get('/stores', { query: { includeUnverified } })
   },
 
-  verify: async (id: string): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.post<ServiceResponse<void>>(`/stores/${id}/verify`)
-    return response.data
+  verify: async (id: string): Promise<ServiceResponse> => {
+    return apiClient.post('/stores/{id}/verify', { path: { id } })
   },
 
-  suspend: async (id: string): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.post<ServiceResponse<void>>(`/stores/${id}/suspend`)
-    return response.data
+  suspend: async (id: string): Promise<ServiceResponse> => {
+    return apiClient.post('/stores/{id}/suspend', { path: { id } })
   },
 
-  unsuspend: async (id: string): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.post<ServiceResponse<void>>(`/stores/${id}/unsuspend`)
-    return response.data
+  unsuspend: async (id: string): Promise<ServiceResponse> => {
+    return apiClient.post('/stores/{id}/unsuspend', { path: { id } })
   }
 }
 
 // User's Store API
 export const myStoreApi = {
   get: async (): Promise<ServiceResponse<MyStoreDto | null>> => {
-    const response = await axiosClient.get<ServiceResponse<MyStoreDto | null>>('/stores/my')
-    return response.data
+    return apiClient.get('/stores/my')
   },
 
   create: async (data: CreateStoreRequest): Promise<ServiceResponse<string>> => {
-    const response = await axiosClient.post<ServiceResponse<string>>('/stores', data)
-    return response.data
+    return apiClient.post('/stores', { body: data })
   },
 
-  update: async (id: string, data: UpdateStoreRequest): Promise<ServiceResponse<void>> => {
-    const response = await axiosClient.put<ServiceResponse<void>>(`/stores/${id}`, data)
-    return response.data
+  update: async (id: string, data: UpdateStoreRequest): Promise<ServiceResponse> => {
+    return apiClient.put('/stores/{id}', { path: { id }, body: data })
   }
 }
@@ -1,22 +1,27 @@
-import axiosClient from './axiousClient'
-import type { ServiceResponse } from './types'
-import type { ProductSummaryDto } from './catalogApi'
+import { apiClient } from './client'
+import type { ProductFilterRequest } from './catalogApi'
+import type { Schemas, ServiceResponse } from './types'
 
 // Types
-export interface PublicStoreDto {
-  id: string
-  name: string
-  slug: string
-  description: string | null
-  isVerified: boolean
-  createdAt: string
-  products: ProductSummaryDto[]
-}
+export type PublicStoreDto = Schemas['PublicStoreDto']
+export type StoreAvailableFiltersDto = Schemas['StoreAvailableFiltersDto']
+export type StoreFacetsDto = Schemas['StoreFacetsDto']
 
 // Stores API
 export const storesApi = {
   getBySlug: async (slug: string): Promise<ServiceResponse<PublicStoreDto>> => {
-    const response = await axiosClient.get<ServiceResponse<PublicStoreDto>>(`/stores/slug/${slug}`)
-    return response.data
+    return apiClient.get('/stores/slug/{slug}', { path: { slug } })
+  },
+
+  // Products of a store are listed through productsApi.filter with `storeId`
+  getAvailableFilters: async (id: string): Promise<ServiceResponse<StoreAvailableFiltersDto>> => {
+    return apiClient.get('/stores/{id}/available-filters', { path: { id } })
+  },
+
+  /**
+   * Product counts per filter value relative to `request`, same semantics as categoriesApi.getFacets
+   */
+  getFacets: async (id: string, request: ProductFilterRequest, signal?: AbortSignal): Promise<ServiceResponse<StoreFacetsDto>> => {
+    return apiClient.post('/stores/{id}/facets', { path: { id }, body: request, config: { signal } })
   }
 }
@@ -0,0 +1,76 @@
+// Where the client keeps its auth tokens, selected at build time by VITE_AUTH_TOKEN_STORAGE:
+// - 'local' (default): access and refresh tokens in localStorage, survive reloads
+// - 'cookie': a BFF/reverse proxy keeps the refresh token in an httpOnly cookie, so it never
+//   reaches JavaScript; the access token lives in memory only and is restored after a reload
+//   by a silent /auth/refresh sent withCredentials
+
+export type TokenStorageMode = 'local' | 'cookie'
+
+export interface TokenStorage {
+  readonly mode: TokenStorageMode
+  getAccessToken(): string | null
+  // Always null in cookie mode: the refresh token is not readable from script
+  getRefreshToken(): string | null
+  // Whether /auth/refresh has something to work with
+  canRefresh(): boolean
+  setTokens(accessToken: string, refreshToken?: string | null): void
+  clear(): void
+}
+
+const ACCESS_KEY = 'accessToken'
+const REFRESH_KEY = 'refreshToken'
+// Written by older builds
+const LEGACY_ACCESS_KEY = 'token'
+
+function createLocalTokenStorage(): TokenStorage {
+  return {
+    mode: 'local',
+    getAccessToken: () => localStorage.getItem(ACCESS_KEY) || localStorage.getItem(LEGACY_ACCESS_KEY),
+    getRefreshToken: () => localStorage.getItem(REFRESH_KEY),
+    canRefresh: () => !!localStorage.getItem(REFRESH_KEY),
+    setTokens: (accessToken, refreshToken) => {
+      if (accessToken) localStorage.setItem(ACCESS_KEY, accessToken)
+      if (refreshToken) localStorage.setItem(REFRESH_KEY, refreshToken)
+    },
+    clear: () => {
+      localStorage.removeItem(ACCESS_KEY)
+      localStorage.removeItem(REFRESH_KEY)
+      localStorage.removeItem(LEGACY_ACCESS_KEY)
+    },
+  }
+}
+
+function createCookieTokenStorage(): TokenStorage {
+  let accessToken: string | null = null
+
+  // Tokens left behind by a previous local-mode build must not outlive the switch
+  try {
+    localStorage.removeItem(ACCESS_KEY)
+    localStorage.removeItem(REFRESH_KEY)
+    localStorage.removeItem(LEGACY_ACCESS_KEY)
+  } catch {
+    // storage unavailable — nothing to clean up
+  }
+
+  return {
+    mode: 'cookie',
+    getAccessToken: () => accessToken,
+    getRefreshToken: () => null,
+    // The cookie is opaque to us; the server answers 401 if there is none
+    canRefresh: () => true,
+    setTokens: (nextAccess) => {
+      if (nextAccess) accessToken = nextAccess
+    },
+    clear: () => {
+      accessToken = null
+    },
+  }
+}
+
+function resolveMode(raw: string | undefined): TokenStorageMode {
+  return raw?.trim().toLowerCase() === 'cookie' ? 'cookie' : 'local'
+}
+
+export const tokenStorage: TokenStorage = resolveMode(import.meta.env.VITE_AUTH_TOKEN_STORAGE) === 'cookie'
+  ? createCookieTokenStorage()
+  : createLocalTokenStorage()
@@ -1,12 +1,39 @@
+import type { components } from './generated/schema'
+
+// DTO schemas generated from the backend OpenAPI document (npm run generate:api)
+export type Schemas = components['schemas']
+
 export interface ServiceResponse<T = unknown> {
   isSuccess: boolean
   message: string
   payload?: T | null
 }
 
+// Extracts the payload type of a generated `ServiceResponseOf…` envelope
+export type PayloadOf<R> = R extends { payload?: infer P } ? NonNullable<P> : never
+
+// Every generated envelope must stay assignable to ServiceResponse, otherwise the build fails
+type AssertEnvelope<T extends ServiceResponse> = T
+export type ServiceEnvelopes = {
+  [K in Extract<keyof Schemas, `ServiceResponse${string}`>]: AssertEnvelope<Schemas[K]>
+}
+
+// Thrown by unwrapServiceResponse: the server answered, but rejected the request
+export class ServiceResponseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ServiceResponseError'
+  }
+}
+
 export function unwrapServiceResponse<T>(res: ServiceResponse<T>): T {
   if (!res || !res.isSuccess) {
-    throw new Error(res?.message || 'Service error')
+    throw new ServiceResponseError(res?.message || 'Service error')
   }
   return (res.payload as T)!
 }
+
+// The server's message for a rejected ServiceResponse, `fallback` for transport and other errors
+export function serviceErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof ServiceResponseError ? error.message : fallback
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useSearchStore } from '../../store/searchStore'
+
+export default function SearchHistorySettings() {
+  const { t } = useTranslation()
+  const { history, historyPaused, setHistoryPaused, clearHistory } = useSearchStore()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>, successMessage: string) => {
+    setError(null)
+    setSuccess(null)
+    setSaving(true)
+    try {
+      await action()
+      setSuccess(successMessage)
+      window.setTimeout(() => setSuccess(null), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('errors.save_failed'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {success && <div className="text-sm text-green-600">{success}</div>}
+
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={historyPaused}
+          disabled={saving}
+          onChange={(e) => {
+            const paused = e.target.checked
+            run(
+              () => setHistoryPaused(paused),
+              paused ? t('settings.privacy.paused_success') : t('settings.privacy.resumed_success')
+            )
+          }}
+          className="mt-1 w-4 h-4 text-brand border-border rounded focus:ring-brand/50"
+        />
+        <span>
+          <span className="block text-sm font-medium">{t('settings.privacy.pause_history')}</span>
+          <span className="block text-sm text-foreground-muted">{t('settings.privacy.pause_history_hint')}</span>
+        </span>
+      </label>
+
+      <div>
+        <p className="text-sm text-foreground-muted mb-2">
+          {t('settings.privacy.history_count', { count: history.length })}
+        </p>
+        <button
+          type="button"
+          disabled={saving}
+          onClick={() => {
+            if (!window.confirm(t('settings.privacy.clear_confirm'))) return
+            run(clearHistory, t('settings.privacy.clear_success'))
+          }}
+          className="px-4 py-2 border border-red-600 text-red-600 rounded-md disabled:opacity-60"
+        >
+          {t('settings.privacy.clear_everywhere')}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -9,9 +9,14 @@ interface ProtectedRouteProps {
 }
 
 export function ProtectedRoute({ children, requiredRoles, requireAuth = true, redirectTo404 = false }: ProtectedRouteProps) {
-  const { isAuthenticated, user } = useAuthStore()
+  const { isAuthenticated, isRestoring, user } = useAuthStore()
   const location = useLocation()
 
+  // Cookie mode: wait for the session to be restored before deciding to redirect
+  if (isRestoring) {
+    return null
+  }
+
   // If authentication is required but user is not authenticated
   if (requireAuth && !isAuthenticated) {
     return redirectTo404 ? <Navigate to="/404" replace /> : <Navigate to="/auth" state={{ from: location }} replace />
@@ -0,0 +1,107 @@
+import { Component, type ErrorInfo, type ReactNode } from 'react'
+import { Outlet, useLocation, useNavigate } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { reportError } from '../utils/errorReporter'
+
+export type AppSection = 'storefront' | 'cabinet' | 'admin'
+
+interface SectionErrorBoundaryProps {
+  section: AppSection
+  // Changing the key (e.g. navigating to another page) clears the error
+  resetKey?: string
+  children: ReactNode
+}
+
+interface SectionErrorBoundaryState {
+  error: Error | null
+}
+
+export class SectionErrorBoundary extends Component<SectionErrorBoundaryProps, SectionErrorBoundaryState> {
+  state: SectionErrorBoundaryState = { error: null }
+
+  static getDerivedStateFromError(error: Error): SectionErrorBoundaryState {
+    return { error }
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    reportError(error, {
+      source: 'boundary',
+      section: this.props.section,
+      componentStack: info.componentStack ?? undefined,
+    })
+  }
+
+  componentDidUpdate(prevProps: SectionErrorBoundaryProps) {
+    if (this.state.error && prevProps.resetKey !== this.props.resetKey) {
+      this.setState({ error: null })
+    }
+  }
+
+  reset = () => {
+    this.setState({ error: null })
+  }
+
+  render() {
+    if (this.state.error) {
+      return <SectionErrorFallback section={this.props.section} error={this.state.error} onRetry={this.reset} />
+    }
+    return this.props.children
+  }
+}
+
+interface SectionErrorFallbackProps {
+  section: AppSection
+  error: Error
+  onRetry: () => void
+}
+
+function SectionErrorFallback({ section, error, onRetry }: SectionErrorFallbackProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  // Send the user to the entry point of the section they were in
+  const homePath = section === 'admin' ? '/admin' : section === 'cabinet' ? '/cabinet' : '/'
+
+  return (
+    <div role="alert" className="flex min-h-[40vh] items-center justify-center">
+      <div className="card max-w-lg space-y-4 p-8 text-center">
+        <h2 className="text-2xl font-semibold text-foreground">{t('errorBoundary.title')}</h2>
+        <p className="text-foreground-muted">{t(`errorBoundary.description_${section}`)}</p>
+        {import.meta.env.DEV && (
+          <pre className="max-h-40 overflow-auto rounded bg-surface p-3 text-left text-xs text-foreground-muted">
+            {error.message}
+          </pre>
+        )}
+        <div className="flex flex-wrap justify-center gap-3">
+          <button onClick={onRetry} className="btn-primary">
+            {t('errorBoundary.retry')}
+          </button>
+          <button
+            onClick={() => {
+              onRetry()
+              navigate(homePath)
+            }}
+            className="rounded-md border border-foreground/20 px-4 py-2 text-foreground hover:bg-foreground/5"
+          >
+            {t(`errorBoundary.go_${section}`)}
+          </button>
+          <button
+            onClick={() => window.location.reload()}
+            className="rounded-md border border-foreground/20 px-4 py-2 text-foreground hover:bg-foreground/5"
+          >
+            {t('errorBoundary.reload')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/** Pathless route element: isolates a group of routes so one crashing page does not take down the app */
+export function RouteSectionBoundary({ section }: { section: AppSection }) {
+  const location = useLocation()
+  return (
+    <SectionErrorBoundary section={section} resetKey={location.pathname}>
+      <Outlet />
+    </SectionErrorBoundary>
+  )
+}
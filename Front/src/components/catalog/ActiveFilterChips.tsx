@@ -0,0 +1,121 @@
+import React from 'react';
+import type { AttributeFilterDto } from '../../api/catalogApi';
+import type { ProductFilterState } from '../../utils/productFilterParams';
+
+interface ActiveFilterChipsProps {
+  filters: ProductFilterState;
+  // Used for attribute names and units; codes are shown when a definition is missing
+  availableFilters?: AttributeFilterDto[];
+  onChange: (patch: Partial<ProductFilterState>) => void;
+  onClearAll: () => void;
+}
+
+interface Chip {
+  key: string;
+  label: string;
+  patch: Partial<ProductFilterState>;
+}
+
+const formatRange = (min: number | null | undefined, max: number | null | undefined, unit?: string | null) => {
+  const suffix = unit ? ` ${unit}` : '';
+  if (min != null && max != null) return `${min}–${max}${suffix}`;
+  if (min != null) return `від ${min}${suffix}`;
+  return `до ${max}${suffix}`;
+};
+
+/** One chip per active filter value; removing a chip drops just that value */
+export const ActiveFilterChips: React.FC<ActiveFilterChipsProps> = ({
+  filters,
+  availableFilters,
+  onChange,
+  onClearAll,
+}) => {
+  const chips: Chip[] = [];
+
+  if (filters.minPrice !== null || filters.maxPrice !== null) {
+    chips.push({
+      key: 'price',
+      label: `Ціна: ${formatRange(filters.minPrice, filters.maxPrice, 'грн')}`,
+      patch: { minPrice: null, maxPrice: null },
+    });
+  }
+
+  if (filters.inStock) {
+    chips.push({ key: 'inStock', label: 'В наявності', patch: { inStock: false } });
+  }
+
+  if (filters.minRating !== null) {
+    chips.push({ key: 'minRating', label: `Рейтинг: від ${filters.minRating}★`, patch: { minRating: null } });
+  }
+
+  Object.entries(filters.attributes).forEach(([code, value]) => {
+    const definition = availableFilters?.find((f) => f.code.toLowerCase() === code.toLowerCase());
+    const name = definition?.name ?? code;
+    const without = (rest: typeof value) => {
+      const attributes = { ...filters.attributes };
+      if (Object.values(rest).some((v) => v != null && (!Array.isArray(v) || v.length > 0))) {
+        attributes[code] = rest;
+      } else {
+        delete attributes[code];
+      }
+      return { attributes };
+    };
+
+    if (definition?.dataType === 'boolean') {
+      chips.push({ key: `${code}:bool`, label: name, patch: without({}) });
+      return;
+    }
+
+    value.in?.forEach((item) => {
+      chips.push({
+        key: `${code}:in:${item}`,
+        label: `${name}: ${item}`,
+        patch: without({ ...value, in: value.in!.filter((v) => v !== item) }),
+      });
+    });
+
+    if (value.equal) {
+      chips.push({ key: `${code}:equal`, label: `${name}: ${value.equal}`, patch: without({ ...value, equal: null }) });
+    }
+
+    if (value.gte != null || value.lte != null) {
+      chips.push({
+        key: `${code}:range`,
+        label: `${name}: ${formatRange(value.gte, value.lte, definition?.unit)}`,
+        patch: without({ ...value, gte: null, lte: null }),
+      });
+    }
+
+    if (value.eq != null) {
+      chips.push({
+        key: `${code}:eq`,
+        label: `${name}: ${value.eq}${definition?.unit ? ` ${definition.unit}` : ''}`,
+        patch: without({ ...value, eq: null }),
+      });
+    }
+  });
+
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4">
+      {chips.map((chip) => (
+        <button
+          key={chip.key}
+          type="button"
+          onClick={() => onChange(chip.patch)}
+          className="inline-flex items-center gap-1 rounded-full border border-border bg-surface px-3 py-1 text-sm text-foreground hover:border-info hover:text-info"
+          aria-label={`Прибрати фільтр ${chip.label}`}
+        >
+          {chip.label}
+          <span aria-hidden className="text-foreground-muted">×</span>
+        </button>
+      ))}
+      {chips.length > 1 && (
+        <button type="button" onClick={onClearAll} className="text-sm text-info hover:underline">
+          Скинути всі
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import type { AttributeFilterValue, AttributeValueOptionDto, NumberRangeDto } from '../../api/catalogApi';
+
+// Filter controls per attribute data type, used by DynamicAttributeFilters.
+// Option counts arrive already resolved against the current facets.
+
+const VISIBLE_OPTIONS = 6;
+
+interface ValueListFilterProps {
+  options: AttributeValueOptionDto[];
+  selected: string[];
+  onToggle: (value: string, checked: boolean) => void;
+}
+
+/** Checkbox list; long lists show the first few values (plus any selected) until expanded */
+export const ValueListFilter: React.FC<ValueListFilterProps> = ({ options, selected, onToggle }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const visible = showAll
+    ? options
+    : options.filter((option, index) => index < VISIBLE_OPTIONS || selected.includes(option.value));
+  const hiddenCount = options.length - visible.length;
+
+  return (
+    <div className="space-y-1">
+      {visible.map((option) => {
+        const isChecked = selected.includes(option.value);
+        // Ticking a zero-count value would only lead to an empty result; selected ones stay clickable
+        const isDisabled = option.count === 0 && !isChecked;
+        return (
+          <label
+            key={option.value}
+            className={`flex items-center gap-2 p-2 rounded ${
+              isDisabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-surface-hover'
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={isChecked}
+              disabled={isDisabled}
+              onChange={(e) => onToggle(option.value, e.target.checked)}
+              className="w-4 h-4 text-info border-border rounded focus:ring-info"
+            />
+            <span className="text-sm text-foreground flex-1">{option.value}</span>
+            <span className="text-xs text-foreground-muted">({option.count})</span>
+          </label>
+        );
+      })}
+
+      {(hiddenCount > 0 || showAll) && options.length > VISIBLE_OPTIONS && (
+        <button
+          type="button"
+          onClick={() => setShowAll((prev) => !prev)}
+          className="text-sm text-info hover:underline px-2"
+        >
+          {showAll ? 'Згорнути' : `Показати ще ${hiddenCount}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/** Multi-select for large value sets (array attributes): selected chips, a search box and the list */
+export const MultiSelectFilter: React.FC<ValueListFilterProps> = ({ options, selected, onToggle }) => {
+  const [search, setSearch] = useState('');
+
+  const term = search.trim().toLowerCase();
+  const matching = term ? options.filter((option) => option.value.toLowerCase().includes(term)) : options;
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => onToggle(value, false)}
+              className="inline-flex items-center gap-1 rounded-full bg-info/10 px-2 py-0.5 text-xs text-info hover:bg-info/20"
+              aria-label={`Прибрати ${value}`}
+            >
+              {value}
+              <span aria-hidden>×</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Пошук значення"
+        className="w-full px-3 py-2 text-sm border border-border bg-surface text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-info"
+      />
+
+      {matching.length > 0 ? (
+        <ValueListFilter options={matching} selected={selected} onToggle={onToggle} />
+      ) : (
+        <p className="text-xs text-foreground-muted px-2">Нічого не знайдено</p>
+      )}
+    </div>
+  );
+};
+
+interface BooleanFilterProps {
+  options: AttributeValueOptionDto[];
+  value: AttributeFilterValue | undefined;
+  onChange: (value: AttributeFilterValue | null) => void;
+}
+
+const isTrueValue = (value: string) => value.toLowerCase() === 'true';
+
+/** Toggle for boolean attributes: on = only products where the attribute is true */
+export const BooleanFilter: React.FC<BooleanFilterProps> = ({ options, value, onChange }) => {
+  // Values may be stored as "true" or "True" depending on how the SKU was created; send every spelling
+  const trueValues = options.filter((option) => isTrueValue(option.value));
+  const count = trueValues.reduce((sum, option) => sum + option.count, 0);
+  const isOn = !!value?.in?.some(isTrueValue) || (!!value?.equal && isTrueValue(value.equal));
+  const isDisabled = !isOn && count === 0;
+
+  return (
+    <label
+      className={`flex items-center gap-3 p-2 rounded ${
+        isDisabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-surface-hover'
+      }`}
+    >
+      <button
+        type="button"
+        role="switch"
+        aria-checked={isOn}
+        disabled={isDisabled}
+        onClick={() => onChange(isOn ? null : { in: trueValues.map((option) => option.value) })}
+        className={`relative inline-flex h-5 w-9 shrink-0 items-center rounded-full transition-colors ${
+          isOn ? 'bg-info' : 'bg-border'
+        }`}
+      >
+        <span
+          className={`inline-block h-4 w-4 rounded-full bg-white shadow transition-transform ${
+            isOn ? 'translate-x-4' : 'translate-x-0.5'
+          }`}
+        />
+      </button>
+      <span className="text-sm text-foreground flex-1">Так</span>
+      <span className="text-xs text-foreground-muted">({count})</span>
+    </label>
+  );
+};
+
+interface RangeFilterProps {
+  range: NumberRangeDto;
+  unit?: string | null;
+  value: AttributeFilterValue | undefined;
+  onChange: (gte: number | null, lte: number | null) => void;
+}
+
+/**
+ * Dual-handle slider over the attribute's range, snapping to `range.step`.
+ * The value is committed when a handle is released, not on every pixel of the drag.
+ * Key it by the committed value so it picks up changes made elsewhere (e.g. "clear all").
+ */
+export const RangeFilter: React.FC<RangeFilterProps> = ({ range, unit, value, onChange }) => {
+  const step = range.step || 1;
+  const [low, setLow] = useState(value?.gte ?? range.min);
+  const [high, setHigh] = useState(value?.lte ?? range.max);
+
+  if (range.min === range.max) {
+    return (
+      <p className="text-sm text-foreground-muted">
+        {range.min} {unit}
+      </p>
+    );
+  }
+
+  const span = range.max - range.min;
+  const lowPercent = ((low - range.min) / span) * 100;
+  const highPercent = ((high - range.min) / span) * 100;
+
+  // A handle resting on the edge of the range means "no limit" on that side
+  const commit = () => onChange(low > range.min ? low : null, high < range.max ? high : null);
+
+  const thumbClass =
+    'pointer-events-none absolute inset-0 h-5 w-full appearance-none bg-transparent ' +
+    '[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 ' +
+    '[&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-info ' +
+    '[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 ' +
+    '[&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:bg-info';
+
+  return (
+    <div className="space-y-2">
+      <div className="relative h-5">
+        <div className="absolute top-1/2 h-1 w-full -translate-y-1/2 rounded bg-border" />
+        <div
+          className="absolute top-1/2 h-1 -translate-y-1/2 rounded bg-info"
+          style={{ left: `${lowPercent}%`, right: `${100 - highPercent}%` }}
+        />
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={step}
+          value={low}
+          onChange={(e) => setLow(Math.min(Number(e.target.value), high))}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          aria-label="Мінімальне значення"
+          className={thumbClass}
+        />
+        <input
+          type="range"
+          min={range.min}
+          max={range.max}
+          step={step}
+          value={high}
+          onChange={(e) => setHigh(Math.max(Number(e.target.value), low))}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          aria-label="Максимальне значення"
+          className={thumbClass}
+        />
+      </div>
+      <div className="flex justify-between text-xs text-foreground-muted">
+        <span>
+          {low} {unit}
+        </span>
+        <span>
+          {high} {unit}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,17 @@
-import React from 'react';
-import type { AttributeFilterDto, AttributeFilterValue } from '../../api/catalogApi';
+import React, { useMemo, useState } from 'react';
+import type { AttributeFacetDto, AttributeFilterDto, AttributeFilterValue } from '../../api/catalogApi';
+import { BooleanFilter, MultiSelectFilter, RangeFilter, ValueListFilter } from './AttributeFilterWidgets';
+
+// Groups beyond this many start collapsed (unless something in them is selected)
+const OPEN_GROUPS = 5;
+// Array attributes with more values than this get a search box
+const SEARCHABLE_OPTIONS = 8;
 
 interface DynamicAttributeFiltersProps {
   availableFilters: AttributeFilterDto[];
   selectedFilters: Record<string, AttributeFilterValue>;
+  // Counts relative to the current selection; without them the unfiltered category counts are shown
+  facets?: AttributeFacetDto[];
   onFilterChange: (code: string, value: AttributeFilterValue | null) => void;
   onClearAll: () => void;
 }
@@ -11,11 +19,30 @@ interface DynamicAttributeFiltersProps {
 export const DynamicAttributeFilters: React.FC<DynamicAttributeFiltersProps> = ({
   availableFilters,
   selectedFilters,
+  facets,
   onFilterChange,
   onClearAll,
 }) => {
   const hasAnyFilters = Object.keys(selectedFilters).length > 0;
 
+  // code -> value -> count; codes are case-insensitive, values match exactly like the product filter
+  const facetCounts = useMemo(() => {
+    if (!facets) return null;
+    const counts = new Map<string, Map<string, number>>();
+    facets.forEach((facet) => {
+      counts.set(
+        facet.code.toLowerCase(),
+        new Map(facet.values.map((option) => [option.value, option.count]))
+      );
+    });
+    return counts;
+  }, [facets]);
+
+  const countFor = (code: string, value: string, fallback: number) => {
+    if (!facetCounts) return fallback;
+    return facetCounts.get(code.toLowerCase())?.get(value) ?? 0;
+  };
+
   const handleStringFilterChange = (code: string, value: string, checked: boolean) => {
     const currentFilter = selectedFilters[code];
     let newIn = currentFilter?.in ? [...currentFilter.in] : [];
@@ -35,133 +62,116 @@ export const DynamicAttributeFilters: React.FC<DynamicAttributeFiltersProps> = (
     }
   };
 
-  const handleNumberRangeChange = (code: string, type: 'min' | 'max', value: number | null) => {
-    const currentFilter = selectedFilters[code] || {};
-    
-    if (type === 'min') {
-      if (value !== null) {
-        onFilterChange(code, { ...currentFilter, gte: value });
-      } else {
-        const { gte, ...rest } = currentFilter;
-        onFilterChange(code, Object.keys(rest).length > 0 ? rest : null);
-      }
-    } else {
-      if (value !== null) {
-        onFilterChange(code, { ...currentFilter, lte: value });
-      } else {
-        const { lte, ...rest } = currentFilter;
-        onFilterChange(code, Object.keys(rest).length > 0 ? rest : null);
-      }
-    }
+  const handleNumberRangeChange = (code: string, gte: number | null, lte: number | null) => {
+    const next: AttributeFilterValue = { ...selectedFilters[code] };
+    delete next.gte;
+    delete next.lte;
+    if (gte !== null) next.gte = gte;
+    if (lte !== null) next.lte = lte;
+    onFilterChange(code, Object.keys(next).length > 0 ? next : null);
   };
 
-   if (availableFilters.length === 0) {
-     return (
-       <div className="text-foreground-muted text-sm">
-         Немає доступних фільтрів для цієї категорії
-       </div>
-     );
-   }
+  // Groups with a selection and the first few by display order start expanded
+  const [openOverrides, setOpenOverrides] = useState<Record<string, boolean>>({});
+  const sortedFilters = useMemo(
+    () => [...availableFilters].sort((a, b) => a.displayOrder - b.displayOrder),
+    [availableFilters]
+  );
+  const isOpen = (code: string, index: number) =>
+    openOverrides[code] ?? (index < OPEN_GROUPS || !!selectedFilters[code]);
+
+  if (availableFilters.length === 0) {
+    return (
+      <div className="text-foreground-muted text-sm">
+        Немає доступних фільтрів для цієї категорії
+      </div>
+    );
+  }
+
+  const renderWidget = (filter: AttributeFilterDto) => {
+    const selected = selectedFilters[filter.code];
+
+    if (filter.numberRange) {
+      return (
+        <RangeFilter
+          // Remount when the committed value changes so the handles follow it
+          key={`${selected?.gte ?? ''}:${selected?.lte ?? ''}`}
+          range={filter.numberRange}
+          unit={filter.unit}
+          value={selected}
+          onChange={(gte, lte) => handleNumberRangeChange(filter.code, gte, lte)}
+        />
+      );
+    }
+
+    const options = (filter.availableValues ?? []).map((option) => ({
+      ...option,
+      count: countFor(filter.code, option.value, option.count),
+    }));
+    if (options.length === 0) return null;
+
+    if (filter.dataType === 'boolean') {
+      return (
+        <BooleanFilter
+          options={options}
+          value={selected}
+          onChange={(value) => onFilterChange(filter.code, value)}
+        />
+      );
+    }
+
+    const listProps = {
+      options,
+      selected: selected?.in ?? [],
+      onToggle: (value: string, checked: boolean) => handleStringFilterChange(filter.code, value, checked),
+    };
+    return filter.dataType === 'array' && options.length > SEARCHABLE_OPTIONS
+      ? <MultiSelectFilter {...listProps} />
+      : <ValueListFilter {...listProps} />;
+  };
 
   return (
-    <div className="space-y-6">
+    <div className="space-y-4">
       {/* Clear All Button */}
       {hasAnyFilters && (
-         <button
-           onClick={onClearAll}
-           className="w-full py-2 px-4 text-sm font-medium text-info hover:text-info border border-info hover:border-info rounded-lg transition-colors"
-         >
-           Скинути всі фільтри
-         </button>
+        <button
+          onClick={onClearAll}
+          className="w-full py-2 px-4 text-sm font-medium text-info hover:text-info border border-info hover:border-info rounded-lg transition-colors"
+        >
+          Скинути всі фільтри
+        </button>
       )}
 
       {/* Filter Groups */}
-       {availableFilters.map((filter) => (
-         <div key={filter.code} className="border-b border-border pb-4">
-           <h3 className="font-semibold text-foreground mb-3">
-             {filter.name}
-             {filter.unit && <span className="text-foreground-muted text-sm ml-1">({filter.unit})</span>}
-           </h3>
-
-          {/* String/Boolean Filters - Checkboxes */}
-          {filter.availableValues && filter.availableValues.length > 0 && (
-            <div className="space-y-2">
-              {filter.availableValues.map((option) => {
-                const isChecked = selectedFilters[filter.code]?.in?.includes(option.value) || false;
-                return (
-                   <label
-                     key={option.value}
-                     className="flex items-center gap-2 cursor-pointer hover:bg-surface-hover p-2 rounded"
-                   >
-                     <input
-                       type="checkbox"
-                       checked={isChecked}
-                       onChange={(e) => handleStringFilterChange(filter.code, option.value, e.target.checked)}
-                       className="w-4 h-4 text-info border-border rounded focus:ring-info"
-                     />
-                     <span className="text-sm text-foreground flex-1">{option.value}</span>
-                     <span className="text-xs text-foreground-muted">({option.count})</span>
-                   </label>
-                );
-              })}
-            </div>
-          )}
-
-          {/* Number Filters - Range Inputs */}
-          {filter.numberRange && (
-             <div className="space-y-3">
-               <div className="flex items-center gap-2 text-xs text-foreground-muted">
-                 <span>Діапазон: {filter.numberRange.min}</span>
-                 <span>—</span>
-                 <span>{filter.numberRange.max}</span>
-                 {filter.unit && <span>{filter.unit}</span>}
-               </div>
-
-               <div className="grid grid-cols-2 gap-2">
-                 <div>
-                   <label className="block text-xs text-foreground-muted mb-1">Від</label>
-                   <input
-                     type="number"
-                     min={filter.numberRange.min}
-                     max={filter.numberRange.max}
-                     step={filter.numberRange.step || 1}
-                     value={selectedFilters[filter.code]?.gte ?? ''}
-                     onChange={(e) =>
-                       handleNumberRangeChange(
-                         filter.code,
-                         'min',
-                         e.target.value ? Number(e.target.value) : null
-                       )
-                     }
-                     placeholder={String(filter.numberRange.min)}
-                     className="w-full px-3 py-2 text-sm border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-info"
-                   />
-                 </div>
-
-                 <div>
-                   <label className="block text-xs text-foreground-muted mb-1">До</label>
-                   <input
-                     type="number"
-                     min={filter.numberRange.min}
-                     max={filter.numberRange.max}
-                     step={filter.numberRange.step || 1}
-                     value={selectedFilters[filter.code]?.lte ?? ''}
-                     onChange={(e) =>
-                       handleNumberRangeChange(
-                         filter.code,
-                         'max',
-                         e.target.value ? Number(e.target.value) : null
-                       )
-                     }
-                     placeholder={String(filter.numberRange.max)}
-                     className="w-full px-3 py-2 text-sm border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-info"
-                   />
-                 </div>
-               </div>
-             </div>
-          )}
-        </div>
-      ))}
+      {sortedFilters.map((filter, index) => {
+        const open = isOpen(filter.code, index);
+        return (
+          <div key={filter.code} className="border-b border-border pb-4">
+            <button
+              type="button"
+              onClick={() => setOpenOverrides((prev) => ({ ...prev, [filter.code]: !open }))}
+              aria-expanded={open}
+              className="flex w-full items-center justify-between text-left font-semibold text-foreground mb-3"
+            >
+              <span>
+                {filter.name}
+                {filter.unit && <span className="text-foreground-muted text-sm ml-1">({filter.unit})</span>}
+                {selectedFilters[filter.code] && <span className="ml-2 inline-block h-2 w-2 rounded-full bg-info" />}
+              </span>
+              <svg
+                className={`h-4 w-4 text-foreground-muted transition-transform ${open ? 'rotate-180' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+
+            {open && renderWidget(filter)}
+          </div>
+        );
+      })}
     </div>
   );
 };
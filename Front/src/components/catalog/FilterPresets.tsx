@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { useAuthStore } from '../../store/authStore';
+import { MAX_PRESETS_PER_CATEGORY, useCategoryPresets, useFilterPresetsStore } from '../../store/filterPresetsStore';
+
+interface FilterPresetsProps {
+  categoryId: string;
+  // Serialized filters currently applied; empty when nothing is filtered
+  currentQuery: string;
+  onApply: (query: string) => void;
+}
+
+/** Named filter combinations per category for signed-in users */
+export const FilterPresets: React.FC<FilterPresetsProps> = ({ categoryId, currentQuery, onApply }) => {
+  const userId = useAuthStore((state) => state.user?.id);
+  const presets = useCategoryPresets(userId, categoryId);
+  const savePreset = useFilterPresetsStore((state) => state.savePreset);
+  const removePreset = useFilterPresetsStore((state) => state.removePreset);
+  const [name, setName] = useState('');
+  const [isNaming, setIsNaming] = useState(false);
+
+  if (!userId) return null;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    savePreset(userId, categoryId, name, currentQuery);
+    setName('');
+    setIsNaming(false);
+  };
+
+  return (
+    <div className="mb-6 border-b border-border pb-4">
+      <h3 className="font-semibold text-foreground mb-3">Збережені фільтри</h3>
+
+      {presets.length > 0 ? (
+        <ul className="space-y-1 mb-3">
+          {presets.map((preset) => (
+            <li key={preset.id} className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => onApply(preset.query)}
+                className={`flex-1 truncate rounded px-2 py-1 text-left text-sm hover:bg-surface-hover ${
+                  preset.query === currentQuery ? 'text-info font-medium' : 'text-foreground'
+                }`}
+                title={preset.name}
+              >
+                {preset.name}
+              </button>
+              <button
+                type="button"
+                onClick={() => removePreset(userId, categoryId, preset.id)}
+                className="text-foreground-muted hover:text-error px-1"
+                aria-label={`Видалити ${preset.name}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-foreground-muted mb-3">Збережіть поточні фільтри, щоб швидко повертатися до них.</p>
+      )}
+
+      {isNaming ? (
+        <form onSubmit={handleSave} className="flex gap-2">
+          <input
+            autoFocus
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={50}
+            placeholder="Назва"
+            className="min-w-0 flex-1 px-3 py-1.5 text-sm border border-border bg-surface text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-info"
+          />
+          <button type="submit" disabled={!name.trim()} className="btn-primary px-3 py-1.5 text-sm disabled:opacity-50">
+            OK
+          </button>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setIsNaming(true)}
+          disabled={!currentQuery}
+          className="text-sm text-info hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed"
+          title={presets.length >= MAX_PRESETS_PER_CATEGORY ? `Найстаріший із ${MAX_PRESETS_PER_CATEGORY} буде замінено` : undefined}
+        >
+          + Зберегти поточні фільтри
+        </button>
+      )}
+    </div>
+  );
+};
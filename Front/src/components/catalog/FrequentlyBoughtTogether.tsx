@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import type { ProductDetailsDto, SkuDto } from '../../api/catalogApi'
+import { useFrequentlyBoughtTogether } from '../../hooks/useCatalog'
+import { useCartStore } from '../../store/cartStore'
+import { createLogger } from '../../utils/logger'
+
+const log = createLogger('cart')
+
+interface FrequentlyBoughtTogetherProps {
+  product: ProductDetailsDto
+  // SKU chosen on the page; it is the "this item" entry of the bundle
+  selectedSku: SkuDto | null
+}
+
+interface BundleItem {
+  productId: string
+  skuId: string
+  name: string
+  slug: string
+  imageUrl: string | null
+  price: number
+  inStock: boolean
+}
+
+type AddStatus = { state: 'idle' } | { state: 'adding' } | { state: 'done'; added: number; total: number }
+
+/** The current product plus the products most often ordered with it, added to the cart in one click */
+export function FrequentlyBoughtTogether({ product, selectedSku }: FrequentlyBoughtTogetherProps) {
+  const { t } = useTranslation()
+  const { data: related = [] } = useFrequentlyBoughtTogether(product.id)
+  const addToCart = useCartStore((state) => state.addToCart)
+  // Product ids the user unticked; everything else in the bundle is selected
+  const [excluded, setExcluded] = useState<Set<string>>(new Set())
+  const [status, setStatus] = useState<AddStatus>({ state: 'idle' })
+
+  if (related.length === 0 || !selectedSku) return null
+
+  const items: BundleItem[] = [
+    {
+      productId: product.id,
+      skuId: selectedSku.id,
+      name: product.name,
+      slug: product.slug,
+      imageUrl: selectedSku.gallery?.[0]?.url ?? product.baseImageUrl ?? null,
+      price: selectedSku.price,
+      inStock: selectedSku.stockQuantity > 0,
+    },
+    ...related.map((r): BundleItem => ({
+      productId: r.product.id,
+      skuId: r.skuId,
+      name: r.product.name,
+      slug: r.product.slug,
+      imageUrl: r.product.baseImageUrl,
+      price: r.price,
+      inStock: r.stockQuantity > 0,
+    })),
+  ]
+  const selected = items.filter((i) => i.inStock && !excluded.has(i.productId))
+  const total = selected.reduce((sum, i) => sum + i.price, 0)
+
+  const toggle = (productId: string) => {
+    setStatus({ state: 'idle' })
+    setExcluded((prev) => {
+      const next = new Set(prev)
+      if (next.has(productId)) next.delete(productId)
+      else next.add(productId)
+      return next
+    })
+  }
+
+  // One at a time: the cart store reloads the cart after each change
+  const handleAddAll = async () => {
+    setStatus({ state: 'adding' })
+    let added = 0
+    for (const item of selected) {
+      try {
+        if (await addToCart(item.productId, item.skuId, 1)) added++
+        else log.warn('Bundle item not added', item.skuId, useCartStore.getState().lastError)
+      } catch (error) {
+        log.error('Failed to add bundle item', item.skuId, error)
+      }
+    }
+    setStatus({ state: 'done', added, total: selected.length })
+  }
+
+  return (
+    <section aria-labelledby="bought-together-title" className="card p-6">
+      <h2 id="bought-together-title" className="mb-4 text-xl font-semibold text-foreground">
+        {t('productPage.boughtTogether.title')}
+      </h2>
+
+      <div className="flex flex-col gap-6 lg:flex-row lg:items-center">
+        <ul className="flex flex-1 flex-wrap items-start gap-3">
+          {items.map((item, index) => (
+            <li key={item.productId} className="flex items-start gap-3">
+              {index > 0 && <span className="mt-12 text-2xl text-foreground-muted" aria-hidden="true">+</span>}
+              <label className={`block w-32 ${item.inStock ? 'cursor-pointer' : 'opacity-50'}`}>
+                <div className="relative aspect-square overflow-hidden rounded-lg bg-background-secondary">
+                  {item.imageUrl && (
+                    <img src={item.imageUrl} alt={item.name} loading="lazy" className="h-full w-full object-cover" />
+                  )}
+                  <input
+                    type="checkbox"
+                    checked={item.inStock && !excluded.has(item.productId)}
+                    disabled={!item.inStock || status.state === 'adding'}
+                    onChange={() => toggle(item.productId)}
+                    aria-label={t('productPage.boughtTogether.toggle', { name: item.name })}
+                    className="absolute left-2 top-2 h-4 w-4 accent-brand"
+                  />
+                </div>
+                {index === 0 ? (
+                  <p className="mt-2 line-clamp-2 text-sm text-foreground">
+                    <span className="font-medium">{t('productPage.boughtTogether.thisItem')}: </span>
+                    {item.name}
+                  </p>
+                ) : (
+                  <Link to={`/product/${item.slug}`} className="mt-2 line-clamp-2 block text-sm text-foreground hover:text-brand">
+                    {item.name}
+                  </Link>
+                )}
+                <p className="text-sm font-semibold text-foreground">
+                  {item.inStock ? `${item.price.toFixed(2)} ₴` : t('productPage.outOfStock')}
+                </p>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-3 lg:w-56">
+          <p className="text-sm text-foreground-muted">
+            {t('productPage.boughtTogether.total', { count: selected.length })}
+          </p>
+          <p className="text-2xl font-bold text-brand">{total.toFixed(2)} ₴</p>
+          <button
+            type="button"
+            onClick={handleAddAll}
+            disabled={selected.length === 0 || status.state === 'adding'}
+            className="btn-primary w-full disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {status.state === 'adding' ? t('productPage.boughtTogether.adding') : t('productPage.boughtTogether.addAll')}
+          </button>
+          {status.state === 'done' && (
+            <p
+              role="status"
+              className={`text-sm ${status.added === status.total ? 'text-success' : 'text-error'}`}
+            >
+              {status.added === status.total
+                ? t('productPage.boughtTogether.added')
+                : t('productPage.boughtTogether.partiallyAdded', { added: status.added, total: status.total })}
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  )
+}
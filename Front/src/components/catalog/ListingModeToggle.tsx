@@ -0,0 +1,33 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useListingPreferencesStore, type ListingMode } from '../../store/listingPreferencesStore';
+
+const MODES: { value: ListingMode; labelKey: string }[] = [
+  { value: 'pages', labelKey: 'pagination.modePages' },
+  { value: 'infinite', labelKey: 'pagination.modeInfinite' },
+];
+
+/** Switches product grids between numbered pages and continuous scrolling; the choice is remembered */
+export const ListingModeToggle: React.FC = () => {
+  const { t } = useTranslation();
+  const mode = useListingPreferencesStore((state) => state.mode);
+  const setMode = useListingPreferencesStore((state) => state.setMode);
+
+  return (
+    <div role="group" aria-label={t('pagination.mode')} className="inline-flex rounded-md border border-border text-sm">
+      {MODES.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => setMode(option.value)}
+          aria-pressed={mode === option.value}
+          className={`px-3 py-1.5 first:rounded-l-md last:rounded-r-md ${
+            mode === option.value ? 'bg-brand text-white' : 'text-foreground hover:bg-surface-hover'
+          }`}
+        >
+          {t(option.labelKey)}
+        </button>
+      ))}
+    </div>
+  );
+};
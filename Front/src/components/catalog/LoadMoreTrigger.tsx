@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+// Start fetching a bit before the user reaches the end
+const PRELOAD_MARGIN = 600;
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Loads the next page when it scrolls into view, and keeps loading while it stays in view.
+ * The button stays as a fallback for browsers without IntersectionObserver and for keyboard users.
+ */
+export const LoadMoreTrigger: React.FC<LoadMoreTriggerProps> = ({ hasMore, isLoading, onLoadMore }) => {
+  const { t } = useTranslation();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // The observer is created once; the latest callback is read through the ref
+  const loadMoreRef = useRef(onLoadMore);
+  loadMoreRef.current = onLoadMore;
+  // Only re-renders on scroll so the check below runs; the position itself is measured there
+  const [, setInView] = useState(false);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(
+      (entries) => setInView(entries.some((entry) => entry.isIntersecting)),
+      { rootMargin: `${PRELOAD_MARGIN}px 0px` }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore]);
+
+  // After every render: a page that is too short to push the sentinel away (or is appended without
+  // a loading phase) leaves the intersection unchanged, so the observer alone would not fire again
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoading) return;
+    if (sentinel.getBoundingClientRect().top < window.innerHeight + PRELOAD_MARGIN) {
+      loadMoreRef.current();
+    }
+  });
+
+  if (!hasMore) {
+    return <p className="py-6 text-center text-sm text-foreground-muted">{t('pagination.allLoaded')}</p>;
+  }
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-6">
+      <button
+        type="button"
+        onClick={onLoadMore}
+        disabled={isLoading}
+        className="px-6 py-2 border border-border rounded-md text-sm text-foreground hover:bg-surface-hover disabled:opacity-50"
+      >
+        {isLoading ? t('pagination.loading') : t('pagination.loadMore')}
+      </button>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import { useTranslation } from 'react-i18next'
 import { useFavoritesStore, useIsFavorited } from '../../store/favoritesStore'
 import type { ProductSummaryDto } from '../../api/catalogApi'
+import { CompareButton } from '../compare/CompareButton'
+import { StarRating } from '../reviews/StarRating'
 
 interface ProductCardProps {
   product: ProductSummaryDto
@@ -86,6 +88,9 @@ export default function ProductCard({ product, onAddToCart, onClick }: ProductCa
           </svg>
         </button>
 
+        {/* Compare Button */}
+        <CompareButton product={product} variant="icon" className="absolute top-14 right-3" />
+
         {/* Price Badge */}
         <div className="absolute bottom-3 right-3">
           <span className="px-3 py-1.5 text-sm font-bold rounded-lg bg-white/90 dark:bg-gray-900/90 text-brand shadow-sm backdrop-blur-sm">
@@ -105,6 +110,13 @@ export default function ProductCard({ product, onAddToCart, onClick }: ProductCa
               {product.categories[0].name}
             </p>
           )}
+          {product.reviewCount > 0 && (
+            <div className="flex items-center gap-1.5 mt-1.5 text-sm text-foreground-muted">
+              <StarRating value={product.averageRating} />
+              <span>{product.averageRating.toFixed(1)}</span>
+              <span>({t('productCard.reviews', { count: product.reviewCount })})</span>
+            </div>
+          )}
         </div>
 
         {/* Tags */}
@@ -0,0 +1,153 @@
+import React from 'react';
+import type { AttributeFacetDto, AttributeFilterDto, AttributeFilterValue, PriceRangeDto } from '../../api/catalogApi';
+import type { ProductFilterState } from '../../utils/productFilterParams';
+import { StarRating } from '../reviews/StarRating';
+import { DynamicAttributeFilters } from './DynamicAttributeFilters';
+
+const MIN_RATING_OPTIONS = [4, 3, 2];
+
+interface ProductFilterSidebarProps {
+  // Filter options of the listing scope (category or store)
+  availableFilters?: { attributes: AttributeFilterDto[]; priceRange: PriceRangeDto | null };
+  // Counts for the staged filters
+  facets?: { attributes: AttributeFacetDto[]; matchingProductCount: number };
+  facetsLoading: boolean;
+  pending: ProductFilterState;
+  hasPendingChanges: boolean;
+  onChange: (patch: Partial<ProductFilterState>) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+  onClearAll: () => void;
+  // Rendered under the heading (e.g. saved presets)
+  children?: React.ReactNode;
+}
+
+/** Price, stock, rating and attribute filters of a product listing, staged until the user applies them */
+export const ProductFilterSidebar: React.FC<ProductFilterSidebarProps> = ({
+  availableFilters,
+  facets,
+  facetsLoading,
+  pending,
+  hasPendingChanges,
+  onChange,
+  onApply,
+  onDiscard,
+  onClearAll,
+  children,
+}) => {
+  const handleFilterChange = (code: string, value: AttributeFilterValue | null) => {
+    const attributes = { ...pending.attributes };
+    if (value === null) {
+      delete attributes[code];
+    } else {
+      attributes[code] = value;
+    }
+    onChange({ attributes });
+  };
+
+  return (
+    <div className="sticky top-4 bg-surface rounded-lg shadow p-6">
+      <h2 className="text-xl font-semibold mb-4">Фільтри</h2>
+
+      {children}
+
+      {/* Price Range */}
+      {availableFilters?.priceRange && (
+        <div className="mb-6 border-b border-border pb-4">
+          <h3 className="font-semibold text-foreground mb-3">Ціна (грн)</h3>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              placeholder={`Від ${availableFilters.priceRange.min}`}
+              value={pending.minPrice ?? ''}
+              onChange={(e) => onChange({ minPrice: e.target.value ? Number(e.target.value) : null })}
+              className="px-3 py-2 text-sm border border-border bg-surface text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-brand/50"
+            />
+            <input
+              type="number"
+              placeholder={`До ${availableFilters.priceRange.max}`}
+              value={pending.maxPrice ?? ''}
+              onChange={(e) => onChange({ maxPrice: e.target.value ? Number(e.target.value) : null })}
+              className="px-3 py-2 text-sm border border-border bg-surface text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-brand/50"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* In Stock */}
+      <div className="mb-6 border-b border-border pb-4">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={pending.inStock}
+            onChange={(e) => onChange({ inStock: e.target.checked })}
+            className="w-4 h-4 text-brand border-border rounded focus:ring-brand/50"
+          />
+          <span className="text-sm text-foreground">Тільки в наявності</span>
+        </label>
+      </div>
+
+      {/* Rating */}
+      <div className="mb-6 border-b border-border pb-4">
+        <h3 className="font-semibold text-foreground mb-3">Рейтинг</h3>
+        <div className="space-y-2">
+          {MIN_RATING_OPTIONS.map((rating) => (
+            <label key={rating} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name="minRating"
+                checked={pending.minRating === rating}
+                onChange={() => onChange({ minRating: rating })}
+                className="w-4 h-4 text-brand border-border focus:ring-brand/50"
+              />
+              <StarRating value={rating} />
+              <span className="text-sm text-foreground">і вище</span>
+            </label>
+          ))}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="minRating"
+              checked={pending.minRating === null}
+              onChange={() => onChange({ minRating: null })}
+              className="w-4 h-4 text-brand border-border focus:ring-brand/50"
+            />
+            <span className="text-sm text-foreground">Будь-який</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Dynamic Attribute Filters */}
+      {availableFilters && (
+        <DynamicAttributeFilters
+          availableFilters={availableFilters.attributes}
+          selectedFilters={pending.attributes}
+          facets={facets?.attributes}
+          onFilterChange={handleFilterChange}
+          onClearAll={onClearAll}
+        />
+      )}
+
+      {/* Live preview of the staged filters */}
+      {hasPendingChanges && (
+        <div className="sticky bottom-4 mt-4 space-y-2">
+          <button
+            onClick={onApply}
+            disabled={!facetsLoading && facets?.matchingProductCount === 0}
+            className="btn-primary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {facets && !facetsLoading
+              ? `Показати ${facets.matchingProductCount} товарів`
+              : 'Підрахунок...'}
+          </button>
+          <button
+            onClick={onDiscard}
+            className="w-full py-2 text-sm text-foreground-muted hover:text-foreground"
+          >
+            Скасувати зміни
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import type { QuickAddResult } from '../../hooks/useQuickAddToCart';
+
+/** Outcome of adding a product to the cart from a card (see useQuickAddToCart), pinned to the bottom of the screen */
+export const QuickAddStatus: React.FC<{ result: QuickAddResult | null }> = ({ result }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div role="status" aria-live="polite" className="fixed bottom-6 left-1/2 z-50 -translate-x-1/2">
+      {result && (
+        <p
+          className={`rounded-md px-4 py-2 text-sm text-white shadow-lg ${result.added ? 'bg-success' : 'bg-error'}`}
+        >
+          {result.added ? t('productCard.added') : t('productCard.addFailed')}
+        </p>
+      )}
+    </div>
+  );
+};
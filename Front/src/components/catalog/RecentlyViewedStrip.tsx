@@ -0,0 +1,100 @@
+import { useEffect, useRef } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { useAuthStore } from '../../store/authStore'
+import { useRecentlyViewedStore } from '../../store/recentlyViewedStore'
+
+interface RecentlyViewedStripProps {
+  // Product the user is looking at right now, left out of the strip
+  excludeProductId?: string
+  className?: string
+}
+
+/** Horizontal carousel of recently viewed products with per-item remove and a clear-all control */
+export function RecentlyViewedStrip({ excludeProductId, className }: RecentlyViewedStripProps) {
+  const { t } = useTranslation()
+  const { items, removeItem, clear, syncRecentlyViewed } = useRecentlyViewedStore()
+  const userId = useAuthStore((state) => state.user?.id)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  // Signed in (or switched account): pick up the products viewed on the user's other devices
+  useEffect(() => {
+    if (userId) syncRecentlyViewed(userId)
+  }, [userId, syncRecentlyViewed])
+
+  const visibleItems = items.filter((i) => i.productId !== excludeProductId)
+  if (visibleItems.length === 0) return null
+
+  const scrollBy = (direction: 1 | -1) => {
+    const list = listRef.current
+    if (list) list.scrollBy({ left: direction * list.clientWidth * 0.8, behavior: 'smooth' })
+  }
+
+  return (
+    <section aria-labelledby="recently-viewed-title" className={className}>
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <h2 id="recently-viewed-title" className="text-xl font-semibold text-foreground">
+          {t('recentlyViewed.title')}
+        </h2>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              clear().catch(() => {
+                // ignore: cleared on this device, the server copy comes back on the next sync
+              })
+            }}
+            className="text-sm text-foreground-muted hover:text-foreground"
+          >
+            {t('recentlyViewed.clear')}
+          </button>
+          <button
+            type="button"
+            onClick={() => scrollBy(-1)}
+            aria-label={t('recentlyViewed.previous')}
+            className="hidden rounded-full border border-border p-1.5 text-foreground-muted hover:text-foreground sm:block"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => scrollBy(1)}
+            aria-label={t('recentlyViewed.next')}
+            className="hidden rounded-full border border-border p-1.5 text-foreground-muted hover:text-foreground sm:block"
+          >
+            <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      <ul ref={listRef} className="flex snap-x gap-4 overflow-x-auto pb-2">
+        {visibleItems.map((item) => (
+          <li key={item.productId} className="group relative w-40 shrink-0 snap-start">
+            <Link to={`/product/${item.slug}`} className="block">
+              <div className="aspect-square overflow-hidden rounded-lg bg-background-secondary">
+                {item.imageUrl && (
+                  <img src={item.imageUrl} alt={item.name} loading="lazy" className="h-full w-full object-cover" />
+                )}
+              </div>
+              <p className="mt-2 line-clamp-2 text-sm text-foreground group-hover:text-brand">{item.name}</p>
+            </Link>
+            <button
+              type="button"
+              onClick={() => removeItem(item.productId)}
+              aria-label={t('recentlyViewed.remove_item', { name: item.name })}
+              className="absolute right-1.5 top-1.5 rounded-full bg-surface/90 p-1 text-foreground-muted shadow-sm hover:text-error"
+            >
+              <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  )
+}
@@ -0,0 +1,73 @@
+import { useTranslation } from 'react-i18next'
+import type { SkuDto } from '../../api/catalogApi'
+import {
+  selectionOf,
+  skuForOption,
+  variantOptionStatus,
+  type VariantAxis,
+} from '../../utils/variantMatrix'
+
+interface VariantSelectorProps {
+  axes: VariantAxis[]
+  skus: SkuDto[]
+  selectedSku: SkuDto | null
+  onSelect: (sku: SkuDto) => void
+}
+
+/** One option group per variant axis; combinations without a SKU are disabled, sold-out ones greyed out */
+export function VariantSelector({ axes, skus, selectedSku, onSelect }: VariantSelectorProps) {
+  const { t } = useTranslation()
+  const selection = selectionOf(selectedSku, axes)
+
+  if (axes.length === 0) return null
+
+  return (
+    <div className="space-y-4">
+      {axes.map((axis, axisIndex) => (
+        <fieldset key={axis.code}>
+          <legend className="block text-sm font-medium text-foreground mb-2">
+            {axis.unit ? `${axis.name}, ${axis.unit}` : axis.name}:{' '}
+            <span className="text-brand">{selection[axis.code] ?? '—'}</span>
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {axis.values.map((value) => {
+              const isSelected = selection[axis.code] === value
+              const status = variantOptionStatus(skus, axes, selection, axisIndex, value)
+
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => {
+                    const sku = skuForOption(skus, axes, selection, axisIndex, value)
+                    if (sku) onSelect(sku)
+                  }}
+                  disabled={status === 'unavailable'}
+                  aria-pressed={isSelected}
+                  title={
+                    status === 'unavailable'
+                      ? t('productPage.variantUnavailable')
+                      : status === 'out_of_stock'
+                        ? t('productPage.outOfStock')
+                        : undefined
+                  }
+                  className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                    isSelected
+                      ? 'border-brand bg-brand text-white'
+                      : status === 'available'
+                        ? 'border-border hover:border-brand text-foreground'
+                        : status === 'out_of_stock'
+                          ? 'border-dashed border-border text-foreground-muted opacity-60 hover:border-brand'
+                          : 'border-border bg-surface-hover dark:bg-background text-foreground-muted opacity-50 cursor-not-allowed line-through'
+                  } ${isSelected && status === 'out_of_stock' ? 'opacity-70' : ''}`}
+                >
+                  {value}
+                </button>
+              )
+            })}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  )
+}
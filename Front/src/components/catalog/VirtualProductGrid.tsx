@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { ProductSummaryDto } from '../../api/catalogApi'
+import ProductCard from './ProductCard'
+
+// Lists up to this size render every card; virtualization only pays off for long infinite-scroll lists
+const VIRTUALIZE_AFTER = 60
+const OVERSCAN_ROWS = 3
+const GAP_PX = 24
+const ESTIMATED_ROW_HEIGHT = 420
+
+interface VirtualProductGridProps {
+  products: ProductSummaryDto[]
+  // Grid classes of the page, used as-is for short lists
+  className: string
+  // Columns for a viewport width; keep in step with the grid-cols-* breakpoints of `className`.
+  // Define it outside the component so it stays the same function between renders
+  columns: (viewportWidth: number) => number
+  onProductClick?: (productSlug: string) => void
+  onAddToCart?: (productId: string) => void
+}
+
+interface VisibleRange {
+  start: number
+  end: number
+}
+
+/**
+ * Product grid that renders only the rows near the viewport (window scrolling).
+ * Rows are assumed to share the height of the first rendered row; spacers keep the total height,
+ * so the scrollbar and scroll restoration behave as if every card were there.
+ */
+export default function VirtualProductGrid({
+  products,
+  className,
+  columns,
+  onProductClick,
+  onAddToCart,
+}: VirtualProductGridProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const rowObserver = useRef<ResizeObserver | null>(null)
+  const [columnCount, setColumnCount] = useState(() => columns(window.innerWidth))
+  const [rowHeight, setRowHeight] = useState(ESTIMATED_ROW_HEIGHT)
+  const [range, setRange] = useState<VisibleRange>({ start: 0, end: 0 })
+
+  const virtualize = products.length > VIRTUALIZE_AFTER
+  const rowCount = Math.ceil(products.length / columnCount)
+  const rowStride = rowHeight + GAP_PX
+
+  useEffect(() => {
+    if (!virtualize) return
+
+    const update = () => {
+      const container = containerRef.current
+      if (!container) return
+      setColumnCount(columns(window.innerWidth))
+      const top = container.getBoundingClientRect().top
+      const start = Math.floor(-top / rowStride) - OVERSCAN_ROWS
+      const end = Math.ceil((window.innerHeight - top) / rowStride) + OVERSCAN_ROWS
+      const next = { start: Math.max(0, start), end: Math.min(rowCount, Math.max(0, end)) }
+      setRange((prev) => (prev.start === next.start && prev.end === next.end ? prev : next))
+    }
+
+    update()
+    window.addEventListener('scroll', update, { passive: true })
+    window.addEventListener('resize', update)
+    return () => {
+      window.removeEventListener('scroll', update)
+      window.removeEventListener('resize', update)
+    }
+  }, [virtualize, columns, rowStride, rowCount])
+
+  // Cards have a fixed layout, so measuring the first rendered row is enough
+  const measureRow = useCallback((row: HTMLDivElement | null) => {
+    rowObserver.current?.disconnect()
+    rowObserver.current = null
+    if (!row) return
+    rowObserver.current = new ResizeObserver(([entry]) => {
+      const height = Math.round(entry.contentRect.height)
+      if (height > 0) setRowHeight(height)
+    })
+    rowObserver.current.observe(row)
+  }, [])
+
+  const renderCard = (product: ProductSummaryDto) => (
+    <ProductCard key={product.id} product={product} onClick={onProductClick} onAddToCart={onAddToCart} />
+  )
+
+  if (!virtualize) {
+    return <div className={className}>{products.map(renderCard)}</div>
+  }
+
+  const rows: ProductSummaryDto[][] = []
+  for (let row = range.start; row < range.end; row++) {
+    rows.push(products.slice(row * columnCount, (row + 1) * columnCount))
+  }
+
+  return (
+    <div ref={containerRef} style={{ height: Math.max(0, rowCount * rowStride - GAP_PX) }} className="relative">
+      <div
+        className="absolute inset-x-0 top-0 space-y-6"
+        style={{ transform: `translateY(${range.start * rowStride}px)` }}
+      >
+        {rows.map((items, index) => (
+          <div
+            key={range.start + index}
+            ref={index === 0 ? measureRow : undefined}
+            className="grid gap-6"
+            style={{ gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))` }}
+          >
+            {items.map(renderCard)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import { useTranslation } from 'react-i18next'
+import {
+  MAX_COMPARE_ITEMS,
+  useCompareStore,
+  useIsInCompare,
+  type ComparableProduct,
+} from '../../store/compareStore'
+
+interface CompareButtonProps {
+  product: ComparableProduct
+  // 'icon' for product cards, 'button' for the product page
+  variant?: 'icon' | 'button'
+  className?: string
+}
+
+export function CompareButton({ product, variant = 'button', className = '' }: CompareButtonProps) {
+  const { t } = useTranslation()
+  const { addProduct, removeProduct, replaceWith, category } = useCompareStore()
+  const isInCompare = useIsInCompare(product.id)
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (isInCompare) {
+      removeProduct(product.id)
+      return
+    }
+
+    const result = addProduct(product)
+    if (result === 'full') {
+      window.alert(t('compare.full', { max: MAX_COMPARE_ITEMS }))
+    } else if (result === 'incompatible') {
+      const current = category?.name ?? t('compare.uncategorized')
+      if (window.confirm(t('compare.replace_confirm', { category: current }))) {
+        replaceWith(product)
+      }
+    }
+  }
+
+  const label = isInCompare ? t('compare.remove') : t('compare.add')
+  const icon = (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V5m0 14H5a2 2 0 01-2-2V7a2 2 0 012-2h4m0 14h6m-6 0V5m6 14h4a2 2 0 002-2V7a2 2 0 00-2-2h-4m0 14V5m0 0H9" />
+    </svg>
+  )
+
+  if (variant === 'icon') {
+    return (
+      <button
+        type="button"
+        onClick={handleClick}
+        aria-pressed={isInCompare}
+        title={label}
+        aria-label={label}
+        className={`p-2 rounded-full shadow-sm backdrop-blur-sm transition-all ${
+          isInCompare
+            ? 'bg-brand text-white opacity-100'
+            : 'bg-white/80 dark:bg-surface-hover/80 text-foreground-muted hover:text-brand opacity-0 group-hover:opacity-100'
+        } ${className}`}
+      >
+        {icon}
+      </button>
+    )
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      aria-pressed={isInCompare}
+      className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+        isInCompare
+          ? 'border-brand bg-brand/10 text-brand'
+          : 'border-border text-foreground-muted hover:border-brand hover:text-brand'
+      } ${className}`}
+    >
+      {icon}
+      {label}
+    </button>
+  )
+}
@@ -0,0 +1,71 @@
+import { Link, useLocation } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { MAX_COMPARE_ITEMS, useCompareStore } from '../../store/compareStore'
+
+/** Bottom bar with the products picked for comparison; stays across pages until cleared */
+export function CompareTray() {
+  const { t } = useTranslation()
+  const { pathname } = useLocation()
+  const { items, category, removeProduct, clear } = useCompareStore()
+
+  if (items.length === 0 || pathname === '/compare') return null
+
+  return (
+    <>
+      {/* Keeps the end of the page (footer) reachable above the fixed bar */}
+      <div className="h-20" aria-hidden="true" />
+      <div
+        role="region"
+        aria-label={t('compare.tray_label')}
+        className="fixed inset-x-0 bottom-0 z-40 border-t border-border bg-surface/95 shadow-lg backdrop-blur-sm"
+      >
+        <div className="mx-auto flex max-w-7xl items-center gap-4 px-4 py-3">
+          <div className="hidden sm:block min-w-0">
+            <p className="text-sm font-semibold text-foreground">
+              {t('compare.title')} ({items.length}/{MAX_COMPARE_ITEMS})
+            </p>
+            {category && <p className="truncate text-xs text-foreground-muted">{category.name}</p>}
+          </div>
+
+          <ul className="flex flex-1 gap-3 overflow-x-auto">
+            {items.map((item) => (
+              <li key={item.id} className="relative flex shrink-0 items-center gap-2 rounded-lg border border-border bg-surface px-2 py-1 pr-7">
+                {item.baseImageUrl ? (
+                  <img src={item.baseImageUrl} alt="" className="h-10 w-10 rounded object-cover" />
+                ) : (
+                  <div className="h-10 w-10 rounded bg-background-secondary" />
+                )}
+                <Link to={`/product/${item.slug}`} className="max-w-[10rem] truncate text-sm text-foreground hover:text-brand" title={item.name}>
+                  {item.name}
+                </Link>
+                <button
+                  type="button"
+                  onClick={() => removeProduct(item.id)}
+                  aria-label={t('compare.remove_item', { name: item.name })}
+                  className="absolute right-1 top-1 p-1 text-foreground-muted hover:text-error"
+                >
+                  <svg className="h-3.5 w-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex shrink-0 items-center gap-3">
+            <button type="button" onClick={clear} className="text-sm text-foreground-muted hover:text-foreground">
+              {t('compare.clear')}
+            </button>
+            {items.length >= 2 ? (
+              <Link to="/compare" className="btn-primary">
+                {t('compare.compare_now')}
+              </Link>
+            ) : (
+              <span className="text-sm text-foreground-muted">{t('compare.add_more')}</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
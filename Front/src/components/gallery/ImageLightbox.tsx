@@ -0,0 +1,121 @@
+import { useEffect, useRef } from 'react'
+import { useTranslation } from 'react-i18next'
+import { SWIPE_THRESHOLD, imageSrcSet, type GalleryImage } from './galleryImage'
+
+interface ImageLightboxProps {
+  images: GalleryImage[]
+  index: number
+  onIndexChange: (index: number) => void
+  onClose: () => void
+  // Alt text for images without their own
+  fallbackAlt: string
+}
+
+/** Fullscreen image viewer: arrow keys and swipes move between images, Escape or the backdrop closes it */
+export function ImageLightbox({ images, index, onIndexChange, onClose, fallbackAlt }: ImageLightboxProps) {
+  const { t } = useTranslation()
+  const closeButtonRef = useRef<HTMLButtonElement>(null)
+  const swipeStartX = useRef<number | null>(null)
+  const image = images[index]
+  const hasMany = images.length > 1
+
+  const show = (next: number) => onIndexChange((next + images.length) % images.length)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+      else if (e.key === 'ArrowRight' && hasMany) onIndexChange((index + 1) % images.length)
+      else if (e.key === 'ArrowLeft' && hasMany) onIndexChange((index - 1 + images.length) % images.length)
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [index, images.length, hasMany, onIndexChange, onClose])
+
+  // Focus moves into the dialog and back to where it came from; the page behind does not scroll
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null
+    const previousOverflow = document.body.style.overflow
+    document.body.style.overflow = 'hidden'
+    closeButtonRef.current?.focus()
+    return () => {
+      document.body.style.overflow = previousOverflow
+      previouslyFocused?.focus()
+    }
+  }, [])
+
+  if (!image) return null
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (swipeStartX.current === null) return
+    const deltaX = e.clientX - swipeStartX.current
+    swipeStartX.current = null
+    if (!hasMany || Math.abs(deltaX) < SWIPE_THRESHOLD) return
+    show(deltaX < 0 ? index + 1 : index - 1)
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('gallery.lightbox_label')}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/90"
+      onClick={onClose}
+    >
+      <button
+        ref={closeButtonRef}
+        type="button"
+        onClick={onClose}
+        aria-label={t('gallery.close')}
+        className="absolute right-4 top-4 rounded-full p-2 text-white/80 hover:bg-white/10 hover:text-white"
+      >
+        <svg className="h-7 w-7" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+
+      {hasMany && (
+        <>
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); show(index - 1) }}
+            aria-label={t('gallery.previous')}
+            className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full p-3 text-white/80 hover:bg-white/10 hover:text-white"
+          >
+            <svg className="h-8 w-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); show(index + 1) }}
+            aria-label={t('gallery.next')}
+            className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full p-3 text-white/80 hover:bg-white/10 hover:text-white"
+          >
+            <svg className="h-8 w-8" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+        </>
+      )}
+
+      <img
+        src={image.url}
+        srcSet={imageSrcSet(image)}
+        sizes="100vw"
+        alt={image.altText || fallbackAlt}
+        draggable={false}
+        onClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => { swipeStartX.current = e.clientX }}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { swipeStartX.current = null }}
+        className="max-h-[85vh] max-w-[90vw] select-none object-contain touch-pan-y"
+      />
+
+      {hasMany && (
+        <p className="absolute bottom-4 left-1/2 -translate-x-1/2 text-sm text-white/80" aria-live="polite">
+          {t('gallery.counter', { current: index + 1, total: images.length })}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import { useRef, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ImageLightbox } from './ImageLightbox'
+import { SWIPE_THRESHOLD, canZoom, imageSrcSet, type GalleryImage } from './galleryImage'
+
+interface ProductGalleryProps {
+  images: GalleryImage[]
+  // Alt text for images without their own (usually the product name)
+  fallbackAlt: string
+}
+
+/**
+ * Main image with hover zoom, a thumbnail strip and a fullscreen lightbox.
+ * Remount it (key) when the image set changes so it starts from the first image again.
+ */
+export function ProductGallery({ images, fallbackAlt }: ProductGalleryProps) {
+  const { t } = useTranslation()
+  const [index, setIndex] = useState(0)
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false)
+  // Cursor position over the main image in percent, while zooming
+  const [zoomAt, setZoomAt] = useState<{ x: number; y: number } | null>(null)
+  const mainRef = useRef<HTMLButtonElement>(null)
+  const swipe = useRef<{ startX: number; swiped: boolean } | null>(null)
+
+  const image = images[index] ?? null
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const box = mainRef.current?.getBoundingClientRect()
+    // Touch and pen get the lightbox instead of hover zoom
+    if (!image || !box || e.pointerType !== 'mouse' || !canZoom(image, box)) {
+      setZoomAt(null)
+      return
+    }
+    setZoomAt({
+      x: ((e.clientX - box.left) / box.width) * 100,
+      y: ((e.clientY - box.top) / box.height) * 100,
+    })
+  }
+
+  // Touch: swiping the main image moves through the images, a tap opens the lightbox
+  const handlePointerDown = (e: React.PointerEvent) => {
+    swipe.current = e.pointerType === 'mouse' ? null : { startX: e.clientX, swiped: false }
+  }
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!swipe.current || images.length < 2) return
+    const deltaX = e.clientX - swipe.current.startX
+    if (Math.abs(deltaX) < SWIPE_THRESHOLD) return
+    swipe.current.swiped = true
+    setIndex((index + (deltaX < 0 ? 1 : -1) + images.length) % images.length)
+  }
+
+  const handleMainClick = () => {
+    if (swipe.current?.swiped) {
+      swipe.current = null
+      return
+    }
+    setIsLightboxOpen(true)
+  }
+
+  if (!image) {
+    return (
+      <div className="aspect-square bg-background-secondary rounded-xl overflow-hidden flex items-center justify-center">
+        <svg className="w-24 h-24 text-foreground-muted opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Main Image */}
+      <button
+        ref={mainRef}
+        type="button"
+        onClick={handleMainClick}
+        onPointerDown={handlePointerDown}
+        onPointerUp={handlePointerUp}
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setZoomAt(null)}
+        aria-label={t('gallery.open_fullscreen', { alt: image.altText || fallbackAlt })}
+        className={`relative block w-full aspect-square touch-pan-y bg-background-secondary rounded-xl overflow-hidden ${
+          zoomAt ? 'cursor-zoom-in' : 'cursor-pointer'
+        }`}
+      >
+        <img
+          src={image.url}
+          srcSet={imageSrcSet(image)}
+          sizes="(min-width: 768px) 50vw, 100vw"
+          width={image.width || undefined}
+          height={image.height || undefined}
+          alt={image.altText || fallbackAlt}
+          className="w-full h-full object-contain"
+        />
+        {/* The original at its own size, panned with the cursor */}
+        {zoomAt && (
+          <div
+            aria-hidden="true"
+            className="absolute inset-0 bg-no-repeat bg-background-secondary"
+            style={{
+              backgroundImage: `url("${image.url}")`,
+              backgroundSize: `${image.width}px ${image.height}px`,
+              backgroundPosition: `${zoomAt.x}% ${zoomAt.y}%`,
+            }}
+          />
+        )}
+      </button>
+
+      {/* Thumbnail Gallery */}
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-2 snap-x">
+          {images.map((img, i) => (
+            <button
+              key={img.id}
+              type="button"
+              onClick={() => setIndex(i)}
+              aria-label={t('gallery.show_image', { current: i + 1, total: images.length })}
+              aria-current={i === index ? 'true' : undefined}
+              className={`flex-shrink-0 snap-start w-20 h-20 rounded-lg overflow-hidden border-2 transition-all ${
+                i === index
+                  ? 'border-brand ring-2 ring-brand/30'
+                  : 'border-border hover:border-brand/50'
+              }`}
+            >
+              <img
+                src={img.url}
+                srcSet={imageSrcSet(img)}
+                sizes="80px"
+                alt={img.altText || fallbackAlt}
+                loading="lazy"
+                className="w-full h-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLightboxOpen && (
+        <ImageLightbox
+          images={images}
+          index={index}
+          onIndexChange={setIndex}
+          onClose={() => setIsLightboxOpen(false)}
+          fallbackAlt={fallbackAlt}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import type { MediaImageDto } from '../../api/catalogApi'
+
+// An image the gallery can show. MediaImageDto fits as is; `sources` lists extra renditions of the same image
+// (e.g. resized copies) once the backend provides them.
+export type GalleryImage = Pick<MediaImageDto, 'id' | 'url' | 'width' | 'height' | 'altText'> & {
+  sources?: { url: string; width: number }[]
+}
+
+/** `srcset` for the image; undefined when its width is unknown (width 0) and there are no other sizes */
+export function imageSrcSet(image: GalleryImage): string | undefined {
+  const candidates = [...(image.sources ?? [])]
+  if (image.width > 0 && !candidates.some((c) => c.width === image.width)) {
+    candidates.push({ url: image.url, width: image.width })
+  }
+  if (candidates.length === 0) return undefined
+  return candidates
+    .sort((a, b) => a.width - b.width)
+    .map((c) => `${c.url} ${c.width}w`)
+    .join(', ')
+}
+
+// Horizontal travel (px) that counts as a swipe rather than a tap
+export const SWIPE_THRESHOLD = 50
+
+// Hover zoom only pays off when the original is noticeably larger than the box it is shown in
+const MIN_ZOOM_FACTOR = 1.2
+
+export function canZoom(image: GalleryImage, box: { width: number; height: number }): boolean {
+  return image.width >= box.width * MIN_ZOOM_FACTOR || image.height >= box.height * MIN_ZOOM_FACTOR
+}
@@ -0,0 +1,92 @@
+import { useEffect } from 'react'
+import { useTranslation } from 'react-i18next'
+import { ProductSort, type ProductFilterRequest } from '../../api/catalogApi'
+import { useFilteredProducts, useFilteredProductsBatch, useProductById } from '../../hooks/useCatalog'
+import { usePopularQueries } from '../../hooks/useSearch'
+import { useAuthStore } from '../../store/authStore'
+import { useFavoritesStore } from '../../store/favoritesStore'
+import { popularCategoryFromSearches } from '../../utils/homeRails'
+import { ProductRail } from './ProductRail'
+
+const RAIL_SIZE = 8
+// Fetched per rail before products the user already has (or the source product) are filtered out
+const RAIL_FETCH_SIZE = 16
+// Popular queries the "popular in category" rail is built from
+const POPULAR_QUERY_COUNT = 5
+
+const NEW_ARRIVALS_REQUEST: ProductFilterRequest = { sort: ProductSort.Newest, pageSize: RAIL_SIZE }
+
+export function NewArrivalsRail() {
+  const { t } = useTranslation()
+  const { data, isPending } = useFilteredProducts(NEW_ARRIVALS_REQUEST)
+
+  return <ProductRail title={t('home.rails.new_arrivals')} products={data?.items ?? []} isLoading={isPending} />
+}
+
+/** Products of the category most of the popular searches lead to */
+export function PopularInCategoryRail() {
+  const { t } = useTranslation()
+  const { data: popularQueries, isPending: isPopularPending } = usePopularQueries(POPULAR_QUERY_COUNT)
+  const queries = popularQueries ?? []
+  const results = useFilteredProductsBatch(
+    queries.map((q) => ({ query: q.query, sort: ProductSort.Relevance, pageSize: RAIL_FETCH_SIZE }))
+  )
+
+  const isLoading = isPopularPending || results.some((r) => r.isPending)
+  const rail = isLoading
+    ? null
+    : popularCategoryFromSearches(
+        queries.map((q, i) => ({ searchCount: q.searchCount, products: results[i]?.data?.items ?? [] })),
+        RAIL_SIZE
+      )
+
+  if (!isLoading && !rail) return null
+
+  return (
+    <ProductRail
+      title={rail ? t('home.rails.popular_in', { category: rail.category.name }) : t('home.rails.popular')}
+      products={rail?.products ?? []}
+      isLoading={isLoading}
+      seeAllTo={rail ? `/category/${rail.category.slug}` : undefined}
+    />
+  )
+}
+
+/** More from the category (or, without one, the tags) of the product the user favourited last */
+export function FavoritesRail() {
+  const { t } = useTranslation()
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const { favorites, guestFavorites, loadFavorites } = useFavoritesStore()
+
+  useEffect(() => {
+    loadFavorites()
+  }, [loadFavorites, isAuthenticated])
+
+  const favoriteIds = [...(isAuthenticated ? favorites : guestFavorites)]
+  // Favourites of a signed-in user come newest first, guest ones in the order they were added
+  const sourceId = (isAuthenticated ? favoriteIds[0] : favoriteIds[favoriteIds.length - 1]) ?? null
+  const { data: source, isPending: isSourcePending } = useProductById(sourceId)
+
+  const category = source ? source.primaryCategory ?? source.categories[0] ?? null : null
+  const request: ProductFilterRequest | null = category
+    ? { categoryId: category.id, sort: ProductSort.Newest, pageSize: RAIL_FETCH_SIZE }
+    : source && source.tags.length > 0
+      ? { tagIds: source.tags.map((tag) => tag.id), sort: ProductSort.Newest, pageSize: RAIL_FETCH_SIZE }
+      : null
+  const { data, isPending } = useFilteredProducts(request)
+
+  if (!sourceId || (!isSourcePending && !request)) return null
+
+  const products = (data?.items ?? [])
+    .filter((p) => p.id !== sourceId && !favoriteIds.includes(p.id))
+    .slice(0, RAIL_SIZE)
+
+  return (
+    <ProductRail
+      title={source ? t('home.rails.because_favorited', { name: source.name }) : t('home.rails.for_you')}
+      products={products}
+      isLoading={isSourcePending || isPending}
+      seeAllTo={category ? `/category/${category.slug}` : undefined}
+    />
+  )
+}
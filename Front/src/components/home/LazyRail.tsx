@@ -0,0 +1,11 @@
+import type { ReactNode } from 'react'
+import { useInView } from '../../hooks/useInView'
+
+/** Mounts a rail (and so starts its requests) only when the user scrolls near it */
+export function LazyRail({ children }: { children: ReactNode }) {
+  const [ref, inView] = useInView<HTMLDivElement>('300px 0px')
+
+  if (inView) return <>{children}</>
+  // Reserves roughly the height of a rail so the page does not jump when it loads
+  return <div ref={ref} className="h-96" aria-hidden="true" />
+}
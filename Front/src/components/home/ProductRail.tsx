@@ -0,0 +1,52 @@
+import { Link, useNavigate } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import type { ProductSummaryDto } from '../../api/catalogApi'
+import { useQuickAddToCart } from '../../hooks/useQuickAddToCart'
+import ProductCard from '../catalog/ProductCard'
+import { QuickAddStatus } from '../catalog/QuickAddStatus'
+
+interface ProductRailProps {
+  title: string
+  products: ProductSummaryDto[]
+  isLoading: boolean
+  // "See all" target, e.g. the category page the rail was built from
+  seeAllTo?: string
+}
+
+/** Titled horizontal row of product cards; renders nothing once loaded without products */
+export function ProductRail({ title, products, isLoading, seeAllTo }: ProductRailProps) {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { quickAdd, result: quickAddResult } = useQuickAddToCart()
+
+  if (!isLoading && products.length === 0) return null
+
+  return (
+    <section>
+      <div className="mb-4 flex items-baseline justify-between gap-4">
+        <h2 className="text-xl font-semibold text-foreground">{title}</h2>
+        {seeAllTo && (
+          <Link to={seeAllTo} className="text-sm text-brand hover:text-brand-dark">
+            {t('home.rails.see_all')}
+          </Link>
+        )}
+      </div>
+
+      <div className="flex snap-x gap-4 overflow-x-auto pb-2" aria-busy={isLoading}>
+        {isLoading
+          ? [...Array(4)].map((_, i) => <div key={i} className="card h-80 w-64 shrink-0 animate-pulse" />)
+          : products.map((product) => (
+              <div key={product.id} className="flex w-64 shrink-0 snap-start">
+                <ProductCard
+                  product={product}
+                  onClick={(slug) => navigate(`/product/${slug}`)}
+                  onAddToCart={quickAdd}
+                />
+              </div>
+            ))}
+      </div>
+
+      <QuickAddStatus result={quickAddResult} />
+    </section>
+  )
+}
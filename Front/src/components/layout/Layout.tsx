@@ -1,15 +1,19 @@
 import { Header } from './Header'
 import { Footer } from './Footer'
+import { OfflineBanner } from './OfflineBanner'
+import { CompareTray } from '../compare/CompareTray'
 import { Outlet } from 'react-router-dom'
 
 export function Layout() {
   return (
     <div className="flex min-h-full flex-col  bg-surface text-foreground">
       <Header />
+      <OfflineBanner />
       <main className="mx-auto w-full max-w-7xl flex-1 px-4 py-8">
         <Outlet />
       </main>
       <Footer />
+      <CompareTray />
     </div>
   )
 }
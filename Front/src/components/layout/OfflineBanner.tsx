@@ -0,0 +1,19 @@
+import { useTranslation } from 'react-i18next'
+import { useNetworkStore } from '../../store/networkStore'
+
+export function OfflineBanner() {
+  const { t } = useTranslation()
+  const isOnline = useNetworkStore((state) => state.isOnline)
+
+  if (isOnline) return null
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="sticky top-20 z-40 w-full border-b border-warning bg-warning-light px-4 py-2 text-center text-sm text-warning-text dark:bg-warning-dark/20 dark:text-warning"
+    >
+      {t('network.offline')}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { useAnswerQuestion } from '../../hooks/useQuestions'
+
+// Mirrors ProductQuestion.MaxAnswerLength on the backend
+const MAX_ANSWER_LENGTH = 2000
+
+interface AnswerFormProps {
+  questionId: string
+  initialAnswer: string
+  onDone: () => void
+}
+
+/** Answer of the store owner; shared by the product page and the cabinet inbox */
+export function AnswerForm({ questionId, initialAnswer, onDone }: AnswerFormProps) {
+  const { t } = useTranslation()
+  const answerQuestion = useAnswerQuestion()
+  const [answer, setAnswer] = useState(initialAnswer)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    setError(null)
+    try {
+      const response = await answerQuestion.mutateAsync({ id: questionId, answer: answer.trim() })
+      if (response.isSuccess) onDone()
+      else setError(response.message)
+    } catch {
+      setError(t('errors.update_failed'))
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        maxLength={MAX_ANSWER_LENGTH}
+        rows={3}
+        placeholder={t('questions.answerPlaceholder')}
+        className="w-full px-3 py-2 text-sm border border-border bg-surface text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-brand/50"
+      />
+      {error && <p className="text-sm text-error">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onDone}
+          disabled={answerQuestion.isPending}
+          className="px-3 py-1.5 text-sm rounded-md text-foreground-muted hover:text-foreground"
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={answerQuestion.isPending || !answer.trim()}
+          className="btn btn-brand text-sm disabled:opacity-50"
+        >
+          {answerQuestion.isPending ? t('common.saving') : t('common.save')}
+        </button>
+      </div>
+    </div>
+  )
+}
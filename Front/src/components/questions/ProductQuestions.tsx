@@ -0,0 +1,281 @@
+import { useState } from 'react'
+import { Link, useLocation } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import type { ProductQuestionDto, QuestionSort } from '../../api/questionsApi'
+import { serviceErrorMessage } from '../../api/types'
+import { useAskQuestion, useProductQuestions, useToggleQuestionUpvote } from '../../hooks/useQuestions'
+import { useMyStore } from '../../hooks/useStores'
+import { useAuthStore } from '../../store/authStore'
+import { AnswerForm } from './AnswerForm'
+
+const PAGE_SIZE = 10
+const SORTS: QuestionSort[] = ['top', 'newest']
+
+// Mirror ProductQuestion.MinTextLength / MaxTextLength on the backend
+const MIN_QUESTION_LENGTH = 5
+const MAX_QUESTION_LENGTH = 1000
+
+interface ProductQuestionsProps {
+  productId: string
+  // Store selling the product; its owner answers instead of asking
+  storeId: string | null
+}
+
+/** Questions about a product with the store's answers, an ask form for buyers and inline answering for the seller */
+export function ProductQuestions({ productId, storeId }: ProductQuestionsProps) {
+  const { t } = useTranslation()
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const { data: myStore } = useMyStore()
+  const [sort, setSort] = useState<QuestionSort>('top')
+  const [page, setPage] = useState(1)
+  const { data: questions, isPending, isError } = useProductQuestions(productId, { sort, page, pageSize: PAGE_SIZE })
+
+  const isOwner = !!storeId && myStore?.id === storeId
+  const totalPages = questions ? Math.max(1, Math.ceil(questions.total / questions.pageSize)) : 1
+
+  return (
+    <section id="questions" aria-labelledby="questions-title" className="card scroll-mt-24 p-6">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <h2 id="questions-title" className="text-xl font-semibold text-foreground">
+          {t('questions.title')}
+          {questions && questions.total > 0 && (
+            <span className="ml-2 text-base font-normal text-foreground-muted">({questions.total})</span>
+          )}
+        </h2>
+        {questions && questions.total > 1 && (
+          <label className="flex items-center gap-2 text-sm text-foreground-muted">
+            {t('questions.sort.label')}
+            <select
+              value={sort}
+              onChange={(e) => {
+                setSort(e.target.value as QuestionSort)
+                setPage(1)
+              }}
+              className="rounded-md border border-border bg-surface px-2 py-1 text-foreground"
+            >
+              {SORTS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`questions.sort.${value}`)}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {isOwner ? (
+        <p className="mb-4 rounded-lg bg-brand/10 px-4 py-3 text-sm text-brand">{t('questions.ownerHint')}</p>
+      ) : isAuthenticated ? (
+        <AskQuestionForm productId={productId} onAsked={() => setPage(1)} />
+      ) : (
+        <SignInPrompt />
+      )}
+
+      {isPending ? (
+        <p className="text-foreground-muted">{t('questions.loading')}</p>
+      ) : isError ? (
+        <p className="text-error">{t('questions.loadError')}</p>
+      ) : questions.items.length === 0 ? (
+        <p className="text-foreground-muted">{t('questions.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {questions.items.map((question) => (
+            <QuestionItem key={question.id} question={question} canAnswer={isOwner} />
+          ))}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-3 pt-2">
+          <button
+            type="button"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1}
+            className="rounded-md border border-border px-3 py-1.5 text-sm text-foreground disabled:opacity-50"
+          >
+            {t('questions.previous')}
+          </button>
+          <span className="text-sm text-foreground-muted">{t('questions.pageOf', { page, total: totalPages })}</span>
+          <button
+            type="button"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages}
+            className="rounded-md border border-border px-3 py-1.5 text-sm text-foreground disabled:opacity-50"
+          >
+            {t('questions.next')}
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function SignInPrompt() {
+  const { t } = useTranslation()
+  const location = useLocation()
+
+  return (
+    <p className="mb-4 text-sm text-foreground-muted">
+      <Link to="/auth" state={{ from: location.pathname }} className="font-medium text-brand hover:underline">
+        {t('questions.signIn')}
+      </Link>{' '}
+      {t('questions.signInToAsk')}
+    </p>
+  )
+}
+
+function AskQuestionForm({ productId, onAsked }: { productId: string; onAsked: () => void }) {
+  const { t } = useTranslation()
+  const askQuestion = useAskQuestion()
+  const [text, setText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [asked, setAsked] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (text.trim().length < MIN_QUESTION_LENGTH) {
+      setError(t('questions.ask.tooShort', { min: MIN_QUESTION_LENGTH }))
+      return
+    }
+
+    setError(null)
+    try {
+      const response = await askQuestion.mutateAsync({ productId, text: text.trim() })
+      if (response.isSuccess) {
+        setText('')
+        setAsked(true)
+        onAsked()
+      } else {
+        setError(response.message)
+      }
+    } catch (err) {
+      setError(serviceErrorMessage(err, t('questions.ask.error')))
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-6 space-y-2">
+      <label htmlFor="ask-question" className="block text-sm font-medium text-foreground">
+        {t('questions.ask.label')}
+      </label>
+      <textarea
+        id="ask-question"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value)
+          setAsked(false)
+        }}
+        maxLength={MAX_QUESTION_LENGTH}
+        rows={2}
+        placeholder={t('questions.ask.placeholder')}
+        className="w-full rounded-md border border-border bg-surface px-3 py-2 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-brand/50"
+      />
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm">
+          {error ? (
+            <span className="text-error">{error}</span>
+          ) : asked ? (
+            <span className="text-success">{t('questions.ask.success')}</span>
+          ) : null}
+        </span>
+        <button
+          type="submit"
+          disabled={askQuestion.isPending || !text.trim()}
+          className="btn btn-brand text-sm disabled:opacity-50"
+        >
+          {askQuestion.isPending ? t('questions.ask.submitting') : t('questions.ask.submit')}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+interface QuestionItemProps {
+  question: ProductQuestionDto
+  canAnswer: boolean
+}
+
+function QuestionItem({ question, canAnswer }: QuestionItemProps) {
+  const { t } = useTranslation()
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const toggleUpvote = useToggleQuestionUpvote()
+  const [answering, setAnswering] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleUpvote = async () => {
+    setError(null)
+    try {
+      const response = await toggleUpvote.mutateAsync(question.id)
+      if (!response.isSuccess) setError(response.message)
+    } catch (err) {
+      setError(serviceErrorMessage(err, t('questions.upvoteError')))
+    }
+  }
+
+  return (
+    <li className="space-y-2 py-4">
+      <div className="flex items-start gap-3">
+        <span className="shrink-0 font-semibold text-brand" aria-hidden="true">
+          {t('questions.questionLabel')}
+        </span>
+        <div className="min-w-0 flex-1">
+          <p className="whitespace-pre-line text-foreground">{question.text}</p>
+          <p className="text-sm text-foreground-muted">
+            {question.authorName ?? t('questions.anonymous')} · {new Date(question.createdAt).toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+
+      {answering ? (
+        <AnswerForm
+          questionId={question.id}
+          initialAnswer={question.answer ?? ''}
+          onDone={() => setAnswering(false)}
+        />
+      ) : question.answer ? (
+        <div className="ml-4 rounded-lg border-l-4 border-brand bg-background-secondary p-3">
+          <div className="mb-1 flex items-center justify-between gap-2">
+            <p className="text-sm font-medium text-foreground">
+              {t('questions.sellerAnswer')}
+              {question.answeredAt && (
+                <span className="ml-2 font-normal text-foreground-muted">
+                  {new Date(question.answeredAt).toLocaleDateString()}
+                </span>
+              )}
+            </p>
+            {canAnswer && (
+              <button type="button" onClick={() => setAnswering(true)} className="text-sm text-brand hover:underline">
+                {t('common.edit')}
+              </button>
+            )}
+          </div>
+          <p className="whitespace-pre-line text-sm text-foreground">{question.answer}</p>
+        </div>
+      ) : canAnswer ? (
+        <button type="button" onClick={() => setAnswering(true)} className="ml-4 text-sm font-medium text-brand hover:underline">
+          {t('questions.answer')}
+        </button>
+      ) : (
+        <p className="ml-4 text-sm italic text-foreground-muted">{t('questions.noAnswer')}</p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleUpvote}
+          disabled={!isAuthenticated || toggleUpvote.isPending}
+          aria-pressed={question.upvoted}
+          title={isAuthenticated ? undefined : t('questions.signInToVote')}
+          className={`rounded-full border px-3 py-1 text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${
+            question.upvoted
+              ? 'border-brand bg-brand/10 text-brand'
+              : 'border-border text-foreground-muted enabled:hover:text-foreground'
+          }`}
+        >
+          ▲ {t('questions.upvote', { votes: question.upvoteCount })}
+        </button>
+        {error && <span className="text-sm text-error">{error}</span>}
+      </div>
+    </li>
+  )
+}
@@ -0,0 +1,275 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import type { ProductReviewDto, RatingSummaryDto, ReviewSort } from '../../api/reviewsApi'
+import { serviceErrorMessage } from '../../api/types'
+import { useProductReviews, useRatingSummary, useToggleReviewHelpful } from '../../hooks/useReviews'
+import { useAuthStore } from '../../store/authStore'
+import { ImageLightbox } from '../gallery/ImageLightbox'
+import { StarRating } from './StarRating'
+
+const PAGE_SIZE = 10
+const SORTS: ReviewSort[] = ['newest', 'helpful', 'ratingDesc', 'ratingAsc']
+
+interface ProductReviewsProps {
+  productId: string
+  productName: string
+}
+
+/** Rating summary with a star histogram and the paged list of published reviews of a product */
+export function ProductReviews({ productId, productName }: ProductReviewsProps) {
+  const { t } = useTranslation()
+  const [rating, setRating] = useState<number | null>(null)
+  const [sort, setSort] = useState<ReviewSort>('newest')
+  const [page, setPage] = useState(1)
+  const { data: summary } = useRatingSummary(productId)
+  const { data: reviews, isPending, isError } = useProductReviews(productId, { rating, sort, page, pageSize: PAGE_SIZE })
+
+  const totalPages = reviews ? Math.max(1, Math.ceil(reviews.total / reviews.pageSize)) : 1
+
+  const changeRating = (next: number | null) => {
+    setRating(next)
+    setPage(1)
+  }
+
+  return (
+    <section id="reviews" aria-labelledby="reviews-title" className="card scroll-mt-24 p-6">
+      <h2 id="reviews-title" className="mb-4 text-xl font-semibold text-foreground">
+        {t('reviews.title')}
+        {summary && summary.reviewCount > 0 && (
+          <span className="ml-2 text-base font-normal text-foreground-muted">({summary.reviewCount})</span>
+        )}
+      </h2>
+
+      {summary && summary.reviewCount === 0 ? (
+        <p className="text-foreground-muted">{t('reviews.empty')}</p>
+      ) : (
+        <div className="grid gap-8 lg:grid-cols-[16rem_1fr]">
+          {summary && <RatingHistogram summary={summary} selected={rating} onSelect={changeRating} />}
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex flex-wrap gap-2">
+                {rating !== null && (
+                  <button
+                    type="button"
+                    onClick={() => changeRating(null)}
+                    className="rounded-full bg-brand/10 px-3 py-1 text-sm text-brand hover:bg-brand/20"
+                  >
+                    {t('reviews.stars', { count: rating })} ✕
+                  </button>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-sm text-foreground-muted">
+                {t('reviews.sort.label')}
+                <select
+                  value={sort}
+                  onChange={(e) => {
+                    setSort(e.target.value as ReviewSort)
+                    setPage(1)
+                  }}
+                  className="rounded-md border border-border bg-surface px-2 py-1 text-foreground"
+                >
+                  {SORTS.map((value) => (
+                    <option key={value} value={value}>
+                      {t(`reviews.sort.${value}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            {isPending ? (
+              <p className="text-foreground-muted">{t('reviews.loading')}</p>
+            ) : isError ? (
+              <p className="text-error">{t('reviews.loadError')}</p>
+            ) : reviews.items.length === 0 ? (
+              <p className="text-foreground-muted">{t('reviews.noMatches')}</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {reviews.items.map((review) => (
+                  <ReviewItem key={review.id} review={review} productName={productName} />
+                ))}
+              </ul>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-center gap-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setPage((p) => p - 1)}
+                  disabled={page <= 1}
+                  className="rounded-md border border-border px-3 py-1.5 text-sm text-foreground disabled:opacity-50"
+                >
+                  {t('reviews.previous')}
+                </button>
+                <span className="text-sm text-foreground-muted">
+                  {t('reviews.pageOf', { page, total: totalPages })}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={page >= totalPages}
+                  className="rounded-md border border-border px-3 py-1.5 text-sm text-foreground disabled:opacity-50"
+                >
+                  {t('reviews.next')}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
+
+interface RatingHistogramProps {
+  summary: RatingSummaryDto
+  selected: number | null
+  onSelect: (rating: number | null) => void
+}
+
+/** Average rating and one bar per star count; clicking a bar filters the list by that rating */
+function RatingHistogram({ summary, selected, onSelect }: RatingHistogramProps) {
+  const { t } = useTranslation()
+  // Highest rating first, whatever order the backend sends
+  const rows = [5, 4, 3, 2, 1].map((stars) => ({
+    stars,
+    count: summary.distribution.find((d) => d.stars === stars)?.count ?? 0,
+  }))
+
+  return (
+    <div>
+      <div className="mb-4 flex items-center gap-3">
+        <span className="text-4xl font-bold text-foreground">{summary.averageRating.toFixed(1)}</span>
+        <div>
+          <StarRating value={summary.averageRating} size="md" />
+          <p className="text-sm text-foreground-muted">{t('reviews.basedOn', { count: summary.reviewCount })}</p>
+        </div>
+      </div>
+      <ul className="space-y-1.5">
+        {rows.map(({ stars, count }) => {
+          const percent = summary.reviewCount > 0 ? Math.round((count / summary.reviewCount) * 100) : 0
+          return (
+            <li key={stars}>
+              <button
+                type="button"
+                onClick={() => onSelect(selected === stars ? null : stars)}
+                disabled={count === 0}
+                aria-pressed={selected === stars}
+                aria-label={t('reviews.filterByStars', { count: stars, reviews: count })}
+                className={`flex w-full items-center gap-2 rounded px-1 py-0.5 text-sm disabled:cursor-default ${
+                  selected === stars ? 'bg-brand/10' : 'enabled:hover:bg-surface-hover'
+                }`}
+              >
+                <span className="w-6 text-foreground-muted">{stars}★</span>
+                <span className="h-2 flex-1 overflow-hidden rounded-full bg-background-secondary">
+                  <span className="block h-full rounded-full bg-warning" style={{ width: `${percent}%` }} />
+                </span>
+                <span className="w-8 text-right text-foreground-muted">{count}</span>
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+interface ReviewItemProps {
+  review: ProductReviewDto
+  productName: string
+}
+
+function ReviewItem({ review, productName }: ReviewItemProps) {
+  const { t } = useTranslation()
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const toggleHelpful = useToggleReviewHelpful()
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const photos = review.photos.map((photo) => ({ id: photo.id, url: photo.url, width: 0, height: 0, altText: null }))
+
+  const handleHelpful = async () => {
+    setError(null)
+    try {
+      const response = await toggleHelpful.mutateAsync(review.id)
+      if (!response.isSuccess) setError(response.message)
+    } catch (err) {
+      setError(serviceErrorMessage(err, t('reviews.helpfulError')))
+    }
+  }
+
+  return (
+    <li className="space-y-2 py-4">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+        <StarRating value={review.rating} />
+        <span className="font-medium text-foreground">{review.authorName ?? t('reviews.anonymous')}</span>
+        {review.isVerifiedPurchase && (
+          <span className="rounded-full bg-success/10 px-2 py-0.5 text-xs font-medium text-success">
+            {t('reviews.verifiedPurchase')}
+          </span>
+        )}
+        <span className="text-sm text-foreground-muted">{new Date(review.createdAt).toLocaleDateString()}</span>
+      </div>
+
+      {review.comment && <p className="whitespace-pre-line text-foreground">{review.comment}</p>}
+
+      {photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {photos.map((photo, index) => (
+            <button
+              key={photo.id}
+              type="button"
+              onClick={() => setLightboxIndex(index)}
+              aria-label={t('reviews.openPhoto', { number: index + 1 })}
+              className="h-20 w-20 overflow-hidden rounded-lg bg-background-secondary"
+            >
+              <img src={photo.url} alt="" loading="lazy" className="h-full w-full object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+      {lightboxIndex !== null && (
+        <ImageLightbox
+          images={photos}
+          index={lightboxIndex}
+          onIndexChange={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+          fallbackAlt={productName}
+        />
+      )}
+
+      {review.sellerReply && (
+        <div className="ml-4 rounded-lg border-l-4 border-brand bg-background-secondary p-3">
+          <p className="mb-1 text-sm font-medium text-foreground">
+            {t('reviews.sellerReply')}
+            {review.sellerRepliedAt && (
+              <span className="ml-2 font-normal text-foreground-muted">
+                {new Date(review.sellerRepliedAt).toLocaleDateString()}
+              </span>
+            )}
+          </p>
+          <p className="whitespace-pre-line text-sm text-foreground">{review.sellerReply}</p>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={handleHelpful}
+          disabled={!isAuthenticated || toggleHelpful.isPending}
+          aria-pressed={review.votedHelpful}
+          title={isAuthenticated ? undefined : t('reviews.signInToVote')}
+          className={`rounded-full border px-3 py-1 text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${
+            review.votedHelpful
+              ? 'border-brand bg-brand/10 text-brand'
+              : 'border-border text-foreground-muted enabled:hover:text-foreground'
+          }`}
+        >
+          👍 {t('reviews.helpful', { votes: review.helpfulCount })}
+        </button>
+        {error && <span className="text-sm text-error">{error}</span>}
+      </div>
+    </li>
+  )
+}
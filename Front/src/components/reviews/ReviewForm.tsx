@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { MAX_REVIEW_PHOTOS } from '../../api/reviewsApi'
+import { useCreateReview } from '../../hooks/useReviews'
+import { createLogger } from '../../utils/logger'
+import { StarRatingInput } from './StarRating'
+
+const log = createLogger('reviews')
+
+// Mirrors ProductReview.MaxCommentLength on the backend
+const MAX_COMMENT_LENGTH = 4000
+
+interface ReviewFormProps {
+  // Delivered order item being reviewed; it is what makes the review a verified purchase
+  orderItemId: string
+  onSubmitted: () => void
+  onCancel: () => void
+}
+
+/** Star rating, comment and up to five photos for an item of a delivered order */
+export function ReviewForm({ orderItemId, onSubmitted, onCancel }: ReviewFormProps) {
+  const { t } = useTranslation()
+  const createReview = useCreateReview()
+  const [rating, setRating] = useState(0)
+  const [comment, setComment] = useState('')
+  const [photos, setPhotos] = useState<File[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const previews = useMemo(() => photos.map((photo) => URL.createObjectURL(photo)), [photos])
+  useEffect(() => () => previews.forEach((url) => URL.revokeObjectURL(url)), [previews])
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files) return
+    const images = Array.from(files).filter((file) => file.type.startsWith('image/'))
+    setPhotos((prev) => [...prev, ...images].slice(0, MAX_REVIEW_PHOTOS))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (rating === 0) {
+      setError(t('reviews.form.ratingRequired'))
+      return
+    }
+
+    setError(null)
+    try {
+      const response = await createReview.mutateAsync({ orderItemId, rating, comment: comment.trim(), photos })
+      if (response.isSuccess) onSubmitted()
+      else setError(response.message)
+    } catch (err) {
+      log.error('Failed to create review', err)
+      setError(t('reviews.form.error'))
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-3 rounded-lg bg-gray-50 p-4">
+      <div>
+        <p className="mb-1 text-sm font-medium text-gray-700">{t('reviews.form.rating')}</p>
+        <StarRatingInput value={rating} onChange={setRating} disabled={createReview.isPending} />
+      </div>
+
+      <label className="block">
+        <span className="mb-1 block text-sm font-medium text-gray-700">{t('reviews.form.comment')}</span>
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          maxLength={MAX_COMMENT_LENGTH}
+          rows={4}
+          placeholder={t('reviews.form.commentPlaceholder')}
+          className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </label>
+
+      <div>
+        <p className="mb-1 text-sm font-medium text-gray-700">
+          {t('reviews.form.photos', { max: MAX_REVIEW_PHOTOS })}
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {previews.map((url, index) => (
+            <div key={url} className="relative h-16 w-16 overflow-hidden rounded">
+              <img src={url} alt="" className="h-full w-full object-cover" />
+              <button
+                type="button"
+                onClick={() => setPhotos((prev) => prev.filter((_, i) => i !== index))}
+                aria-label={t('reviews.form.removePhoto')}
+                className="absolute right-0.5 top-0.5 rounded-full bg-white/90 px-1 text-xs text-red-600"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {photos.length < MAX_REVIEW_PHOTOS && (
+            <label className="flex h-16 w-16 cursor-pointer items-center justify-center rounded border-2 border-dashed border-gray-300 text-2xl text-gray-400 hover:border-gray-400">
+              +
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="sr-only"
+                onChange={(e) => {
+                  handleFiles(e.target.files)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={createReview.isPending}
+          className="rounded-md px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+        >
+          {t('common.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={createReview.isPending}
+          className="rounded-md bg-blue-600 px-4 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {createReview.isPending ? t('reviews.form.submitting') : t('reviews.form.submit')}
+        </button>
+      </div>
+    </form>
+  )
+}
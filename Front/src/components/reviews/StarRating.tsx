@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+const STARS = [1, 2, 3, 4, 5]
+
+const STAR_PATH =
+  'M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z'
+
+const SIZES = {
+  sm: 'h-4 w-4',
+  md: 'h-5 w-5',
+  lg: 'h-7 w-7',
+}
+
+interface StarRatingProps {
+  // 0..5, fractions fill stars partially
+  value: number
+  size?: keyof typeof SIZES
+  className?: string
+}
+
+/** Read-only row of five stars filled up to `value` */
+export function StarRating({ value, size = 'sm', className = '' }: StarRatingProps) {
+  const { t } = useTranslation()
+
+  return (
+    <span
+      role="img"
+      aria-label={t('reviews.ratingLabel', { rating: value.toFixed(1) })}
+      className={`inline-flex items-center ${className}`}
+    >
+      {STARS.map((star) => {
+        const fill = Math.min(Math.max(value - star + 1, 0), 1)
+        return (
+          <span key={star} className={`relative ${SIZES[size]}`} aria-hidden="true">
+            <svg className={`absolute inset-0 ${SIZES[size]} text-foreground-muted/30`} fill="currentColor" viewBox="0 0 20 20">
+              <path d={STAR_PATH} />
+            </svg>
+            {fill > 0 && (
+              <span className="absolute inset-y-0 left-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+                <svg className={`${SIZES[size]} text-warning`} fill="currentColor" viewBox="0 0 20 20">
+                  <path d={STAR_PATH} />
+                </svg>
+              </span>
+            )}
+          </span>
+        )
+      })}
+    </span>
+  )
+}
+
+interface StarRatingInputProps {
+  value: number
+  onChange: (value: number) => void
+  disabled?: boolean
+}
+
+/** Clickable five-star picker; hovering previews the rating */
+export function StarRatingInput({ value, onChange, disabled = false }: StarRatingInputProps) {
+  const { t } = useTranslation()
+  const [hovered, setHovered] = useState<number | null>(null)
+  const shown = hovered ?? value
+
+  return (
+    <div role="radiogroup" aria-label={t('reviews.form.rating')} className="inline-flex" onMouseLeave={() => setHovered(null)}>
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={t('reviews.stars', { count: star })}
+          disabled={disabled}
+          onClick={() => onChange(star)}
+          onMouseEnter={() => setHovered(star)}
+          className="p-0.5 disabled:cursor-not-allowed"
+        >
+          <svg
+            className={`h-7 w-7 transition-colors ${star <= shown ? 'text-warning' : 'text-foreground-muted/30'}`}
+            fill="currentColor"
+            viewBox="0 0 20 20"
+            aria-hidden="true"
+          >
+            <path d={STAR_PATH} />
+          </svg>
+        </button>
+      ))}
+    </div>
+  )
+}
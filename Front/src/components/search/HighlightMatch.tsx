@@ -0,0 +1,29 @@
+interface HighlightMatchProps {
+  text: string
+  query: string
+}
+
+/** `text` with every case-insensitive occurrence of `query` emphasised */
+export function HighlightMatch({ text, query }: HighlightMatchProps) {
+  if (!query) return <>{text}</>
+
+  const lowerText = text.toLowerCase()
+  const lowerQuery = query.toLowerCase()
+  const parts: React.ReactNode[] = []
+  let start = 0
+  let index = lowerText.indexOf(lowerQuery)
+
+  while (index !== -1) {
+    if (index > start) parts.push(text.slice(start, index))
+    parts.push(
+      <mark key={index} className="bg-transparent font-semibold text-brand">
+        {text.slice(index, index + query.length)}
+      </mark>
+    )
+    start = index + query.length
+    index = lowerText.indexOf(lowerQuery, start)
+  }
+  if (start < text.length) parts.push(text.slice(start))
+
+  return <>{parts}</>
+}
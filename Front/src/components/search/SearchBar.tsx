@@ -1,7 +1,9 @@
-import { useState, useRef, useEffect, useCallback } from 'react'
+import { useState, useRef, useEffect, useCallback, useId } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import { useSearchStore } from '../../store/searchStore'
+import { useAuthStore } from '../../store/authStore'
+import { searchResultsHref, typeaheadHref, useTypeahead, type TypeaheadItem } from '../../hooks/useTypeahead'
 import { SearchDropdown } from './SearchDropdown'
 
 export function SearchBar() {
@@ -10,20 +12,36 @@ export function SearchBar() {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false)
   const containerRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  const listboxId = useId()
 
   const { 
     query, 
     setQuery, 
     search, 
     fetchPopularQueries,
+    syncHistory,
     isSearching 
   } = useSearchStore()
+  const userId = useAuthStore((state) => state.user?.id)
+
+  const typeahead = useTypeahead(query)
+  // Keyboard highlight; typing starts over from the input
+  const [active, setActive] = useState<{ query: string; index: number }>({ query: '', index: -1 })
+  const activeIndex =
+    active.query === query && active.index < typeahead.items.length ? active.index : -1
+  const setActiveIndex = (index: number) => setActive({ query, index })
+  const optionId = (index: number) => `${listboxId}-option-${index}`
 
   // Fetch popular queries on mount
   useEffect(() => {
     fetchPopularQueries()
   }, [fetchPopularQueries])
 
+  // Signed in (or switched account): pick up the history shared across the user's devices
+  useEffect(() => {
+    if (userId) syncHistory(userId)
+  }, [userId, syncHistory])
+
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -42,14 +60,29 @@ export function SearchBar() {
     await search(query)
     setIsDropdownOpen(false)
     // Navigate to search results page
-    navigate(`/search?q=${encodeURIComponent(query.trim())}`)
+    navigate(searchResultsHref(query.trim()))
   }, [query, search, navigate])
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
-      handleSearch()
+    const count = typeahead.items.length
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      setIsDropdownOpen(true)
+      if (count === 0) return
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      // -1 (the input itself) sits between the last and the first item
+      const next = activeIndex + step
+      setActiveIndex(next >= count ? -1 : next < -1 ? count - 1 : next)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (isDropdownOpen && activeIndex >= 0) {
+        handleSelectItem(typeahead.items[activeIndex])
+      } else {
+        handleSearch()
+      }
     } else if (e.key === 'Escape') {
       setIsDropdownOpen(false)
+      setActiveIndex(-1)
     }
   }
 
@@ -61,10 +94,21 @@ export function SearchBar() {
     setQuery(selectedQuery)
     // Auto-search when selecting from dropdown
     search(selectedQuery).then(() => {
-      navigate(`/search?q=${encodeURIComponent(selectedQuery)}`)
+      navigate(searchResultsHref(selectedQuery))
     })
   }
 
+  const handleSelectItem = (item: TypeaheadItem) => {
+    setIsDropdownOpen(false)
+    inputRef.current?.blur()
+    if (item.kind === 'popular' || item.kind === 'history') {
+      handleSelectQuery(item.query)
+    } else {
+      // Categories, tags, stores and products open directly
+      navigate(typeaheadHref(item))
+    }
+  }
+
   return (
     <div ref={containerRef} className="relative flex-1 max-w-xl">
       <div className="flex items-stretch">
@@ -73,10 +117,18 @@ export function SearchBar() {
             ref={inputRef}
             type="text"
             value={query}
-            onChange={(e) => setQuery(e.target.value)}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setIsDropdownOpen(true)
+            }}
             onFocus={handleFocus}
             onKeyDown={handleKeyDown}
             placeholder={t('search.placeholder')}
+            role="combobox"
+            aria-expanded={isDropdownOpen}
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={isDropdownOpen && activeIndex >= 0 ? optionId(activeIndex) : undefined}
             className="h-10 w-full rounded-l-lg border border-r-0 border-foreground/20 bg-surface px-4 pr-10 text-sm text-foreground placeholder:text-foreground-muted focus:border-brand focus:outline-none"
           />
           {/* Search icon inside input */}
@@ -101,8 +153,14 @@ export function SearchBar() {
       {/* Dropdown */}
       {isDropdownOpen && (
         <SearchDropdown
-          onSelect={handleSelectQuery}
-          onClose={() => setIsDropdownOpen(false)}
+          id={listboxId}
+          query={typeahead.query}
+          groups={typeahead.groups}
+          isLoading={typeahead.isLoading}
+          activeIndex={activeIndex}
+          optionId={optionId}
+          onActiveIndexChange={setActiveIndex}
+          onSelect={handleSelectItem}
         />
       )}
     </div>
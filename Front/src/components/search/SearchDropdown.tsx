@@ -1,106 +1,208 @@
 import { useTranslation } from 'react-i18next'
 import { useSearchStore } from '../../store/searchStore'
-import type { PopularQueryDto } from '../../api/searchApi'
+import type { TypeaheadGroup, TypeaheadGroupId, TypeaheadItem } from '../../hooks/useTypeahead'
+import { HighlightMatch } from './HighlightMatch'
 
 interface SearchDropdownProps {
-  onSelect: (query: string) => void
-  onClose: () => void
+  id: string
+  // Query the suggestions were matched against; empty while showing popular queries and history
+  query: string
+  groups: TypeaheadGroup[]
+  isLoading: boolean
+  activeIndex: number
+  optionId: (index: number) => string
+  onActiveIndexChange: (index: number) => void
+  onSelect: (item: TypeaheadItem) => void
 }
 
-export function SearchDropdown({ onSelect, onClose }: SearchDropdownProps) {
-  const { t } = useTranslation()
-  const { history, popularQueries, removeFromHistory, clearHistory } = useSearchStore()
+const GROUP_TITLE_KEYS: Record<TypeaheadGroupId, string> = {
+  popular: 'search.popular',
+  history: 'search.history',
+  categories: 'search.groups.categories',
+  stores: 'search.groups.stores',
+  tags: 'search.groups.tags',
+  products: 'search.groups.products',
+}
 
-  const handleSelect = (query: string) => {
-    onSelect(query)
-    onClose()
-  }
+export function SearchDropdown({
+  id,
+  query,
+  groups,
+  isLoading,
+  activeIndex,
+  optionId,
+  onActiveIndexChange,
+  onSelect,
+}: SearchDropdownProps) {
+  const { t } = useTranslation()
+  const { removeFromHistory, clearHistory } = useSearchStore()
 
   const handleRemoveHistory = (e: React.MouseEvent, query: string) => {
     e.stopPropagation()
     removeFromHistory(query)
   }
 
-  const hasContent = history.length > 0 || popularQueries.length > 0
-
-  if (!hasContent) {
+  if (groups.length === 0) {
     return (
       <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-lg border border-foreground/10 bg-surface p-4 shadow-lg">
-        <p className="text-center text-sm text-foreground-muted">{t('search.no_suggestions')}</p>
+        <p className="text-center text-sm text-foreground-muted">
+          {isLoading ? t('search.searching') : query ? t('search.no_suggestions_for', { query }) : t('search.no_suggestions')}
+        </p>
       </div>
     )
   }
 
+  // Position of each item in the flat, keyboard-navigable list
+  let offset = 0
+  const indexed = groups.map((group) => {
+    const start = offset
+    offset += group.items.length
+    return { group, start }
+  })
+
+  const optionProps = (index: number, item: TypeaheadItem) => ({
+    id: optionId(index),
+    role: 'option' as const,
+    'aria-selected': index === activeIndex,
+    onMouseEnter: () => onActiveIndexChange(index),
+    // Keep focus in the input so the dropdown stays open until the choice is made
+    onMouseDown: (e: React.MouseEvent) => e.preventDefault(),
+    onClick: () => onSelect(item),
+  })
+
+  const rowClass = (index: number) =>
+    `group flex w-full cursor-pointer items-center justify-between gap-3 rounded-md px-2 py-1.5 text-left text-sm text-foreground ${
+      index === activeIndex ? 'bg-surface-hover' : ''
+    }`
+
   return (
-    <div className="absolute left-0 right-0 top-full z-50 mt-1 rounded-lg border border-foreground/10 bg-surface shadow-lg">
-      {/* Popular queries */}
-      {popularQueries.length > 0 && (
-        <div className="border-b border-foreground/10 p-3">
-          <p className="mb-2 text-xs font-medium uppercase text-foreground-muted">
-            {t('search.popular')}
-          </p>
-          <div className="flex flex-wrap gap-2">
-            {popularQueries.map((item: PopularQueryDto) => (
+    <div
+      id={id}
+      role="listbox"
+      className="absolute left-0 right-0 top-full z-50 mt-1 max-h-[70vh] overflow-y-auto rounded-lg border border-foreground/10 bg-surface shadow-lg"
+    >
+      {indexed.map(({ group, start }) => (
+        <div key={group.id} role="group" aria-label={t(GROUP_TITLE_KEYS[group.id])} className="border-b border-foreground/10 p-3 last:border-b-0">
+          <div className="mb-2 flex items-center justify-between">
+            <p className="text-xs font-medium uppercase text-foreground-muted">{t(GROUP_TITLE_KEYS[group.id])}</p>
+            {group.id === 'history' && (
               <button
-                key={item.query}
                 type="button"
-                onClick={() => handleSelect(item.query)}
-                className="rounded-full bg-surface px-3 py-1 text-sm text-foreground transition-colors hover:bg-brand hover:text-white"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  clearHistory().catch(() => {
+                    // ignore: cleared on this device, the server copy comes back on the next sync
+                  })
+                }}
+                className="text-xs text-foreground-muted hover:text-foreground"
               >
-                {item.query}
+                {t('search.clear_history')}
               </button>
-            ))}
+            )}
           </div>
-        </div>
-      )}
 
-      {/* Search history */}
-      {history.length > 0 && (
-        <div className="p-3">
-          <div className="mb-2 flex items-center justify-between">
-            <p className="text-xs font-medium uppercase text-foreground-muted">
-              {t('search.history')}
-            </p>
-            <button
-              type="button"
-              onClick={clearHistory}
-              className="text-xs text-foreground-muted hover:text-foreground"
-            >
-              {t('search.clear_history')}
-            </button>
-          </div>
-          <ul className="space-y-1">
-            {history.map((query) => (
-              <li key={query}>
-                <button
-                  type="button"
-                  onClick={() => handleSelect(query)}
-                  className="group flex w-full items-center justify-between rounded-md px-2 py-1.5 text-left text-sm text-foreground hover:bg-surface-hover"
+          {group.id === 'popular' ? (
+            <div className="flex flex-wrap gap-2">
+              {group.items.map((item, i) => (
+                <span
+                  key={item.key}
+                  {...optionProps(start + i, item)}
+                  className={`cursor-pointer rounded-full px-3 py-1 text-sm transition-colors hover:bg-brand hover:text-white ${
+                    start + i === activeIndex ? 'bg-brand text-white' : 'bg-surface text-foreground'
+                  }`}
                 >
-                  <span className="flex items-center gap-2">
-                    <span className="text-foreground-muted">&#128337;</span>
-                    {query}
-                  </span>
-                  <span
-                    role="button"
-                    tabIndex={0}
-                    onClick={(e) => handleRemoveHistory(e, query)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' || e.key === ' ') {
-                        handleRemoveHistory(e as unknown as React.MouseEvent, query)
-                      }
-                    }}
-                    className="opacity-0 transition-opacity group-hover:opacity-100 hover:text-error"
-                    aria-label={t('search.remove_from_history')}
-                  >
-                    &times;
-                  </span>
-                </button>
-              </li>
-            ))}
-          </ul>
+                  {item.kind === 'popular' && item.query}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <ul className="space-y-1">
+              {group.items.map((item, i) => (
+                <li key={item.key} {...optionProps(start + i, item)} className={rowClass(start + i)}>
+                  <SuggestionRow item={item} query={query} onRemoveHistory={handleRemoveHistory} />
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
-      )}
+      ))}
     </div>
   )
 }
+
+interface SuggestionRowProps {
+  item: TypeaheadItem
+  query: string
+  onRemoveHistory: (e: React.MouseEvent, query: string) => void
+}
+
+function SuggestionRow({ item, query, onRemoveHistory }: SuggestionRowProps) {
+  const { t } = useTranslation()
+
+  switch (item.kind) {
+    case 'history':
+      return (
+        <>
+          <span className="flex items-center gap-2">
+            <span className="text-foreground-muted">&#128337;</span>
+            {item.query}
+          </span>
+          <span
+            role="button"
+            tabIndex={-1}
+            onClick={(e) => onRemoveHistory(e, item.query)}
+            className="opacity-0 transition-opacity group-hover:opacity-100 hover:text-error"
+            aria-label={t('search.remove_from_history')}
+          >
+            &times;
+          </span>
+        </>
+      )
+    case 'category':
+      return (
+        <span className="flex items-center gap-2">
+          <span className="w-5 text-center">{item.category.emoji ?? '📁'}</span>
+          <HighlightMatch text={item.category.name} query={query} />
+        </span>
+      )
+    case 'store':
+      return (
+        <>
+          <span className="flex items-center gap-2">
+            <span className="w-5 text-center">🏪</span>
+            <HighlightMatch text={item.store.name} query={query} />
+          </span>
+          <span className="text-xs text-foreground-muted">
+            {t('storePage.productCount', { count: item.store.productCount })}
+          </span>
+        </>
+      )
+    case 'tag':
+      return (
+        <span className="flex items-center gap-2">
+          <span className="w-5 text-center text-foreground-muted">#</span>
+          <HighlightMatch text={item.tag.name} query={query} />
+        </span>
+      )
+    case 'product':
+      return (
+        <>
+          <span className="flex min-w-0 items-center gap-2">
+            {item.product.baseImageUrl ? (
+              <img src={item.product.baseImageUrl} alt="" className="h-8 w-8 flex-shrink-0 rounded object-cover" />
+            ) : (
+              <span className="h-8 w-8 flex-shrink-0 rounded bg-foreground/5" />
+            )}
+            <span className="truncate">
+              <HighlightMatch text={item.product.name} query={query} />
+            </span>
+          </span>
+          {item.product.minPrice != null && (
+            <span className="flex-shrink-0 text-xs text-foreground-muted">{`${item.product.minPrice.toFixed(2)} ₴`}</span>
+          )}
+        </>
+      )
+    default:
+      return null
+  }
+}
@@ -0,0 +1,96 @@
+import type { ProductFilterRequest } from '../api/catalogApi'
+import type { OrderStatus } from '../api/ordersApi'
+import type { ProductQuestionsParams, QuestionStatus } from '../api/questionsApi'
+import type { ProductReviewsParams, ReviewStatus } from '../api/reviewsApi'
+
+// Single source of TanStack Query keys.
+// Every key starts with its domain's `all` key, so `invalidateQueries({ queryKey: queryKeys.x.all })`
+// refreshes everything cached for that domain.
+
+export interface OrdersListParams {
+  status?: OrderStatus | null
+  sortBy?: string | null
+  pageNumber?: number
+  pageSize?: number
+}
+
+export const queryKeys = {
+  products: {
+    all: ['products'] as const,
+    detail: (slug: string, skuCode?: string | null) => [...queryKeys.products.all, 'detail', slug, skuCode ?? null] as const,
+    byId: (id: string) => [...queryKeys.products.all, 'byId', id] as const,
+    related: (productId: string) => [...queryKeys.products.all, 'related', productId] as const,
+    boughtTogether: (productId: string) => [...queryKeys.products.all, 'boughtTogether', productId] as const,
+    filter: (request: ProductFilterRequest) => [...queryKeys.products.all, 'filter', request] as const,
+    infinite: (request: ProductFilterRequest) => [...queryKeys.products.all, 'infinite', request] as const,
+    my: () => [...queryKeys.products.all, 'my'] as const,
+  },
+  categories: {
+    all: ['categories'] as const,
+    list: () => [...queryKeys.categories.all, 'list'] as const,
+    bySlug: (slug: string) => [...queryKeys.categories.all, 'slug', slug] as const,
+    filters: (categoryId: string) => [...queryKeys.categories.all, 'filters', categoryId] as const,
+    facets: (categoryId: string, request: ProductFilterRequest) =>
+      [...queryKeys.categories.all, 'facets', categoryId, request] as const,
+  },
+  tags: {
+    all: ['tags'] as const,
+    list: () => [...queryKeys.tags.all, 'list'] as const,
+  },
+  attributeDefinitions: {
+    all: ['attributeDefinitions'] as const,
+    list: () => [...queryKeys.attributeDefinitions.all, 'list'] as const,
+  },
+  stores: {
+    all: ['stores'] as const,
+    bySlug: (slug: string) => [...queryKeys.stores.all, 'slug', slug] as const,
+    filters: (storeId: string) => [...queryKeys.stores.all, 'filters', storeId] as const,
+    facets: (storeId: string, request: ProductFilterRequest) =>
+      [...queryKeys.stores.all, 'facets', storeId, request] as const,
+    admin: (includeUnverified: boolean) => [...queryKeys.stores.all, 'admin', includeUnverified] as const,
+    my: (userId: string) => [...queryKeys.stores.all, 'my', userId] as const,
+  },
+  search: {
+    all: ['search'] as const,
+    suggestions: (query: string) => [...queryKeys.search.all, 'suggestions', query] as const,
+    filters: (query: string, tagIds: string[]) => [...queryKeys.search.all, 'filters', query, tagIds] as const,
+    facets: (request: ProductFilterRequest) => [...queryKeys.search.all, 'facets', request] as const,
+    popular: (limit: number) => [...queryKeys.search.all, 'popular', limit] as const,
+  },
+  orders: {
+    all: ['orders'] as const,
+    list: (params: OrdersListParams) => [...queryKeys.orders.all, 'list', params] as const,
+    detail: (orderId: string) => [...queryKeys.orders.all, 'detail', orderId] as const,
+    history: (orderId: string) => [...queryKeys.orders.all, 'history', orderId] as const,
+  },
+  reviews: {
+    all: ['reviews'] as const,
+    product: (productId: string, params: ProductReviewsParams) =>
+      [...queryKeys.reviews.all, 'product', productId, params] as const,
+    summary: (productId: string) => [...queryKeys.reviews.all, 'summary', productId] as const,
+    my: () => [...queryKeys.reviews.all, 'my'] as const,
+    store: (replied: boolean | null, page: number) => [...queryKeys.reviews.all, 'store', replied, page] as const,
+    moderation: (status: ReviewStatus | null, maxRating: number | null, page: number) =>
+      [...queryKeys.reviews.all, 'moderation', status, maxRating, page] as const,
+  },
+  questions: {
+    all: ['questions'] as const,
+    product: (productId: string, params: ProductQuestionsParams) =>
+      [...queryKeys.questions.all, 'product', productId, params] as const,
+    store: (answered: boolean | null, page: number) => [...queryKeys.questions.all, 'store', answered, page] as const,
+    moderation: (status: QuestionStatus | null, page: number) =>
+      [...queryKeys.questions.all, 'moderation', status, page] as const,
+  },
+  cart: {
+    all: ['cart'] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    admin: () => [...queryKeys.users.all, 'admin'] as const,
+  },
+  roles: {
+    all: ['roles'] as const,
+    list: () => [...queryKeys.roles.all, 'list'] as const,
+    permissions: () => [...queryKeys.roles.all, 'permissions'] as const,
+  },
+}
@@ -0,0 +1,77 @@
+import { useQuery } from '@tanstack/react-query'
+import {
+  assignUserRoles,
+  createRole,
+  deleteRole,
+  getAdminUsers,
+  getAllPermissions,
+  getRoles,
+  lockUser,
+  unlockUser,
+  updateRole,
+  type AssignUserRolesDto,
+  type CreateRoleDto,
+  type UpdateRoleDto,
+} from '../api/adminApi'
+import { unwrapServiceResponse } from '../api/types'
+import { queryKeys } from './queryKeys'
+import { useServiceMutation } from './useServiceMutation'
+
+// Users
+
+export function useAdminUsers() {
+  return useQuery({
+    queryKey: queryKeys.users.admin(),
+    queryFn: async () => unwrapServiceResponse(await getAdminUsers()) ?? [],
+  })
+}
+
+export function useAssignUserRoles() {
+  return useServiceMutation(
+    ({ userId, dto }: { userId: string; dto: AssignUserRolesDto }) => assignUserRoles(userId, dto),
+    [queryKeys.users.all]
+  )
+}
+
+export function useLockUser() {
+  return useServiceMutation((userId: string) => lockUser(userId), [queryKeys.users.all])
+}
+
+export function useUnlockUser() {
+  return useServiceMutation((userId: string) => unlockUser(userId), [queryKeys.users.all])
+}
+
+// Roles & permissions
+
+export function useRoles() {
+  return useQuery({
+    queryKey: queryKeys.roles.list(),
+    queryFn: async () => unwrapServiceResponse(await getRoles()) ?? [],
+  })
+}
+
+export function usePermissions() {
+  return useQuery({
+    queryKey: queryKeys.roles.permissions(),
+    queryFn: async () => unwrapServiceResponse(await getAllPermissions()) ?? {},
+    // Permissions are defined in code on the backend and do not change at runtime
+    staleTime: Infinity,
+  })
+}
+
+// Users list shows role names, so role changes refresh it as well
+
+export function useCreateRole() {
+  return useServiceMutation((dto: CreateRoleDto) => createRole(dto), [queryKeys.roles.all, queryKeys.users.all])
+}
+
+export function useUpdateRole() {
+  return useServiceMutation(
+    ({ id, dto }: { id: string; dto: UpdateRoleDto }) => updateRole(id, dto),
+    [queryKeys.roles.all, queryKeys.users.all]
+  )
+}
+
+export function useDeleteRole() {
+  return useServiceMutation((id: string) => deleteRole(id), [queryKeys.roles.all, queryKeys.users.all])
+}
@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query'
+import {
+  attributeDefinitionsApi,
+  type CreateAttributeDefinitionRequest,
+  type UpdateAttributeDefinitionRequest,
+} from '../api/attributeDefinitionsApi'
+import { unwrapServiceResponse } from '../api/types'
+import { queryKeys } from './queryKeys'
+import { useServiceMutation } from './useServiceMutation'
+
+// Category filters are built from attribute definitions, so changes refresh them too
+const affectedKeys = [queryKeys.attributeDefinitions.all, queryKeys.categories.all]
+
+export function useAttributeDefinitions() {
+  return useQuery({
+    queryKey: queryKeys.attributeDefinitions.list(),
+    queryFn: async () => unwrapServiceResponse(await attributeDefinitionsApi.getAll()) ?? [],
+  })
+}
+
+export function useCreateAttributeDefinition() {
+  return useServiceMutation(
+    (data: CreateAttributeDefinitionRequest) => attributeDefinitionsApi.create(data),
+    affectedKeys
+  )
+}
+
+export function useUpdateAttributeDefinition() {
+  return useServiceMutation(
+    ({ id, data }: { id: string; data: UpdateAttributeDefinitionRequest }) => attributeDefinitionsApi.update(id, data),
+    affectedKeys
+  )
+}
+
+export function useDeleteAttributeDefinition() {
+  return useServiceMutation((id: string) => attributeDefinitionsApi.delete(id), affectedKeys)
+}
@@ -1,14 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { cartApi, type CartDto, type AddToCartRequest } from '../api/cartApi'
 import { unwrapServiceResponse } from '../api/types'
-
-const CART_QUERY_KEY = 'cart'
+import { queryKeys } from './queryKeys'
 
 export function useCart() {
   const queryClient = useQueryClient()
 
   const { data: cart, isLoading, error } = useQuery<CartDto | null>({
-    queryKey: [CART_QUERY_KEY],
+    queryKey: queryKeys.cart.all,
     queryFn: async () => {
       try {
         const response = await cartApi.getCart()
@@ -23,7 +22,7 @@ export function useCart() {
   const addToCartMutation = useMutation({
     mutationFn: (data: AddToCartRequest) => cartApi.addToCart(data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [CART_QUERY_KEY] })
+      queryClient.invalidateQueries({ queryKey: queryKeys.cart.all })
     },
   })
 
@@ -31,21 +30,21 @@ export function useCart() {
     mutationFn: ({ cartItemId, quantity }: { cartItemId: string; quantity: number }) =>
       cartApi.updateQuantity(cartItemId, { quantity }),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [CART_QUERY_KEY] })
+      queryClient.invalidateQueries({ queryKey: queryKeys.cart.all })
     },
   })
 
   const removeFromCartMutation = useMutation({
     mutationFn: (cartItemId: string) => cartApi.removeFromCart(cartItemId),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [CART_QUERY_KEY] })
+      queryClient.invalidateQueries({ queryKey: queryKeys.cart.all })
     },
   })
 
   const clearCartMutation = useMutation({
     mutationFn: () => cartApi.clearCart(),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [CART_QUERY_KEY] })
+      queryClient.invalidateQueries({ queryKey: queryKeys.cart.all })
     },
   })
 
@@ -0,0 +1,176 @@
+import { keepPreviousData, useInfiniteQuery, useQueries, useQuery } from '@tanstack/react-query'
+import {
+  categoriesApi,
+  productsApi,
+  tagsApi,
+  type CreateCategoryRequest,
+  type CreateTagRequest,
+  type ProductFilterRequest,
+  type UpdateCategoryRequest,
+  type UpdateTagRequest,
+} from '../api/catalogApi'
+import { unwrapServiceResponse } from '../api/types'
+import { queryKeys } from './queryKeys'
+import { useServiceMutation } from './useServiceMutation'
+
+// Products
+
+export function useProduct(slug: string | undefined, skuCode?: string) {
+  return useQuery({
+    queryKey: queryKeys.products.detail(slug ?? '', skuCode),
+    queryFn: async () => unwrapServiceResponse(await productsApi.getBySlug(slug!, skuCode)),
+    enabled: !!slug,
+    // Switching SKU changes the key; keep showing the product meanwhile, but never another product's details
+    placeholderData: (previous) => (previous?.slug === slug ? previous : undefined),
+  })
+}
+
+export function useProductById(id: string | null | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.byId(id ?? ''),
+    queryFn: async () => unwrapServiceResponse(await productsApi.getById(id!)),
+    enabled: !!id,
+  })
+}
+
+/** Products similar to the given one by category, tags and SKU attributes */
+export function useRelatedProducts(productId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.related(productId ?? ''),
+    queryFn: async () => unwrapServiceResponse(await productsApi.getRelated(productId!)),
+    enabled: !!productId,
+    staleTime: 1000 * 60 * 10,
+  })
+}
+
+/** Products most often ordered together with the given one, each with the SKU to add to the cart */
+export function useFrequentlyBoughtTogether(productId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.boughtTogether(productId ?? ''),
+    queryFn: async () => unwrapServiceResponse(await productsApi.getFrequentlyBoughtTogether(productId!)),
+    enabled: !!productId,
+    staleTime: 1000 * 60 * 10,
+  })
+}
+
+/** Details of several products at once (compare page); shares the cache with useProduct */
+export function useProductsBySlugs(slugs: string[]) {
+  return useQueries({
+    queries: slugs.map((slug) => ({
+      queryKey: queryKeys.products.detail(slug),
+      queryFn: async () => unwrapServiceResponse(await productsApi.getBySlug(slug)),
+    })),
+  })
+}
+
+export function useFilteredProducts(request: ProductFilterRequest | null) {
+  return useQuery({
+    queryKey: queryKeys.products.filter(request ?? {}),
+    // TanStack Query aborts the signal once the key changes, so a slow page never lands late
+    queryFn: async ({ signal }) => unwrapServiceResponse(await productsApi.filter(request!, signal)),
+    enabled: !!request,
+    placeholderData: keepPreviousData,
+  })
+}
+
+/** Several product listings at once (one per request); shares the cache with useFilteredProducts */
+export function useFilteredProductsBatch(requests: ProductFilterRequest[]) {
+  return useQueries({
+    queries: requests.map((request) => ({
+      queryKey: queryKeys.products.filter(request),
+      queryFn: async ({ signal }: { signal: AbortSignal }) => unwrapServiceResponse(await productsApi.filter(request, signal)),
+    })),
+  })
+}
+
+/**
+ * Infinite-scroll variant of useFilteredProducts: pages of `request` are appended one after another.
+ * `request.page` is ignored; loaded pages stay cached, so coming back from a product restores them.
+ */
+export function useInfiniteFilteredProducts(request: ProductFilterRequest | null) {
+  const baseRequest: ProductFilterRequest = { ...request, page: undefined }
+  return useInfiniteQuery({
+    queryKey: queryKeys.products.infinite(baseRequest),
+    queryFn: async ({ pageParam, signal }) =>
+      unwrapServiceResponse(await productsApi.filter({ ...baseRequest, page: pageParam }, signal)),
+    initialPageParam: 1,
+    getNextPageParam: (last) => (last.page * last.pageSize < last.total ? last.page + 1 : undefined),
+    enabled: !!request,
+  })
+}
+
+// Categories
+
+export function useCategories() {
+  return useQuery({
+    queryKey: queryKeys.categories.list(),
+    queryFn: async () => unwrapServiceResponse(await categoriesApi.getAll()) ?? [],
+  })
+}
+
+export function useCategoryBySlug(slug: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.categories.bySlug(slug ?? ''),
+    queryFn: async () => unwrapServiceResponse(await categoriesApi.getBySlug(slug!)),
+    enabled: !!slug,
+  })
+}
+
+export function useCategoryFilters(categoryId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.categories.filters(categoryId ?? ''),
+    queryFn: async () => unwrapServiceResponse(await categoriesApi.getAvailableFilters(categoryId!)),
+    enabled: !!categoryId,
+  })
+}
+
+/** Facet counts for the filters in `request`; sort and paging do not affect counts and are left out of the key */
+export function useCategoryFacets(categoryId: string | undefined, request: ProductFilterRequest | null) {
+  const facetRequest: ProductFilterRequest = { ...request, sort: undefined, page: undefined, pageSize: undefined }
+  return useQuery({
+    queryKey: queryKeys.categories.facets(categoryId ?? '', facetRequest),
+    queryFn: async ({ signal }) => unwrapServiceResponse(await categoriesApi.getFacets(categoryId!, facetRequest, signal)),
+    enabled: !!categoryId && !!request,
+    // Keep showing the last counts while the next ones load instead of flashing empty
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useCreateCategory() {
+  return useServiceMutation((data: CreateCategoryRequest) => categoriesApi.create(data), [queryKeys.categories.all])
+}
+
+export function useUpdateCategory() {
+  return useServiceMutation(
+    ({ id, data }: { id: string; data: UpdateCategoryRequest }) => categoriesApi.update(id, data),
+    [queryKeys.categories.all]
+  )
+}
+
+export function useDeleteCategory() {
+  return useServiceMutation((id: string) => categoriesApi.delete(id), [queryKeys.categories.all])
+}
+
+// Tags
+
+export function useTags() {
+  return useQuery({
+    queryKey: queryKeys.tags.list(),
+    queryFn: async () => unwrapServiceResponse(await tagsApi.getAll()) ?? [],
+  })
+}
+
+export function useCreateTag() {
+  return useServiceMutation((data: CreateTagRequest) => tagsApi.create(data), [queryKeys.tags.all])
+}
+
+export function useUpdateTag() {
+  return useServiceMutation(
+    ({ id, data }: { id: string; data: UpdateTagRequest }) => tagsApi.update(id, data),
+    [queryKeys.tags.all]
+  )
+}
+
+export function useDeleteTag() {
+  return useServiceMutation((id: string) => tagsApi.delete(id), [queryKeys.tags.all])
+}
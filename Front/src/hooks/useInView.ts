@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Whether the element has come near the viewport; stays true once it has, so content mounted on it is not torn down
+ * again. Attach the returned callback as `ref`. Without IntersectionObserver the element counts as visible.
+ */
+export function useInView<T extends Element>(rootMargin = '200px 0px') {
+  const [element, setElement] = useState<T | null>(null)
+  const [inView, setInView] = useState(() => typeof IntersectionObserver === 'undefined')
+
+  useEffect(() => {
+    if (!element || inView) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) setInView(true)
+      },
+      { rootMargin }
+    )
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [element, inView, rootMargin])
+
+  return [setElement, inView] as const
+}
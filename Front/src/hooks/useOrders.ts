@@ -1,37 +1,29 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { ordersApi, type OrderDetailDto, type OrderStatus, type PagedOrdersResult } from '../api/ordersApi'
+import { ordersApi, type OrderDetailDto, type PagedOrdersResult } from '../api/ordersApi'
 import { unwrapServiceResponse } from '../api/types'
+import { queryKeys, type OrdersListParams } from './queryKeys'
 
-const ORDERS_QUERY_KEY = 'orders'
-
-interface UseOrdersParams {
-  status?: OrderStatus | null
-  pageNumber?: number
-  pageSize?: number
-}
-
-export function useOrders(params: UseOrdersParams = {}) {
+export function useOrders(params: OrdersListParams = {}, options: { enabled?: boolean } = {}) {
   const queryClient = useQueryClient()
-  const { status, pageNumber = 1, pageSize = 10 } = params
+  const { status = null, sortBy = 'CreatedAt', pageNumber = 1, pageSize = 10 } = params
 
-  const { data, isLoading, error } = useQuery<PagedOrdersResult | null>({
-    queryKey: [ORDERS_QUERY_KEY, { status, pageNumber, pageSize }],
+  const { data, isLoading, isFetching, error, refetch } = useQuery<PagedOrdersResult>({
+    queryKey: queryKeys.orders.list({ status, sortBy, pageNumber, pageSize }),
     queryFn: async () => {
-      try {
-        const response = await ordersApi.getOrders(status, null, null, 'CreatedAt', true, pageNumber, pageSize)
-        return unwrapServiceResponse(response)
-      } catch {
-        return null
-      }
+      const response = await ordersApi.getOrders(status, null, null, sortBy, true, pageNumber, pageSize)
+      return unwrapServiceResponse(response)
     },
     staleTime: 1000 * 60 * 2, // 2 minutes
+    enabled: options.enabled ?? true,
   })
 
   const cancelOrderMutation = useMutation({
     mutationFn: ({ orderId, reason }: { orderId: string; reason?: string }) =>
       ordersApi.cancelOrder(orderId, { reason }),
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [ORDERS_QUERY_KEY] })
+    onSuccess: (response) => {
+      if (response.isSuccess) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.orders.all })
+      }
     },
   })
 
@@ -40,7 +32,9 @@ export function useOrders(params: UseOrdersParams = {}) {
     totalCount: data?.totalCount ?? 0,
     totalPages: data?.totalPages ?? 1,
     isLoading,
+    isFetching,
     error,
+    refetch,
     cancelOrder: cancelOrderMutation.mutateAsync,
     isCancelling: cancelOrderMutation.isPending,
   }
@@ -48,7 +42,7 @@ export function useOrders(params: UseOrdersParams = {}) {
 
 export function useOrder(orderId: string | null) {
   const { data: order, isLoading, error } = useQuery<OrderDetailDto | null>({
-    queryKey: [ORDERS_QUERY_KEY, 'detail', orderId],
+    queryKey: queryKeys.orders.detail(orderId ?? ''),
     queryFn: async () => {
       if (!orderId) return null
       try {
@@ -67,7 +61,7 @@ export function useOrder(orderId: string | null) {
 
 export function useOrderStatusHistory(orderId: string | null) {
   const { data: history, isLoading } = useQuery({
-    queryKey: [ORDERS_QUERY_KEY, 'history', orderId],
+    queryKey: queryKeys.orders.history(orderId ?? ''),
     queryFn: async () => {
       if (!orderId) return null
       try {
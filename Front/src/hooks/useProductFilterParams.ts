@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { ProductSort } from '../api/catalogApi'
+import {
+  emptyProductFilterState,
+  parseProductFilterParams,
+  serializeProductFilterParams,
+  type ProductFilterState,
+} from '../utils/productFilterParams'
+
+export interface SetProductFiltersOptions {
+  // Overwrite the current history entry instead of adding one (e.g. while typing a price)
+  replace?: boolean
+}
+
+type ProductFiltersUpdate = Partial<ProductFilterState> | ((prev: ProductFilterState) => ProductFilterState)
+
+/**
+ * Product listing filters backed by the query string.
+ * Each change is a history entry, so back/forward step through filter changes.
+ * A partial update that does not set `page` returns to the first page.
+ */
+export function useProductFilterParams(defaultSort: ProductSort = ProductSort.Newest) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = useMemo(() => parseProductFilterParams(searchParams, defaultSort), [searchParams, defaultSort])
+
+  const setFilters = useCallback(
+    (update: ProductFiltersUpdate, { replace = false }: SetProductFiltersOptions = {}) => {
+      setSearchParams(
+        (prev) => {
+          const current = parseProductFilterParams(prev, defaultSort)
+          const next = typeof update === 'function' ? update(current) : { ...current, page: 1, ...update }
+          return serializeProductFilterParams(next, prev, defaultSort)
+        },
+        { replace }
+      )
+    },
+    [setSearchParams, defaultSort]
+  )
+
+  // Clears filters and paging; the chosen sort is kept
+  const resetFilters = useCallback(
+    () => setFilters((prev) => ({ ...emptyProductFilterState, sort: prev.sort })),
+    [setFilters]
+  )
+
+  return { filters, setFilters, resetFilters }
+}
@@ -0,0 +1,62 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import { questionsApi, type ProductQuestionsParams, type QuestionStatus } from '../api/questionsApi'
+import { unwrapServiceResponse } from '../api/types'
+import { queryKeys } from './queryKeys'
+import { useServiceMutation } from './useServiceMutation'
+
+// Product page
+
+export function useProductQuestions(productId: string | undefined, params: ProductQuestionsParams) {
+  return useQuery({
+    queryKey: queryKeys.questions.product(productId ?? '', params),
+    queryFn: async () => unwrapServiceResponse(await questionsApi.getProductQuestions(productId!, params)),
+    enabled: !!productId,
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useAskQuestion() {
+  return useServiceMutation(
+    ({ productId, text }: { productId: string; text: string }) => questionsApi.ask(productId, text),
+    [queryKeys.questions.all]
+  )
+}
+
+export function useToggleQuestionUpvote() {
+  return useServiceMutation((id: string) => questionsApi.toggleUpvote(id), [queryKeys.questions.all])
+}
+
+// Store cabinet (the seller can also answer right on the product page)
+
+export function useStoreQuestions(answered: boolean | null, page: number) {
+  return useQuery({
+    queryKey: queryKeys.questions.store(answered, page),
+    queryFn: async () => unwrapServiceResponse(await questionsApi.getStoreQuestions(answered, page)),
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useAnswerQuestion() {
+  return useServiceMutation(
+    ({ id, answer }: { id: string; answer: string }) => questionsApi.answer(id, answer),
+    [queryKeys.questions.all]
+  )
+}
+
+// Admin moderation
+
+export function useQuestionsForModeration(status: QuestionStatus | null, page: number) {
+  return useQuery({
+    queryKey: queryKeys.questions.moderation(status, page),
+    queryFn: async () => unwrapServiceResponse(await questionsApi.getForModeration(status, page)),
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useModerateQuestion() {
+  return useServiceMutation(
+    ({ id, status, reason }: { id: string; status: QuestionStatus; reason?: string | null }) =>
+      questionsApi.moderate(id, status, reason),
+    [queryKeys.questions.all]
+  )
+}
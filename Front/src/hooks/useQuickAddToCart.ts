@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react'
+import { productsApi } from '../api/catalogApi'
+import { useCartStore } from '../store/cartStore'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger('cart')
+
+// How long the outcome stays on screen
+const RESULT_TIMEOUT_MS = 4000
+
+export type QuickAddResult = { productId: string; added: boolean }
+
+/**
+ * "Add to cart" on a product card, which has no SKU picker: the first SKU in stock goes to the cart.
+ * `result` is the outcome of the last click, for a status line next to the cards; it clears itself after a few seconds.
+ */
+export function useQuickAddToCart() {
+  const addToCart = useCartStore((state) => state.addToCart)
+  const [result, setResult] = useState<QuickAddResult | null>(null)
+
+  useEffect(() => {
+    if (!result) return
+    const timer = setTimeout(() => setResult(null), RESULT_TIMEOUT_MS)
+    return () => clearTimeout(timer)
+  }, [result])
+
+  const quickAdd = useCallback(
+    async (productId: string) => {
+      setResult(null)
+      try {
+        const response = await productsApi.getById(productId)
+        const skus = response.isSuccess ? response.payload?.skus ?? [] : []
+        const sku = skus.find((s) => s.stockQuantity > 0) ?? skus[0]
+        // The cart store logs its own failures
+        const added = sku ? await addToCart(productId, sku.id, 1) : false
+        setResult({ productId, added })
+      } catch (error) {
+        log.warn('Failed to load product for add to cart', productId, error)
+        setResult({ productId, added: false })
+      }
+    },
+    [addToCart]
+  )
+
+  return { quickAdd, result }
+}
@@ -0,0 +1,87 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import {
+  reviewsApi,
+  type CreateReviewRequest,
+  type ProductReviewsParams,
+  type ReviewStatus,
+} from '../api/reviewsApi'
+import { unwrapServiceResponse } from '../api/types'
+import { queryKeys } from './queryKeys'
+import { useServiceMutation } from './useServiceMutation'
+
+// Product page
+
+export function useProductReviews(productId: string | undefined, params: ProductReviewsParams) {
+  return useQuery({
+    queryKey: queryKeys.reviews.product(productId ?? '', params),
+    queryFn: async () => unwrapServiceResponse(await reviewsApi.getProductReviews(productId!, params)),
+    enabled: !!productId,
+    placeholderData: keepPreviousData,
+  })
+}
+
+/** Average rating and star histogram of a product */
+export function useRatingSummary(productId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.reviews.summary(productId ?? ''),
+    queryFn: async () => unwrapServiceResponse(await reviewsApi.getSummary(productId!)),
+    enabled: !!productId,
+  })
+}
+
+export function useToggleReviewHelpful() {
+  return useServiceMutation((id: string) => reviewsApi.toggleHelpful(id), [queryKeys.reviews.all])
+}
+
+// Buyer
+
+export function useMyReviews(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.reviews.my(),
+    queryFn: async () => unwrapServiceResponse(await reviewsApi.getMy()) ?? [],
+    enabled: options.enabled ?? true,
+  })
+}
+
+// A new review moves the product's average rating, so cached listings are refreshed as well
+export function useCreateReview() {
+  return useServiceMutation(
+    (data: CreateReviewRequest) => reviewsApi.create(data),
+    [queryKeys.reviews.all, queryKeys.products.all]
+  )
+}
+
+// Store cabinet
+
+export function useStoreReviews(replied: boolean | null, page: number) {
+  return useQuery({
+    queryKey: queryKeys.reviews.store(replied, page),
+    queryFn: async () => unwrapServiceResponse(await reviewsApi.getStoreReviews(replied, page)),
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useReplyToReview() {
+  return useServiceMutation(
+    ({ id, reply }: { id: string; reply: string }) => reviewsApi.reply(id, reply),
+    [queryKeys.reviews.all]
+  )
+}
+
+// Admin moderation
+
+export function useReviewsForModeration(status: ReviewStatus | null, maxRating: number | null, page: number) {
+  return useQuery({
+    queryKey: queryKeys.reviews.moderation(status, maxRating, page),
+    queryFn: async () => unwrapServiceResponse(await reviewsApi.getForModeration(status, maxRating, page)),
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useModerateReview() {
+  return useServiceMutation(
+    ({ id, status, reason }: { id: string; status: ReviewStatus; reason?: string | null }) =>
+      reviewsApi.moderate(id, status, reason),
+    [queryKeys.reviews.all, queryKeys.products.all]
+  )
+}
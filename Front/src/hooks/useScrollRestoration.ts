@@ -0,0 +1,43 @@
+import { useEffect, useRef } from 'react'
+import { useLocation, useNavigationType } from 'react-router-dom'
+
+const STORAGE_PREFIX = 'scroll:'
+
+/**
+ * Brings the window back to where it was when the user returns to this history entry (back/forward).
+ * BrowserRouter has no built-in restoration, and the browser's own runs before async content renders.
+ * Pass `ready` once the content that gives the page its height is on screen.
+ */
+export function useScrollRestoration(ready: boolean) {
+  const location = useLocation()
+  const navigationType = useNavigationType()
+  const storageKey = `${STORAGE_PREFIX}${location.key}`
+  const handledKey = useRef<string | null>(null)
+
+  // Remember the position of this entry as the user scrolls
+  useEffect(() => {
+    let frame = 0
+    const save = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() => {
+        sessionStorage.setItem(storageKey, String(Math.round(window.scrollY)))
+      })
+    }
+    window.addEventListener('scroll', save, { passive: true })
+    return () => {
+      window.removeEventListener('scroll', save)
+      cancelAnimationFrame(frame)
+    }
+  }, [storageKey])
+
+  useEffect(() => {
+    if (!ready || handledKey.current === storageKey) return
+    handledKey.current = storageKey
+    if (navigationType !== 'POP') return
+
+    const saved = Number(sessionStorage.getItem(storageKey))
+    if (saved > 0) {
+      window.scrollTo(0, saved)
+    }
+  }, [ready, navigationType, storageKey])
+}
@@ -0,0 +1,45 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import type { ProductFilterRequest } from '../api/catalogApi'
+import { searchApi } from '../api/searchApi'
+import { unwrapServiceResponse } from '../api/types'
+import { queryKeys } from './queryKeys'
+
+/** Stores and products for the search bar typeahead; pass an already debounced query */
+export function useSearchSuggestions(query: string) {
+  return useQuery({
+    queryKey: queryKeys.search.suggestions(query),
+    queryFn: async ({ signal }) => unwrapServiceResponse(await searchApi.getSuggestions(query, signal)),
+    enabled: query.length >= 2,
+    staleTime: 1000 * 60,
+    placeholderData: keepPreviousData,
+  })
+}
+
+/** Filter options of the search results; `tagIds` are the scope when there is no query (a tag picked in the search bar) */
+export function useSearchFilters(query: string, tagIds: string[] = []) {
+  return useQuery({
+    queryKey: queryKeys.search.filters(query, tagIds),
+    queryFn: async () => unwrapServiceResponse(await searchApi.getAvailableFilters(query, tagIds)),
+    enabled: !!query || tagIds.length > 0,
+  })
+}
+
+/** Search counterpart of useCategoryFacets; the search text travels in `request.query`, or the tags alone scope the results */
+export function useSearchFacets(request: ProductFilterRequest | null) {
+  const facetRequest: ProductFilterRequest = { ...request, sort: undefined, page: undefined, pageSize: undefined }
+  return useQuery({
+    queryKey: queryKeys.search.facets(facetRequest),
+    queryFn: async ({ signal }) => unwrapServiceResponse(await searchApi.getFacets(facetRequest, signal)),
+    enabled: !!request?.query || !!request?.tagIds?.length,
+    placeholderData: keepPreviousData,
+  })
+}
+
+/** Most searched queries, most popular first; they change slowly, so they are not refetched often */
+export function usePopularQueries(limit: number) {
+  return useQuery({
+    queryKey: queryKeys.search.popular(limit),
+    queryFn: async () => unwrapServiceResponse(await searchApi.getPopular(limit)) ?? [],
+    staleTime: 1000 * 60 * 10,
+  })
+}
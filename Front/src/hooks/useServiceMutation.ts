@@ -0,0 +1,21 @@
+import { useMutation, useQueryClient, type QueryKey } from '@tanstack/react-query'
+import type { ServiceResponse } from '../api/types'
+
+/**
+ * Mutation over an `*Api` call that resolves with the raw ServiceResponse (callers keep checking
+ * `isSuccess`/`message`) and invalidates `invalidates` once the server accepted the change.
+ */
+export function useServiceMutation<TVariables, TResponse extends ServiceResponse>(
+  mutationFn: (variables: TVariables) => Promise<TResponse>,
+  invalidates: QueryKey[]
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSuccess: async (response) => {
+      if (!response.isSuccess) return
+      await Promise.all(invalidates.map((queryKey) => queryClient.invalidateQueries({ queryKey })))
+    },
+  })
+}
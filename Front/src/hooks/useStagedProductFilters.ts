@@ -0,0 +1,40 @@
+import { useState } from 'react'
+import { serializeProductFilterParams, type ProductFilterState } from '../utils/productFilterParams'
+import type { useProductFilterParams } from './useProductFilterParams'
+
+type ProductFilterParams = ReturnType<typeof useProductFilterParams>
+
+/**
+ * Sidebar edits staged on top of the applied (URL) filters and applied together.
+ * The draft is dropped as soon as the URL changes (apply, back/forward), because it was based on the previous filters.
+ */
+export function useStagedProductFilters({ filters, setFilters, resetFilters }: ProductFilterParams) {
+  const [draft, setDraft] = useState<{ base: ProductFilterState; value: ProductFilterState } | null>(null)
+  const pending = draft && draft.base === filters ? draft.value : filters
+  const hasPendingChanges =
+    serializeProductFilterParams(pending).toString() !== serializeProductFilterParams(filters).toString()
+
+  const updateDraft = (patch: Partial<ProductFilterState>) => {
+    setDraft({ base: filters, value: { ...pending, ...patch, page: 1 } })
+  }
+
+  const applyDraft = () => {
+    setFilters({ ...pending, page: 1 })
+    setDraft(null)
+  }
+
+  const discardDraft = () => setDraft(null)
+
+  const clearAllFilters = () => {
+    resetFilters()
+    setDraft(null)
+  }
+
+  // Chips and presets act on the applied filters, so staged sidebar edits are discarded
+  const applyPatch = (patch: Partial<ProductFilterState>) => {
+    setFilters(patch)
+    setDraft(null)
+  }
+
+  return { pending, hasPendingChanges, updateDraft, applyDraft, discardDraft, clearAllFilters, applyPatch }
+}
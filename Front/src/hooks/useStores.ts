@@ -0,0 +1,70 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query'
+import type { ProductFilterRequest } from '../api/catalogApi'
+import { storesApi } from '../api/storesApi'
+import { myStoreApi, storesAdminApi } from '../api/storeApi'
+import { unwrapServiceResponse } from '../api/types'
+import { useAuthStore } from '../store/authStore'
+import { queryKeys } from './queryKeys'
+import { useServiceMutation } from './useServiceMutation'
+
+export function useStore(slug: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.stores.bySlug(slug ?? ''),
+    queryFn: async () => unwrapServiceResponse(await storesApi.getBySlug(slug!)),
+    enabled: !!slug,
+  })
+}
+
+export function useStoreFilters(storeId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.stores.filters(storeId ?? ''),
+    queryFn: async () => unwrapServiceResponse(await storesApi.getAvailableFilters(storeId!)),
+    enabled: !!storeId,
+  })
+}
+
+/** Store counterpart of useCategoryFacets */
+export function useStoreFacets(storeId: string | undefined, request: ProductFilterRequest | null) {
+  const facetRequest: ProductFilterRequest = { ...request, sort: undefined, page: undefined, pageSize: undefined }
+  return useQuery({
+    queryKey: queryKeys.stores.facets(storeId ?? '', facetRequest),
+    queryFn: async ({ signal }) => unwrapServiceResponse(await storesApi.getFacets(storeId!, facetRequest, signal)),
+    enabled: !!storeId && !!request,
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Store of the signed-in user, null when they do not sell anything.
+ * Keyed by user so a different account never sees the previous one's store.
+ */
+export function useMyStore() {
+  const userId = useAuthStore((state) => state.user?.id)
+  return useQuery({
+    queryKey: queryKeys.stores.my(userId ?? ''),
+    queryFn: async () => unwrapServiceResponse(await myStoreApi.get()) ?? null,
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 5,
+  })
+}
+
+// Admin
+
+export function useAdminStores(includeUnverified = true) {
+  return useQuery({
+    queryKey: queryKeys.stores.admin(includeUnverified),
+    queryFn: async () => unwrapServiceResponse(await storesAdminApi.getAll(includeUnverified)) ?? [],
+  })
+}
+
+export function useVerifyStore() {
+  return useServiceMutation((id: string) => storesAdminApi.verify(id), [queryKeys.stores.all])
+}
+
+export function useSuspendStore() {
+  return useServiceMutation((id: string) => storesAdminApi.suspend(id), [queryKeys.stores.all])
+}
+
+export function useUnsuspendStore() {
+  return useServiceMutation((id: string) => storesAdminApi.unsuspend(id), [queryKeys.stores.all])
+}
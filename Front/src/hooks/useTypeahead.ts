@@ -0,0 +1,129 @@
+import { useMemo } from 'react'
+import type { CategoryDto, ProductSummaryDto, TagDto } from '../api/catalogApi'
+import type { PublicStoreDto } from '../api/storesApi'
+import { useSearchStore } from '../store/searchStore'
+import { useCategories, useTags } from './useCatalog'
+import { useDebouncedValue } from './useDebouncedValue'
+import { useSearchSuggestions } from './useSearch'
+
+const DEBOUNCE_MS = 250
+const MIN_QUERY_LENGTH = 2
+const MAX_LOCAL_MATCHES = 4
+
+export type TypeaheadItem =
+  | { kind: 'popular' | 'history'; key: string; query: string }
+  | { kind: 'category'; key: string; category: CategoryDto }
+  | { kind: 'store'; key: string; store: PublicStoreDto }
+  | { kind: 'tag'; key: string; tag: TagDto }
+  | { kind: 'product'; key: string; product: ProductSummaryDto }
+
+export type TypeaheadGroupId = 'popular' | 'history' | 'categories' | 'stores' | 'tags' | 'products'
+
+export interface TypeaheadGroup {
+  id: TypeaheadGroupId
+  items: TypeaheadItem[]
+}
+
+export const searchResultsHref = (query: string) => `/search?q=${encodeURIComponent(query)}`
+
+// Products having the tag; matching its name as search text would miss them
+const tagResultsHref = (tagId: string) => `/search?tag=${encodeURIComponent(tagId)}`
+
+/** Where choosing the item leads; queries and tags open the search results page */
+export function typeaheadHref(item: TypeaheadItem): string {
+  switch (item.kind) {
+    case 'popular':
+    case 'history':
+      return searchResultsHref(item.query)
+    case 'category':
+      return `/category/${item.category.slug}`
+    case 'store':
+      return `/store/${item.store.slug}`
+    case 'tag':
+      return tagResultsHref(item.tag.id)
+    case 'product':
+      return `/product/${item.product.slug}`
+  }
+}
+
+// Name matches of a cached list, prefix matches first
+function matchByName<T extends { name: string }>(list: T[] | undefined, query: string): T[] {
+  if (!list) return []
+  const normalized = query.toLowerCase()
+  return list
+    .filter((entry) => entry.name.toLowerCase().includes(normalized))
+    .sort(
+      (a, b) =>
+        Number(b.name.toLowerCase().startsWith(normalized)) - Number(a.name.toLowerCase().startsWith(normalized)) ||
+        a.name.localeCompare(b.name)
+    )
+    .slice(0, MAX_LOCAL_MATCHES)
+}
+
+/**
+ * Grouped suggestions for the search bar.
+ * Below MIN_QUERY_LENGTH characters: popular queries and history.
+ * Otherwise: categories and tags matched from their cached lists, stores and products from the API.
+ * The query is debounced here, so typing does not fire a request per keystroke.
+ */
+export function useTypeahead(rawQuery: string) {
+  const query = useDebouncedValue(rawQuery.trim(), DEBOUNCE_MS)
+  const active = query.length >= MIN_QUERY_LENGTH
+
+  const history = useSearchStore((state) => state.history)
+  const popularQueries = useSearchStore((state) => state.popularQueries)
+  const { data: categories } = useCategories()
+  const { data: tags } = useTags()
+  const { data: remote, isFetching } = useSearchSuggestions(active ? query : '')
+
+  const groups = useMemo<TypeaheadGroup[]>(() => {
+    const candidates: TypeaheadGroup[] = active
+      ? [
+          {
+            id: 'categories',
+            items: matchByName(categories, query).map((category) => ({
+              kind: 'category',
+              key: `category:${category.id}`,
+              category,
+            })),
+          },
+          {
+            id: 'stores',
+            items: (remote?.stores ?? []).map((store) => ({ kind: 'store', key: `store:${store.id}`, store })),
+          },
+          {
+            id: 'tags',
+            items: matchByName(tags, query).map((tag) => ({ kind: 'tag', key: `tag:${tag.id}`, tag })),
+          },
+          {
+            id: 'products',
+            items: (remote?.products ?? []).map((product) => ({
+              kind: 'product',
+              key: `product:${product.id}`,
+              product,
+            })),
+          },
+        ]
+      : [
+          {
+            id: 'popular',
+            items: popularQueries.map((p) => ({ kind: 'popular', key: `popular:${p.query}`, query: p.query })),
+          },
+          {
+            id: 'history',
+            items: history.map((h) => ({ kind: 'history', key: `history:${h}`, query: h })),
+          },
+        ]
+    return candidates.filter((group) => group.items.length > 0)
+  }, [active, query, categories, tags, remote, popularQueries, history])
+
+  const items = useMemo(() => groups.flatMap((group) => group.items), [groups])
+
+  return {
+    // The query the suggestions were matched against (for highlighting)
+    query: active ? query : '',
+    groups,
+    items,
+    isLoading: active && isFetching && !remote,
+  }
+}
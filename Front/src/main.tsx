@@ -4,14 +4,14 @@ import { BrowserRouter } from 'react-router-dom'
 import './index.css'
 import './i18n'
 import { AppWithProviders } from './App.tsx'
+import { restoreSession } from './api/axiousClient'
+import { installGlobalErrorHandlers } from './utils/errorReporter'
 
-// Global promise rejection logging (helps capture Promise.then rejections)
-window.addEventListener('unhandledrejection', (event) => {
-  console.error('Unhandled promise rejection:', event.reason)
-})
-window.addEventListener('rejectionhandled', (event) => {
-  console.warn('Promise rejection handled later:', event.reason)
-})
+// Uncaught errors and unhandled promise rejections go to the error reporter
+installGlobalErrorHandlers()
+
+// Cookie token storage keeps no token across reloads; re-issue it from the session cookie
+void restoreSession()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
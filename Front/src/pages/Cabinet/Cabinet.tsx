@@ -54,6 +54,14 @@ export default function Cabinet() {
                   <span>📦</span>
                   {t('myProducts.title')}
                 </NavLink>
+                <NavLink to="/cabinet/reviews" className={linkClass}>
+                  <span>⭐</span>
+                  {t('storeReviews.title')}
+                </NavLink>
+                <NavLink to="/cabinet/questions" className={linkClass}>
+                  <span>💬</span>
+                  {t('storeQuestions.title')}
+                </NavLink>
                 <NavLink to="/cabinet/user/settings?tab=profile" className={linkClass}>
                   <span>⚙️</span>
                   {t('menu.settings')}
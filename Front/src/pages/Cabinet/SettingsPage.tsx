@@ -4,6 +4,7 @@ import { useTranslation } from 'react-i18next'
 
 import ProfileForm from '../../components/Cabinet/ProfileForm'
 import ChangePasswordForm from '../../components/Cabinet/ChangePasswordForm'
+import SearchHistorySettings from '../../components/Cabinet/SearchHistorySettings'
 
 export default function SettingsPage() {
   const { t } = useTranslation()
@@ -12,6 +13,7 @@ export default function SettingsPage() {
     { id: 'security', label: t('settings.tabs.security') },
     { id: 'notifications', label: t('settings.tabs.notifications') },
     { id: 'payments', label: t('settings.tabs.payments') },
+    { id: 'privacy', label: t('settings.tabs.privacy') },
   ]
 
   const [searchParams, setSearchParams] = useSearchParams()
@@ -92,6 +94,16 @@ export default function SettingsPage() {
           </section>
         )}
 
+        {active === 'privacy' && (
+          <section>
+            <h2 className="text-lg font-medium mb-2">{t('settings.privacy.title')}</h2>
+            <p className="text-sm text-foreground-muted">{t('settings.privacy.description')}</p>
+            <div className="mt-4">
+              <SearchHistorySettings />
+            </div>
+          </section>
+        )}
+
         <div className="mt-6">
           <Link to="/cabinet" className="text-sm text-brand hover:underline">
             {t('settings.return_to_cabinet')}
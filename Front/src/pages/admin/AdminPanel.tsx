@@ -17,6 +17,8 @@ export default function AdminPanel() {
     { path: '/admin/stores', label: t('admin.nav.stores') },
     { path: '/admin/users', label: t('admin.nav.users') },
     { path: '/admin/roles', label: t('admin.nav.roles') },
+    { path: '/admin/reviews', label: t('admin.nav.reviews') },
+    { path: '/admin/questions', label: t('admin.nav.questions') },
   ]
 
   return (
@@ -79,6 +81,14 @@ export default function AdminPanel() {
               <h3 className="text-lg font-semibold text-foreground mb-2">{t('admin.cards.roles')}</h3>
               <p className="text-foreground-muted text-sm">{t('admin.cards.roles_desc')}</p>
             </Link>
+            <Link to="/admin/reviews" className="card p-6 hover:shadow-md transition-shadow">
+              <h3 className="text-lg font-semibold text-foreground mb-2">{t('admin.cards.reviews')}</h3>
+              <p className="text-foreground-muted text-sm">{t('admin.cards.reviews_desc')}</p>
+            </Link>
+            <Link to="/admin/questions" className="card p-6 hover:shadow-md transition-shadow">
+              <h3 className="text-lg font-semibold text-foreground mb-2">{t('admin.cards.questions')}</h3>
+              <p className="text-foreground-muted text-sm">{t('admin.cards.questions_desc')}</p>
+            </Link>
           </div>
 
           {/* Roles & Permissions */}
@@ -1,12 +1,18 @@
-import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useState, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
 import {
-  attributeDefinitionsApi,
   type AttributeDefinitionDto,
   type CreateAttributeDefinitionRequest,
   type UpdateAttributeDefinitionRequest,
   type AttributeDataType,
 } from '../../api/attributeDefinitionsApi'
+import { serviceErrorMessage } from '../../api/types'
+import {
+  useAttributeDefinitions,
+  useCreateAttributeDefinition,
+  useDeleteAttributeDefinition,
+  useUpdateAttributeDefinition,
+} from '../../hooks/useAttributeDefinitions'
 
 const ITEMS_PER_PAGE = 10
 
@@ -21,9 +27,12 @@ const DATA_TYPES: AttributeDataType[] = ['string', 'number', 'boolean', 'array']
 
 export default function AttributeDefinitionsManagement() {
   const { t } = useTranslation()
-  const [attributes, setAttributes] = useState<AttributeDefinitionDto[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const { data: attributes = [], isPending: loading, error: loadError } = useAttributeDefinitions()
+  const createAttribute = useCreateAttributeDefinition()
+  const updateAttribute = useUpdateAttributeDefinition()
+  const deleteAttribute = useDeleteAttributeDefinition()
+  const [actionError, setError] = useState<string | null>(null)
+  const error = actionError ?? (loadError ? serviceErrorMessage(loadError, t('errors.fetch_failed')) : null)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
@@ -52,28 +61,6 @@ export default function AttributeDefinitionsManagement() {
     return attributes.slice(start, start + ITEMS_PER_PAGE)
   }, [attributes, currentPage])
 
-  const fetchAttributes = useCallback(async () => {
-    setLoading(true)
-    setError(null)
-    try {
-      const response = await attributeDefinitionsApi.getAll()
-      if (response.isSuccess) {
-        setAttributes(response.payload || [])
-        setCurrentPage(1)
-      } else {
-        setError(response.message || t('errors.fetch_failed'))
-      }
-    } catch {
-      setError(t('errors.fetch_failed'))
-    } finally {
-      setLoading(false)
-    }
-  }, [t])
-
-  useEffect(() => {
-    fetchAttributes()
-  }, [fetchAttributes])
-
   const resetForm = () => {
     setFormData({
       code: '',
@@ -138,9 +125,9 @@ export default function AttributeDefinitionsManagement() {
         unit: formData.unit || undefined,
         description: formData.description || undefined,
       }
-      const response = await attributeDefinitionsApi.create(request)
+      const response = await createAttribute.mutateAsync(request)
       if (response.isSuccess) {
-        await fetchAttributes()
+        setError(null)
         resetForm()
       } else {
         setError(response.message || t('errors.save_failed'))
@@ -158,16 +145,16 @@ export default function AttributeDefinitionsManagement() {
       const request: UpdateAttributeDefinitionRequest = {
         name: formData.name,
         dataType: formData.dataType,
-        isRequired: formData.isRequired,
-        isVariant: formData.isVariant,
+        isRequired: formData.isRequired ?? false,
+        isVariant: formData.isVariant ?? false,
         allowedValues: parseAllowedValues(),
-        displayOrder: formData.displayOrder,
-        unit: formData.unit || undefined,
-        description: formData.description || undefined,
+        displayOrder: formData.displayOrder ?? 0,
+        unit: formData.unit || null,
+        description: formData.description || null,
       }
-      const response = await attributeDefinitionsApi.update(editingId, request)
+      const response = await updateAttribute.mutateAsync({ id: editingId, data: request })
       if (response.isSuccess) {
-        await fetchAttributes()
+        setError(null)
         resetForm()
       } else {
         setError(response.message || t('errors.save_failed'))
@@ -180,9 +167,9 @@ export default function AttributeDefinitionsManagement() {
   const handleDelete = async (id: string) => {
     if (!window.confirm(t('admin.catalog.confirm_delete'))) return
     try {
-      const response = await attributeDefinitionsApi.delete(id)
+      const response = await deleteAttribute.mutateAsync(id)
       if (response.isSuccess) {
-        await fetchAttributes()
+        setError(null)
       } else {
         setError(response.message || t('errors.save_failed'))
       }
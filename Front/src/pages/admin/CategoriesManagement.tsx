@@ -1,7 +1,9 @@
-import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useState, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
-import { categoriesApi, type CategoryDto, type CreateCategoryRequest, type UpdateCategoryRequest } from '../../api/catalogApi'
+import { type CategoryDto, type CreateCategoryRequest, type UpdateCategoryRequest } from '../../api/catalogApi'
+import { serviceErrorMessage } from '../../api/types'
 import EmojiPicker from '../../components/common/EmojiPicker'
+import { useCategories, useCreateCategory, useDeleteCategory, useUpdateCategory } from '../../hooks/useCatalog'
 
 const ITEMS_PER_PAGE = 10
 
@@ -12,9 +14,12 @@ interface FormErrors {
 
 export default function CategoriesManagement() {
   const { t } = useTranslation()
-  const [categories, setCategories] = useState<CategoryDto[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const { data: categories = [], isPending: loading, error: loadError } = useCategories()
+  const createCategory = useCreateCategory()
+  const updateCategory = useUpdateCategory()
+  const deleteCategory = useDeleteCategory()
+  const [actionError, setError] = useState<string | null>(null)
+  const error = actionError ?? (loadError ? serviceErrorMessage(loadError, t('errors.fetch_failed')) : null)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
@@ -42,28 +47,6 @@ export default function CategoriesManagement() {
     return categories.slice(start, start + ITEMS_PER_PAGE)
   }, [categories, currentPage])
 
-  const fetchCategories = useCallback(async () => {
-    setLoading(true)
-    setError(null)
-    try {
-      const response = await categoriesApi.getAll()
-      if (response.isSuccess) {
-        setCategories(response.payload || [])
-        setCurrentPage(1)
-      } else {
-        setError(response.message || t('errors.fetch_failed'))
-      }
-    } catch {
-      setError(t('errors.fetch_failed'))
-    } finally {
-      setLoading(false)
-    }
-  }, [t])
-
-  useEffect(() => {
-    fetchCategories()
-  }, [fetchCategories])
-
   const resetForm = () => {
     setFormData({ name: '', description: '', parentCategoryId: null, emoji: null })
     setEditingId(null)
@@ -94,9 +77,9 @@ export default function CategoriesManagement() {
     e.preventDefault()
     if (!validateForm()) return
     try {
-      const response = await categoriesApi.create(formData)
+      const response = await createCategory.mutateAsync(formData)
       if (response.isSuccess) {
-        await fetchCategories()
+        setError(null)
         resetForm()
       } else {
         setError(response.message || t('errors.save_failed'))
@@ -117,9 +100,9 @@ export default function CategoriesManagement() {
         parentCategoryId: formData.parentCategoryId,
         emoji: formData.emoji
       }
-      const response = await categoriesApi.update(editingId, updateData)
+      const response = await updateCategory.mutateAsync({ id: editingId, data: updateData })
       if (response.isSuccess) {
-        await fetchCategories()
+        setError(null)
         resetForm()
       } else {
         setError(response.message || t('errors.save_failed'))
@@ -132,9 +115,9 @@ export default function CategoriesManagement() {
   const handleDelete = async (id: string) => {
     if (!window.confirm(t('admin.catalog.confirm_delete'))) return
     try {
-      const response = await categoriesApi.delete(id)
+      const response = await deleteCategory.mutateAsync(id)
       if (response.isSuccess) {
-        await fetchCategories()
+        setError(null)
       } else {
         setError(response.message || t('errors.save_failed'))
       }
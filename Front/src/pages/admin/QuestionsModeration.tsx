@@ -0,0 +1,208 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { QuestionStatus } from '../../api/questionsApi'
+import { serviceErrorMessage } from '../../api/types'
+import { useModerateQuestion, useQuestionsForModeration } from '../../hooks/useQuestions'
+
+export default function QuestionsModeration() {
+  const { t } = useTranslation()
+  const [status, setStatus] = useState<QuestionStatus | null>(null)
+  const [currentPage, setCurrentPage] = useState(1)
+  const { data, isPending: loading, error: loadError } = useQuestionsForModeration(status, currentPage)
+  const moderateQuestion = useModerateQuestion()
+  const [actionError, setError] = useState<string | null>(null)
+  const error = actionError ?? (loadError ? serviceErrorMessage(loadError, t('errors.fetch_failed')) : null)
+  const [actionLoading, setActionLoading] = useState<string | null>(null)
+
+  const questions = data?.items ?? []
+  const total = data?.total ?? 0
+  const pageSize = data?.pageSize ?? 20
+  const totalPages = Math.ceil(total / pageSize)
+
+  const moderate = async (id: string, nextStatus: QuestionStatus, reason?: string | null) => {
+    setActionLoading(id)
+    try {
+      const response = await moderateQuestion.mutateAsync({ id, status: nextStatus, reason })
+      if (response.isSuccess) {
+        setError(null)
+      } else {
+        setError(response.message || t('errors.save_failed'))
+      }
+    } catch {
+      setError(t('errors.save_failed'))
+    } finally {
+      setActionLoading(null)
+    }
+  }
+
+  // Hiding takes the seller's answer down with the question
+  const handleHide = (id: string) => {
+    const reason = window.prompt(t('admin.questions.hide_reason_prompt'))
+    if (reason === null) return
+    moderate(id, QuestionStatus.Hidden, reason.trim())
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-2xl font-bold text-foreground">{t('admin.questions.title')}</h2>
+        <select
+          value={status ?? ''}
+          onChange={(e) => {
+            setStatus((e.target.value || null) as QuestionStatus | null)
+            setCurrentPage(1)
+          }}
+          className="px-3 py-2 text-sm border border-border bg-surface text-foreground rounded-md"
+        >
+          <option value="">{t('admin.reviews.all_statuses')}</option>
+          <option value={QuestionStatus.Published}>{t('admin.reviews.published')}</option>
+          <option value={QuestionStatus.Hidden}>{t('admin.reviews.hidden')}</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 dark:bg-red-900/30 border border-red-400 dark:border-red-700 text-red-700 dark:text-red-300 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Questions Table */}
+      <div className="card overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">
+            <thead className="bg-surface-secondary">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-foreground-muted uppercase tracking-wider">
+                  {t('admin.reviews.product')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-foreground-muted uppercase tracking-wider">
+                  {t('admin.questions.question')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-foreground-muted uppercase tracking-wider">
+                  {t('admin.reviews.status')}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-foreground-muted uppercase tracking-wider">
+                  {t('admin.reviews.created')}
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-foreground-muted uppercase tracking-wider">
+                  {t('admin.catalog.actions')}
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-surface divide-y divide-border">
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8">
+                    <div className="flex justify-center">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand"></div>
+                    </div>
+                  </td>
+                </tr>
+              ) : questions.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-center text-foreground-muted">
+                    {t('admin.questions.no_questions')}
+                  </td>
+                </tr>
+              ) : (
+                questions.map(({ question, ...item }) => (
+                  <tr key={question.id} className="hover:bg-surface-secondary/50 transition-colors align-top">
+                    <td className="px-6 py-4">
+                      <Link to={`/product/${item.productSlug}`} className="text-foreground font-medium hover:text-brand">
+                        {item.productName}
+                      </Link>
+                      <div className="text-foreground-muted text-sm">{question.authorName || '-'}</div>
+                    </td>
+                    <td className="px-6 py-4 max-w-md">
+                      <p className="text-foreground text-sm line-clamp-3 whitespace-pre-line">{question.text}</p>
+                      {question.answer && (
+                        <p className="text-foreground-muted text-sm mt-2 pl-3 border-l-2 border-border line-clamp-3 whitespace-pre-line">
+                          {question.answer}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {item.status === QuestionStatus.Hidden ? (
+                        <>
+                          <span className="inline-flex px-2 py-1 rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-xs font-medium">
+                            {t('admin.reviews.hidden')}
+                          </span>
+                          {item.moderationReason && (
+                            <div className="text-foreground-muted text-xs mt-1 max-w-[12rem] whitespace-normal">
+                              {item.moderationReason}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="inline-flex px-2 py-1 rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 text-xs font-medium">
+                          {t('admin.reviews.published')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-foreground-muted text-sm">
+                      {formatDate(question.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      {item.status === QuestionStatus.Hidden ? (
+                        <button
+                          onClick={() => moderate(question.id, QuestionStatus.Published)}
+                          disabled={actionLoading === question.id}
+                          className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium
+                            disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          {actionLoading === question.id ? '...' : t('admin.reviews.publish')}
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => handleHide(question.id)}
+                          disabled={actionLoading === question.id}
+                          className="px-3 py-1 rounded bg-red-600 hover:bg-red-700 text-white text-xs font-medium
+                            disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          {actionLoading === question.id ? '...' : t('admin.reviews.hide')}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between px-6 py-4 border-t border-border bg-surface-secondary/30">
+            <div className="text-sm text-foreground-muted">
+              {t('admin.catalog.showing')} {(currentPage - 1) * pageSize + 1}-
+              {Math.min(currentPage * pageSize, total)} {t('admin.catalog.of')} {total}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+                disabled={currentPage === 1}
+                className="px-3 py-1 rounded border border-border text-foreground-muted hover:bg-surface-secondary
+                  disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {t('admin.catalog.prev')}
+              </button>
+              <button
+                onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+                disabled={currentPage === totalPages}
+                className="px-3 py-1 rounded border border-border text-foreground-muted hover:bg-surface-secondary
+                  disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {t('admin.catalog.next')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,18 @@
-import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useState, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
-import { storesAdminApi, type StoreAdminDto } from '../../api/storeApi'
+import { serviceErrorMessage } from '../../api/types'
+import { useAdminStores, useSuspendStore, useUnsuspendStore, useVerifyStore } from '../../hooks/useStores'
 
 const ITEMS_PER_PAGE = 10
 
 export default function StoresManagement() {
   const { t } = useTranslation()
-  const [stores, setStores] = useState<StoreAdminDto[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const { data: stores = [], isPending: loading, error: loadError } = useAdminStores(true)
+  const verifyStore = useVerifyStore()
+  const suspendStore = useSuspendStore()
+  const unsuspendStore = useUnsuspendStore()
+  const [actionError, setError] = useState<string | null>(null)
+  const error = actionError ?? (loadError ? serviceErrorMessage(loadError, t('errors.fetch_failed')) : null)
   const [currentPage, setCurrentPage] = useState(1)
   const [actionLoading, setActionLoading] = useState<string | null>(null)
 
@@ -19,34 +23,12 @@ export default function StoresManagement() {
     return stores.slice(start, start + ITEMS_PER_PAGE)
   }, [stores, currentPage])
 
-  const fetchStores = useCallback(async () => {
-    setLoading(true)
-    setError(null)
-    try {
-      const response = await storesAdminApi.getAll(true)
-      if (response.isSuccess) {
-        setStores(response.payload || [])
-        setCurrentPage(1)
-      } else {
-        setError(response.message || t('errors.fetch_failed'))
-      }
-    } catch {
-      setError(t('errors.fetch_failed'))
-    } finally {
-      setLoading(false)
-    }
-  }, [t])
-
-  useEffect(() => {
-    fetchStores()
-  }, [fetchStores])
-
   const handleVerify = async (id: string) => {
     setActionLoading(id)
     try {
-      const response = await storesAdminApi.verify(id)
+      const response = await verifyStore.mutateAsync(id)
       if (response.isSuccess) {
-        await fetchStores()
+        setError(null)
       } else {
         setError(response.message || t('errors.save_failed'))
       }
@@ -61,9 +43,9 @@ export default function StoresManagement() {
     if (!window.confirm(t('admin.stores.confirm_suspend'))) return
     setActionLoading(id)
     try {
-      const response = await storesAdminApi.suspend(id)
+      const response = await suspendStore.mutateAsync(id)
       if (response.isSuccess) {
-        await fetchStores()
+        setError(null)
       } else {
         setError(response.message || t('errors.save_failed'))
       }
@@ -77,9 +59,9 @@ export default function StoresManagement() {
   const handleUnsuspend = async (id: string) => {
     setActionLoading(id)
     try {
-      const response = await storesAdminApi.unsuspend(id)
+      const response = await unsuspendStore.mutateAsync(id)
       if (response.isSuccess) {
-        await fetchStores()
+        setError(null)
       } else {
         setError(response.message || t('errors.save_failed'))
       }
@@ -1,6 +1,8 @@
-import { useState, useEffect, useMemo, useCallback } from 'react'
+import { useState, useMemo } from 'react'
 import { useTranslation } from 'react-i18next'
-import { tagsApi, type TagDto, type CreateTagRequest, type UpdateTagRequest } from '../../api/catalogApi'
+import { type TagDto, type CreateTagRequest, type UpdateTagRequest } from '../../api/catalogApi'
+import { serviceErrorMessage } from '../../api/types'
+import { useCreateTag, useDeleteTag, useTags, useUpdateTag } from '../../hooks/useCatalog'
 
 const ITEMS_PER_PAGE = 10
 
@@ -11,9 +13,12 @@ interface FormErrors {
 
 export default function TagsManagement() {
   const { t } = useTranslation()
-  const [tags, setTags] = useState<TagDto[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const { data: tags = [], isPending: loading, error: loadError } = useTags()
+  const createTag = useCreateTag()
+  const updateTag = useUpdateTag()
+  const deleteTag = useDeleteTag()
+  const [actionError, setError] = useState<string | null>(null)
+  const error = actionError ?? (loadError ? serviceErrorMessage(loadError, t('errors.fetch_failed')) : null)
   const [editingId, setEditingId] = useState<string | null>(null)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
@@ -32,28 +37,6 @@ export default function TagsManagement() {
     return tags.slice(start, start + ITEMS_PER_PAGE)
   }, [tags, currentPage])
 
-  const fetchTags = useCallback(async () => {
-    setLoading(true)
-    setError(null)
-    try {
-      const response = await tagsApi.getAll()
-      if (response.isSuccess) {
-        setTags(response.payload || [])
-        setCurrentPage(1)
-      } else {
-        setError(response.message || t('errors.fetch_failed'))
-      }
-    } catch {
-      setError(t('errors.fetch_failed'))
-    } finally {
-      setLoading(false)
-    }
-  }, [t])
-
-  useEffect(() => {
-    fetchTags()
-  }, [fetchTags])
-
   const resetForm = () => {
     setFormData({ name: '', description: '' })
     setEditingId(null)
@@ -84,9 +67,9 @@ export default function TagsManagement() {
     e.preventDefault()
     if (!validateForm()) return
     try {
-      const response = await tagsApi.create(formData)
+      const response = await createTag.mutateAsync(formData)
       if (response.isSuccess) {
-        await fetchTags()
+        setError(null)
         resetForm()
       } else {
         setError(response.message || t('errors.save_failed'))
@@ -105,9 +88,9 @@ export default function TagsManagement() {
         name: formData.name,
         description: formData.description
       }
-      const response = await tagsApi.update(editingId, updateData)
+      const response = await updateTag.mutateAsync({ id: editingId, data: updateData })
       if (response.isSuccess) {
-        await fetchTags()
+        setError(null)
         resetForm()
       } else {
         setError(response.message || t('errors.save_failed'))
@@ -120,9 +103,9 @@ export default function TagsManagement() {
   const handleDelete = async (id: string) => {
     if (!window.confirm(t('admin.catalog.confirm_delete'))) return
     try {
-      const response = await tagsApi.delete(id)
+      const response = await deleteTag.mutateAsync(id)
       if (response.isSuccess) {
-        await fetchTags()
+        setError(null)
       } else {
         setError(response.message || t('errors.save_failed'))
       }
@@ -1,20 +1,24 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { 
-  getRoles, 
-  getAllPermissions,
-  createRole, 
-  updateRole, 
-  deleteRole
-} from '../../../api/adminApi'
-import type { RoleDto, PermissionDto, CreateRoleDto, UpdateRoleDto } from '../../../api/adminApi'
+import type { RoleDto, CreateRoleDto, UpdateRoleDto } from '../../../api/adminApi'
+import {
+  useCreateRole,
+  useDeleteRole,
+  usePermissions,
+  useRoles,
+  useUpdateRole,
+} from '../../../hooks/useAdmin'
 
 export default function RolesManagement() {
   const { t } = useTranslation()
-  const [roles, setRoles] = useState<RoleDto[]>([])
-  const [permissions, setPermissions] = useState<Record<string, PermissionDto[]>>({})
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const { data: roles = [], isPending: rolesPending, error: rolesError } = useRoles()
+  const { data: permissions = {}, isPending: permissionsPending, error: permissionsError } = usePermissions()
+  const createRoleMutation = useCreateRole()
+  const updateRoleMutation = useUpdateRole()
+  const deleteRoleMutation = useDeleteRole()
+  const loading = rolesPending || permissionsPending
+  const [actionError, setError] = useState<string | null>(null)
+  const error = actionError ?? (rolesError || permissionsError ? t('admin.roles.load_error') : null)
   
   // Modal state
   const [showModal, setShowModal] = useState(false)
@@ -31,32 +35,6 @@ export default function RolesManagement() {
   // Built-in roles that cannot be deleted
   const builtInRoles = ['Admin', 'User', 'Seller']
 
-  const loadData = useCallback(async () => {
-    try {
-      setLoading(true)
-      const [rolesRes, permissionsRes] = await Promise.all([
-        getRoles(),
-        getAllPermissions()
-      ])
-      
-      if (rolesRes.isSuccess && rolesRes.payload) {
-        setRoles(rolesRes.payload)
-      }
-      if (permissionsRes.isSuccess && permissionsRes.payload) {
-        setPermissions(permissionsRes.payload)
-      }
-    } catch (err) {
-      setError(t('admin.roles.load_error'))
-      console.error(err)
-    } finally {
-      setLoading(false)
-    }
-  }, [t])
-
-  useEffect(() => {
-    loadData()
-  }, [loadData])
-
   const handleOpenCreateModal = () => {
     setEditingRole(null)
     setFormData({ name: '', description: '', permissions: [] })
@@ -89,17 +67,15 @@ export default function RolesManagement() {
         if (formData.description !== editingRole.description) updateData.description = formData.description
         updateData.permissions = formData.permissions
         
-        const res = await updateRole(editingRole.id, updateData)
-        if (res.isSuccess && res.payload) {
-          setRoles(prev => prev.map(r => r.id === editingRole.id ? res.payload! : r))
+        const res = await updateRoleMutation.mutateAsync({ id: editingRole.id, dto: updateData })
+        if (res.isSuccess) {
           setShowModal(false)
         } else {
           setError(res.message)
         }
       } else {
-        const res = await createRole(formData)
-        if (res.isSuccess && res.payload) {
-          setRoles(prev => [...prev, res.payload!])
+        const res = await createRoleMutation.mutateAsync(formData)
+        if (res.isSuccess) {
           setShowModal(false)
         } else {
           setError(res.message)
@@ -115,9 +91,8 @@ export default function RolesManagement() {
 
   const handleDelete = async (roleId: string) => {
     try {
-      const res = await deleteRole(roleId)
+      const res = await deleteRoleMutation.mutateAsync(roleId)
       if (res.isSuccess) {
-        setRoles(prev => prev.filter(r => r.id !== roleId))
         setDeleteConfirm(null)
       } else {
         setError(res.message)
@@ -1,20 +1,24 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { 
-  getAdminUsers, 
-  getRoles, 
-  assignUserRoles, 
-  lockUser, 
-  unlockUser
-} from '../../../api/adminApi'
-import type { AdminUserDto, RoleDto } from '../../../api/adminApi'
+import type { AdminUserDto } from '../../../api/adminApi'
+import {
+  useAdminUsers,
+  useAssignUserRoles,
+  useLockUser,
+  useRoles,
+  useUnlockUser,
+} from '../../../hooks/useAdmin'
 
 export default function UsersManagement() {
   const { t } = useTranslation()
-  const [users, setUsers] = useState<AdminUserDto[]>([])
-  const [roles, setRoles] = useState<RoleDto[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const { data: users = [], isPending: usersPending, error: usersError } = useAdminUsers()
+  const { data: roles = [], isPending: rolesPending, error: rolesError } = useRoles()
+  const assignRoles = useAssignUserRoles()
+  const lock = useLockUser()
+  const unlock = useUnlockUser()
+  const loading = usersPending || rolesPending
+  const [actionError, setError] = useState<string | null>(null)
+  const error = actionError ?? (usersError || rolesError ? t('admin.users.load_error') : null)
   const [searchQuery, setSearchQuery] = useState('')
   
   // Role assignment modal
@@ -23,32 +27,6 @@ export default function UsersManagement() {
   const [showRoleModal, setShowRoleModal] = useState(false)
   const [saving, setSaving] = useState(false)
 
-  const loadData = useCallback(async () => {
-    try {
-      setLoading(true)
-      const [usersRes, rolesRes] = await Promise.all([
-        getAdminUsers(),
-        getRoles()
-      ])
-      
-      if (usersRes.isSuccess && usersRes.payload) {
-        setUsers(usersRes.payload)
-      }
-      if (rolesRes.isSuccess && rolesRes.payload) {
-        setRoles(rolesRes.payload)
-      }
-    } catch (err) {
-      setError(t('admin.users.load_error'))
-      console.error(err)
-    } finally {
-      setLoading(false)
-    }
-  }, [t])
-
-  useEffect(() => {
-    loadData()
-  }, [loadData])
-
   const handleOpenRoleModal = (user: AdminUserDto) => {
     setSelectedUser(user)
     setSelectedRoles([...user.roles])
@@ -60,10 +38,9 @@ export default function UsersManagement() {
     
     try {
       setSaving(true)
-      const res = await assignUserRoles(selectedUser.id, { roles: selectedRoles })
+      const res = await assignRoles.mutateAsync({ userId: selectedUser.id, dto: { roles: selectedRoles } })
       
-      if (res.isSuccess && res.payload) {
-        setUsers(prev => prev.map(u => u.id === selectedUser.id ? res.payload! : u))
+      if (res.isSuccess) {
         setShowRoleModal(false)
       } else {
         setError(res.message)
@@ -78,16 +55,9 @@ export default function UsersManagement() {
 
   const handleToggleLock = async (user: AdminUserDto) => {
     try {
-      if (user.isLocked) {
-        const res = await unlockUser(user.id)
-        if (res.isSuccess) {
-          setUsers(prev => prev.map(u => u.id === user.id ? { ...u, isLocked: false, lockoutEnd: undefined } : u))
-        }
-      } else {
-        const res = await lockUser(user.id)
-        if (res.isSuccess) {
-          setUsers(prev => prev.map(u => u.id === user.id ? { ...u, isLocked: true } : u))
-        }
+      const res = user.isLocked ? await unlock.mutateAsync(user.id) : await lock.mutateAsync(user.id)
+      if (!res.isSuccess) {
+        setError(res.message)
       }
     } catch (err) {
       setError(t('admin.users.lock_error'))
@@ -4,6 +4,7 @@ import { Link, useNavigate } from 'react-router-dom'
 import { useCartStore } from '../../store/cartStore'
 import { useAuthStore } from '../../store/authStore'
 import { productsApi } from '../../api/catalogApi'
+import { RecentlyViewedStrip } from '../../components/catalog/RecentlyViewedStrip'
 
 // Icons using simple SVG components instead of lucide-react
 const Minus = ({ className }: { className?: string }) => <svg className={className} xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M5 12h14"/></svg>
@@ -293,6 +294,7 @@ export default function Cart() {
             {t('cart.empty.continueShopping', 'Continue Shopping')}
           </Link>
         </div>
+        <RecentlyViewedStrip className="mt-16" />
       </div>
     )
   }
@@ -599,6 +601,8 @@ export default function Cart() {
           </div>
         </div>
       </div>
+
+      <RecentlyViewedStrip className="mt-12" />
     </div>
   )
 }
@@ -1,148 +1,117 @@
-import React, { useEffect, useState } from 'react';
-import { useParams, useSearchParams, useNavigate } from 'react-router-dom';
+import React, { useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { productsApi, ProductSort } from '../../api/catalogApi';
+import VirtualProductGrid from '../../components/catalog/VirtualProductGrid';
+import { ActiveFilterChips } from '../../components/catalog/ActiveFilterChips';
+import { FilterPresets } from '../../components/catalog/FilterPresets';
+import { ListingModeToggle } from '../../components/catalog/ListingModeToggle';
+import { LoadMoreTrigger } from '../../components/catalog/LoadMoreTrigger';
+import { ProductFilterSidebar } from '../../components/catalog/ProductFilterSidebar';
+import { ServiceResponseError } from '../../api/types';
 import {
-  categoriesApi,
-  productsApi,
-  type CategoryDto,
-  type CategoryAvailableFiltersDto,
-  type ProductSummaryDto,
-  type ProductFilterRequest,
-  type AttributeFilterValue,
-  ProductSort,
-} from '../../api/catalogApi';
-import ProductCard from '../../components/catalog/ProductCard';
-import { DynamicAttributeFilters } from '../../components/catalog/DynamicAttributeFilters';
+  useCategoryBySlug,
+  useCategoryFacets,
+  useCategoryFilters,
+  useFilteredProducts,
+  useInfiniteFilteredProducts,
+} from '../../hooks/useCatalog';
+import { useProductFilterParams } from '../../hooks/useProductFilterParams';
+import { useScrollRestoration } from '../../hooks/useScrollRestoration';
+import { useStagedProductFilters } from '../../hooks/useStagedProductFilters';
+import { useListingPreferencesStore } from '../../store/listingPreferencesStore';
+import {
+  parseProductFilterParams,
+  serializeProductFilterParams,
+  toProductFilterRequest,
+} from '../../utils/productFilterParams';
+
+// Mirrors grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 of the products grid
+const gridColumns = (width: number) => (width >= 1024 ? 3 : width >= 640 ? 2 : 1);
 
 export const CategoryProductsPage: React.FC = () => {
   const { slug } = useParams<{ slug: string }>();
-  const [, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
 
-  const [category, setCategory] = useState<CategoryDto | null>(null);
-  const [availableFilters, setAvailableFilters] = useState<CategoryAvailableFiltersDto | null>(null);
-  const [products, setProducts] = useState<ProductSummaryDto[]>([]);
-  const [selectedFilters, setSelectedFilters] = useState<Record<string, AttributeFilterValue>>({});
-  const [priceRange, setPriceRange] = useState<{ min: number | null; max: number | null }>({
-    min: null,
-    max: null,
-  });
-  const [inStockOnly, setInStockOnly] = useState(false);
-  const [sort, setSort] = useState<ProductSort>(ProductSort.Newest);
-  const [page, setPage] = useState(1);
-  const [totalProducts, setTotalProducts] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const pageSize = 24;
-
-  // Load category and available filters
-  useEffect(() => {
-    if (!slug) return;
-
-    const loadCategoryAndFilters = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-
-        const categoryResponse = await categoriesApi.getBySlug(slug);
-        if (!categoryResponse.isSuccess || !categoryResponse.payload) {
-          setError('Категорію не знайдено');
-          return;
-        }
-
-        setCategory(categoryResponse.payload);
+  // Filters live in the query string, so links, bookmarks and back/forward restore them
+  const filterParams = useProductFilterParams();
+  const { filters, setFilters } = filterParams;
+  const { sort, page } = filters;
 
-        const filtersResponse = await categoriesApi.getAvailableFilters(categoryResponse.payload.id);
-        if (filtersResponse.isSuccess && filtersResponse.payload) {
-          setAvailableFilters(filtersResponse.payload);
-        }
-      } catch (err) {
-        setError('Помилка завантаження категорії');
-        console.error(err);
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Sidebar edits are staged and applied together
+  const { pending, hasPendingChanges, updateDraft, applyDraft, discardDraft, clearAllFilters, applyPatch } =
+    useStagedProductFilters(filterParams);
 
-    loadCategoryAndFilters();
-  }, [slug]);
+  const appliedQuery = serializeProductFilterParams({ ...filters, page: 1 }).toString();
+  const applyPreset = (query: string) => {
+    setFilters(() => parseProductFilterParams(new URLSearchParams(query)));
+    discardDraft();
+  };
 
-  // Load products when filters change
-  useEffect(() => {
-    if (!category) return;
+  const pageSize = 24;
 
-    const loadProducts = async () => {
-      try {
-        const filterRequest: ProductFilterRequest = {
-          categoryId: category.id,
-          minPrice: priceRange.min,
-          maxPrice: priceRange.max,
-          inStock: inStockOnly || null,
-          attributes: Object.keys(selectedFilters).length > 0 ? selectedFilters : null,
-          sort,
-          page,
-          pageSize,
-        };
+  const categoryQuery = useCategoryBySlug(slug);
+  const category = categoryQuery.data ?? null;
+  const loading = categoryQuery.isPending;
+  const error = categoryQuery.isError
+    ? categoryQuery.error instanceof ServiceResponseError ? 'Категорію не знайдено' : 'Помилка завантаження категорії'
+    : null;
 
-        const response = await productsApi.filter(filterRequest);
-        
-        if (response.isSuccess && response.payload) {
-          setProducts(response.payload.items);
-          setTotalProducts(response.payload.total);
-        } else {
-          setProducts([]);
-          setTotalProducts(0);
-        }
-      } catch (err) {
-        console.error('Помилка фільтрації товарів:', err);
-        setProducts([]);
-      }
-    };
+  const { data: availableFilters } = useCategoryFilters(category?.id);
 
-    loadProducts();
-  }, [category, selectedFilters, priceRange, inStockOnly, sort, page]);
+  // Products are refetched whenever the request changes (and served from cache when going back);
+  // the request for the previous filters/sort/page is aborted rather than left to race
+  const filterRequest = useMemo(
+    () => category ? toProductFilterRequest(filters, { categoryId: category.id, pageSize }) : null,
+    [category, filters]
+  );
 
-  // Update URL params when filters change
-  useEffect(() => {
-    const params = new URLSearchParams();
+  // In continuous mode the page from the URL is ignored and further pages are appended on scroll
+  const infinite = useListingPreferencesStore((state) => state.mode) === 'infinite';
+  const { data: productsPage } = useFilteredProducts(infinite ? null : filterRequest);
+  const infiniteQuery = useInfiniteFilteredProducts(infinite ? filterRequest : null);
 
-    if (priceRange.min) params.set('minPrice', String(priceRange.min));
-    if (priceRange.max) params.set('maxPrice', String(priceRange.max));
-    if (inStockOnly) params.set('inStock', 'true');
-    if (sort !== ProductSort.Newest) params.set('sort', sort);
-    if (page > 1) params.set('page', String(page));
+  // Counts follow the draft, so the user sees what ticking an option leads to before applying it
+  const pendingRequest = useMemo(
+    () => category ? toProductFilterRequest(pending, { categoryId: category.id }) : null,
+    [category, pending]
+  );
+  const { data: facets, isFetching: facetsLoading } = useCategoryFacets(category?.id, pendingRequest);
+  const products = useMemo(
+    () => (infinite ? infiniteQuery.data?.pages.flatMap((p) => p.items) : productsPage?.items) ?? [],
+    [infinite, infiniteQuery.data, productsPage]
+  );
+  const totalProducts = (infinite ? infiniteQuery.data?.pages[0]?.total : productsPage?.total) ?? 0;
 
-    Object.entries(selectedFilters).forEach(([code, filter]) => {
-      if (filter.in) params.set(`attr_${code}_in`, filter.in.join(','));
-      if (filter.gte) params.set(`attr_${code}_gte`, String(filter.gte));
-      if (filter.lte) params.set(`attr_${code}_lte`, String(filter.lte));
-    });
+  // Coming back from a product lands where the user left off; loaded pages come from the query cache
+  useScrollRestoration(infinite ? !!infiniteQuery.data : !!productsPage);
 
-    setSearchParams(params, { replace: true });
-  }, [selectedFilters, priceRange, inStockOnly, sort, page]);
+  const totalPages = Math.ceil(totalProducts / pageSize);
 
-  const handleFilterChange = (code: string, value: AttributeFilterValue | null) => {
-    setSelectedFilters((prev) => {
-      const newFilters = { ...prev };
-      if (value === null) {
-        delete newFilters[code];
-      } else {
-        newFilters[code] = value;
+  const handleAddToCart = async (productId: string) => {
+    // Fetch product details to get the default SKU
+    try {
+      const result = await productsApi.getById(productId)
+      if (result.isSuccess && result.payload) {
+        const productDetails = result.payload
+        // Use the first SKU as default
+        const defaultSku = productDetails.skus[0]
+        if (defaultSku) {
+          const { useCartStore } = await import('../../store/cartStore')
+          const { addToCart } = useCartStore.getState()
+          const added = await addToCart(productId, defaultSku.id, 1)
+          if (added) {
+            console.log('Added to cart successfully')
+          } else {
+            const { lastError } = useCartStore.getState()
+            console.error('Failed to add to cart:', lastError || 'Unknown error')
+          }
+        }
       }
-      return newFilters;
-    });
-    setPage(1); // Reset to first page
+    } catch (error) {
+      console.error('Failed to add to cart:', error)
+    }
   };
 
-  const handleClearAllFilters = () => {
-    setSelectedFilters({});
-    setPriceRange({ min: null, max: null });
-    setInStockOnly(false);
-    setPage(1);
-  };
-
-  const totalPages = Math.ceil(totalProducts / pageSize);
-
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -177,132 +146,79 @@ export const CategoryProductsPage: React.FC = () => {
 
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Filters Sidebar */}
-         <aside className="lg:col-span-1">
-           <div className="sticky top-4 bg-surface rounded-lg shadow p-6">
-             <h2 className="text-xl font-semibold mb-4">Фільтри</h2>
-
-             {/* Price Range */}
-              {availableFilters?.priceRange && (
-                <div className="mb-6 border-b border-border pb-4">
-                  <h3 className="font-semibold text-foreground mb-3">Ціна (грн)</h3>
-                  <div className="grid grid-cols-2 gap-2">
-                    <input
-                      type="number"
-                      placeholder={`Від ${availableFilters.priceRange.min}`}
-                      value={priceRange.min ?? ''}
-                      onChange={(e) =>
-                        setPriceRange((prev) => ({
-                          ...prev,
-                          min: e.target.value ? Number(e.target.value) : null,
-                        }))
-                      }
-                      className="px-3 py-2 text-sm border border-border bg-surface text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-brand/50"
-                    />
-                    <input
-                      type="number"
-                      placeholder={`До ${availableFilters.priceRange.max}`}
-                      value={priceRange.max ?? ''}
-                      onChange={(e) =>
-                        setPriceRange((prev) => ({
-                          ...prev,
-                          max: e.target.value ? Number(e.target.value) : null,
-                        }))
-                      }
-                      className="px-3 py-2 text-sm border border-border bg-surface text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-brand/50"
-                    />
-                  </div>
-                </div>
-              )}
-
-              {/* In Stock */}
-              <div className="mb-6 border-b border-border pb-4">
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={inStockOnly}
-                    onChange={(e) => setInStockOnly(e.target.checked)}
-                    className="w-4 h-4 text-brand border-border rounded focus:ring-brand/50"
-                  />
-                  <span className="text-sm text-foreground">Тільки в наявності</span>
-                </label>
-              </div>
-
-            {/* Dynamic Attribute Filters */}
-            {availableFilters && (
-              <DynamicAttributeFilters
-                availableFilters={availableFilters.attributes}
-                selectedFilters={selectedFilters}
-                onFilterChange={handleFilterChange}
-                onClearAll={handleClearAllFilters}
-              />
-            )}
-          </div>
+        <aside className="lg:col-span-1">
+          <ProductFilterSidebar
+            availableFilters={availableFilters}
+            facets={facets}
+            facetsLoading={facetsLoading}
+            pending={pending}
+            hasPendingChanges={hasPendingChanges}
+            onChange={updateDraft}
+            onApply={applyDraft}
+            onDiscard={discardDraft}
+            onClearAll={clearAllFilters}
+          >
+            <FilterPresets categoryId={category.id} currentQuery={appliedQuery} onApply={applyPreset} />
+          </ProductFilterSidebar>
         </aside>
 
         {/* Products Grid */}
         <main className="lg:col-span-3">
           {/* Sorting */}
-          <div className="flex items-center justify-between mb-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
             <div className="text-sm text-foreground-muted">
-              Сторінка {page} з {totalPages}
+              {infinite ? `Показано ${products.length} з ${totalProducts}` : `Сторінка ${page} з ${totalPages}`}
             </div>
+            <div className="flex items-center gap-3">
+             <ListingModeToggle />
              <select
                value={sort}
-               onChange={(e) => setSort(e.target.value as ProductSort)}
+               onChange={(e) => setFilters({ sort: e.target.value as ProductSort })}
                className="px-4 py-2 border border-border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-info"
              >
               <option value={ProductSort.Newest}>Новинки</option>
               <option value={ProductSort.PriceAsc}>Ціна: зростання</option>
               <option value={ProductSort.PriceDesc}>Ціна: спадання</option>
+              <option value={ProductSort.Rating}>За рейтингом</option>
             </select>
+            </div>
           </div>
 
+          <ActiveFilterChips
+            filters={filters}
+            availableFilters={availableFilters?.attributes}
+            onChange={applyPatch}
+            onClearAll={clearAllFilters}
+          />
+
           {/* Products */}
           {products.length > 0 ? (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {products.map((product) => (
-                <ProductCard 
-                  key={product.id} 
-                  product={product} 
-                  onClick={(productSlug) => navigate(`/product/${productSlug}`)}
-                  onAddToCart={async (productId) => {
-                    // Fetch product details to get the default SKU
-                    try {
-                      const result = await productsApi.getById(productId)
-                      if (result.isSuccess && result.payload) {
-                        const productDetails = result.payload
-                        // Use the first SKU as default
-                        const defaultSku = productDetails.skus[0]
-                        if (defaultSku) {
-                          const { useCartStore } = await import('../../store/cartStore')
-                          const { addToCart } = useCartStore.getState()
-                          const added = await addToCart(productId, defaultSku.id, 1)
-                          if (added) {
-                            console.log('Added to cart successfully')
-                          } else {
-                            const { lastError } = useCartStore.getState()
-                            console.error('Failed to add to cart:', lastError || 'Unknown error')
-                          }
-                        }
-                      }
-                    } catch (error) {
-                      console.error('Failed to add to cart:', error)
-                    }
-                  }}
-                />
-              ))}
-            </div>
+            <VirtualProductGrid
+              products={products}
+              className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
+              columns={gridColumns}
+              onProductClick={(productSlug) => navigate(`/product/${productSlug}`)}
+              onAddToCart={handleAddToCart}
+            />
            ) : (
              <div className="text-center py-12 text-foreground-muted">
                Товари не знайдено. Спробуйте змінити фільтри.
              </div>
            )}
 
+          {infinite && products.length > 0 && (
+            <LoadMoreTrigger
+              hasMore={!!infiniteQuery.hasNextPage}
+              isLoading={infiniteQuery.isFetchingNextPage}
+              onLoadMore={() => infiniteQuery.fetchNextPage()}
+            />
+          )}
+
           {/* Pagination */}
-           {totalPages > 1 && (
+           {!infinite && totalPages > 1 && (
              <div className="flex justify-center items-center gap-2 mt-8">
                <button
-                 onClick={() => setPage((p) => Math.max(1, p - 1))}
+                 onClick={() => setFilters({ page: Math.max(1, page - 1) })}
                  disabled={page === 1}
                  className="px-4 py-2 border border-border rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-surface-hover"
                >
@@ -314,7 +230,7 @@ export const CategoryProductsPage: React.FC = () => {
                </span>
 
                <button
-                 onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                 onClick={() => setFilters({ page: Math.min(totalPages, page + 1) })}
                  disabled={page === totalPages}
                  className="px-4 py-2 border border-border rounded-md disabled:opacity-50 disabled:cursor-not-allowed hover:bg-surface-hover"
                >
@@ -1,10 +1,10 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useTranslation } from 'react-i18next'
 import { useNavigate } from 'react-router-dom'
 import { useCartStore } from '../../store/cartStore'
 import { useAuthStore } from '../../store/authStore'
 import { ordersApi, type ShippingAddressRequest } from '../../api/ordersApi'
-import { unwrapServiceResponse } from '../../api/types'
+import { ServiceResponseError, unwrapServiceResponse } from '../../api/types'
 
 // Icons
 const Check = ({ className }: { className?: string }) => <svg className={className} xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M20 6 9 17l-5-5"/></svg>
@@ -41,6 +41,9 @@ export default function Checkout() {
   const [orderComplete, setOrderComplete] = useState(false)
   const [orderNumber, setOrderNumber] = useState('')
   const [error, setError] = useState<string | null>(null)
+  // One key per order: resubmitting the same order after a timeout returns the order that was already created,
+  // while a changed address, option or cart is a different order and gets a new key
+  const idempotency = useRef<{ key: string; order: string } | null>(null)
 
   // Form data
   const [shippingAddress, setShippingAddress] = useState<ShippingAddressRequest>({
@@ -114,20 +117,27 @@ export default function Checkout() {
       const deliveryMethod = deliveryMethods.find(d => d.id === selectedDelivery)?.name || 'Standard Shipping'
       const paymentMethod = paymentMethods.find(p => p.id === selectedPayment)?.name || 'Credit Card'
 
-      const response = await ordersApi.createOrder({
+      const request = {
         shippingAddress,
         deliveryMethod,
         paymentMethod,
         promoCode: promoCode || undefined,
         customerNotes: customerNotes || undefined,
-        idempotencyKey: crypto.randomUUID(),
-      })
+      }
+      const order = JSON.stringify({ request, items: cart?.items.map((i) => [i.skuId, i.quantity]) })
+      if (idempotency.current?.order !== order) {
+        idempotency.current = { key: crypto.randomUUID(), order }
+      }
+
+      const response = await ordersApi.createOrder({ ...request, idempotencyKey: idempotency.current.key })
 
-      const order = unwrapServiceResponse(response)
-      setOrderNumber(order.orderNumber)
+      const created = unwrapServiceResponse(response)
+      setOrderNumber(created.orderNumber)
       setOrderComplete(true)
       clearCart()
     } catch (err) {
+      // The server answered and refused: no order was created, so the next attempt must not be tied to this one
+      if (err instanceof ServiceResponseError) idempotency.current = null
       setError(err instanceof Error ? err.message : t('checkout.errors.submit', 'Failed to create order'))
     } finally {
       setIsSubmitting(false)
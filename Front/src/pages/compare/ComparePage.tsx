@@ -0,0 +1,147 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import type { ProductDetailsDto } from '../../api/catalogApi'
+import { useCompareStore } from '../../store/compareStore'
+import { useProductsBySlugs } from '../../hooks/useCatalog'
+import { useAttributeDefinitions } from '../../hooks/useAttributeDefinitions'
+import { buildComparisonRows, priceRangeOf } from '../../utils/productComparison'
+
+export default function ComparePage() {
+  const { t } = useTranslation()
+  const { items, category, removeProduct, clear } = useCompareStore()
+  const [onlyDifferences, setOnlyDifferences] = useState(false)
+
+  const productQueries = useProductsBySlugs(items.map((i) => i.slug))
+  const { data: definitions } = useAttributeDefinitions()
+  const isLoading = productQueries.some((q) => q.isPending)
+  // Products removed or hidden since they were added are left out rather than failing the page
+  const products = productQueries
+    .map((q) => q.data)
+    .filter((p): p is ProductDetailsDto => !!p)
+
+  const rows = buildComparisonRows(products, definitions ?? [], { yes: t('compare.yes'), no: t('compare.no') })
+  const visibleRows = onlyDifferences ? rows.filter((r) => r.isDifferent) : rows
+
+  const formatPrice = (product: ProductDetailsDto) => {
+    const range = priceRangeOf(product)
+    if (!range) return '—'
+    return range.min === range.max
+      ? `${range.min.toFixed(2)} ₴`
+      : `${range.min.toFixed(2)} – ${range.max.toFixed(2)} ₴`
+  }
+  const prices = products.map(formatPrice)
+  const availability = products.map((p) =>
+    p.skus.some((s) => s.stockQuantity > 0) ? t('productPage.inStock') : t('productPage.outOfStock')
+  )
+
+  if (items.length === 0) {
+    return (
+      <div className="max-w-2xl mx-auto py-16 text-center">
+        <h1 className="text-2xl font-semibold text-foreground mb-2">{t('compare.title')}</h1>
+        <p className="text-foreground-muted mb-6">{t('compare.empty')}</p>
+        <Link to="/" className="btn-primary">{t('compare.browse')}</Link>
+      </div>
+    )
+  }
+
+  const renderRow = (key: string, label: string, values: (string | null)[], isDifferent: boolean) => (
+    <tr key={key} className={isDifferent ? 'bg-brand/5' : undefined}>
+      <th scope="row" className="sticky left-0 bg-surface px-4 py-3 text-left text-sm font-medium text-foreground-muted align-top">
+        {label}
+      </th>
+      {values.map((value, index) => (
+        <td
+          key={products[index].id}
+          className={`px-4 py-3 text-sm align-top ${isDifferent ? 'font-semibold text-foreground' : 'text-foreground'}`}
+        >
+          {value ?? <span className="text-foreground-muted">—</span>}
+        </td>
+      ))}
+    </tr>
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-foreground">{t('compare.title')}</h1>
+          {category && <p className="text-foreground-muted">{category.name}</p>}
+        </div>
+        <div className="flex items-center gap-4">
+          <label className="flex items-center gap-2 cursor-pointer text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={onlyDifferences}
+              onChange={(e) => setOnlyDifferences(e.target.checked)}
+              className="w-4 h-4 text-brand border-border rounded focus:ring-brand/50"
+            />
+            {t('compare.only_differences')}
+          </label>
+          <button type="button" onClick={clear} className="text-sm text-foreground-muted hover:text-foreground">
+            {t('compare.clear')}
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="animate-pulse h-64 rounded-xl bg-surface-hover dark:bg-background" />
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-border">
+          <table className="w-full min-w-[40rem] border-collapse">
+            <thead>
+              <tr className="border-b border-border">
+                <td className="sticky left-0 bg-surface w-48" />
+                {products.map((product) => (
+                  <th key={product.id} scope="col" className="px-4 py-4 text-left align-top font-normal">
+                    <div className="relative">
+                      <button
+                        type="button"
+                        onClick={() => removeProduct(product.id)}
+                        aria-label={t('compare.remove_item', { name: product.name })}
+                        className="absolute right-0 top-0 p-1 text-foreground-muted hover:text-error"
+                      >
+                        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                      {product.baseImageUrl ? (
+                        <img src={product.baseImageUrl} alt={product.name} className="mb-3 aspect-[4/3] w-full max-w-[12rem] rounded-lg object-cover" />
+                      ) : (
+                        <div className="mb-3 aspect-[4/3] w-full max-w-[12rem] rounded-lg bg-background-secondary" />
+                      )}
+                      <Link to={`/product/${product.slug}`} className="font-semibold text-foreground hover:text-brand line-clamp-2">
+                        {product.name}
+                      </Link>
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {(!onlyDifferences || new Set(prices).size > 1) &&
+                renderRow('price', t('compare.price'), prices, new Set(prices).size > 1)}
+              {(!onlyDifferences || new Set(availability).size > 1) &&
+                renderRow('availability', t('compare.availability'), availability, new Set(availability).size > 1)}
+              {visibleRows.map((row) =>
+                renderRow(
+                  row.code,
+                  row.unit ? `${row.name}, ${row.unit}` : row.name,
+                  row.values,
+                  row.isDifferent
+                )
+              )}
+            </tbody>
+          </table>
+          {onlyDifferences && visibleRows.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-foreground-muted">{t('compare.no_differences')}</p>
+          )}
+        </div>
+      )}
+
+      {!isLoading && products.length < 2 && (
+        <p className="text-sm text-foreground-muted">{t('compare.add_more')}</p>
+      )}
+    </div>
+  )
+}
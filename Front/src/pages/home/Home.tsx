@@ -1,5 +1,9 @@
+import { Link } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import { CatalogSection } from '../../components/catalog/CatalogSection'
+import { RecentlyViewedStrip } from '../../components/catalog/RecentlyViewedStrip'
+import { FavoritesRail, NewArrivalsRail, PopularInCategoryRail } from '../../components/home/HomeRails'
+import { LazyRail } from '../../components/home/LazyRail'
 
 export default function Home() {
   const { t } = useTranslation()
@@ -12,27 +16,35 @@ export default function Home() {
           <h1 className="text-3xl font-bold tracking-tight text-foreground md:text-5xl">{t('site.name')}</h1>
           <p className="max-w-prose text-foreground-muted">{t('site.home.tagline')}</p>
           <div className="flex gap-3">
-            <button className="btn-primary">{t('home.cta.catalog')}</button>
-            <button className="rounded-md border border-foreground/20 px-4 py-2 text-foreground hover:bg-foreground/5">
+            <a href="#catalog" className="btn-primary">{t('home.cta.catalog')}</a>
+            <Link
+              to="/about"
+              className="rounded-md border border-foreground/20 px-4 py-2 text-foreground hover:bg-foreground/5"
+            >
               {t('home.cta.learn_more')}
-            </button>
+            </Link>
           </div>
         </div>
         <div className="card h-56 md:h-72" />
       </section>
 
       {/* Catalog Section - Categories grid */}
-      <CatalogSection />
+      <div id="catalog" className="scroll-mt-24">
+        <CatalogSection />
+      </div>
 
-      {/* Recommendations */}
-      <section>
-        <h2 className="mb-4 text-xl font-semibold text-foreground">{t('home.recommendations')}</h2>
-        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-          {[1, 2, 3, 4, 5, 6, 7, 8].map((i) => (
-            <div key={i} className="card h-56" />
-          ))}
-        </div>
-      </section>
+      <RecentlyViewedStrip />
+
+      {/* Recommendations: each rail loads when scrolled near */}
+      <LazyRail>
+        <NewArrivalsRail />
+      </LazyRail>
+      <LazyRail>
+        <PopularInCategoryRail />
+      </LazyRail>
+      <LazyRail>
+        <FavoritesRail />
+      </LazyRail>
     </div>
   )
 }
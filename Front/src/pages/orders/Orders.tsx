@@ -1,7 +1,12 @@
 import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { ordersApi, type OrderSummaryDto, type OrderDetailDto, type OrderStatus } from '../../api/ordersApi'
+import { type OrderStatus } from '../../api/ordersApi'
+import { serviceErrorMessage } from '../../api/types'
 import { useAuthStore } from '../../store/authStore'
+import { useOrder, useOrders } from '../../hooks/useOrders'
+import { useMyReviews } from '../../hooks/useReviews'
+import { ReviewForm } from '../../components/reviews/ReviewForm'
+import { StarRating } from '../../components/reviews/StarRating'
 import { useNavigate } from 'react-router-dom'
 
 // Icons
@@ -30,87 +35,56 @@ export default function Orders() {
   const navigate = useNavigate()
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
 
-  const [orders, setOrders] = useState<OrderSummaryDto[]>([])
-  const [selectedOrder, setSelectedOrder] = useState<OrderDetailDto | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-  const [isLoadingDetails, setIsLoadingDetails] = useState(false)
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [statusFilter, setStatusFilter] = useState<OrderStatus | null>(null)
   const [sortBy, setSortBy] = useState<'date' | 'status'>('date')
   const [pageNumber, setPageNumber] = useState(1)
-  const [totalPages, setTotalPages] = useState(1)
   const [showCancelModal, setShowCancelModal] = useState(false)
   const [cancelReason, setCancelReason] = useState('')
-  const [isCancelling, setIsCancelling] = useState(false)
+  const [reviewingItemId, setReviewingItemId] = useState<string | null>(null)
+
+  const {
+    orders,
+    totalPages,
+    isLoading,
+    error: loadError,
+    refetch,
+    cancelOrder,
+    isCancelling,
+  } = useOrders(
+    { status: statusFilter, sortBy: sortBy === 'date' ? 'CreatedAt' : 'Status', pageNumber, pageSize: 10 },
+    { enabled: isAuthenticated }
+  )
+  const { order: selectedOrder, isLoading: isLoadingDetails } = useOrder(selectedOrderId)
+  // One review per product: items of products reviewed earlier (from any order) show that review instead
+  const { data: myReviews = [] } = useMyReviews({ enabled: isAuthenticated && selectedOrder?.status === 'Delivered' })
+  const displayedError = error ?? (loadError ? serviceErrorMessage(loadError, 'Failed to load orders') : null)
 
   useEffect(() => {
     if (!isAuthenticated) {
       navigate('/auth', { state: { from: '/orders' } })
-      return
-    }
-    loadOrders()
-  }, [isAuthenticated, navigate, statusFilter, sortBy, pageNumber])
-
-  const loadOrders = async () => {
-    setIsLoading(true)
-    setError(null)
-
-    try {
-      const response = await ordersApi.getOrders(
-        statusFilter,
-        null,
-        null,
-        sortBy === 'date' ? 'CreatedAt' : 'Status',
-        true,
-        pageNumber,
-        10
-      )
-
-      if (response.isSuccess && response.payload) {
-        setOrders(response.payload.orders)
-        setTotalPages(response.payload.totalPages)
-      } else {
-        setError(response.message)
-      }
-    } catch (err) {
-      setError('Failed to load orders')
-    } finally {
-      setIsLoading(false)
     }
-  }
+  }, [isAuthenticated, navigate])
 
-  const viewOrderDetails = async (orderId: string) => {
-    setIsLoadingDetails(true)
-    try {
-      const response = await ordersApi.getOrder(orderId)
-      if (response.isSuccess && response.payload) {
-        setSelectedOrder(response.payload)
-      }
-    } catch (err) {
-      console.error('Failed to load order details:', err)
-    } finally {
-      setIsLoadingDetails(false)
-    }
+  const viewOrderDetails = (orderId: string) => {
+    setSelectedOrderId(orderId)
   }
 
   const handleCancelOrder = async () => {
     if (!selectedOrder) return
 
-    setIsCancelling(true)
     try {
-      const response = await ordersApi.cancelOrder(selectedOrder.id, { reason: cancelReason })
+      const response = await cancelOrder({ orderId: selectedOrder.id, reason: cancelReason })
       if (response.isSuccess) {
         setShowCancelModal(false)
         setCancelReason('')
-        setSelectedOrder(null)
-        loadOrders()
+        setSelectedOrderId(null)
       } else {
         setError(response.message)
       }
-    } catch (err) {
+    } catch {
       setError('Failed to cancel order')
-    } finally {
-      setIsCancelling(false)
     }
   }
 
@@ -139,9 +113,9 @@ export default function Orders() {
         {t('orders.title', 'My Orders')}
       </h1>
 
-      {error && (
+      {displayedError && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
-          <p className="text-red-700">{error}</p>
+          <p className="text-red-700">{displayedError}</p>
           <button
             onClick={() => setError(null)}
             className="text-sm text-red-600 underline mt-1"
@@ -177,7 +151,7 @@ export default function Orders() {
         </select>
 
         <button
-          onClick={loadOrders}
+          onClick={() => refetch()}
           className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
         >
           <RefreshCw className="w-4 h-4" />
@@ -285,7 +259,10 @@ export default function Orders() {
                 {t('orders.orderDetails', 'Order Details')}
               </h2>
               <button
-                onClick={() => setSelectedOrder(null)}
+                onClick={() => {
+                  setSelectedOrderId(null)
+                  setReviewingItemId(null)
+                }}
                 className="p-2 hover:bg-gray-100 rounded-full"
               >
                 <X className="w-5 h-5" />
@@ -335,29 +312,57 @@ export default function Orders() {
                       {t('orders.items', 'Items')}
                     </h3>
                     <div className="space-y-3">
-                      {selectedOrder.items.map((item) => (
-                        <div key={item.id} className="flex justify-between items-center py-2 border-b border-gray-100">
-                          <div className="flex items-center gap-3">
-                            {item.productImageUrl ? (
-                              <img
-                                src={item.productImageUrl}
-                                alt={item.productName}
-                                className="w-12 h-12 object-cover rounded"
-                              />
-                            ) : (
-                              <div className="w-12 h-12 bg-gray-200 rounded flex items-center justify-center">
-                                <Package className="w-6 h-6 text-gray-400" />
+                      {selectedOrder.items.map((item) => {
+                        const myReview = myReviews.find((r) => r.review.productId === item.productId)
+                        return (
+                          <div key={item.id} className="py-2 border-b border-gray-100">
+                            <div className="flex justify-between items-center">
+                              <div className="flex items-center gap-3">
+                                {item.productImageUrl ? (
+                                  <img
+                                    src={item.productImageUrl}
+                                    alt={item.productName}
+                                    className="w-12 h-12 object-cover rounded"
+                                  />
+                                ) : (
+                                  <div className="w-12 h-12 bg-gray-200 rounded flex items-center justify-center">
+                                    <Package className="w-6 h-6 text-gray-400" />
+                                  </div>
+                                )}
+                                <div>
+                                  <p className="font-medium text-gray-900">{item.productName}</p>
+                                  <p className="text-sm text-gray-500">{item.skuCode}</p>
+                                  <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
+                                </div>
                               </div>
-                            )}
-                            <div>
-                              <p className="font-medium text-gray-900">{item.productName}</p>
-                              <p className="text-sm text-gray-500">{item.skuCode}</p>
-                              <p className="text-sm text-gray-500">Qty: {item.quantity}</p>
+                              <span className="font-medium">${item.subtotal.toFixed(2)}</span>
                             </div>
+                            {selectedOrder.status === 'Delivered' && (
+                              myReview ? (
+                                <div className="mt-2 flex items-center gap-2 text-sm text-gray-500">
+                                  <StarRating value={myReview.review.rating} />
+                                  {myReview.status === 'Hidden'
+                                    ? t('reviews.hiddenByModerator', 'Hidden by a moderator')
+                                    : t('reviews.reviewed', 'You reviewed this item')}
+                                </div>
+                              ) : reviewingItemId === item.id ? (
+                                <ReviewForm
+                                  orderItemId={item.id}
+                                  onSubmitted={() => setReviewingItemId(null)}
+                                  onCancel={() => setReviewingItemId(null)}
+                                />
+                              ) : (
+                                <button
+                                  onClick={() => setReviewingItemId(item.id)}
+                                  className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+                                >
+                                  ★ {t('reviews.rateItem', 'Rate this item')}
+                                </button>
+                              )
+                            )}
                           </div>
-                          <span className="font-medium">${item.subtotal.toFixed(2)}</span>
-                        </div>
-                      ))}
+                        )
+                      })}
                     </div>
                   </div>
 
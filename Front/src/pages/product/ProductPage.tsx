@@ -1,62 +1,65 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
 import {
-  productsApi,
-  type ProductDetailsDto,
-  type SkuDto,
-  type MediaImageDto
+  type SkuDto
 } from '../../api/catalogApi'
 import { useFavoritesStore, useIsFavorited } from '../../store/favoritesStore'
+import { useRecentlyViewedStore } from '../../store/recentlyViewedStore'
+import { serviceErrorMessage } from '../../api/types'
+import { useProduct, useRelatedProducts } from '../../hooks/useCatalog'
+import { CompareButton } from '../../components/compare/CompareButton'
+import { ProductGallery } from '../../components/gallery/ProductGallery'
+import type { GalleryImage } from '../../components/gallery/galleryImage'
+import { VariantSelector } from '../../components/catalog/VariantSelector'
+import { FrequentlyBoughtTogether } from '../../components/catalog/FrequentlyBoughtTogether'
+import { ProductReviews } from '../../components/reviews/ProductReviews'
+import { ProductQuestions } from '../../components/questions/ProductQuestions'
+import { StarRating } from '../../components/reviews/StarRating'
+import { useRatingSummary } from '../../hooks/useReviews'
+import { ProductRail } from '../../components/home/ProductRail'
+import { useAttributeDefinitions } from '../../hooks/useAttributeDefinitions'
+import { buildVariantAxes } from '../../utils/variantMatrix'
 
 export default function ProductPage() {
   const { t } = useTranslation()
   const navigate = useNavigate()
   const { productSlug, skuCode } = useParams<{ productSlug: string; skuCode?: string }>()
 
-  const [product, setProduct] = useState<ProductDetailsDto | null>(null)
+  const { data: productData, isPending: loading, error: productError } = useProduct(productSlug, skuCode)
+  const product = productData ?? null
+  const error = productError ? serviceErrorMessage(productError, t('common.error')) : null
   const [selectedSku, setSelectedSku] = useState<SkuDto | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [selectedImage, setSelectedImage] = useState<string | null>(null)
   const [quantity, setQuantity] = useState(1)
 
   // Favorites functionality
   const { toggleFavorite, isToggling } = useFavoritesStore()
   const isFavorited = useIsFavorited(product?.id || '')
 
-  // Fetch product data by slug
-  const fetchProduct = useCallback(async () => {
-    if (!productSlug) return
-
-    setLoading(true)
-    setError(null)
-    try {
-      const result = await productsApi.getBySlug(productSlug, skuCode)
-      if (result.isSuccess && result.payload) {
-        setProduct(result.payload)
-        
-        // Select SKU based on URL or default to first
-        const skus = result.payload.skus
-        if (skus.length > 0) {
-          const targetSku = skuCode 
-            ? skus.find(s => s.skuCode === skuCode) || skus[0]
-            : skus[0]
-          setSelectedSku(targetSku)
-        }
-      } else {
-        setError(result.message || t('product.notFound'))
-      }
-    } catch {
-      setError(t('common.error'))
-    } finally {
-      setLoading(false)
-    }
-  }, [productSlug, skuCode, t])
+  // Recently viewed: once per product, not again when the query refetches or the SKU changes
+  const recordView = useRecentlyViewedStore((state) => state.recordView)
+  const recordedProductId = useRef<string | null>(null)
+  useEffect(() => {
+    if (!product || recordedProductId.current === product.id) return
+    recordedProductId.current = product.id
+    recordView({
+      productId: product.id,
+      slug: product.slug,
+      name: product.name,
+      imageUrl: product.baseImageUrl ?? product.gallery[0]?.url ?? null,
+    })
+  }, [product, recordView])
 
+  // Select SKU based on URL or default to first
   useEffect(() => {
-    fetchProduct()
-  }, [fetchProduct])
+    const skus = productData?.skus ?? []
+    if (skus.length > 0) {
+      const targetSku = skuCode
+        ? skus.find(s => s.skuCode === skuCode) || skus[0]
+        : skus[0]
+      setSelectedSku(targetSku)
+    }
+  }, [productData, skuCode])
 
   // Update URL when SKU changes
   useEffect(() => {
@@ -65,122 +68,25 @@ export default function ProductPage() {
     }
   }, [selectedSku, product, skuCode, navigate])
 
-  // Set initial image when SKU changes
-  useEffect(() => {
-    if (selectedSku) {
-      // Prefer SKU gallery, fallback to product gallery, then base image
-      const skuImages = selectedSku.gallery || []
-      const productImages = product?.gallery || []
-      
-      if (skuImages.length > 0) {
-        setSelectedImage(skuImages[0].url)
-      } else if (productImages.length > 0) {
-        setSelectedImage(productImages[0].url)
-      } else if (product?.baseImageUrl) {
-        setSelectedImage(product.baseImageUrl)
-      } else {
-        setSelectedImage(null)
-      }
-    }
-  }, [selectedSku, product])
-
-  // Get all images for gallery (SKU images first, then product images)
-  const allImages = useMemo(() => {
-    const images: MediaImageDto[] = []
-    
-    // Add SKU-specific images first
-    if (selectedSku?.gallery) {
-      images.push(...selectedSku.gallery)
-    }
-    
-    // Add product gallery images
-    if (product?.gallery) {
-      images.push(...product.gallery)
+  // Gallery images: SKU-specific first, then the product gallery, then the base image if it is not among them
+  const galleryImages = useMemo(() => {
+    const images: GalleryImage[] = [...(selectedSku?.gallery ?? []), ...(product?.gallery ?? [])]
+    if (product?.baseImageUrl && !images.some(img => img.url === product.baseImageUrl)) {
+      // Size unknown (0), so no zoom or srcset for it
+      images.push({ id: 'base', url: product.baseImageUrl, width: 0, height: 0, altText: null })
     }
-    
     return images
   }, [selectedSku, product])
 
-  // Get unique attribute keys across all SKUs for variant selection
-  const variantAttributes = useMemo(() => {
-    if (!product?.skus) return {}
-    
-    const attrs: Record<string, Set<string>> = {}
-    
-    for (const sku of product.skus) {
-      if (sku.attributes) {
-        for (const [key, value] of Object.entries(sku.attributes)) {
-          if (!attrs[key]) {
-            attrs[key] = new Set()
-          }
-          attrs[key].add(String(value))
-        }
-      }
-    }
-    
-    // Convert Sets to arrays
-    const result: Record<string, string[]> = {}
-    for (const [key, values] of Object.entries(attrs)) {
-      result[key] = Array.from(values)
-    }
-    
-    return result
-  }, [product])
-
-  // Get selected attribute values from current SKU
-  const selectedAttributes = useMemo(() => {
-    if (!selectedSku?.attributes) return {}
-    
-    const result: Record<string, string> = {}
-    for (const [key, value] of Object.entries(selectedSku.attributes)) {
-      result[key] = String(value)
-    }
-    return result
-  }, [selectedSku])
-
-  // Handle attribute selection - find matching SKU
-  const handleAttributeChange = (attributeKey: string, value: string) => {
-    if (!product?.skus) return
-    
-    // Build target attributes
-    const targetAttrs = { ...selectedAttributes, [attributeKey]: value }
-    
-    // Find SKU that matches all selected attributes
-    const matchingSku = product.skus.find(sku => {
-      if (!sku.attributes) return false
-      
-      for (const [key, val] of Object.entries(targetAttrs)) {
-        if (String(sku.attributes[key]) !== val) {
-          return false
-        }
-      }
-      return true
-    })
-    
-    if (matchingSku) {
-      setSelectedSku(matchingSku)
-    }
-  }
+  // Variant axes (size, color, ...) from the attribute definitions marked as variant
+  const { data: attributeDefinitions } = useAttributeDefinitions()
+  const variantAxes = useMemo(
+    () => buildVariantAxes(product?.skus ?? [], attributeDefinitions ?? []),
+    [product, attributeDefinitions]
+  )
 
-  // Check if a specific attribute value is available (has matching SKU)
-  const isAttributeValueAvailable = (attributeKey: string, value: string): boolean => {
-    if (!product?.skus) return false
-    
-    // Build target attributes with this value
-    const targetAttrs = { ...selectedAttributes, [attributeKey]: value }
-    
-    // Check if any SKU matches
-    return product.skus.some(sku => {
-      if (!sku.attributes) return false
-      
-      for (const [key, val] of Object.entries(targetAttrs)) {
-        if (String(sku.attributes[key]) !== val) {
-          return false
-        }
-      }
-      return true
-    })
-  }
+  const { data: relatedProducts = [], isPending: relatedLoading } = useRelatedProducts(product?.id)
+  const { data: ratingSummary } = useRatingSummary(product?.id)
 
   const handleAddToCart = async () => {
     if (!product || !selectedSku) return
@@ -282,65 +188,7 @@ export default function ProductPage() {
 
       <div className="grid md:grid-cols-2 gap-8">
         {/* Image Gallery */}
-        <div className="space-y-4">
-          {/* Main Image */}
-          <div className="aspect-square bg-background-secondary rounded-xl overflow-hidden">
-            {selectedImage ? (
-              <img
-                src={selectedImage}
-                alt={product.name}
-                className="w-full h-full object-contain"
-              />
-            ) : (
-              <div className="w-full h-full flex items-center justify-center">
-                <svg className="w-24 h-24 text-foreground-muted opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                </svg>
-              </div>
-            )}
-          </div>
-
-          {/* Thumbnail Gallery */}
-          {allImages.length > 0 && (
-            <div className="flex gap-2 overflow-x-auto pb-2">
-              {/* Base image thumbnail if exists and different from gallery */}
-              {product.baseImageUrl && !allImages.some(img => img.url === product.baseImageUrl) && (
-                <button
-                  onClick={() => setSelectedImage(product.baseImageUrl)}
-                  className={`flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2 transition-all ${
-                    selectedImage === product.baseImageUrl
-                      ? 'border-brand ring-2 ring-brand/30'
-                      : 'border-border hover:border-brand/50'
-                  }`}
-                >
-                  <img
-                    src={product.baseImageUrl}
-                    alt={product.name}
-                    className="w-full h-full object-cover"
-                  />
-                </button>
-              )}
-              
-              {allImages.map((img) => (
-                <button
-                  key={img.id}
-                  onClick={() => setSelectedImage(img.url)}
-                  className={`flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden border-2 transition-all ${
-                    selectedImage === img.url
-                      ? 'border-brand ring-2 ring-brand/30'
-                      : 'border-border hover:border-brand/50'
-                  }`}
-                >
-                  <img
-                    src={img.url}
-                    alt={img.altText || product.name}
-                    className="w-full h-full object-cover"
-                  />
-                </button>
-              ))}
-            </div>
-          )}
-        </div>
+        <ProductGallery key={selectedSku?.id ?? 'product'} images={galleryImages} fallbackAlt={product.name} />
 
         {/* Product Info */}
         <div className="space-y-6">
@@ -375,6 +223,14 @@ export default function ProductPage() {
                  </svg>
                </button>
              </div>
+
+            {ratingSummary && ratingSummary.reviewCount > 0 && (
+              <a href="#reviews" className="mt-2 inline-flex items-center gap-2 text-sm text-foreground-muted hover:text-brand">
+                <StarRating value={ratingSummary.averageRating} />
+                <span>{ratingSummary.averageRating.toFixed(1)}</span>
+                <span>({t('productCard.reviews', { count: ratingSummary.reviewCount })})</span>
+              </a>
+            )}
             
             {selectedSku && (
               <div className="mt-3 flex items-baseline gap-3">
@@ -412,40 +268,12 @@ export default function ProductPage() {
            )}
 
           {/* Variant Selection */}
-          {Object.keys(variantAttributes).length > 0 && (
-            <div className="space-y-4">
-              {Object.entries(variantAttributes).map(([attrKey, values]) => (
-                <div key={attrKey}>
-                  <label className="block text-sm font-medium text-foreground mb-2">
-                    {attrKey}: <span className="text-brand">{selectedAttributes[attrKey] || '—'}</span>
-                  </label>
-                  <div className="flex flex-wrap gap-2">
-                    {values.map((value) => {
-                      const isSelected = selectedAttributes[attrKey] === value
-                      const isAvailable = isAttributeValueAvailable(attrKey, value)
-                      
-                      return (
-                         <button
-                           key={value}
-                           onClick={() => handleAttributeChange(attrKey, value)}
-                           disabled={!isAvailable}
-                           className={`px-4 py-2 rounded-lg border-2 text-sm font-medium transition-all ${
-                             isSelected
-                               ? 'border-brand bg-brand text-white'
-                               : isAvailable
-                                 ? 'border-border hover:border-brand text-foreground'
-                                 : 'border-border bg-surface-hover dark:bg-background text-foreground-muted opacity-50 cursor-not-allowed line-through'
-                           }`}
-                         >
-                          {value}
-                        </button>
-                      )
-                    })}
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
+          <VariantSelector
+            axes={variantAxes}
+            skus={product.skus}
+            selectedSku={selectedSku}
+            onSelect={setSelectedSku}
+          />
 
           {/* Quantity & Actions */}
           <div className="space-y-4 pt-4 border-t border-border">
@@ -500,6 +328,7 @@ export default function ProductPage() {
                 {t('productPage.buyNow')}
               </button>
             </div>
+            <CompareButton product={product} />
           </div>
 
           {/* Description */}
@@ -558,6 +387,15 @@ export default function ProductPage() {
           )}
         </div>
       </div>
+
+      <div className="mt-12 space-y-10">
+        {/* Keyed by product: ticked items do not carry over to the next product */}
+        <FrequentlyBoughtTogether key={product.id} product={product} selectedSku={selectedSku} />
+        {/* Keyed by product: star filter and page start over on the next product */}
+        <ProductReviews key={product.id} productId={product.id} productName={product.name} />
+        <ProductQuestions key={product.id} productId={product.id} storeId={product.storeId} />
+        <ProductRail title={t('productPage.related')} products={relatedProducts} isLoading={relatedLoading} />
+      </div>
     </div>
   )
 }
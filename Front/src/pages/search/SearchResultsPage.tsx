@@ -0,0 +1,300 @@
+import { useEffect, useMemo } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import { ProductSort } from '../../api/catalogApi'
+import VirtualProductGrid from '../../components/catalog/VirtualProductGrid'
+import { ActiveFilterChips } from '../../components/catalog/ActiveFilterChips'
+import { ListingModeToggle } from '../../components/catalog/ListingModeToggle'
+import { LoadMoreTrigger } from '../../components/catalog/LoadMoreTrigger'
+import { QuickAddStatus } from '../../components/catalog/QuickAddStatus'
+import { ProductFilterSidebar } from '../../components/catalog/ProductFilterSidebar'
+import { RecentlyViewedStrip } from '../../components/catalog/RecentlyViewedStrip'
+import { useFilteredProducts, useInfiniteFilteredProducts, useTags } from '../../hooks/useCatalog'
+import { useProductFilterParams } from '../../hooks/useProductFilterParams'
+import { useQuickAddToCart } from '../../hooks/useQuickAddToCart'
+import { useScrollRestoration } from '../../hooks/useScrollRestoration'
+import { useSearchFacets, useSearchFilters } from '../../hooks/useSearch'
+import { useStagedProductFilters } from '../../hooks/useStagedProductFilters'
+import { useListingPreferencesStore } from '../../store/listingPreferencesStore'
+import { useSearchStore } from '../../store/searchStore'
+import { findDidYouMean } from '../../utils/didYouMean'
+import { toProductFilterRequest } from '../../utils/productFilterParams'
+
+const ITEMS_PER_PAGE = 24
+
+// Mirrors grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 of the products grid
+const gridColumns = (width: number) => (width >= 1024 ? 3 : width >= 640 ? 2 : 1)
+
+const searchLink = (query: string) => `/search?q=${encodeURIComponent(query)}`
+
+export default function SearchResultsPage() {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const query = searchParams.get('q')?.trim() ?? ''
+  const infinite = useListingPreferencesStore((state) => state.mode) === 'infinite'
+
+  const { quickAdd, result: quickAddResult } = useQuickAddToCart()
+
+  const popularQueries = useSearchStore((state) => state.popularQueries)
+  const fetchPopularQueries = useSearchStore((state) => state.fetchPopularQueries)
+
+  useEffect(() => {
+    if (popularQueries.length === 0) fetchPopularQueries()
+  }, [popularQueries.length, fetchPopularQueries])
+
+  // Same URL-backed, staged filters as category pages; `q` stays in the URL next to them
+  const filterParams = useProductFilterParams(ProductSort.Relevance)
+  const { filters, setFilters } = filterParams
+  const { pending, hasPendingChanges, updateDraft, applyDraft, discardDraft, clearAllFilters, applyPatch } =
+    useStagedProductFilters(filterParams)
+
+  // A tag picked in the search bar opens the page with `tag` and no `q`; the tags then scope the results
+  const hasScope = !!query || filters.tagIds.length > 0
+  const { data: availableFilters } = useSearchFilters(query, query ? [] : filters.tagIds)
+  const { data: tags } = useTags()
+  const tagNames = filters.tagIds
+    .map((id) => tags?.find((tag) => tag.id === id)?.name)
+    .filter(Boolean)
+    .join(', ')
+
+  const filterRequest = useMemo(
+    () => (hasScope ? toProductFilterRequest(filters, { query, pageSize: ITEMS_PER_PAGE }) : null),
+    [hasScope, query, filters]
+  )
+  const { data: productsPage } = useFilteredProducts(infinite ? null : filterRequest)
+  const infiniteQuery = useInfiniteFilteredProducts(infinite ? filterRequest : null)
+
+  const pendingRequest = useMemo(
+    () => (hasScope ? toProductFilterRequest(pending, { query }) : null),
+    [hasScope, query, pending]
+  )
+  const { data: facets, isFetching: facetsLoading } = useSearchFacets(pendingRequest)
+
+  const products = useMemo(
+    () => (infinite ? infiniteQuery.data?.pages.flatMap((p) => p.items) : productsPage?.items) ?? [],
+    [infinite, infiniteQuery.data, productsPage]
+  )
+  const totalProducts = (infinite ? infiniteQuery.data?.pages[0]?.total : productsPage?.total) ?? 0
+  const productsLoaded = infinite ? !!infiniteQuery.data : !!productsPage
+
+  // Pagination
+  const currentPage = filters.page
+  const totalPages = Math.ceil(totalProducts / ITEMS_PER_PAGE)
+
+  useScrollRestoration(productsLoaded)
+
+  const didYouMean = useMemo(
+    () => findDidYouMean(query, popularQueries.map((p) => p.query)),
+    [query, popularQueries]
+  )
+
+  // Nothing matches the text itself, as opposed to the filters narrowing the results down to nothing
+  const noResultsForQuery = availableFilters?.totalProductCount === 0
+
+  const goToPage = (page: number) => {
+    setFilters({ page: Math.max(1, Math.min(page, totalPages)) })
+  }
+
+  const handleProductClick = (productSlug: string) => {
+    navigate(`/product/${productSlug}`)
+  }
+
+  const popularSuggestions = popularQueries.length > 0 && (
+    <div className="mt-6">
+      <p className="text-sm text-foreground-muted mb-3">{t('search.try_popular')}</p>
+      <div className="flex flex-wrap justify-center gap-2">
+        {popularQueries.map((popular) => (
+          <Link
+            key={popular.query}
+            to={searchLink(popular.query)}
+            className="px-3 py-1.5 rounded-full bg-surface border border-border text-sm text-foreground hover:border-brand hover:text-brand transition-colors"
+          >
+            {popular.query}
+          </Link>
+        ))}
+      </div>
+    </div>
+  )
+
+  if (!hasScope) {
+    return (
+      <div className="max-w-2xl mx-auto p-6 text-center">
+        <div className="card p-12">
+          <h1 className="text-2xl font-bold text-foreground mb-3">{t('search.results_title')}</h1>
+          <p className="text-foreground-muted">{t('search.empty_query')}</p>
+          {popularSuggestions}
+        </div>
+        <RecentlyViewedStrip className="mt-10 text-left" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-bold text-foreground">
+          {query
+            ? t('search.results_for', { query })
+            : tagNames
+              ? t('search.results_for_tag', { tag: tagNames })
+              : t('search.results_title')}
+        </h1>
+        {didYouMean && (
+          <p className="mt-2 text-foreground-muted">
+            {t('search.did_you_mean')}{' '}
+            <Link to={searchLink(didYouMean)} className="font-medium text-info hover:underline">
+              {didYouMean}
+            </Link>
+            ?
+          </p>
+        )}
+      </div>
+
+      {noResultsForQuery ? (
+        <>
+          <div className="card p-12 text-center">
+            <svg className="w-16 h-16 mx-auto text-foreground-muted mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+            </svg>
+            <h2 className="text-lg font-semibold text-foreground mb-2">{t('search.no_results')}</h2>
+            <p className="text-foreground-muted">{t('search.no_results_hint')}</p>
+            {popularSuggestions}
+          </div>
+          <RecentlyViewedStrip />
+        </>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <aside className="lg:col-span-1">
+            <ProductFilterSidebar
+              availableFilters={availableFilters}
+              facets={facets}
+              facetsLoading={facetsLoading}
+              pending={pending}
+              hasPendingChanges={hasPendingChanges}
+              onChange={updateDraft}
+              onApply={applyDraft}
+              onDiscard={discardDraft}
+              onClearAll={clearAllFilters}
+            />
+          </aside>
+
+          <main className="lg:col-span-3">
+            {/* Sorting */}
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+              <span className="text-sm text-foreground-muted">
+                {t('search.results_count', { count: totalProducts })}
+              </span>
+              <div className="flex items-center gap-3">
+                <ListingModeToggle />
+                <select
+                  value={filters.sort}
+                  onChange={(e) => setFilters({ sort: e.target.value as ProductSort })}
+                  aria-label={t('search.sort')}
+                  className="px-4 py-2 border border-border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-info"
+                >
+                  <option value={ProductSort.Relevance}>{t('search.sort_relevance')}</option>
+                  <option value={ProductSort.Newest}>{t('search.sort_newest')}</option>
+                  <option value={ProductSort.PriceAsc}>{t('search.sort_price_asc')}</option>
+                  <option value={ProductSort.PriceDesc}>{t('search.sort_price_desc')}</option>
+                  <option value={ProductSort.Rating}>{t('search.sort_rating')}</option>
+                </select>
+              </div>
+            </div>
+
+            <ActiveFilterChips
+              filters={filters}
+              availableFilters={availableFilters?.attributes}
+              onChange={applyPatch}
+              onClearAll={clearAllFilters}
+            />
+
+            {productsLoaded && products.length === 0 ? (
+              <div className="card p-12 text-center">
+                <p className="text-foreground-muted mb-4">{t('search.no_matches')}</p>
+                <button onClick={clearAllFilters} className="text-sm text-info hover:underline">
+                  {t('search.reset_filters')}
+                </button>
+              </div>
+            ) : (
+              <VirtualProductGrid
+                products={products}
+                className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
+                columns={gridColumns}
+                onProductClick={handleProductClick}
+                onAddToCart={quickAdd}
+              />
+            )}
+
+            {infinite && products.length > 0 && (
+              <LoadMoreTrigger
+                hasMore={!!infiniteQuery.hasNextPage}
+                isLoading={infiniteQuery.isFetchingNextPage}
+                onLoadMore={() => infiniteQuery.fetchNextPage()}
+              />
+            )}
+
+            {/* Pagination */}
+            {!infinite && totalPages > 1 && (
+              <div className="flex items-center justify-center gap-2 mt-8">
+                <button
+                  onClick={() => goToPage(currentPage - 1)}
+                  disabled={currentPage === 1}
+                  className="p-2 rounded-lg hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                </button>
+
+                {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => {
+                  if (
+                    page === 1 ||
+                    page === totalPages ||
+                    (page >= currentPage - 1 && page <= currentPage + 1)
+                  ) {
+                    return (
+                      <button
+                        key={page}
+                        onClick={() => goToPage(page)}
+                        className={`min-w-[40px] h-10 rounded-lg font-medium transition-colors ${
+                          page === currentPage
+                            ? 'bg-brand text-white'
+                            : 'hover:bg-surface text-foreground'
+                        }`}
+                      >
+                        {page}
+                      </button>
+                    )
+                  } else if (
+                    page === currentPage - 2 ||
+                    page === currentPage + 2
+                  ) {
+                    return (
+                      <span key={page} className="text-foreground-muted">
+                        ...
+                      </span>
+                    )
+                  }
+                  return null
+                })}
+
+                <button
+                  onClick={() => goToPage(currentPage + 1)}
+                  disabled={currentPage === totalPages}
+                  className="p-2 rounded-lg hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </button>
+              </div>
+            )}
+          </main>
+        </div>
+      )}
+
+      <QuickAddStatus result={quickAddResult} />
+    </div>
+  )
+}
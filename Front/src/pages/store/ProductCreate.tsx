@@ -275,7 +275,7 @@ export default function ProductCreate() {
       const request: CreateProductRequest = {
         name: name.trim(),
         description: description.trim() || null,
-        categoryIds: selectedCategories.length > 0 ? selectedCategories : undefined,
+        categoryIds: selectedCategories.length > 0 ? selectedCategories : null,
         tagIds: selectedTags.length > 0 ? selectedTags : undefined,
         skus: skuRequests.length > 0 ? skuRequests : undefined
       }
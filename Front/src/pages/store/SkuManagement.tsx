@@ -17,6 +17,7 @@ import AttributeSelector from '../../components/catalog/AttributeSelector'
 import { ErrorAlert } from '../../components/ui/ErrorAlert'
 import { SuccessAlert } from '../../components/ui/SuccessAlert'
 import { WarningAlert } from '../../components/ui/WarningAlert'
+import { ImageLightbox } from '../../components/gallery/ImageLightbox'
 
 interface AttributeField {
   key: string
@@ -84,6 +85,8 @@ export default function SkuManagement() {
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
   const [uploadingGallery, setUploadingGallery] = useState<Set<string>>(new Set())
   const [deletingGalleryImages, setDeletingGalleryImages] = useState<Set<string>>(new Set())
+  // SKU gallery image opened in the lightbox
+  const [lightbox, setLightbox] = useState<{ skuId: string; index: number } | null>(null)
 
   const mapSkuToForm = (sku: SkuDto): SkuFormData => ({
     id: sku.id,
@@ -423,6 +426,8 @@ export default function SkuManagement() {
     )
   }
 
+  const lightboxSku = lightbox ? skus.find(s => s.id === lightbox.skuId) : undefined
+
   return (
     <div className="p-6 max-w-4xl mx-auto">
       {/* Header */}
@@ -615,13 +620,20 @@ export default function SkuManagement() {
 
                   <div className="flex flex-wrap gap-3 items-start">
                     {/* Existing images */}
-                    {sku.gallery.map((img) => (
+                    {sku.gallery.map((img, index) => (
                       <div key={img.id} className="relative group">
-                        <img
-                          src={img.url}
-                          alt={img.altText || ''}
-                          className="w-20 h-20 object-cover rounded-lg border border-border"
-                        />
+                        <button
+                          type="button"
+                          onClick={() => setLightbox({ skuId: sku.id, index })}
+                          aria-label={t('gallery.open_fullscreen', { alt: img.altText || sku.skuCode })}
+                          className="block cursor-zoom-in"
+                        >
+                          <img
+                            src={img.url}
+                            alt={img.altText || ''}
+                            className="w-20 h-20 object-cover rounded-lg border border-border"
+                          />
+                        </button>
                          <button
                            type="button"
                            onClick={() => handleGalleryImageDelete(sku.id, img.id)}
@@ -695,6 +707,16 @@ export default function SkuManagement() {
           )}
         </div>
       )}
+
+      {lightbox && lightboxSku && lightboxSku.gallery.length > 0 && (
+        <ImageLightbox
+          images={lightboxSku.gallery}
+          index={Math.min(lightbox.index, lightboxSku.gallery.length - 1)}
+          onIndexChange={(index) => setLightbox({ skuId: lightboxSku.id, index })}
+          onClose={() => setLightbox(null)}
+          fallbackAlt={lightboxSku.skuCode}
+        />
+      )}
     </div>
   )
 }
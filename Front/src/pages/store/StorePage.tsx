@@ -1,60 +1,72 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useMemo } from 'react'
 import { useParams, Link, useNavigate } from 'react-router-dom'
 import { useTranslation } from 'react-i18next'
-import { storesApi, type PublicStoreDto } from '../../api/storesApi'
-import ProductCard from '../../components/catalog/ProductCard'
+import { ProductSort } from '../../api/catalogApi'
+import { serviceErrorMessage } from '../../api/types'
+import VirtualProductGrid from '../../components/catalog/VirtualProductGrid'
+import { ActiveFilterChips } from '../../components/catalog/ActiveFilterChips'
+import { ListingModeToggle } from '../../components/catalog/ListingModeToggle'
+import { LoadMoreTrigger } from '../../components/catalog/LoadMoreTrigger'
+import { ProductFilterSidebar } from '../../components/catalog/ProductFilterSidebar'
+import { useFilteredProducts, useInfiniteFilteredProducts } from '../../hooks/useCatalog'
+import { useProductFilterParams } from '../../hooks/useProductFilterParams'
+import { useScrollRestoration } from '../../hooks/useScrollRestoration'
+import { useStagedProductFilters } from '../../hooks/useStagedProductFilters'
+import { useStore, useStoreFacets, useStoreFilters } from '../../hooks/useStores'
+import { useListingPreferencesStore } from '../../store/listingPreferencesStore'
+import { toProductFilterRequest } from '../../utils/productFilterParams'
 
-const ITEMS_PER_PAGE = 12
+const ITEMS_PER_PAGE = 24
+
+// Mirrors grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 of the products grid
+const gridColumns = (width: number) => (width >= 1024 ? 3 : width >= 640 ? 2 : 1)
 
 export default function StorePage() {
   const { t } = useTranslation()
   const { slug } = useParams<{ slug: string }>()
   const navigate = useNavigate()
+  const infinite = useListingPreferencesStore((state) => state.mode) === 'infinite'
 
-  const [store, setStore] = useState<PublicStoreDto | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [currentPage, setCurrentPage] = useState(1)
-
-  useEffect(() => {
-    const fetchStore = async () => {
-      if (!slug) return
-
-      setLoading(true)
-      setError(null)
-      try {
-        const response = await storesApi.getBySlug(slug)
-        if (response.isSuccess && response.payload) {
-          setStore(response.payload)
-        } else {
-          setError(response.message || t('storePage.notFound'))
-        }
-      } catch {
-        setError(t('errors.fetch_failed'))
-      } finally {
-        setLoading(false)
-      }
-    }
+  const { data: storeData, isPending: loading, error: storeError } = useStore(slug)
+  const store = storeData ?? null
+  const error = storeError ? serviceErrorMessage(storeError, t('errors.fetch_failed')) : null
 
-    fetchStore()
-  }, [slug, t])
+  // Same URL-backed, staged filters as category pages, scoped to the store
+  const filterParams = useProductFilterParams()
+  const { filters, setFilters } = filterParams
+  const { pending, hasPendingChanges, updateDraft, applyDraft, discardDraft, clearAllFilters, applyPatch } =
+    useStagedProductFilters(filterParams)
+
+  const { data: availableFilters } = useStoreFilters(store?.id)
+
+  const filterRequest = useMemo(
+    () => (store ? toProductFilterRequest(filters, { storeId: store.id, pageSize: ITEMS_PER_PAGE }) : null),
+    [store, filters]
+  )
+  const { data: productsPage } = useFilteredProducts(infinite ? null : filterRequest)
+  const infiniteQuery = useInfiniteFilteredProducts(infinite ? filterRequest : null)
+
+  const pendingRequest = useMemo(
+    () => (store ? toProductFilterRequest(pending, { storeId: store.id }) : null),
+    [store, pending]
+  )
+  const { data: facets, isFetching: facetsLoading } = useStoreFacets(store?.id, pendingRequest)
+
+  const products = useMemo(
+    () => (infinite ? infiniteQuery.data?.pages.flatMap((p) => p.items) : productsPage?.items) ?? [],
+    [infinite, infiniteQuery.data, productsPage]
+  )
+  const totalProducts = (infinite ? infiniteQuery.data?.pages[0]?.total : productsPage?.total) ?? 0
+  const productsLoaded = infinite ? !!infiniteQuery.data : !!productsPage
 
   // Pagination
-  const totalPages = store ? Math.ceil(store.products.length / ITEMS_PER_PAGE) : 0
-  const paginatedProducts = useMemo(() => {
-    if (!store) return []
-    const start = (currentPage - 1) * ITEMS_PER_PAGE
-    return store.products.slice(start, start + ITEMS_PER_PAGE)
-  }, [store, currentPage])
-
-  useEffect(() => {
-    if (currentPage > totalPages && totalPages > 0) {
-      setCurrentPage(totalPages)
-    }
-  }, [currentPage, totalPages])
+  const currentPage = filters.page
+  const totalPages = Math.ceil(totalProducts / ITEMS_PER_PAGE)
+
+  useScrollRestoration(productsLoaded)
 
   const goToPage = (page: number) => {
-    setCurrentPage(Math.max(1, Math.min(page, totalPages)))
+    setFilters({ page: Math.max(1, Math.min(page, totalPages)) })
   }
 
   const handleProductClick = (productSlug: string) => {
@@ -150,7 +162,7 @@ export default function StorePage() {
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
                 </svg>
-                {t('storePage.productCount', { count: store.products.length })}
+                {t('storePage.productCount', { count: store.productCount })}
               </span>
               <span className="flex items-center gap-1.5">
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -167,7 +179,7 @@ export default function StorePage() {
       <div>
         <h2 className="text-xl font-semibold text-foreground mb-4">{t('storePage.products')}</h2>
 
-        {store.products.length === 0 ? (
+        {store.productCount === 0 ? (
           <div className="card p-12 text-center">
             <svg className="w-16 h-16 mx-auto text-foreground-muted mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
@@ -176,76 +188,133 @@ export default function StorePage() {
             <p className="text-foreground-muted">{t('storePage.noProductsHint')}</p>
           </div>
         ) : (
-          <>
-            {/* Products Grid */}
-            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-              {paginatedProducts.map((product) => (
-                <ProductCard
-                  key={product.id}
-                  product={product}
-                  onClick={handleProductClick}
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <aside className="lg:col-span-1">
+              <ProductFilterSidebar
+                availableFilters={availableFilters}
+                facets={facets}
+                facetsLoading={facetsLoading}
+                pending={pending}
+                hasPendingChanges={hasPendingChanges}
+                onChange={updateDraft}
+                onApply={applyDraft}
+                onDiscard={discardDraft}
+                onClearAll={clearAllFilters}
+              />
+            </aside>
+
+            <main className="lg:col-span-3">
+              {/* Sorting */}
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+                <span className="text-sm text-foreground-muted">
+                  {t('storePage.productCount', { count: totalProducts })}
+                </span>
+                <div className="flex items-center gap-3">
+                  <ListingModeToggle />
+                  <select
+                    value={filters.sort}
+                    onChange={(e) => setFilters({ sort: e.target.value as ProductSort })}
+                    aria-label={t('storePage.sort')}
+                    className="px-4 py-2 border border-border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-info"
+                  >
+                    <option value={ProductSort.Newest}>{t('storePage.sortNewest')}</option>
+                    <option value={ProductSort.PriceAsc}>{t('storePage.sortPriceAsc')}</option>
+                    <option value={ProductSort.PriceDesc}>{t('storePage.sortPriceDesc')}</option>
+                    <option value={ProductSort.Rating}>{t('storePage.sortRating')}</option>
+                  </select>
+                </div>
+              </div>
+
+              <ActiveFilterChips
+                filters={filters}
+                availableFilters={availableFilters?.attributes}
+                onChange={applyPatch}
+                onClearAll={clearAllFilters}
+              />
+
+              {productsLoaded && products.length === 0 ? (
+                <div className="card p-12 text-center">
+                  <p className="text-foreground-muted mb-4">{t('storePage.noMatches')}</p>
+                  <button onClick={clearAllFilters} className="text-sm text-info hover:underline">
+                    {t('storePage.resetFilters')}
+                  </button>
+                </div>
+              ) : (
+                <VirtualProductGrid
+                  products={products}
+                  className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6"
+                  columns={gridColumns}
+                  onProductClick={handleProductClick}
                   onAddToCart={handleAddToCart}
                 />
-              ))}
-            </div>
+              )}
 
-            {/* Pagination */}
-            {totalPages > 1 && (
-              <div className="flex items-center justify-center gap-2 mt-8">
-                <button
-                  onClick={() => goToPage(currentPage - 1)}
-                  disabled={currentPage === 1}
-                  className="p-2 rounded-lg hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                  </svg>
-                </button>
-
-                {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => {
-                  if (
-                    page === 1 ||
-                    page === totalPages ||
-                    (page >= currentPage - 1 && page <= currentPage + 1)
-                  ) {
-                    return (
-                      <button
-                        key={page}
-                        onClick={() => goToPage(page)}
-                        className={`min-w-[40px] h-10 rounded-lg font-medium transition-colors ${
-                          page === currentPage
-                            ? 'bg-brand text-white'
-                            : 'hover:bg-surface text-foreground'
-                        }`}
-                      >
-                        {page}
-                      </button>
-                    )
-                  } else if (
-                    page === currentPage - 2 ||
-                    page === currentPage + 2
-                  ) {
-                    return (
-                      <span key={page} className="text-foreground-muted">
-                        ...
-                      </span>
-                    )
-                  }
-                  return null
-                })}
-
-                <button
-                  onClick={() => goToPage(currentPage + 1)}
-                  disabled={currentPage === totalPages}
-                  className="p-2 rounded-lg hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                  </svg>
-                </button>
-              </div>
-            )}
-          </>
+              {infinite && products.length > 0 && (
+                <LoadMoreTrigger
+                  hasMore={!!infiniteQuery.hasNextPage}
+                  isLoading={infiniteQuery.isFetchingNextPage}
+                  onLoadMore={() => infiniteQuery.fetchNextPage()}
+                />
+              )}
+
+                {/* Pagination */}
+                {!infinite && totalPages > 1 && (
+                  <div className="flex items-center justify-center gap-2 mt-8">
+                    <button
+                      onClick={() => goToPage(currentPage - 1)}
+                      disabled={currentPage === 1}
+                      className="p-2 rounded-lg hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                      </svg>
+                    </button>
+
+                    {Array.from({ length: totalPages }, (_, i) => i + 1).map((page) => {
+                      if (
+                        page === 1 ||
+                        page === totalPages ||
+                        (page >= currentPage - 1 && page <= currentPage + 1)
+                      ) {
+                        return (
+                          <button
+                            key={page}
+                            onClick={() => goToPage(page)}
+                            className={`min-w-[40px] h-10 rounded-lg font-medium transition-colors ${
+                              page === currentPage
+                                ? 'bg-brand text-white'
+                                : 'hover:bg-surface text-foreground'
+                            }`}
+                          >
+                            {page}
+                          </button>
+                        )
+                      } else if (
+                        page === currentPage - 2 ||
+                        page === currentPage + 2
+                      ) {
+                        return (
+                          <span key={page} className="text-foreground-muted">
+                            ...
+                          </span>
+                        )
+                      }
+                      return null
+                    })}
+
+                    <button
+                      onClick={() => goToPage(currentPage + 1)}
+                      disabled={currentPage === totalPages}
+                      className="p-2 rounded-lg hover:bg-surface disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                      </svg>
+                    </button>
+                  </div>
+                )}
+            </main>
+          </div>
         )}
       </div>
     </div>
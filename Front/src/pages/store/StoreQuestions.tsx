@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import type { QuestionWithProductDto } from '../../api/questionsApi'
+import { serviceErrorMessage } from '../../api/types'
+import { AnswerForm } from '../../components/questions/AnswerForm'
+import { ErrorAlert } from '../../components/ui/ErrorAlert'
+import { useStoreQuestions } from '../../hooks/useQuestions'
+
+const FILTERS: { value: boolean | null; label: string }[] = [
+  { value: false, label: 'storeQuestions.filter.unanswered' },
+  { value: true, label: 'storeQuestions.filter.answered' },
+  { value: null, label: 'storeQuestions.filter.all' },
+]
+
+/** Inbox of buyers' questions about the seller's products with an answer form per question */
+export default function StoreQuestions() {
+  const { t } = useTranslation()
+  // Unanswered first: buyers are waiting on them
+  const [answered, setAnswered] = useState<boolean | null>(false)
+  const [page, setPage] = useState(1)
+  const { data, isPending, error } = useStoreQuestions(answered, page)
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">{t('storeQuestions.title')}</h1>
+        <p className="text-sm text-foreground-muted mt-1">{t('storeQuestions.subtitle')}</p>
+      </div>
+
+      <div className="flex gap-2">
+        {FILTERS.map((filter) => (
+          <button
+            key={String(filter.value)}
+            onClick={() => {
+              setAnswered(filter.value)
+              setPage(1)
+            }}
+            className={`px-3 py-1.5 text-sm rounded-full border transition-colors ${
+              answered === filter.value
+                ? 'border-brand bg-brand/10 text-brand'
+                : 'border-border text-foreground-muted hover:text-foreground'
+            }`}
+          >
+            {t(filter.label)}
+          </button>
+        ))}
+      </div>
+
+      {error && <ErrorAlert>{serviceErrorMessage(error, t('errors.fetch_failed'))}</ErrorAlert>}
+
+      {isPending ? (
+        <div className="flex justify-center items-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand"></div>
+        </div>
+      ) : data && data.items.length === 0 ? (
+        <p className="text-foreground-muted">{t('storeQuestions.empty')}</p>
+      ) : (
+        <ul className="space-y-4">
+          {data?.items.map((item) => (
+            <StoreQuestionItem key={item.question.id} item={item} />
+          ))}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-3">
+          <button
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1.5 text-sm rounded-md border border-border text-foreground disabled:opacity-50"
+          >
+            {t('questions.previous')}
+          </button>
+          <span className="text-sm text-foreground-muted">{t('questions.pageOf', { page, total: totalPages })}</span>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages}
+            className="px-3 py-1.5 text-sm rounded-md border border-border text-foreground disabled:opacity-50"
+          >
+            {t('questions.next')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StoreQuestionItem({ item }: { item: QuestionWithProductDto }) {
+  const { t } = useTranslation()
+  const { question } = item
+  const [editing, setEditing] = useState(false)
+
+  return (
+    <li className="card p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <div className="w-12 h-12 shrink-0 overflow-hidden rounded bg-background-secondary">
+          {item.productImageUrl && <img src={item.productImageUrl} alt="" className="w-full h-full object-cover" />}
+        </div>
+        <div className="min-w-0 flex-1">
+          <Link to={`/product/${item.productSlug}`} className="font-medium text-foreground hover:text-brand">
+            {item.productName}
+          </Link>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-foreground-muted">
+            <span>{question.authorName ?? t('questions.anonymous')}</span>
+            <span>{new Date(question.createdAt).toLocaleDateString()}</span>
+            {question.upvoteCount > 0 && <span>{t('storeQuestions.upvotes', { count: question.upvoteCount })}</span>}
+          </div>
+        </div>
+      </div>
+
+      <p className="whitespace-pre-line text-foreground">{question.text}</p>
+
+      {editing ? (
+        <AnswerForm questionId={question.id} initialAnswer={question.answer ?? ''} onDone={() => setEditing(false)} />
+      ) : question.answer ? (
+        <div className="rounded-lg border-l-4 border-brand bg-background-secondary p-3">
+          <div className="mb-1 flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-foreground">{t('questions.sellerAnswer')}</span>
+            <button onClick={() => setEditing(true)} className="text-sm text-brand hover:underline">
+              {t('common.edit')}
+            </button>
+          </div>
+          <p className="whitespace-pre-line text-sm text-foreground">{question.answer}</p>
+        </div>
+      ) : (
+        <button onClick={() => setEditing(true)} className="text-sm font-medium text-brand hover:underline">
+          {t('questions.answer')}
+        </button>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,201 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useTranslation } from 'react-i18next'
+import type { ReviewWithProductDto } from '../../api/reviewsApi'
+import { serviceErrorMessage } from '../../api/types'
+import { StarRating } from '../../components/reviews/StarRating'
+import { ErrorAlert } from '../../components/ui/ErrorAlert'
+import { useReplyToReview, useStoreReviews } from '../../hooks/useReviews'
+
+// Mirrors ProductReview.MaxReplyLength on the backend
+const MAX_REPLY_LENGTH = 2000
+
+const FILTERS: { value: boolean | null; label: string }[] = [
+  { value: false, label: 'storeReviews.filter.unanswered' },
+  { value: true, label: 'storeReviews.filter.answered' },
+  { value: null, label: 'storeReviews.filter.all' },
+]
+
+/** Reviews of the seller's products with a reply form per review */
+export default function StoreReviews() {
+  const { t } = useTranslation()
+  // Unanswered first: that is what the seller has to act on
+  const [replied, setReplied] = useState<boolean | null>(false)
+  const [page, setPage] = useState(1)
+  const { data, isPending, error } = useStoreReviews(replied, page)
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">{t('storeReviews.title')}</h1>
+        <p className="text-sm text-foreground-muted mt-1">{t('storeReviews.subtitle')}</p>
+      </div>
+
+      <div className="flex gap-2">
+        {FILTERS.map((filter) => (
+          <button
+            key={String(filter.value)}
+            onClick={() => {
+              setReplied(filter.value)
+              setPage(1)
+            }}
+            className={`px-3 py-1.5 text-sm rounded-full border transition-colors ${
+              replied === filter.value
+                ? 'border-brand bg-brand/10 text-brand'
+                : 'border-border text-foreground-muted hover:text-foreground'
+            }`}
+          >
+            {t(filter.label)}
+          </button>
+        ))}
+      </div>
+
+      {error && <ErrorAlert>{serviceErrorMessage(error, t('errors.fetch_failed'))}</ErrorAlert>}
+
+      {isPending ? (
+        <div className="flex justify-center items-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-brand"></div>
+        </div>
+      ) : data && data.items.length === 0 ? (
+        <p className="text-foreground-muted">{t('storeReviews.empty')}</p>
+      ) : (
+        <ul className="space-y-4">
+          {data?.items.map((item) => (
+            <StoreReviewItem key={item.review.id} item={item} />
+          ))}
+        </ul>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-center gap-3">
+          <button
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1}
+            className="px-3 py-1.5 text-sm rounded-md border border-border text-foreground disabled:opacity-50"
+          >
+            {t('reviews.previous')}
+          </button>
+          <span className="text-sm text-foreground-muted">{t('reviews.pageOf', { page, total: totalPages })}</span>
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages}
+            className="px-3 py-1.5 text-sm rounded-md border border-border text-foreground disabled:opacity-50"
+          >
+            {t('reviews.next')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StoreReviewItem({ item }: { item: ReviewWithProductDto }) {
+  const { t } = useTranslation()
+  const { review } = item
+  const replyToReview = useReplyToReview()
+  const [editing, setEditing] = useState(false)
+  const [reply, setReply] = useState(review.sellerReply ?? '')
+  const [error, setError] = useState<string | null>(null)
+  // The server refuses replies to reviews a moderator has hidden
+  const canReply = item.status !== 'Hidden'
+
+  const handleSave = async () => {
+    setError(null)
+    try {
+      const response = await replyToReview.mutateAsync({ id: review.id, reply: reply.trim() })
+      if (response.isSuccess) setEditing(false)
+      else setError(response.message)
+    } catch {
+      setError(t('errors.update_failed'))
+    }
+  }
+
+  return (
+    <li className="card p-4 space-y-3">
+      <div className="flex items-start gap-3">
+        <div className="w-12 h-12 shrink-0 overflow-hidden rounded bg-background-secondary">
+          {item.productImageUrl && <img src={item.productImageUrl} alt="" className="w-full h-full object-cover" />}
+        </div>
+        <div className="min-w-0 flex-1">
+          <Link to={`/product/${item.productSlug}`} className="font-medium text-foreground hover:text-brand">
+            {item.productName}
+          </Link>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-foreground-muted">
+            <StarRating value={review.rating} />
+            <span>{review.authorName ?? t('reviews.anonymous')}</span>
+            <span>{new Date(review.createdAt).toLocaleDateString()}</span>
+            {item.status === 'Hidden' && (
+              <span className="px-2 py-0.5 text-xs rounded-full bg-error/10 text-error">
+                {t('reviews.hiddenByModerator')}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {review.comment && <p className="whitespace-pre-line text-foreground">{review.comment}</p>}
+
+      {review.photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {review.photos.map((photo) => (
+            <a key={photo.id} href={photo.url} target="_blank" rel="noreferrer" className="w-16 h-16 overflow-hidden rounded">
+              <img src={photo.url} alt="" loading="lazy" className="w-full h-full object-cover" />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {editing ? (
+        <div className="space-y-2">
+          <textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            maxLength={MAX_REPLY_LENGTH}
+            rows={3}
+            placeholder={t('storeReviews.replyPlaceholder')}
+            className="w-full px-3 py-2 text-sm border border-border bg-surface text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-brand/50"
+          />
+          {error && <p className="text-sm text-error">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setEditing(false)
+                setReply(review.sellerReply ?? '')
+                setError(null)
+              }}
+              disabled={replyToReview.isPending}
+              className="px-3 py-1.5 text-sm rounded-md text-foreground-muted hover:text-foreground"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={replyToReview.isPending || !reply.trim()}
+              className="btn btn-brand text-sm disabled:opacity-50"
+            >
+              {replyToReview.isPending ? t('common.saving') : t('common.save')}
+            </button>
+          </div>
+        </div>
+      ) : review.sellerReply ? (
+        <div className="rounded-lg border-l-4 border-brand bg-background-secondary p-3">
+          <div className="mb-1 flex items-center justify-between gap-2">
+            <span className="text-sm font-medium text-foreground">{t('reviews.sellerReply')}</span>
+            {canReply && (
+              <button onClick={() => setEditing(true)} className="text-sm text-brand hover:underline">
+                {t('common.edit')}
+              </button>
+            )}
+          </div>
+          <p className="whitespace-pre-line text-sm text-foreground">{review.sellerReply}</p>
+        </div>
+      ) : canReply && (
+        <button onClick={() => setEditing(true)} className="text-sm font-medium text-brand hover:underline">
+          {t('storeReviews.reply')}
+        </button>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,47 @@
+import type { ServiceResponse } from '../api/types'
+
+/**
+ * A list kept in localStorage that follows the signed-in user to their other devices
+ * (search history, recently viewed products).
+ *
+ * Every change is made locally first. For a signed-in owner the server answers each write
+ * with the list merged from all their devices, and that list replaces the local one.
+ */
+export interface AccountSyncedList<T> {
+  // Identity user id the local list belongs to, null for the guest list
+  getOwner: () => string | null
+  // Replaces the local list with the server one; `owner` is passed when the list is adopted on sign-in
+  adopt: (payload: T | null | undefined, owner?: string) => void
+}
+
+// Sends a local write to the owner's account; the answer is dropped if someone else signed in meanwhile
+export function pushToAccount<T>(list: AccountSyncedList<T>, request: () => Promise<ServiceResponse<T>>) {
+  const owner = list.getOwner()
+  if (!owner) return
+  request()
+    .then((response) => {
+      if (response.isSuccess && list.getOwner() === owner) list.adopt(response.payload)
+    })
+    .catch(() => {
+      // ignore: the change stays in this device's list
+    })
+}
+
+/**
+ * Hands the list over to the user who just signed in. A guest list is uploaded once (`uploadGuestList`
+ * is null when there is nothing to upload) and replaced only after the server accepted it; a list that
+ * already belongs to an account is reloaded.
+ */
+export async function syncWithAccount<T>(
+  list: AccountSyncedList<T>,
+  userId: string,
+  uploadGuestList: (() => Promise<ServiceResponse<T>>) | null,
+  load: () => Promise<ServiceResponse<T>>
+) {
+  try {
+    const response = list.getOwner() === null && uploadGuestList ? await uploadGuestList() : await load()
+    if (response.isSuccess) list.adopt(response.payload, userId)
+  } catch {
+    // Offline or server error: the device keeps its list until the next sync
+  }
+}
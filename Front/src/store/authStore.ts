@@ -1,6 +1,8 @@
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
 import { parseJwt, toArray } from '../utils/jwt'
+import { publishAuthEvent, subscribeAuthEvents } from '../api/authSync'
+import { tokenStorage } from '../api/tokenStorage'
 
 export interface User {
   id: string
@@ -18,14 +20,20 @@ interface AuthState {
   token: string | null
   refreshToken: string | null
   isAuthenticated: boolean
+  // Cookie mode only: the session is being restored from the refresh cookie after a reload
+  isRestoring: boolean
   setAuth: (accessToken: string, refreshToken?: string) => void
   logout: () => void
+  setRestoring: (isRestoring: boolean) => void
 }
 
+// True while applying an event received from another tab, so it is not broadcast back
+let applyingRemoteEvent = false
+
 export const useAuthStore = create<AuthState>()(devtools((set) => {
   // read stored tokens once at initialization
-  const storedToken = localStorage.getItem('accessToken') || localStorage.getItem('token')
-  const storedRefresh = localStorage.getItem('refreshToken')
+  const storedToken = tokenStorage.getAccessToken()
+  const storedRefresh = tokenStorage.getRefreshToken()
 
   const claims = storedToken ? parseJwt(storedToken) : null
   const c = claims as Record<string, unknown> | null
@@ -62,17 +70,13 @@ export const useAuthStore = create<AuthState>()(devtools((set) => {
     token: storedToken,
     refreshToken: storedRefresh,
     isAuthenticated: !!storedToken,
+    isRestoring: tokenStorage.mode === 'cookie' && !storedToken,
   
     // Parse JWT and create a small user stub from claims
     setAuth: (accessToken, refreshToken) => {
       try {
         // store tokens
-        if (accessToken) {
-          localStorage.setItem('accessToken', accessToken)
-        }
-        if (refreshToken) {
-          localStorage.setItem('refreshToken', refreshToken)
-        }
+        tokenStorage.setTokens(accessToken, refreshToken)
 
         const claims = accessToken ? parseJwt(accessToken) : null
         const c2 = claims as Record<string, unknown> | null
@@ -95,11 +99,15 @@ export const useAuthStore = create<AuthState>()(devtools((set) => {
             }
           : null
 
-        set({ token: accessToken, refreshToken: refreshToken || null, user, isAuthenticated: !!accessToken })
+        const storedRefreshToken = tokenStorage.getRefreshToken()
+        set({ token: accessToken, refreshToken: storedRefreshToken, user, isAuthenticated: !!accessToken, isRestoring: false })
+        if (!applyingRemoteEvent && accessToken) {
+          publishAuthEvent({ type: 'tokens', accessToken, refreshToken: storedRefreshToken })
+        }
       } catch {
         // on parse error still set token
-        localStorage.setItem('accessToken', accessToken)
-        set({ token: accessToken, refreshToken: refreshToken || null, user: null, isAuthenticated: !!accessToken })
+        tokenStorage.setTokens(accessToken, refreshToken)
+        set({ token: accessToken, refreshToken: tokenStorage.getRefreshToken(), user: null, isAuthenticated: !!accessToken, isRestoring: false })
       }
     },
   
@@ -110,10 +118,42 @@ export const useAuthStore = create<AuthState>()(devtools((set) => {
     }).catch(() => {
       // ignore if profileStore is not available
     })
+    import('./searchStore').then(({ useSearchStore }) => {
+      useSearchStore.getState().resetHistory()
+    }).catch(() => {
+      // ignore if searchStore is not available
+    })
+    import('./recentlyViewedStore').then(({ useRecentlyViewedStore }) => {
+      useRecentlyViewedStore.getState().reset()
+    }).catch(() => {
+      // ignore if recentlyViewedStore is not available
+    })
     
-    localStorage.removeItem('accessToken')
-    localStorage.removeItem('refreshToken')
+    tokenStorage.clear()
     set({ token: null, refreshToken: null, user: null, isAuthenticated: false })
-  }
+    if (!applyingRemoteEvent) {
+      publishAuthEvent({ type: 'logout' })
+      // Cookie mode: the refresh cookie is httpOnly, only the server can drop it
+      import('../api/axiousClient').then(({ endServerSession }) => endServerSession()).catch(() => {
+        // ignore: the cookie expires on its own
+      })
+    }
+  },
+
+  setRestoring: (isRestoring) => set({ isRestoring })
 }
 }, { name: 'AuthStore' }));
+
+// Keep every open tab on the same session: adopt tokens refreshed elsewhere and follow remote logouts
+subscribeAuthEvents((event) => {
+  applyingRemoteEvent = true
+  try {
+    if (event.type === 'logout') {
+      useAuthStore.getState().logout()
+    } else {
+      useAuthStore.getState().setAuth(event.accessToken, event.refreshToken ?? undefined)
+    }
+  } finally {
+    applyingRemoteEvent = false
+  }
+})
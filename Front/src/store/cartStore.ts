@@ -2,10 +2,13 @@ import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
 import { cartApi, type CartDto, type CartItemDto } from '../api/cartApi'
 import { useAuthStore } from './authStore'
+import { createLogger } from '../utils/logger'
 
 // Guest cart storage key
 const GUEST_CART_KEY = 'guestCart'
 
+const log = createLogger('cart')
+
 interface GuestCartItem {
   productId: string
   skuId: string
@@ -145,7 +148,7 @@ export const useCartStore = create<CartState>()(
                 await mergeGuestCart()
               }
             } else {
-              console.error('Failed to load cart:', response.message)
+              log.error('Failed to load cart', response.message)
               set({ error: response.message, lastError: response.message })
             }
           } else {
@@ -155,7 +158,7 @@ export const useCartStore = create<CartState>()(
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to load cart'
-          console.error('Failed to load cart:', error)
+          log.error('Failed to load cart', error)
           set({ error: errorMessage, lastError: errorMessage })
         } finally {
           set({ isLoading: false })
@@ -215,7 +218,7 @@ export const useCartStore = create<CartState>()(
           // Rollback on error
           get()._restoreSnapshot(snapshot)
           const errorMessage = error instanceof Error ? error.message : 'Failed to add to cart'
-          console.error('Failed to add to cart:', error)
+          log.error('Failed to add to cart', error)
           set({ error: errorMessage, lastError: errorMessage })
           return false
         } finally {
@@ -225,7 +228,7 @@ export const useCartStore = create<CartState>()(
 
       updateQuantity: async (cartItemId: string, quantity: number): Promise<boolean> => {
         if (!cartItemId) {
-          console.error('updateQuantity called with empty cartItemId')
+          log.error('updateQuantity called with empty cartItemId')
           set({ error: 'Invalid cart item', lastError: 'Invalid cart item' })
           return false
         }
@@ -273,7 +276,7 @@ export const useCartStore = create<CartState>()(
           // Rollback on error
           get()._restoreSnapshot(snapshot)
           const errorMessage = error instanceof Error ? error.message : 'Failed to update quantity'
-          console.error('Failed to update quantity:', error)
+          log.error('Failed to update quantity', error)
           set({ error: errorMessage, lastError: errorMessage })
           return false
         } finally {
@@ -283,7 +286,7 @@ export const useCartStore = create<CartState>()(
 
       updateQuantityBySku: async (skuId: string, quantity: number): Promise<boolean> => {
         if (!skuId) {
-          console.error('updateQuantityBySku called with empty skuId')
+          log.error('updateQuantityBySku called with empty skuId')
           set({ error: 'Invalid SKU', lastError: 'Invalid SKU' })
           return false
         }
@@ -311,7 +314,7 @@ export const useCartStore = create<CartState>()(
         } catch (error) {
           get()._restoreSnapshot(snapshot)
           const errorMessage = error instanceof Error ? error.message : 'Failed to update quantity'
-          console.error('Failed to update quantity:', error)
+          log.error('Failed to update quantity', error)
           set({ error: errorMessage, lastError: errorMessage })
           return false
         } finally {
@@ -321,7 +324,7 @@ export const useCartStore = create<CartState>()(
 
       removeFromCart: async (cartItemId: string): Promise<boolean> => {
         if (!cartItemId) {
-          console.error('removeFromCart called with empty cartItemId')
+          log.error('removeFromCart called with empty cartItemId')
           set({ error: 'Invalid cart item', lastError: 'Invalid cart item' })
           return false
         }
@@ -357,7 +360,7 @@ export const useCartStore = create<CartState>()(
         } catch (error) {
           get()._restoreSnapshot(snapshot)
           const errorMessage = error instanceof Error ? error.message : 'Failed to remove from cart'
-          console.error('Failed to remove from cart:', error)
+          log.error('Failed to remove from cart', error)
           set({ error: errorMessage, lastError: errorMessage })
           return false
         } finally {
@@ -367,7 +370,7 @@ export const useCartStore = create<CartState>()(
 
       removeFromCartBySku: async (skuId: string): Promise<boolean> => {
         if (!skuId) {
-          console.error('removeFromCartBySku called with empty skuId')
+          log.error('removeFromCartBySku called with empty skuId')
           set({ error: 'Invalid SKU', lastError: 'Invalid SKU' })
           return false
         }
@@ -409,7 +412,7 @@ export const useCartStore = create<CartState>()(
         } catch (error) {
           get()._restoreSnapshot(snapshot)
           const errorMessage = error instanceof Error ? error.message : 'Failed to remove from cart'
-          console.error('Failed to remove from cart:', error)
+          log.error('Failed to remove from cart', error)
           set({ error: errorMessage, lastError: errorMessage })
           return false
         } finally {
@@ -444,7 +447,7 @@ export const useCartStore = create<CartState>()(
         } catch (error) {
           get()._restoreSnapshot(snapshot)
           const errorMessage = error instanceof Error ? error.message : 'Failed to clear cart'
-          console.error('Failed to clear cart:', error)
+          log.error('Failed to clear cart', error)
           set({ error: errorMessage, lastError: errorMessage })
           return false
         } finally {
@@ -525,13 +528,13 @@ export const useCartStore = create<CartState>()(
             return true
           } else {
             const errorMessage = response.message || 'Failed to merge guest cart'
-            console.error('Failed to merge guest cart:', errorMessage)
+            log.error('Failed to merge guest cart', errorMessage)
             set({ error: errorMessage, lastError: errorMessage })
             return false
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to merge guest cart'
-          console.error('Failed to merge guest cart:', error)
+          log.error('Failed to merge guest cart', error)
           set({ error: errorMessage, lastError: errorMessage })
           return false
         } finally {
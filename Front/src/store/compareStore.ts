@@ -0,0 +1,84 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import type { ProductSummaryDto } from '../api/catalogApi'
+
+const COMPARE_KEY = 'compare_products'
+export const MAX_COMPARE_ITEMS = 4
+
+// What the tray needs to render a product without fetching it; the compare page loads the details
+export interface CompareItem {
+  id: string
+  slug: string
+  name: string
+  baseImageUrl: string | null
+}
+
+// Fields shared by ProductSummaryDto and ProductDetailsDto
+export type ComparableProduct = Pick<
+  ProductSummaryDto,
+  'id' | 'slug' | 'name' | 'baseImageUrl' | 'primaryCategory' | 'categories'
+>
+
+export type AddToCompareResult = 'added' | 'exists' | 'full' | 'incompatible'
+
+interface CompareState {
+  items: CompareItem[]
+  // Category every compared product belongs to; products are only compared within one category
+  category: { id: string; name: string } | null
+
+  addProduct: (product: ComparableProduct) => AddToCompareResult
+  removeProduct: (productId: string) => void
+  // Starts a new comparison with this product (e.g. after picking one from another category)
+  replaceWith: (product: ComparableProduct) => void
+  clear: () => void
+}
+
+/** Category that decides compatibility: the primary one, or the first for products without it */
+export function compareCategoryOf(product: ComparableProduct) {
+  const category = product.primaryCategory ?? product.categories[0] ?? null
+  return category ? { id: category.id, name: category.name } : null
+}
+
+function toItem(product: ComparableProduct): CompareItem {
+  return { id: product.id, slug: product.slug, name: product.name, baseImageUrl: product.baseImageUrl }
+}
+
+export const useCompareStore = create<CompareState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        items: [],
+        category: null,
+
+        addProduct: (product) => {
+          const { items, category } = get()
+          if (items.some((i) => i.id === product.id)) return 'exists'
+
+          const productCategory = compareCategoryOf(product)
+          if (items.length > 0 && category?.id !== productCategory?.id) return 'incompatible'
+          if (items.length >= MAX_COMPARE_ITEMS) return 'full'
+
+          set({ items: [...items, toItem(product)], category: productCategory })
+          return 'added'
+        },
+
+        removeProduct: (productId) => {
+          set((state) => {
+            const items = state.items.filter((i) => i.id !== productId)
+            return { items, category: items.length > 0 ? state.category : null }
+          })
+        },
+
+        replaceWith: (product) => set({ items: [toItem(product)], category: compareCategoryOf(product) }),
+
+        clear: () => set({ items: [], category: null }),
+      }),
+      { name: COMPARE_KEY }
+    ),
+    { name: 'CompareStore' }
+  )
+)
+
+export function useIsInCompare(productId: string) {
+  return useCompareStore((state) => state.items.some((i) => i.id === productId))
+}
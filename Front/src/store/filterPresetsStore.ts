@@ -0,0 +1,88 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+
+const FILTER_PRESETS_KEY = 'filter_presets'
+export const MAX_PRESETS_PER_CATEGORY = 10
+
+export interface FilterPreset {
+  id: string
+  name: string
+  // Filter query string as written by serializeProductFilterParams
+  query: string
+  createdAt: string
+  // Presets are local-only for now; once a presets endpoint exists, entries with syncedAt === null get pushed
+  syncedAt: string | null
+}
+
+interface FilterPresetsState {
+  // userId -> categoryId -> presets (newest first)
+  presets: Record<string, Record<string, FilterPreset[]>>
+
+  savePreset: (userId: string, categoryId: string, name: string, query: string) => FilterPreset
+  removePreset: (userId: string, categoryId: string, presetId: string) => void
+}
+
+const NO_PRESETS: FilterPreset[] = []
+
+export const useFilterPresetsStore = create<FilterPresetsState>()(
+  devtools(
+    persist(
+      (set) => ({
+        presets: {},
+
+        // Saving under an existing name replaces that preset
+        savePreset: (userId, categoryId, name, query) => {
+          const preset: FilterPreset = {
+            id: crypto.randomUUID(),
+            name: name.trim(),
+            query,
+            createdAt: new Date().toISOString(),
+            syncedAt: null,
+          }
+
+          set((state) => {
+            const userPresets = state.presets[userId] ?? {}
+            const others = (userPresets[categoryId] ?? []).filter(
+              (p) => p.name.toLowerCase() !== preset.name.toLowerCase()
+            )
+            return {
+              presets: {
+                ...state.presets,
+                [userId]: {
+                  ...userPresets,
+                  [categoryId]: [preset, ...others].slice(0, MAX_PRESETS_PER_CATEGORY),
+                },
+              },
+            }
+          })
+
+          return preset
+        },
+
+        removePreset: (userId, categoryId, presetId) => {
+          set((state) => {
+            const userPresets = state.presets[userId] ?? {}
+            return {
+              presets: {
+                ...state.presets,
+                [userId]: {
+                  ...userPresets,
+                  [categoryId]: (userPresets[categoryId] ?? []).filter((p) => p.id !== presetId),
+                },
+              },
+            }
+          })
+        },
+      }),
+      { name: FILTER_PRESETS_KEY }
+    ),
+    { name: 'FilterPresetsStore' }
+  )
+)
+
+/** Presets of one user for one category; stable empty array when there are none */
+export function useCategoryPresets(userId: string | undefined, categoryId: string | undefined): FilterPreset[] {
+  return useFilterPresetsStore((state) =>
+    userId && categoryId ? state.presets[userId]?.[categoryId] ?? NO_PRESETS : NO_PRESETS
+  )
+}
@@ -0,0 +1,22 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+
+const LISTING_PREFERENCES_KEY = 'listing_preferences'
+
+// 'pages' shows numbered pages, 'infinite' appends the next page as the user scrolls
+export type ListingMode = 'pages' | 'infinite'
+
+interface ListingPreferencesState {
+  mode: ListingMode
+  setMode: (mode: ListingMode) => void
+}
+
+export const useListingPreferencesStore = create<ListingPreferencesState>()(
+  persist(
+    (set) => ({
+      mode: 'pages',
+      setMode: (mode) => set({ mode }),
+    }),
+    { name: LISTING_PREFERENCES_KEY }
+  )
+)
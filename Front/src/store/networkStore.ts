@@ -0,0 +1,30 @@
+import { create } from 'zustand'
+
+interface NetworkState {
+  isOnline: boolean
+  setOnline: (isOnline: boolean) => void
+}
+
+export const useNetworkStore = create<NetworkState>((set) => ({
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  setOnline: (isOnline) => set({ isOnline }),
+}))
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => useNetworkStore.getState().setOnline(true))
+  window.addEventListener('offline', () => useNetworkStore.getState().setOnline(false))
+}
+
+/** Resolves immediately when online, otherwise as soon as the connection comes back */
+export function waitForOnline(): Promise<void> {
+  if (useNetworkStore.getState().isOnline) return Promise.resolve()
+
+  return new Promise((resolve) => {
+    const unsubscribe = useNetworkStore.subscribe((state) => {
+      if (state.isOnline) {
+        unsubscribe()
+        resolve()
+      }
+    })
+  })
+}
@@ -3,10 +3,13 @@ import { devtools } from 'zustand/middleware'
 import { userApi } from '../api/userApi'
 import type { User } from '../api/userApi'
 import { useAuthStore } from './authStore'
+import { createLogger } from '../utils/logger'
 // keep reference to axiosClient for potential baseUrl usage in future
 // axiosClient intentionally not used directly in this module — kept for consistency with other stores
 // axiosClient intentionally not used directly in this module — removed import to satisfy linter
 
+const log = createLogger('auth')
+
 interface ProfileState {
   profile: User | null
   loading: boolean
@@ -35,7 +38,7 @@ export const useProfileStore = create<ProfileState>()(devtools((set) => ({
     try {
       set({ loading: true, error: null })
       const p = await userApi.getMyProfile()
-      console.log('Fetched profile:', p); // Додано для налагодження
+      log.debug('Fetched profile', p)
       set({ profile: p, loading: false })
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err)
@@ -0,0 +1,116 @@
+import { create } from 'zustand'
+import { devtools, persist } from 'zustand/middleware'
+import { recentlyViewedApi, type RecentlyViewedProductDto } from '../api/catalogApi'
+import { pushToAccount, syncWithAccount, type AccountSyncedList } from './accountSyncedList'
+
+const RECENTLY_VIEWED_KEY = 'recently_viewed'
+// RecentlyViewedProduct.MaxEntriesPerUser on the server
+export const MAX_RECENTLY_VIEWED = 20
+
+// What the strip needs to render a product without fetching it
+export interface RecentlyViewedItem {
+  productId: string
+  slug: string
+  name: string
+  imageUrl: string | null
+  // ISO timestamp of the last view
+  viewedAt: string
+}
+
+function applyServerList(entries: RecentlyViewedProductDto[] | null | undefined) {
+  if (!entries) return {}
+  return {
+    items: entries.slice(0, MAX_RECENTLY_VIEWED).map((e): RecentlyViewedItem => ({
+      productId: e.product.id,
+      slug: e.product.slug,
+      name: e.product.name,
+      imageUrl: e.product.baseImageUrl,
+      viewedAt: e.viewedAt,
+    })),
+  }
+}
+
+// The list as seen by the account sync (./accountSyncedList)
+const syncedList: AccountSyncedList<RecentlyViewedProductDto[]> = {
+  getOwner: () => useRecentlyViewedStore.getState().owner,
+  adopt: (entries, owner) =>
+    useRecentlyViewedStore.setState({ ...(owner ? { owner } : {}), ...applyServerList(entries) }),
+}
+
+interface RecentlyViewedState {
+  // Newest first (persisted in localStorage); signed-in users also keep a server copy shared across devices
+  items: RecentlyViewedItem[]
+  // Identity user id the list belongs to, null for the guest list
+  owner: string | null
+
+  recordView: (item: Omit<RecentlyViewedItem, 'viewedAt'>) => void
+  removeItem: (productId: string) => void
+  // Clears the list on this device and, for a signed-in user, on all their devices
+  clear: () => Promise<void>
+  // Adopts the server list of the signed-in user; products browsed as a guest are added to it first
+  syncRecentlyViewed: (userId: string) => Promise<void>
+  // On logout: the next person at this device should not see which products the user looked at
+  reset: () => void
+}
+
+export const useRecentlyViewedStore = create<RecentlyViewedState>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        items: [],
+        owner: null,
+
+        recordView: (item) => {
+          const viewedAt = new Date().toISOString()
+          set((state) => ({
+            items: [
+              { ...item, viewedAt },
+              ...state.items.filter((i) => i.productId !== item.productId),
+            ].slice(0, MAX_RECENTLY_VIEWED),
+          }))
+
+          // Sent with the same timestamp so this device and the server order the view alike
+          pushToAccount(syncedList, () => recentlyViewedApi.addEntries([{ productId: item.productId, viewedAt }]))
+        },
+
+        removeItem: (productId) => {
+          set((state) => ({ items: state.items.filter((i) => i.productId !== productId) }))
+          if (get().owner) {
+            recentlyViewedApi.removeEntry(productId).catch(() => {
+              // ignore: the product reappears on the next sync
+            })
+          }
+        },
+
+        clear: async () => {
+          set({ items: [] })
+          if (!get().owner) return
+          const response = await recentlyViewedApi.clear()
+          if (!response.isSuccess) throw new Error(response.message || 'Failed to clear recently viewed products')
+        },
+
+        syncRecentlyViewed: async (userId) => {
+          const { items } = get()
+          await syncWithAccount(
+            syncedList,
+            userId,
+            items.length > 0
+              ? () => recentlyViewedApi.addEntries(items.map((i) => ({ productId: i.productId, viewedAt: i.viewedAt })))
+              : null,
+            recentlyViewedApi.getRecentlyViewed
+          )
+        },
+
+        reset: () => {
+          if (get().owner === null) return
+          set({ items: [], owner: null })
+        },
+      }),
+      {
+        name: RECENTLY_VIEWED_KEY,
+        partialize: (state) => ({ items: state.items, owner: state.owner }),
+      }
+    ),
+    { name: 'RecentlyViewedStore' }
+  )
+)
@@ -1,11 +1,33 @@
 import { create } from 'zustand'
 import { devtools, persist } from 'zustand/middleware'
-import { searchApi, type PopularQueryDto } from '../api/searchApi'
+import { isCancel } from 'axios'
+import { searchApi, searchHistoryApi, type PopularQueryDto, type SearchHistoryDto } from '../api/searchApi'
 import type { ProductSummaryDto } from '../api/catalogApi'
+import { pushToAccount, syncWithAccount, type AccountSyncedList } from './accountSyncedList'
 
 const SEARCH_HISTORY_KEY = 'search_history'
 const MAX_HISTORY_ITEMS = 10
 
+// The search in flight; a newer search, a query edit or clearResults aborts it
+let activeSearch: { query: string; controller: AbortController } | null = null
+
+function abortActiveSearch() {
+  activeSearch?.controller.abort()
+  activeSearch = null
+}
+
+function applyServerHistory(history: SearchHistoryDto | null | undefined) {
+  if (!history) return {}
+  return { history: history.queries.slice(0, MAX_HISTORY_ITEMS), historyPaused: history.isPaused }
+}
+
+// The history as seen by the account sync (./accountSyncedList)
+const syncedHistory: AccountSyncedList<SearchHistoryDto> = {
+  getOwner: () => useSearchStore.getState().historyOwner,
+  adopt: (history, owner) =>
+    useSearchStore.setState({ ...(owner ? { historyOwner: owner } : {}), ...applyServerHistory(history) }),
+}
+
 interface SearchState {
   // Search query input
   query: string
@@ -16,11 +38,21 @@ interface SearchState {
   isSearching: boolean
   searchError: string | null
   
-  // Search history (persisted in localStorage)
+  // Search history (persisted in localStorage); signed-in users also keep a server copy shared across devices
   history: string[]
+  // Identity user id the history belongs to, null for the guest history
+  historyOwner: string | null
+  // Recording paused by the user (privacy setting, signed-in users only)
+  historyPaused: boolean
   addToHistory: (query: string) => void
   removeFromHistory: (query: string) => void
-  clearHistory: () => void
+  // Clears the history on this device and, for a signed-in user, on all their devices
+  clearHistory: () => Promise<void>
+  setHistoryPaused: (paused: boolean) => Promise<void>
+  // Adopts the server history of the signed-in user, merging the guest history into it first
+  syncHistory: (userId: string) => Promise<void>
+  // On logout: the user's searches must not be offered as suggestions to the next guest
+  resetHistory: () => void
   
   // Popular queries from API
   popularQueries: PopularQueryDto[]
@@ -42,24 +74,38 @@ export const useSearchStore = create<SearchState>()(
         isSearching: false,
         searchError: null,
         history: [],
+        historyOwner: null,
+        historyPaused: false,
         popularQueries: [],
         isLoadingPopular: false,
 
-        // Set query
-        setQuery: (query) => set({ query }),
+        // Set query; results for a query the user has already edited away from are not wanted
+        setQuery: (query) => {
+          if (activeSearch && activeSearch.query !== query.trim()) {
+            abortActiveSearch()
+            set({ isSearching: false })
+          }
+          set({ query })
+        },
 
         // Search products
         search: async (query) => {
           const trimmedQuery = query.trim()
+          abortActiveSearch()
           if (!trimmedQuery) {
-            set({ results: [], searchError: null })
+            set({ results: [], isSearching: false, searchError: null })
             return
           }
 
+          const current = { query: trimmedQuery, controller: new AbortController() }
+          activeSearch = current
           set({ isSearching: true, searchError: null })
           
           try {
-            const response = await searchApi.search(trimmedQuery)
+            const response = await searchApi.search(trimmedQuery, 20, current.controller.signal)
+            // Superseded while the response was on its way
+            if (current.controller.signal.aborted) return
+            activeSearch = null
             if (response.isSuccess && response.payload) {
               set({ results: response.payload, isSearching: false })
               // Add to history on successful search
@@ -72,6 +118,8 @@ export const useSearchStore = create<SearchState>()(
               })
             }
           } catch (error) {
+            if (isCancel(error) || current.controller.signal.aborted) return
+            activeSearch = null
             set({ 
               results: [], 
               isSearching: false, 
@@ -96,12 +144,15 @@ export const useSearchStore = create<SearchState>()(
         },
 
         // Clear results
-        clearResults: () => set({ results: [], searchError: null }),
+        clearResults: () => {
+          abortActiveSearch()
+          set({ results: [], isSearching: false, searchError: null })
+        },
 
         // Add to history (unique, max 10 items, newest first)
         addToHistory: (query) => {
           const trimmedQuery = query.trim()
-          if (!trimmedQuery) return
+          if (!trimmedQuery || get().historyPaused) return
           
           set((state) => {
             // Remove if already exists (to move to top)
@@ -112,6 +163,11 @@ export const useSearchStore = create<SearchState>()(
             const newHistory = [trimmedQuery, ...filtered].slice(0, MAX_HISTORY_ITEMS)
             return { history: newHistory }
           })
+
+          // The answer also carries searches made on other devices
+          pushToAccount(syncedHistory, () =>
+            searchHistoryApi.addEntries([{ query: trimmedQuery, searchedAt: new Date().toISOString() }])
+          )
         },
 
         // Remove from history
@@ -121,14 +177,55 @@ export const useSearchStore = create<SearchState>()(
               (h) => h.toLowerCase() !== query.toLowerCase()
             )
           }))
+          if (get().historyOwner) {
+            searchHistoryApi.removeEntry(query).catch(() => {
+              // ignore: the entry reappears on the next sync
+            })
+          }
         },
 
         // Clear all history
-        clearHistory: () => set({ history: [] })
+        clearHistory: async () => {
+          set({ history: [] })
+          if (!get().historyOwner) return
+          const response = await searchHistoryApi.clearHistory()
+          if (!response.isSuccess) throw new Error(response.message || 'Failed to clear search history')
+        },
+
+        setHistoryPaused: async (paused) => {
+          const response = await searchHistoryApi.setPaused(paused)
+          if (!response.isSuccess) throw new Error(response.message || 'Failed to update search history setting')
+          set({ historyPaused: paused })
+        },
+
+        syncHistory: async (userId) => {
+          const { history } = get()
+          await syncWithAccount(
+            syncedHistory,
+            userId,
+            history.length > 0
+              ? () => searchHistoryApi.addEntries(
+                  // The guest history keeps no timestamps; older searches get older ones so the merged order matches the local one
+                  history.map((query, index) => ({ query, searchedAt: new Date(Date.now() - index * 1000).toISOString() }))
+                )
+              : null,
+            searchHistoryApi.getHistory
+          )
+        },
+
+        resetHistory: () => {
+          if (get().historyOwner === null) return
+          set({ history: [], historyOwner: null, historyPaused: false })
+        }
       }),
       {
         name: SEARCH_HISTORY_KEY,
-        partialize: (state) => ({ history: state.history }) // Only persist history
+        // Only persist history
+        partialize: (state) => ({
+          history: state.history,
+          historyOwner: state.historyOwner,
+          historyPaused: state.historyPaused
+        })
       }
     ),
     { name: 'SearchStore' }
@@ -0,0 +1,38 @@
+// "Did you mean" suggestions for the search results page.
+// Candidates are the popular queries, so a suggestion is always something other shoppers found results for.
+
+/** Edit distance (insertions, deletions, substitutions) between two strings */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Closest candidate within a typo-sized distance (about one edit per three characters), or null.
+ * An exact (case-insensitive) match means the query needs no correction.
+ */
+export function findDidYouMean(query: string, candidates: string[]): string | null {
+  const normalized = query.trim().toLowerCase()
+  if (normalized.length < 3) return null
+
+  const maxDistance = Math.max(1, Math.floor(normalized.length / 3))
+  let best: { candidate: string; distance: number } | null = null
+
+  for (const candidate of candidates) {
+    const distance = levenshtein(normalized, candidate.trim().toLowerCase())
+    if (distance === 0) return null
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { candidate, distance }
+    }
+  }
+
+  return best?.candidate ?? null
+}
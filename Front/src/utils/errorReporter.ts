@@ -0,0 +1,158 @@
+import { useAuthStore } from '../store/authStore'
+import { createLogger, redact } from './logger'
+
+// Client-side error reporting.
+// Errors are queued with context (route, user id, last failed HTTP call) and flushed in batches
+// to a sink chosen at build time:
+//   VITE_ERROR_REPORT_URL set   -> POSTed as JSON to that endpoint
+//   not set, dev build          -> printed through the logger ('errors' namespace)
+//   not set, production build   -> dropped
+
+export type ErrorSource = 'boundary' | 'window' | 'unhandledrejection' | 'manual'
+
+export interface FailedRequestInfo {
+  method?: string
+  url?: string
+  status?: number
+  at: string
+}
+
+export interface ErrorReport {
+  message: string
+  name?: string
+  stack?: string
+  componentStack?: string
+  source: ErrorSource
+  // Route section of the boundary that caught it (storefront, cabinet, admin)
+  section?: string
+  route: string
+  userId: string | null
+  lastFailedRequest: FailedRequestInfo | null
+  userAgent: string
+  at: string
+}
+
+export interface ErrorReportSink {
+  send: (reports: ErrorReport[]) => Promise<void>
+}
+
+export interface ReportErrorContext {
+  source?: ErrorSource
+  section?: string
+  componentStack?: string
+}
+
+const MAX_BATCH_SIZE = 10
+const FLUSH_DELAY_MS = 5_000
+// A render loop must not flood the endpoint
+const MAX_QUEUE_SIZE = 50
+
+const log = createLogger('errors')
+
+export function createHttpSink(endpoint: string): ErrorReportSink {
+  return {
+    send: async (reports) => {
+      const body = JSON.stringify({ reports })
+      // keepalive lets the request outlive the page when flushing on pagehide
+      await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: body.length < 60_000,
+      })
+    },
+  }
+}
+
+export const consoleSink: ErrorReportSink = {
+  send: async (reports) => {
+    reports.forEach((report) => log.error(report.message, report))
+  },
+}
+
+export const noopSink: ErrorReportSink = {
+  send: async () => {},
+}
+
+function resolveSink(): ErrorReportSink {
+  const endpoint = import.meta.env.VITE_ERROR_REPORT_URL?.trim()
+  if (endpoint) return createHttpSink(endpoint)
+  return import.meta.env.DEV ? consoleSink : noopSink
+}
+
+let sink = resolveSink()
+let queue: ErrorReport[] = []
+let flushTimer: ReturnType<typeof setTimeout> | null = null
+let lastFailedRequest: FailedRequestInfo | null = null
+
+/** Replace the sink (e.g. to plug in a third-party SDK) */
+export function setErrorReportSink(next: ErrorReportSink) {
+  sink = next
+}
+
+/** Called by the axios interceptor; attached to the next reports as context */
+export function recordFailedRequest(info: Omit<FailedRequestInfo, 'at'>) {
+  lastFailedRequest = { ...info, at: new Date().toISOString() }
+}
+
+function toReport(error: unknown, context: ReportErrorContext): ErrorReport {
+  const err = error instanceof Error ? error : new Error(typeof error === 'string' ? error : 'Non-error value thrown')
+  // Messages and stacks may echo user input; strip emails/tokens the same way logs do
+  const clean = (value?: string) => (value ? String(redact(value)) : undefined)
+
+  return {
+    message: clean(err.message) ?? 'Unknown error',
+    name: err.name,
+    stack: clean(err.stack),
+    componentStack: clean(context.componentStack),
+    source: context.source ?? 'manual',
+    section: context.section,
+    route: window.location.pathname,
+    userId: useAuthStore.getState().user?.id || null,
+    lastFailedRequest,
+    userAgent: navigator.userAgent,
+    at: new Date().toISOString(),
+  }
+}
+
+export async function flushErrorReports(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer)
+    flushTimer = null
+  }
+  if (queue.length === 0) return
+
+  const batch = queue
+  queue = []
+  try {
+    await sink.send(batch)
+  } catch (err) {
+    // Reporting must never throw into the app; the batch is dropped
+    log.warn('Failed to send error reports', err)
+  }
+}
+
+export function reportError(error: unknown, context: ReportErrorContext = {}) {
+  if (queue.length >= MAX_QUEUE_SIZE) return
+  queue.push(toReport(error, context))
+
+  if (queue.length >= MAX_BATCH_SIZE) {
+    void flushErrorReports()
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => void flushErrorReports(), FLUSH_DELAY_MS)
+  }
+}
+
+/** Report uncaught errors and unhandled rejections; flush what is queued when the page goes away */
+export function installGlobalErrorHandlers() {
+  window.addEventListener('error', (event) => {
+    reportError(event.error ?? event.message, { source: 'window' })
+  })
+  window.addEventListener('unhandledrejection', (event) => {
+    reportError(event.reason, { source: 'unhandledrejection' })
+  })
+  window.addEventListener('pagehide', () => void flushErrorReports())
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void flushErrorReports()
+  })
+}
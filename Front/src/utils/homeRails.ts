@@ -0,0 +1,58 @@
+// Home page rails built from what the catalog already exposes (listing sorts, favourites, search popularity);
+// there is no dedicated recommendation endpoint.
+
+import type { CategoryDto, ProductSummaryDto } from '../api/catalogApi'
+
+export interface PopularSearchResult {
+  searchCount: number
+  // Results of the query, best match first
+  products: ProductSummaryDto[]
+}
+
+export interface PopularCategoryRail {
+  category: CategoryDto
+  products: ProductSummaryDto[]
+}
+
+function categoryOf(product: ProductSummaryDto): CategoryDto | null {
+  return product.primaryCategory ?? product.categories[0] ?? null
+}
+
+/**
+ * The category the most searched-for products belong to, with its products ranked by popularity.
+ * A product scores the search count of every popular query that finds it, divided by its position in those results.
+ */
+export function popularCategoryFromSearches(results: PopularSearchResult[], limit: number): PopularCategoryRail | null {
+  const productScores = new Map<string, { product: ProductSummaryDto; score: number }>()
+  for (const { searchCount, products } of results) {
+    products.forEach((product, index) => {
+      const score = searchCount / (index + 1)
+      const entry = productScores.get(product.id)
+      if (entry) entry.score += score
+      else productScores.set(product.id, { product, score })
+    })
+  }
+
+  const categoryScores = new Map<string, { category: CategoryDto; score: number }>()
+  for (const { product, score } of productScores.values()) {
+    const category = categoryOf(product)
+    if (!category) continue
+    const entry = categoryScores.get(category.id)
+    if (entry) entry.score += score
+    else categoryScores.set(category.id, { category, score })
+  }
+
+  let best: { category: CategoryDto; score: number } | null = null
+  for (const entry of categoryScores.values()) {
+    if (!best || entry.score > best.score) best = entry
+  }
+  if (!best) return null
+
+  const products = [...productScores.values()]
+    .filter(({ product }) => categoryOf(product)?.id === best.category.id)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ product }) => product)
+
+  return { category: best.category, products }
+}
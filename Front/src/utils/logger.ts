@@ -0,0 +1,115 @@
+import { isAxiosError } from 'axios'
+
+// Small namespaced logger for the data layer.
+//   const log = createLogger('cart'); log.debug('addToCart request', data)
+// Output is filtered by level and namespace, and every argument is passed through redact()
+// so emails, phones, addresses and tokens never reach the console.
+//
+// Configuration (build time, see .env.example):
+//   VITE_LOG_LEVEL       debug | info | warn | error | silent  (default: debug in dev, warn in production)
+//   VITE_LOG_NAMESPACES  comma-separated list, e.g. "http,cart"; "*" or empty enables all
+// The same keys in localStorage ('log:level', 'log:namespaces') override them at runtime,
+// which is handy for debugging a production build.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+export type LogNamespace = 'http' | 'auth' | 'cart' | (string & {})
+
+export interface Logger {
+  debug: (message: string, ...args: unknown[]) => void
+  info: (message: string, ...args: unknown[]) => void
+  warn: (message: string, ...args: unknown[]) => void
+  error: (message: string, ...args: unknown[]) => void
+}
+
+const LEVEL_WEIGHT: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 }
+
+const REDACTED = '[redacted]'
+const MAX_DEPTH = 6
+
+// Matched against object keys, case-insensitive: whole key for short generic names, substring for the rest
+const SENSITIVE_KEY = /^(city|state|country)$|email|phone|address|street|postal|zip|firstname|lastname|surname|fullname|password|token|secret|authorization|cookie/i
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g
+
+function readOverride(key: string): string | undefined {
+  try {
+    return localStorage.getItem(key) ?? undefined
+  } catch {
+    return undefined
+  }
+}
+
+function parseLevel(raw: string | undefined): LogLevel | null {
+  const value = raw?.trim().toLowerCase()
+  return value && value in LEVEL_WEIGHT ? (value as LogLevel) : null
+}
+
+function parseNamespaces(raw: string | undefined): Set<string> | null {
+  const items = (raw ?? '').split(',').map((s) => s.trim()).filter(Boolean)
+  // null means "all namespaces"
+  return items.length === 0 || items.includes('*') ? null : new Set(items)
+}
+
+const minLevel: LogLevel =
+  parseLevel(readOverride('log:level')) ??
+  parseLevel(import.meta.env.VITE_LOG_LEVEL) ??
+  (import.meta.env.PROD ? 'warn' : 'debug')
+
+const enabledNamespaces = parseNamespaces(readOverride('log:namespaces') ?? import.meta.env.VITE_LOG_NAMESPACES)
+
+function isEnabled(namespace: string, level: Exclude<LogLevel, 'silent'>): boolean {
+  if (LEVEL_WEIGHT[level] < LEVEL_WEIGHT[minLevel]) return false
+  return !enabledNamespaces || enabledNamespaces.has(namespace)
+}
+
+function redactString(value: string): string {
+  return value.replace(JWT_PATTERN, REDACTED).replace(EMAIL_PATTERN, REDACTED)
+}
+
+/** Deep copy of `value` with PII replaced; axios errors are reduced to a short summary */
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') return redactString(value)
+  if (value === null || typeof value !== 'object') return value
+  if (depth >= MAX_DEPTH) return '[…]'
+  if (seen.has(value)) return '[circular]'
+  seen.add(value)
+
+  if (isAxiosError(value)) {
+    return {
+      message: value.message,
+      code: value.code,
+      status: value.response?.status,
+      method: value.config?.method,
+      url: value.config?.url,
+      data: redact(value.response?.data, depth + 1, seen),
+    }
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) }
+  }
+  if (typeof FormData !== 'undefined' && value instanceof FormData) return '[FormData]'
+  if (typeof Blob !== 'undefined' && value instanceof Blob) return `[Blob ${value.size}b]`
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1, seen))
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) && item !== null && item !== undefined && item !== ''
+      ? REDACTED
+      : redact(item, depth + 1, seen)
+  }
+  return result
+}
+
+export function createLogger(namespace: LogNamespace): Logger {
+  const write = (level: Exclude<LogLevel, 'silent'>) => (message: string, ...args: unknown[]) => {
+    if (!isEnabled(namespace, level)) return
+    console[level](`[${namespace}] ${message}`, ...args.map((arg) => redact(arg)))
+  }
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  }
+}
@@ -0,0 +1,83 @@
+// Side-by-side specification rows for the compare page.
+// A product's value of an attribute is collected from the product attributes and every SKU's merged attributes,
+// so variant attributes (color, storage) show all options the product comes in.
+
+import type { AttributeDefinitionDto } from '../api/attributeDefinitionsApi'
+import type { ProductDetailsDto } from '../api/catalogApi'
+
+export interface ComparisonRow {
+  code: string
+  name: string
+  unit: string | null
+  // One entry per product, in the order of the products; null when the product has no value
+  values: (string | null)[]
+  isDifferent: boolean
+}
+
+function formatValue(value: unknown, yes: string, no: string): string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'boolean') return value ? yes : no
+  if (Array.isArray(value)) {
+    const parts = value.map((v) => formatValue(v, yes, no)).filter((v): v is string => v !== null)
+    return parts.length > 0 ? parts.join(', ') : null
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function productValues(product: ProductDetailsDto, yes: string, no: string): Map<string, string[]> {
+  const values = new Map<string, string[]>()
+  const sources = [product.attributes, ...product.skus.map((s) => s.mergedAttributes)]
+  for (const source of sources) {
+    for (const [code, raw] of Object.entries(source ?? {})) {
+      const formatted = formatValue(raw, yes, no)
+      if (formatted === null) continue
+      const list = values.get(code) ?? []
+      if (!list.includes(formatted)) list.push(formatted)
+      values.set(code, list)
+    }
+  }
+  return values
+}
+
+/**
+ * Rows for every attribute any of the products has, in definition display order;
+ * attributes without a definition follow, by code. `labels` renders boolean values.
+ */
+export function buildComparisonRows(
+  products: ProductDetailsDto[],
+  definitions: AttributeDefinitionDto[],
+  labels: { yes: string; no: string }
+): ComparisonRow[] {
+  const perProduct = products.map((p) => productValues(p, labels.yes, labels.no))
+  const definitionsByCode = new Map(definitions.map((d) => [d.code, d]))
+  const codes = [...new Set(perProduct.flatMap((values) => [...values.keys()]))]
+
+  codes.sort((a, b) => {
+    const da = definitionsByCode.get(a)
+    const db = definitionsByCode.get(b)
+    if (da && db) return da.displayOrder - db.displayOrder || da.name.localeCompare(db.name)
+    if (da) return -1
+    if (db) return 1
+    return a.localeCompare(b)
+  })
+
+  return codes.map((code) => {
+    const definition = definitionsByCode.get(code)
+    const values = perProduct.map((v) => v.get(code)?.join(' / ') ?? null)
+    return {
+      code,
+      name: definition?.name ?? code,
+      unit: definition?.unit ?? null,
+      values,
+      isDifferent: new Set(values).size > 1,
+    }
+  })
+}
+
+/** Lowest and highest SKU price of a product, null when it has no SKUs */
+export function priceRangeOf(product: ProductDetailsDto): { min: number; max: number } | null {
+  if (product.skus.length === 0) return null
+  const prices = product.skus.map((s) => s.price)
+  return { min: Math.min(...prices), max: Math.max(...prices) }
+}
@@ -0,0 +1,147 @@
+import { ProductSort, type AttributeFilterValue, type ProductFilterRequest } from '../api/catalogApi'
+
+// URL <-> filter state for product listings.
+// The query string is the source of truth, so shared links, bookmarks and back/forward restore filters.
+//   minPrice=100&maxPrice=500     price range
+//   inStock=true                  only in-stock products
+//   minRating=4                   average rating of at least 4 stars
+//   tag=<id>&tag=<id>             tag ids
+//   sort=PriceAsc                 omitted for the page's default sort
+//   page=2                        omitted for the first page
+//   attr_<code>_in=a&attr_<code>_in=b              string attributes (any of)
+//   attr_<code>_equal=true                         boolean / exact string attributes
+//   attr_<code>_gte=1&attr_<code>_lte=5&attr_<code>_eq=3   number attributes
+// Multi-valued keys repeat instead of joining with commas, so values may contain commas.
+// Parameters the parser does not recognise (e.g. `q` on the search page) are left untouched.
+
+/** Filter state a listing keeps in the URL; scope (categoryId, storeId, query) and pageSize stay with the page */
+export interface ProductFilterState {
+  minPrice: number | null
+  maxPrice: number | null
+  inStock: boolean
+  minRating: number | null
+  tagIds: string[]
+  attributes: Record<string, AttributeFilterValue>
+  sort: ProductSort
+  page: number
+}
+
+export const emptyProductFilterState: ProductFilterState = {
+  minPrice: null,
+  maxPrice: null,
+  inStock: false,
+  minRating: null,
+  tagIds: [],
+  attributes: {},
+  sort: ProductSort.Newest,
+  page: 1,
+}
+
+const ATTRIBUTE_PARAM = /^attr_(.+)_(in|equal|gte|lte|eq)$/
+const SORT_VALUES = Object.values(ProductSort) as string[]
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function isFilterParam(key: string): boolean {
+  return ['minPrice', 'maxPrice', 'inStock', 'minRating', 'tag', 'sort', 'page'].includes(key) || ATTRIBUTE_PARAM.test(key)
+}
+
+/** Reads filter state from the query string; malformed values fall back to their defaults */
+export function parseProductFilterParams(
+  params: URLSearchParams,
+  defaultSort: ProductSort = ProductSort.Newest
+): ProductFilterState {
+  const attributes: Record<string, AttributeFilterValue> = {}
+
+  params.forEach((value, key) => {
+    const match = ATTRIBUTE_PARAM.exec(key)
+    if (!match || value === '') return
+    const [, code, operator] = match
+    const filter = (attributes[code] ??= {})
+
+    if (operator === 'in') {
+      filter.in = [...(filter.in ?? []), value]
+    } else if (operator === 'equal') {
+      filter.equal = value
+    } else {
+      const number = parseNumber(value)
+      if (number !== null) filter[operator as 'gte' | 'lte' | 'eq'] = number
+    }
+  })
+
+  // Drop codes whose every value was malformed
+  Object.keys(attributes).forEach((code) => {
+    if (Object.keys(attributes[code]).length === 0) delete attributes[code]
+  })
+
+  const sort = params.get('sort')
+  const page = parseNumber(params.get('page'))
+  const minRating = parseNumber(params.get('minRating'))
+
+  return {
+    minPrice: parseNumber(params.get('minPrice')),
+    maxPrice: parseNumber(params.get('maxPrice')),
+    inStock: params.get('inStock') === 'true',
+    minRating: minRating !== null && minRating >= 1 && minRating <= 5 ? minRating : null,
+    tagIds: params.getAll('tag').filter(Boolean),
+    attributes,
+    sort: sort && SORT_VALUES.includes(sort) ? (sort as ProductSort) : defaultSort,
+    page: page && page >= 1 ? Math.floor(page) : 1,
+  }
+}
+
+/**
+ * Writes filter state into `base` (a copy of it), replacing any filter params already there.
+ * Defaults are omitted so an unfiltered listing keeps a clean URL.
+ */
+export function serializeProductFilterParams(
+  state: ProductFilterState,
+  base: URLSearchParams = new URLSearchParams(),
+  defaultSort: ProductSort = ProductSort.Newest
+): URLSearchParams {
+  const params = new URLSearchParams()
+  base.forEach((value, key) => {
+    if (!isFilterParam(key)) params.append(key, value)
+  })
+
+  if (state.minPrice !== null) params.set('minPrice', String(state.minPrice))
+  if (state.maxPrice !== null) params.set('maxPrice', String(state.maxPrice))
+  if (state.inStock) params.set('inStock', 'true')
+  if (state.minRating !== null) params.set('minRating', String(state.minRating))
+  state.tagIds.forEach((id) => params.append('tag', id))
+
+  Object.entries(state.attributes).forEach(([code, filter]) => {
+    filter.in?.forEach((value) => params.append(`attr_${code}_in`, value))
+    if (filter.equal != null) params.set(`attr_${code}_equal`, filter.equal)
+    if (filter.gte != null) params.set(`attr_${code}_gte`, String(filter.gte))
+    if (filter.lte != null) params.set(`attr_${code}_lte`, String(filter.lte))
+    if (filter.eq != null) params.set(`attr_${code}_eq`, String(filter.eq))
+  })
+
+  if (state.sort !== defaultSort) params.set('sort', state.sort)
+  if (state.page > 1) params.set('page', String(state.page))
+
+  return params
+}
+
+/** Builds the API request for the current state; empty filters are sent as null as the backend expects */
+export function toProductFilterRequest(
+  state: ProductFilterState,
+  scope: Omit<ProductFilterRequest, keyof ProductFilterState>
+): ProductFilterRequest {
+  return {
+    ...scope,
+    minPrice: state.minPrice,
+    maxPrice: state.maxPrice,
+    inStock: state.inStock || null,
+    minRating: state.minRating,
+    tagIds: state.tagIds.length > 0 ? state.tagIds : null,
+    attributes: Object.keys(state.attributes).length > 0 ? state.attributes : null,
+    sort: state.sort,
+    page: state.page,
+  }
+}
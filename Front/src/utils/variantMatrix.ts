@@ -0,0 +1,117 @@
+// Variant picker model for the product page.
+// Axes are the variant attributes (AttributeDefinitionDto.isVariant) the SKUs are built from, picked in display order
+// (size, then color): the options of an axis depend on the values chosen on the axes before it.
+
+import type { AttributeDefinitionDto } from '../api/attributeDefinitionsApi'
+import type { SkuDto } from '../api/catalogApi'
+
+export interface VariantAxis {
+  code: string
+  name: string
+  unit: string | null
+  values: string[]
+}
+
+// 'unavailable': no SKU has this combination; 'out_of_stock': it exists but none is in stock
+export type VariantOptionStatus = 'available' | 'out_of_stock' | 'unavailable'
+
+export type VariantSelection = Record<string, string>
+
+function skuValue(sku: SkuDto, code: string): string | null {
+  const value = sku.attributes?.[code]
+  return value === null || value === undefined ? null : String(value)
+}
+
+/**
+ * Axes the SKUs of a product vary on. Without a definition marked as variant (or before definitions load)
+ * every SKU attribute whose value differs between SKUs is used.
+ */
+export function buildVariantAxes(skus: SkuDto[], definitions: AttributeDefinitionDto[]): VariantAxis[] {
+  const codes = [...new Set(skus.flatMap((s) => Object.keys(s.attributes ?? {})))]
+  const definitionsByCode = new Map(definitions.map((d) => [d.code, d]))
+
+  let axisCodes = codes.filter((code) => definitionsByCode.get(code)?.isVariant)
+  if (axisCodes.length === 0) {
+    axisCodes = codes.filter((code) => new Set(skus.map((s) => skuValue(s, code))).size > 1)
+  }
+
+  axisCodes.sort((a, b) => {
+    const orderA = definitionsByCode.get(a)?.displayOrder ?? Number.MAX_SAFE_INTEGER
+    const orderB = definitionsByCode.get(b)?.displayOrder ?? Number.MAX_SAFE_INTEGER
+    return orderA - orderB || a.localeCompare(b)
+  })
+
+  return axisCodes.map((code) => {
+    const definition = definitionsByCode.get(code)
+    const present = [...new Set(skus.map((s) => skuValue(s, code)).filter((v): v is string => v !== null))]
+    // Allowed values carry the intended order (S, M, L); values outside it keep their SKU order
+    const allowed = definition?.allowedValues ?? []
+    const values = [
+      ...allowed.filter((v) => present.includes(v)),
+      ...present.filter((v) => !allowed.includes(v)),
+    ]
+    return { code, name: definition?.name ?? code, unit: definition?.unit ?? null, values }
+  })
+}
+
+/** Axis values of a SKU; axes the SKU has no value for are left out */
+export function selectionOf(sku: SkuDto | null, axes: VariantAxis[]): VariantSelection {
+  const selection: VariantSelection = {}
+  if (!sku) return selection
+  for (const axis of axes) {
+    const value = skuValue(sku, axis.code)
+    if (value !== null) selection[axis.code] = value
+  }
+  return selection
+}
+
+function matches(sku: SkuDto, selection: VariantSelection): boolean {
+  return Object.entries(selection).every(([code, value]) => skuValue(sku, code) === value)
+}
+
+// Choices on the axes before `axisIndex`, plus `value` on the axis itself
+function prefixWith(axes: VariantAxis[], selection: VariantSelection, axisIndex: number, value: string): VariantSelection {
+  const prefix: VariantSelection = {}
+  for (const axis of axes.slice(0, axisIndex)) {
+    if (selection[axis.code] !== undefined) prefix[axis.code] = selection[axis.code]
+  }
+  prefix[axes[axisIndex].code] = value
+  return prefix
+}
+
+/** Whether picking `value` on an axis leads to a SKU, given the values chosen on the earlier axes */
+export function variantOptionStatus(
+  skus: SkuDto[],
+  axes: VariantAxis[],
+  selection: VariantSelection,
+  axisIndex: number,
+  value: string
+): VariantOptionStatus {
+  const candidates = skus.filter((s) => matches(s, prefixWith(axes, selection, axisIndex, value)))
+  if (candidates.length === 0) return 'unavailable'
+  return candidates.some((s) => s.stockQuantity > 0) ? 'available' : 'out_of_stock'
+}
+
+/**
+ * SKU to switch to when `value` is picked on an axis: keeps the earlier choices, then as many of the later ones
+ * as possible, preferring SKUs in stock. Null when the combination does not exist.
+ */
+export function skuForOption(
+  skus: SkuDto[],
+  axes: VariantAxis[],
+  selection: VariantSelection,
+  axisIndex: number,
+  value: string
+): SkuDto | null {
+  const candidates = skus.filter((s) => matches(s, prefixWith(axes, selection, axisIndex, value)))
+  const later = axes.slice(axisIndex + 1)
+
+  let best: { sku: SkuDto; score: number } | null = null
+  for (const sku of candidates) {
+    const kept = later.filter((axis) => selection[axis.code] !== undefined && skuValue(sku, axis.code) === selection[axis.code]).length
+    // A kept choice outweighs stock: switching size should not silently change the color
+    const score = kept * 2 + (sku.stockQuantity > 0 ? 1 : 0)
+    if (!best || score > best.score) best = { sku, score }
+  }
+  return best?.sku ?? null
+}
@@ -2,6 +2,10 @@
 
 interface ImportMetaEnv {
 	readonly VITE_API_URL?: string;
+	readonly VITE_AUTH_TOKEN_STORAGE?: 'local' | 'cookie';
+	readonly VITE_LOG_LEVEL?: 'debug' | 'info' | 'warn' | 'error' | 'silent';
+	readonly VITE_LOG_NAMESPACES?: string;
+	readonly VITE_ERROR_REPORT_URL?: string;
 }
 
 interface ImportMeta {
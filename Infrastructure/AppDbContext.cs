@@ -34,8 +34,19 @@ public class AppDbContext(DbContextOptions<AppDbContext> options) : IdentityDbCo
     public DbSet<ProductCategory> ProductCategories { get; set; }
     public DbSet<AttributeDefinition> AttributeDefinitions { get; set; }
     public DbSet<SearchQuery> SearchQueries { get; set; }
+    public DbSet<SearchHistoryEntry> SearchHistoryEntries { get; set; }
+    public DbSet<RecentlyViewedProduct> RecentlyViewedProducts { get; set; }
     public DbSet<ProductFavorite> ProductFavorites { get; set; }
 
+    // Reviews
+    public DbSet<ProductReview> ProductReviews { get; set; }
+    public DbSet<ProductReviewPhoto> ProductReviewPhotos { get; set; }
+    public DbSet<ProductReviewVote> ProductReviewVotes { get; set; }
+
+    // Questions
+    public DbSet<ProductQuestion> ProductQuestions { get; set; }
+    public DbSet<ProductQuestionVote> ProductQuestionVotes { get; set; }
+
     // Cart and Order entities
     public DbSet<Cart> Carts { get; set; }
     public DbSet<CartItem> CartItems { get; set; }
@@ -118,6 +129,7 @@ public class AppDbContext(DbContextOptions<AppDbContext> options) : IdentityDbCo
              user.Property(u => u.Email).HasMaxLength(100);
              user.Property(u => u.PhoneNumber).HasMaxLength(20);
              user.Property(u => u.IsBlocked).IsRequired();
+             user.Property(u => u.IsSearchHistoryPaused).IsRequired();
              user.HasIndex(u => u.IdentityUserId).IsUnique();
              user.HasOne(u => u.Avatar)      // Юзер має одну картинку
                  .WithMany()                 // Картинка не обов'язково знає про Юзера (unidirectional)
@@ -36,6 +36,12 @@ public class ProductConfiguration : IEntityTypeConfiguration<Product>
         builder.Property(p => p.Attributes)
             .HasColumnType("jsonb");
 
+        builder.Property(p => p.AverageRating)
+            .HasPrecision(3, 2);
+
+        // Catalog sort "by rating"
+        builder.HasIndex(p => new { p.AverageRating, p.ReviewCount });
+
         builder.Metadata.FindNavigation(nameof(Product.ProductTags))?
             .SetPropertyAccessMode(PropertyAccessMode.Field);
 
@@ -0,0 +1,39 @@
+using Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Infrastructure.Configuration;
+
+public class ProductQuestionConfiguration : IEntityTypeConfiguration<ProductQuestion>
+{
+	public void Configure(EntityTypeBuilder<ProductQuestion> builder)
+	{
+		builder.ToTable("ProductQuestions");
+		builder.HasKey(q => q.Id);
+
+		builder.Property(q => q.Text)
+			.IsRequired()
+			.HasMaxLength(ProductQuestion.MaxTextLength);
+
+		builder.Property(q => q.Answer)
+			.HasMaxLength(ProductQuestion.MaxAnswerLength);
+
+		builder.Property(q => q.ModerationReason)
+			.HasMaxLength(ProductQuestion.MaxModerationReasonLength);
+
+		builder.Property(q => q.Status)
+			.IsRequired();
+
+		builder.HasOne(q => q.Product)
+			.WithMany()
+			.HasForeignKey(q => q.ProductId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasOne(q => q.User)
+			.WithMany()
+			.HasForeignKey(q => q.UserId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasIndex(q => new { q.ProductId, q.Status, q.UpvoteCount });
+	}
+}
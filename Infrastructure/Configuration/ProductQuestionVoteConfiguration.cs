@@ -0,0 +1,29 @@
+using Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Infrastructure.Configuration;
+
+public class ProductQuestionVoteConfiguration : IEntityTypeConfiguration<ProductQuestionVote>
+{
+	public void Configure(EntityTypeBuilder<ProductQuestionVote> builder)
+	{
+		builder.ToTable("ProductQuestionVotes");
+		builder.HasKey(v => v.Id);
+
+		builder.HasOne<ProductQuestion>()
+			.WithMany()
+			.HasForeignKey(v => v.QuestionId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasOne<User>()
+			.WithMany()
+			.HasForeignKey(v => v.UserId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasIndex(v => new { v.QuestionId, v.UserId })
+			.IsUnique();
+
+		builder.HasIndex(v => v.UserId);
+	}
+}
@@ -0,0 +1,55 @@
+using Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Infrastructure.Configuration;
+
+public class ProductReviewConfiguration : IEntityTypeConfiguration<ProductReview>
+{
+	public void Configure(EntityTypeBuilder<ProductReview> builder)
+	{
+		builder.ToTable("ProductReviews");
+		builder.HasKey(r => r.Id);
+
+		builder.Property(r => r.Comment)
+			.HasMaxLength(ProductReview.MaxCommentLength);
+
+		builder.Property(r => r.SellerReply)
+			.HasMaxLength(ProductReview.MaxReplyLength);
+
+		builder.Property(r => r.ModerationReason)
+			.HasMaxLength(ProductReview.MaxModerationReasonLength);
+
+		builder.Property(r => r.Status)
+			.IsRequired();
+
+		builder.HasOne(r => r.Product)
+			.WithMany()
+			.HasForeignKey(r => r.ProductId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasOne(r => r.User)
+			.WithMany()
+			.HasForeignKey(r => r.UserId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasOne(r => r.OrderItem)
+			.WithMany()
+			.HasForeignKey(r => r.OrderItemId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasMany(r => r.Photos)
+			.WithOne()
+			.HasForeignKey(p => p.ReviewId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.Metadata.FindNavigation(nameof(ProductReview.Photos))?
+			.SetPropertyAccessMode(PropertyAccessMode.Field);
+
+		// One review per product and customer, however many times it was bought
+		builder.HasIndex(r => new { r.UserId, r.ProductId })
+			.IsUnique();
+
+		builder.HasIndex(r => new { r.ProductId, r.Status, r.CreatedAt });
+	}
+}
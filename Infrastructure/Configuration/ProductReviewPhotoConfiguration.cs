@@ -0,0 +1,24 @@
+using Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Infrastructure.Configuration;
+
+public class ProductReviewPhotoConfiguration : IEntityTypeConfiguration<ProductReviewPhoto>
+{
+	public void Configure(EntityTypeBuilder<ProductReviewPhoto> builder)
+	{
+		builder.ToTable("ProductReviewPhotos");
+		builder.HasKey(rp => rp.Id);
+
+		builder.Property(rp => rp.DisplayOrder)
+			.IsRequired();
+
+		builder.HasIndex(rp => new { rp.ReviewId, rp.DisplayOrder });
+
+		builder.HasOne(rp => rp.MediaImage)
+			.WithMany()
+			.HasForeignKey(rp => rp.MediaImageId)
+			.OnDelete(DeleteBehavior.Cascade);
+	}
+}
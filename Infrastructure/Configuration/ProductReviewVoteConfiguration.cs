@@ -0,0 +1,29 @@
+using Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Infrastructure.Configuration;
+
+public class ProductReviewVoteConfiguration : IEntityTypeConfiguration<ProductReviewVote>
+{
+	public void Configure(EntityTypeBuilder<ProductReviewVote> builder)
+	{
+		builder.ToTable("ProductReviewVotes");
+		builder.HasKey(v => v.Id);
+
+		builder.HasOne<ProductReview>()
+			.WithMany()
+			.HasForeignKey(v => v.ReviewId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasOne<User>()
+			.WithMany()
+			.HasForeignKey(v => v.UserId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		builder.HasIndex(v => new { v.ReviewId, v.UserId })
+			.IsUnique();
+
+		builder.HasIndex(v => v.UserId);
+	}
+}
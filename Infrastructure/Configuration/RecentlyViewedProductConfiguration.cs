@@ -0,0 +1,31 @@
+using Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Infrastructure.Configuration;
+
+public class RecentlyViewedProductConfiguration : IEntityTypeConfiguration<RecentlyViewedProduct>
+{
+	public void Configure(EntityTypeBuilder<RecentlyViewedProduct> builder)
+	{
+		builder.ToTable("RecentlyViewedProducts");
+		builder.HasKey(e => e.Id);
+
+		builder.HasOne<User>()
+			.WithMany()
+			.HasForeignKey(e => e.UserId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		// A deleted product leaves every history it was in
+		builder.HasOne<Product>()
+			.WithMany()
+			.HasForeignKey(e => e.ProductId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		// One entry per product and user; viewing it again moves the entry to the top
+		builder.HasIndex(e => new { e.UserId, e.ProductId })
+			.IsUnique();
+
+		builder.HasIndex(e => new { e.UserId, e.ViewedAt });
+	}
+}
@@ -0,0 +1,33 @@
+using Domain.Entities;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Metadata.Builders;
+
+namespace Infrastructure.Configuration;
+
+public class SearchHistoryEntryConfiguration : IEntityTypeConfiguration<SearchHistoryEntry>
+{
+	public void Configure(EntityTypeBuilder<SearchHistoryEntry> builder)
+	{
+		builder.ToTable("SearchHistoryEntries");
+		builder.HasKey(e => e.Id);
+
+		builder.Property(e => e.Query)
+			.IsRequired()
+			.HasMaxLength(500);
+
+		builder.Property(e => e.NormalizedQuery)
+			.IsRequired()
+			.HasMaxLength(500);
+
+		builder.HasOne<User>()
+			.WithMany()
+			.HasForeignKey(e => e.UserId)
+			.OnDelete(DeleteBehavior.Cascade);
+
+		// One entry per query and user; a repeated search moves the entry to the top
+		builder.HasIndex(e => new { e.UserId, e.NormalizedQuery })
+			.IsUnique();
+
+		builder.HasIndex(e => new { e.UserId, e.SearchedAt });
+	}
+}
@@ -64,6 +64,8 @@ public static class SeederDB
             await AddClaimToRoleIfNotExists(roleManager, adminRole, "permission", "manage_catalog");
             await AddClaimToRoleIfNotExists(roleManager, adminRole, "permission", "payouts.read.all");
             await AddClaimToRoleIfNotExists(roleManager, adminRole, "permission", "payouts.process");
+            await AddClaimToRoleIfNotExists(roleManager, adminRole, "permission", "reviews.moderate");
+            await AddClaimToRoleIfNotExists(roleManager, adminRole, "permission", "questions.moderate");
             // Profile permissions (admin needs these too)
             await AddClaimToRoleIfNotExists(roleManager, adminRole, "permission", "profile.read.self");
             await AddClaimToRoleIfNotExists(roleManager, adminRole, "permission", "profile.update.self");
@@ -91,6 +93,7 @@ public static class SeederDB
             await AddClaimToRoleIfNotExists(roleManager, userRole, "permission", "orders.read.self");
             await AddClaimToRoleIfNotExists(roleManager, userRole, "permission", "reviews.create");
             await AddClaimToRoleIfNotExists(roleManager, userRole, "permission", "reviews.update.self");
+            await AddClaimToRoleIfNotExists(roleManager, userRole, "permission", "questions.create");
             await AddClaimToRoleIfNotExists(roleManager, userRole, "permission", "profile.read.self");
             await AddClaimToRoleIfNotExists(roleManager, userRole, "permission", "profile.update.self");
         }
@@ -0,0 +1,67 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Infrastructure.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddUserSearchHistory : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "IsSearchHistoryPaused",
+                table: "DomainUsers",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.CreateTable(
+                name: "SearchHistoryEntries",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    UserId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Query = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: false),
+                    NormalizedQuery = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: false),
+                    SearchedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SearchHistoryEntries", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SearchHistoryEntries_DomainUsers_UserId",
+                        column: x => x.UserId,
+                        principalTable: "DomainUsers",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SearchHistoryEntries_UserId_NormalizedQuery",
+                table: "SearchHistoryEntries",
+                columns: new[] { "UserId", "NormalizedQuery" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SearchHistoryEntries_UserId_SearchedAt",
+                table: "SearchHistoryEntries",
+                columns: new[] { "UserId", "SearchedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "SearchHistoryEntries");
+
+            migrationBuilder.DropColumn(
+                name: "IsSearchHistoryPaused",
+                table: "DomainUsers");
+        }
+    }
+}
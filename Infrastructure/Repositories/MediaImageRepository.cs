@@ -103,8 +103,12 @@ public class MediaImageRepository : IMediaImageRepository
 			.Select(u => u.AvatarId!.Value)
 			.ToListAsync();
 
+		var usedInReviewIds = await _db.ProductReviewPhotos
+			.Select(rp => rp.MediaImageId)
+			.ToListAsync();
+
 		return await _db.MediaImages
-			.Where(m => !usedInGalleryIds.Contains(m.Id) && !usedAvatarIds.Contains(m.Id))
+			.Where(m => !usedInGalleryIds.Contains(m.Id) && !usedAvatarIds.Contains(m.Id) && !usedInReviewIds.Contains(m.Id))
 			.ToListAsync();
 	}
 }
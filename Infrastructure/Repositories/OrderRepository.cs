@@ -42,6 +42,13 @@ public class OrderRepository : IOrderRepository
 			.FirstOrDefaultAsync(o => o.OrderNumber == orderNumber, cancellationToken);
 	}
 
+	public async Task<OrderItem?> GetItemByIdAsync(Guid orderItemId, CancellationToken cancellationToken = default)
+	{
+		return await _db.OrderItems
+			.Include(i => i.Order)
+			.FirstOrDefaultAsync(i => i.Id == orderItemId, cancellationToken);
+	}
+
 	public async Task<(IEnumerable<Order> Orders, int TotalCount)> GetByUserIdAsync(
 		Guid userId,
 		OrderStatus? status = null,
@@ -173,6 +180,29 @@ public class OrderRepository : IOrderRepository
 		return stats ?? new OrderStatistics();
 	}
 
+	public async Task<IReadOnlyList<SkuCoPurchase>> GetCoPurchasedSkusAsync(
+		Guid productId,
+		int limit,
+		CancellationToken cancellationToken = default)
+	{
+		var orderIds = _db.OrderItems
+			.Where(i => i.ProductId == productId && i.Order != null && i.Order.Status != OrderStatus.Cancelled)
+			.Select(i => i.OrderId);
+
+		return await _db.OrderItems
+			.Where(i => orderIds.Contains(i.OrderId) && i.ProductId != productId)
+			.GroupBy(i => new { i.ProductId, i.SkuId })
+			.Select(g => new SkuCoPurchase
+			{
+				ProductId = g.Key.ProductId,
+				SkuId = g.Key.SkuId,
+				OrderCount = g.Select(i => i.OrderId).Distinct().Count()
+			})
+			.OrderByDescending(x => x.OrderCount)
+			.Take(limit)
+			.ToListAsync(cancellationToken);
+	}
+
 	public void Add(Order order)
 	{
 		_db.Orders.Add(order);
@@ -0,0 +1,146 @@
+using Domain.Entities;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using Microsoft.EntityFrameworkCore;
+
+namespace Infrastructure.Repositories;
+
+/// <summary>
+/// Repository для роботи з питаннями про товари
+/// </summary>
+public class ProductQuestionRepository : IProductQuestionRepository
+{
+	private readonly AppDbContext _db;
+
+	public ProductQuestionRepository(AppDbContext db)
+	{
+		_db = db;
+	}
+
+	private IQueryable<ProductQuestion> WithDetails()
+	{
+		return _db.ProductQuestions
+			.Include(q => q.User)
+			.Include(q => q.Product);
+	}
+
+	public async Task<ProductQuestion?> GetByIdAsync(Guid id)
+	{
+		return await WithDetails()
+			.Include(q => q.Product)
+				.ThenInclude(p => p!.Store)
+			.FirstOrDefaultAsync(q => q.Id == id);
+	}
+
+	public async Task<(IEnumerable<ProductQuestion> Questions, int TotalCount)> GetPublishedByProductIdAsync(
+		Guid productId,
+		string? sort,
+		int page,
+		int pageSize)
+	{
+		var query = WithDetails()
+			.AsNoTracking()
+			.Where(q => q.ProductId == productId && q.Status == QuestionStatus.Published);
+
+		var totalCount = await query.CountAsync();
+
+		query = (sort ?? string.Empty).ToLowerInvariant() switch
+		{
+			"newest" => query.OrderByDescending(q => q.CreatedAt),
+			_ => query.OrderByDescending(q => q.UpvoteCount).ThenByDescending(q => q.CreatedAt)
+		};
+
+		var questions = await query
+			.Skip((page - 1) * pageSize)
+			.Take(pageSize)
+			.ToListAsync();
+
+		return (questions, totalCount);
+	}
+
+	public async Task<(IEnumerable<ProductQuestion> Questions, int TotalCount)> GetByStoreIdAsync(
+		Guid storeId,
+		bool? answered,
+		int page,
+		int pageSize)
+	{
+		var query = WithDetails()
+			.AsNoTracking()
+			.Where(q => q.Product!.StoreId == storeId && q.Status == QuestionStatus.Published);
+
+		if (answered.HasValue)
+		{
+			query = answered.Value
+				? query.Where(q => q.Answer != null)
+				: query.Where(q => q.Answer == null);
+		}
+
+		var totalCount = await query.CountAsync();
+
+		// Questions waiting for an answer are handled oldest first, like any inbox
+		query = answered == false
+			? query.OrderBy(q => q.CreatedAt)
+			: query.OrderByDescending(q => q.CreatedAt);
+
+		var questions = await query
+			.Skip((page - 1) * pageSize)
+			.Take(pageSize)
+			.ToListAsync();
+
+		return (questions, totalCount);
+	}
+
+	public async Task<(IEnumerable<ProductQuestion> Questions, int TotalCount)> GetAllAsync(
+		QuestionStatus? status,
+		int page,
+		int pageSize)
+	{
+		var query = WithDetails().AsNoTracking();
+
+		if (status.HasValue)
+		{
+			query = query.Where(q => q.Status == status.Value);
+		}
+
+		var totalCount = await query.CountAsync();
+		var questions = await query
+			.OrderByDescending(q => q.CreatedAt)
+			.Skip((page - 1) * pageSize)
+			.Take(pageSize)
+			.ToListAsync();
+
+		return (questions, totalCount);
+	}
+
+	public async Task<ProductQuestionVote?> GetVoteAsync(Guid questionId, Guid userId)
+	{
+		return await _db.ProductQuestionVotes
+			.FirstOrDefaultAsync(v => v.QuestionId == questionId && v.UserId == userId);
+	}
+
+	public async Task<HashSet<Guid>> GetVotedQuestionIdsAsync(Guid userId, IEnumerable<Guid> questionIds)
+	{
+		var ids = questionIds.ToList();
+		var voted = await _db.ProductQuestionVotes
+			.Where(v => v.UserId == userId && ids.Contains(v.QuestionId))
+			.Select(v => v.QuestionId)
+			.ToListAsync();
+
+		return voted.ToHashSet();
+	}
+
+	public void Add(ProductQuestion question)
+	{
+		_db.ProductQuestions.Add(question);
+	}
+
+	public void AddVote(ProductQuestionVote vote)
+	{
+		_db.ProductQuestionVotes.Add(vote);
+	}
+
+	public void RemoveVote(ProductQuestionVote vote)
+	{
+		_db.ProductQuestionVotes.Remove(vote);
+	}
+}
@@ -1,6 +1,7 @@
 using Domain.Entities;
 using Domain.Interfaces.Repositories;
 using Microsoft.EntityFrameworkCore;
+using System.Linq.Expressions;
 using System.Text.Json;
 
 namespace Infrastructure.Repositories;
@@ -35,6 +36,16 @@ public class ProductRepository : IProductRepository
 				.ThenInclude(pt => pt.Tag);
 	}
 
+	// Search text matching shared by SearchAsync, SuggestAsync, SearchActiveWithSkusAsync and FilterAsync;
+	// `normalized` is trimmed and lower-case. Tag names only count for typeahead suggestions.
+	private static Expression<Func<Product, bool>> MatchesSearchText(string normalized, bool includeTagNames = false)
+	{
+		return p => p.Name.ToLower().Contains(normalized) ||
+		            (p.Description != null && p.Description.ToLower().Contains(normalized)) ||
+		            p.Skus.Any(s => s.SkuCode.ToLower().Contains(normalized)) ||
+		            (includeTagNames && p.ProductTags.Any(pt => pt.Tag != null && pt.Tag.Name.ToLower().Contains(normalized)));
+	}
+
 	public async Task<Product?> GetByIdAsync(Guid id)
 	{
 		return await WithDetails().FirstOrDefaultAsync(p => p.Id == id);
@@ -83,7 +94,17 @@ public class ProductRepository : IProductRepository
 			.FirstOrDefaultAsync(p => p.Skus.Any(s => s.SkuCode == normalized));
 	}
 
-	public async Task<IEnumerable<Product>> SearchAsync(string query, int limit = 20)
+	public Task<IEnumerable<Product>> SearchAsync(string query, int limit = 20)
+	{
+		return SearchActiveAsync(query, limit, includeTagNames: false);
+	}
+
+	public Task<IEnumerable<Product>> SuggestAsync(string query, int limit = 5)
+	{
+		return SearchActiveAsync(query, limit, includeTagNames: true);
+	}
+
+	private async Task<IEnumerable<Product>> SearchActiveAsync(string query, int limit, bool includeTagNames)
 	{
 		if (string.IsNullOrWhiteSpace(query))
 		{
@@ -96,10 +117,8 @@ public class ProductRepository : IProductRepository
 			.Where(p => p.IsActive && 
 			            p.Store != null && 
 			            p.Store.IsVerified && 
-			            !p.Store.IsSuspended &&
-			            (p.Name.ToLower().Contains(normalized) ||
-			             (p.Description != null && p.Description.ToLower().Contains(normalized)) ||
-			             p.Skus.Any(s => s.SkuCode.ToLower().Contains(normalized))))
+			            !p.Store.IsSuspended)
+			.Where(MatchesSearchText(normalized, includeTagNames))
 			.OrderByDescending(p => p.Name.ToLower().StartsWith(normalized)) // Exact prefix matches first
 			.ThenByDescending(p => p.CreatedAt)
 			.Take(limit)
@@ -113,6 +132,7 @@ public class ProductRepository : IProductRepository
 				.ThenInclude(s => s.AttributeValues)
 					.ThenInclude(av => av.AttributeDefinition)
 			.Include(p => p.Store)
+			.Include(p => p.ProductTags) // Tag filters of category facets
 			.Where(p => p.IsActive && 
 			            p.Store != null && 
 			            p.Store.IsVerified && 
@@ -121,16 +141,131 @@ public class ProductRepository : IProductRepository
 			.ToListAsync();
 	}
 
+	public async Task<IEnumerable<Product>> GetActiveByStoreIdWithSkusAsync(Guid storeId)
+	{
+		return await _db.Products
+			.Include(p => p.Skus)
+				.ThenInclude(s => s.AttributeValues)
+					.ThenInclude(av => av.AttributeDefinition)
+			.Include(p => p.Store)
+			.Include(p => p.ProductTags)
+			.Where(p => p.IsActive && 
+			            p.StoreId == storeId &&
+			            p.Store != null && 
+			            p.Store.IsVerified && 
+			            !p.Store.IsSuspended)
+			.ToListAsync();
+	}
+
+	public async Task<IEnumerable<Product>> GetActiveByIdsAsync(IEnumerable<Guid> ids)
+	{
+		var idList = ids.Distinct().ToList();
+		if (idList.Count == 0)
+		{
+			return Enumerable.Empty<Product>();
+		}
+
+		return await WithDetails()
+			.Where(p => idList.Contains(p.Id) &&
+			            p.IsActive &&
+			            p.Store != null &&
+			            p.Store.IsVerified &&
+			            !p.Store.IsSuspended)
+			.ToListAsync();
+	}
+
+	public async Task<IEnumerable<Product>> GetActiveRelatedCandidatesAsync(
+		Guid productId,
+		IEnumerable<Guid> categoryIds,
+		IEnumerable<Guid> tagIds,
+		int limit)
+	{
+		var categoryIdList = categoryIds.Distinct().ToList();
+		var tagIdList = tagIds.Distinct().ToList();
+		if (categoryIdList.Count == 0 && tagIdList.Count == 0)
+		{
+			return Enumerable.Empty<Product>();
+		}
+
+		return await WithDetails()
+			.Where(p => p.Id != productId &&
+			            p.IsActive &&
+			            p.Store != null &&
+			            p.Store.IsVerified &&
+			            !p.Store.IsSuspended &&
+			            (p.ProductCategories.Any(pc => categoryIdList.Contains(pc.CategoryId)) ||
+			             p.ProductTags.Any(pt => tagIdList.Contains(pt.TagId))))
+			.OrderByDescending(p => p.CreatedAt)
+			.Take(limit)
+			.ToListAsync();
+	}
+
+	/// <summary>
+	/// Active products matching the search text, loaded with the SKU attributes and tags the search page filters need.
+	/// </summary>
+	public async Task<IEnumerable<Product>> SearchActiveWithSkusAsync(string query)
+	{
+		if (string.IsNullOrWhiteSpace(query))
+		{
+			return Enumerable.Empty<Product>();
+		}
+
+		var normalized = query.Trim().ToLowerInvariant();
+
+		return await _db.Products
+			.Include(p => p.Skus)
+				.ThenInclude(s => s.AttributeValues)
+					.ThenInclude(av => av.AttributeDefinition)
+			.Include(p => p.Store)
+			.Include(p => p.ProductTags)
+			.Where(p => p.IsActive && 
+			            p.Store != null && 
+			            p.Store.IsVerified && 
+			            !p.Store.IsSuspended)
+			.Where(MatchesSearchText(normalized))
+			.ToListAsync();
+	}
+
+	public async Task<IEnumerable<Product>> GetActiveByTagIdsWithSkusAsync(IEnumerable<Guid> tagIds)
+	{
+		var tagIdList = tagIds.Distinct().ToList();
+		if (tagIdList.Count == 0)
+		{
+			return Enumerable.Empty<Product>();
+		}
+
+		var query = _db.Products
+			.Include(p => p.Skus)
+				.ThenInclude(s => s.AttributeValues)
+					.ThenInclude(av => av.AttributeDefinition)
+			.Include(p => p.Store)
+			.Include(p => p.ProductTags)
+			.Where(p => p.IsActive && 
+			            p.Store != null && 
+			            p.Store.IsVerified && 
+			            !p.Store.IsSuspended);
+
+		foreach (var tagId in tagIdList)
+		{
+			query = query.Where(p => p.ProductTags.Any(pt => pt.TagId == tagId));
+		}
+
+		return await query.ToListAsync();
+	}
+
 	/// <summary>
 	/// Filters products with efficient database-level filtering using typed attribute values.
 	/// All filters (including numeric) are now executed at the database level for maximum performance.
 	/// </summary>
 	public async Task<(IEnumerable<Product> Products, int TotalCount)> FilterAsync(
 		Guid? categoryId,
+		Guid? storeId,
+		string? searchQuery,
 		List<Guid>? tagIds,
 		decimal? minPrice,
 		decimal? maxPrice,
 		bool? inStock,
+		decimal? minRating,
 		Dictionary<string, object>? attributeFilters,
 		string sort,
 		int page,
@@ -158,6 +293,19 @@ public class ProductRepository : IProductRepository
 			query = query.Where(p => p.ProductCategories.Any(pc => pc.CategoryId == categoryId.Value));
 		}
 
+		// Filter by store (storefront listing)
+		if (storeId.HasValue && storeId.Value != Guid.Empty)
+		{
+			query = query.Where(p => p.StoreId == storeId.Value);
+		}
+
+		// Filter by search text (same matching as SearchAsync)
+		var normalizedSearch = string.IsNullOrWhiteSpace(searchQuery) ? null : searchQuery.Trim().ToLowerInvariant();
+		if (normalizedSearch is not null)
+		{
+			query = query.Where(MatchesSearchText(normalizedSearch));
+		}
+
 		// Filter by tags (AND logic - product must have ALL specified tags)
 		if (tagIds is not null && tagIds.Count > 0)
 		{
@@ -184,6 +332,12 @@ public class ProductRepository : IProductRepository
 			query = query.Where(p => p.Skus.Any(s => s.StockQuantity > 0));
 		}
 
+		// Filter by average review rating
+		if (minRating.HasValue)
+		{
+			query = query.Where(p => p.AverageRating >= minRating.Value);
+		}
+
 		// ⭐ TYPED ATTRIBUTE FILTERING - All done at database level! ⭐
 		if (attributeFilters is not null && attributeFilters.Count > 0)
 		{
@@ -194,26 +348,35 @@ public class ProductRepository : IProductRepository
 
 				if (filter is Dictionary<string, object> filterDict)
 				{
-					// String IN filter: Check if product has any SKU with attribute value in list
+					// String IN filter: Check if product has any SKU with attribute value in list.
+					// Boolean attributes are offered as "True"/"False" options, so they match here too.
+					// Array attributes are kept only in the JSONB column: `?|` tests whether the SKU's JSONB value
+					// (an array, or a single string of an older SKU) holds any of the values.
 					if (filterDict.TryGetValue("In", out var inValues) && inValues is List<string> inList && inList.Count > 0)
 					{
+						var inBooleans = ParseBooleans(inList);
+						var inArray = inList.ToArray();
 						query = query.Where(p => p.Skus.Any(s => 
 							s.AttributeValues.Any(av => 
 								av.AttributeDefinition.Code == code &&
-								av.ValueString != null &&
-								inList.Contains(av.ValueString)
-							)
+								((av.ValueString != null && inList.Contains(av.ValueString)) ||
+								 (av.ValueBoolean.HasValue && inBooleans.Contains(av.ValueBoolean.Value)))
+							) ||
+							(s.Attributes != null && EF.Functions.JsonExistAny(s.Attributes.RootElement.GetProperty(code), inArray))
 						));
 					}
 
-					// String EQUAL filter: Exact string match
+					// String EQUAL filter: Exact string match (or "True"/"False" for boolean attributes, or an element of an array attribute)
 					if (filterDict.TryGetValue("Equal", out var equalValue) && equalValue is string equalStr && !string.IsNullOrEmpty(equalStr))
 					{
+						var equalBooleans = ParseBooleans([equalStr]);
 						query = query.Where(p => p.Skus.Any(s => 
 							s.AttributeValues.Any(av => 
 								av.AttributeDefinition.Code == code &&
-								av.ValueString == equalStr
-							)
+								(av.ValueString == equalStr ||
+								 (av.ValueBoolean.HasValue && equalBooleans.Contains(av.ValueBoolean.Value)))
+							) ||
+							(s.Attributes != null && EF.Functions.JsonExists(s.Attributes.RootElement.GetProperty(code), equalStr))
 						));
 					}
 
@@ -274,9 +437,16 @@ public class ProductRepository : IProductRepository
 		// Apply sorting
 		query = sort.ToLowerInvariant() switch
 		{
+			// Name prefix matches first, then name matches, then description/SKU matches
+			"relevance" when normalizedSearch is not null => query
+				.OrderByDescending(p => p.Name.ToLower().StartsWith(normalizedSearch))
+				.ThenByDescending(p => p.Name.ToLower().Contains(normalizedSearch))
+				.ThenByDescending(p => p.CreatedAt),
 			"newest" => query.OrderByDescending(p => p.CreatedAt),
 			"priceasc" => query.OrderBy(p => p.Skus.Min(s => s.Price)),
 			"pricedesc" => query.OrderByDescending(p => p.Skus.Max(s => s.Price)),
+			// Best rated first; more reviews make the same average more trustworthy
+			"rating" => query.OrderByDescending(p => p.AverageRating).ThenByDescending(p => p.ReviewCount),
 			_ => query.OrderByDescending(p => p.CreatedAt) // Default to newest
 		};
 
@@ -289,6 +459,15 @@ public class ProductRepository : IProductRepository
 		return (products, totalCount);
 	}
 
+	private static List<bool> ParseBooleans(IEnumerable<string> values)
+	{
+		return values
+			.Select(v => bool.TryParse(v, out var parsed) ? (bool?)parsed : null)
+			.Where(v => v.HasValue)
+			.Select(v => v!.Value)
+			.ToList();
+	}
+
 	public void Add(Product product)
 	{
 		_db.Products.Add(product);
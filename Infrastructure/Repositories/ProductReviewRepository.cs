@@ -0,0 +1,190 @@
+using Domain.Entities;
+using Domain.Enums;
+using Domain.Interfaces.Repositories;
+using Microsoft.EntityFrameworkCore;
+
+namespace Infrastructure.Repositories;
+
+/// <summary>
+/// Repository для роботи з відгуками про товари
+/// </summary>
+public class ProductReviewRepository : IProductReviewRepository
+{
+	private readonly AppDbContext _db;
+
+	public ProductReviewRepository(AppDbContext db)
+	{
+		_db = db;
+	}
+
+	private IQueryable<ProductReview> WithDetails()
+	{
+		return _db.ProductReviews
+			.Include(r => r.User)
+			.Include(r => r.Product)
+			.Include(r => r.Photos)
+				.ThenInclude(p => p.MediaImage);
+	}
+
+	public async Task<ProductReview?> GetByIdAsync(Guid id)
+	{
+		return await WithDetails()
+			.Include(r => r.Product)
+				.ThenInclude(p => p!.Store)
+			.FirstOrDefaultAsync(r => r.Id == id);
+	}
+
+	public async Task<ProductReview?> GetByUserAndProductAsync(Guid userId, Guid productId)
+	{
+		return await _db.ProductReviews
+			.FirstOrDefaultAsync(r => r.UserId == userId && r.ProductId == productId);
+	}
+
+	public async Task<(IEnumerable<ProductReview> Reviews, int TotalCount)> GetPublishedByProductIdAsync(
+		Guid productId,
+		int? rating,
+		string? sort,
+		int page,
+		int pageSize)
+	{
+		var query = WithDetails()
+			.AsNoTracking()
+			.Where(r => r.ProductId == productId && r.Status == ReviewStatus.Published);
+
+		if (rating.HasValue)
+		{
+			query = query.Where(r => r.Rating == rating.Value);
+		}
+
+		var totalCount = await query.CountAsync();
+
+		query = (sort ?? string.Empty).ToLowerInvariant() switch
+		{
+			"helpful" => query.OrderByDescending(r => r.HelpfulCount).ThenByDescending(r => r.CreatedAt),
+			"ratingdesc" => query.OrderByDescending(r => r.Rating).ThenByDescending(r => r.CreatedAt),
+			"ratingasc" => query.OrderBy(r => r.Rating).ThenByDescending(r => r.CreatedAt),
+			_ => query.OrderByDescending(r => r.CreatedAt)
+		};
+
+		var reviews = await query
+			.Skip((page - 1) * pageSize)
+			.Take(pageSize)
+			.ToListAsync();
+
+		return (reviews, totalCount);
+	}
+
+	public async Task<ProductRatingSummary> GetRatingSummaryAsync(Guid productId)
+	{
+		var counts = await _db.ProductReviews
+			.Where(r => r.ProductId == productId && r.Status == ReviewStatus.Published)
+			.GroupBy(r => r.Rating)
+			.Select(g => new { Rating = g.Key, Count = g.Count() })
+			.ToListAsync();
+
+		var reviewCount = counts.Sum(c => c.Count);
+		return new ProductRatingSummary
+		{
+			ReviewCount = reviewCount,
+			AverageRating = reviewCount == 0 ? 0 : (decimal)counts.Sum(c => c.Rating * c.Count) / reviewCount,
+			Distribution = Enumerable.Range(ProductReview.MinRating, ProductReview.MaxRating - ProductReview.MinRating + 1)
+				.ToDictionary(stars => stars, stars => counts.FirstOrDefault(c => c.Rating == stars)?.Count ?? 0)
+		};
+	}
+
+	public async Task<IEnumerable<ProductReview>> GetByUserIdAsync(Guid userId)
+	{
+		return await WithDetails()
+			.AsNoTracking()
+			.Where(r => r.UserId == userId)
+			.OrderByDescending(r => r.CreatedAt)
+			.ToListAsync();
+	}
+
+	public async Task<(IEnumerable<ProductReview> Reviews, int TotalCount)> GetByStoreIdAsync(
+		Guid storeId,
+		bool? replied,
+		int page,
+		int pageSize)
+	{
+		var query = WithDetails()
+			.AsNoTracking()
+			.Where(r => r.Product!.StoreId == storeId);
+
+		if (replied.HasValue)
+		{
+			query = replied.Value
+				? query.Where(r => r.SellerReply != null)
+				: query.Where(r => r.SellerReply == null);
+		}
+
+		var totalCount = await query.CountAsync();
+		var reviews = await query
+			.OrderByDescending(r => r.CreatedAt)
+			.Skip((page - 1) * pageSize)
+			.Take(pageSize)
+			.ToListAsync();
+
+		return (reviews, totalCount);
+	}
+
+	public async Task<(IEnumerable<ProductReview> Reviews, int TotalCount)> GetAllAsync(
+		ReviewStatus? status,
+		int? maxRating,
+		int page,
+		int pageSize)
+	{
+		var query = WithDetails().AsNoTracking();
+
+		if (status.HasValue)
+		{
+			query = query.Where(r => r.Status == status.Value);
+		}
+
+		if (maxRating.HasValue)
+		{
+			query = query.Where(r => r.Rating <= maxRating.Value);
+		}
+
+		var totalCount = await query.CountAsync();
+		var reviews = await query
+			.OrderByDescending(r => r.CreatedAt)
+			.Skip((page - 1) * pageSize)
+			.Take(pageSize)
+			.ToListAsync();
+
+		return (reviews, totalCount);
+	}
+
+	public async Task<ProductReviewVote?> GetVoteAsync(Guid reviewId, Guid userId)
+	{
+		return await _db.ProductReviewVotes
+			.FirstOrDefaultAsync(v => v.ReviewId == reviewId && v.UserId == userId);
+	}
+
+	public async Task<HashSet<Guid>> GetVotedReviewIdsAsync(Guid userId, IEnumerable<Guid> reviewIds)
+	{
+		var ids = reviewIds.ToList();
+		var voted = await _db.ProductReviewVotes
+			.Where(v => v.UserId == userId && ids.Contains(v.ReviewId))
+			.Select(v => v.ReviewId)
+			.ToListAsync();
+
+		return voted.ToHashSet();
+	}
+
+	public void Add(ProductReview review)
+	{
+		_db.ProductReviews.Add(review);
+	}
+
+	public void AddVote(ProductReviewVote vote)
+	{
+		_db.ProductReviewVotes.Add(vote);
+	}
+
+	public void RemoveVote(ProductReviewVote vote)
+	{
+		_db.ProductReviewVotes.Remove(vote);
+	}
+}
@@ -0,0 +1,41 @@
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using Microsoft.EntityFrameworkCore;
+
+namespace Infrastructure.Repositories;
+
+/// <summary>
+/// Repository для роботи з нещодавно переглянутими товарами
+/// </summary>
+public class RecentlyViewedProductRepository : IRecentlyViewedProductRepository
+{
+	private readonly AppDbContext _db;
+
+	public RecentlyViewedProductRepository(AppDbContext db)
+	{
+		_db = db;
+	}
+
+	public async Task<List<RecentlyViewedProduct>> GetByUserIdAsync(Guid userId)
+	{
+		return await _db.RecentlyViewedProducts
+			.Where(e => e.UserId == userId)
+			.OrderByDescending(e => e.ViewedAt)
+			.ToListAsync();
+	}
+
+	public void Add(RecentlyViewedProduct entry)
+	{
+		_db.RecentlyViewedProducts.Add(entry);
+	}
+
+	public void Remove(RecentlyViewedProduct entry)
+	{
+		_db.RecentlyViewedProducts.Remove(entry);
+	}
+
+	public void RemoveRange(IEnumerable<RecentlyViewedProduct> entries)
+	{
+		_db.RecentlyViewedProducts.RemoveRange(entries);
+	}
+}
@@ -0,0 +1,41 @@
+using Domain.Entities;
+using Domain.Interfaces.Repositories;
+using Microsoft.EntityFrameworkCore;
+
+namespace Infrastructure.Repositories;
+
+/// <summary>
+/// Repository для роботи з особистою історією пошуку
+/// </summary>
+public class SearchHistoryRepository : ISearchHistoryRepository
+{
+	private readonly AppDbContext _db;
+
+	public SearchHistoryRepository(AppDbContext db)
+	{
+		_db = db;
+	}
+
+	public async Task<List<SearchHistoryEntry>> GetByUserIdAsync(Guid userId)
+	{
+		return await _db.SearchHistoryEntries
+			.Where(e => e.UserId == userId)
+			.OrderByDescending(e => e.SearchedAt)
+			.ToListAsync();
+	}
+
+	public void Add(SearchHistoryEntry entry)
+	{
+		_db.SearchHistoryEntries.Add(entry);
+	}
+
+	public void Remove(SearchHistoryEntry entry)
+	{
+		_db.SearchHistoryEntries.Remove(entry);
+	}
+
+	public void RemoveRange(IEnumerable<SearchHistoryEntry> entries)
+	{
+		_db.SearchHistoryEntries.RemoveRange(entries);
+	}
+}
@@ -42,17 +42,14 @@ public class StoreRepository : IStoreRepository
 		var normalized = slug.Trim();
 		return await _db.Stores
 			.Include(s => s.User)
-			.Include(s => s.Products)
-				.ThenInclude(p => p.Skus)
-			.Include(s => s.Products)
-				.ThenInclude(p => p.ProductCategories)
-					.ThenInclude(pc => pc.Category)
-			.Include(s => s.Products)
-				.ThenInclude(p => p.ProductTags)
-					.ThenInclude(pt => pt.Tag)
 			.FirstOrDefaultAsync(s => s.Slug == normalized);
 	}
 
+	public async Task<int> CountActiveProductsAsync(Guid storeId)
+	{
+		return await _db.Products.CountAsync(p => p.StoreId == storeId && p.IsActive);
+	}
+
 	public async Task<IEnumerable<Store>> GetAllAsync(bool includeUnverified = false)
 	{
 		var query = _db.Stores
@@ -68,6 +65,26 @@ public class StoreRepository : IStoreRepository
 		return await query.ToListAsync();
 	}
 
+	public async Task<IEnumerable<(Store Store, int ActiveProductCount)>> SearchAsync(string query, int limit = 5)
+	{
+		if (string.IsNullOrWhiteSpace(query))
+		{
+			return Enumerable.Empty<(Store, int)>();
+		}
+
+		var normalized = query.Trim().ToLowerInvariant();
+
+		var matches = await _db.Stores
+			.Where(s => s.IsVerified && !s.IsSuspended && s.Name.ToLower().Contains(normalized))
+			.OrderByDescending(s => s.Name.ToLower().StartsWith(normalized))
+			.ThenBy(s => s.Name)
+			.Take(limit)
+			.Select(s => new { Store = s, Count = s.Products.Count(p => p.IsActive) })
+			.ToListAsync();
+
+		return matches.Select(m => (m.Store, m.Count));
+	}
+
 	public void Add(Store store)
 	{
 		_db.Stores.Add(store);